@@ -0,0 +1,92 @@
+/**
+ * Tests for per-chain gas policies
+ *
+ * Policies live in spending.json (CLARA_SPENDING_FILE here). The urgency
+ * tier picks the estimation parameters, estimated fees are clamped to the
+ * fee cap unless the base fee is already above it, and explicit fees or a
+ * worst-case gas cost over the caps are refused.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import { parseGwei, type PublicClient } from 'viem';
+import { applyGasPolicy, formatAppliedGas } from '../para/gas-policy.js';
+import { getGasPolicy, setGasPolicy } from '../storage/spending.js';
+import { ClaraErrorCode } from '../errors.js';
+
+const estimateGas = vi.fn();
+
+vi.mock('../para/gas.js', () => ({
+  estimateGas: (...args: unknown[]) => estimateGas(...args),
+}));
+
+const client = {} as PublicClient;
+
+function networkFees(baseGwei: string, priorityGwei: string, margin = 2) {
+  const baseFeePerGas = parseGwei(baseGwei);
+  const maxPriorityFeePerGas = parseGwei(priorityGwei);
+  return {
+    baseFeePerGas,
+    maxPriorityFeePerGas,
+    maxFeePerGas: baseFeePerGas * BigInt(margin) + maxPriorityFeePerGas,
+  };
+}
+
+describe('gas policy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(process.env.CLARA_SPENDING_FILE!, { force: true });
+    estimateGas.mockResolvedValue(networkFees('20', '1'));
+  });
+
+  it('estimates with the requested tier, defaulting to the chain policy', async () => {
+    const normal = await applyGasPolicy(client, 'ethereum', 21_000n);
+    expect(normal).toMatchObject({ tier: 'normal', maxFeePerGas: parseGwei('41'), capped: false });
+    expect(estimateGas).toHaveBeenLastCalledWith(client, { safetyMargin: 2, priorityFeePercentile: 75 });
+
+    await applyGasPolicy(client, 'ethereum', 21_000n, {}, 'fast');
+    expect(estimateGas).toHaveBeenLastCalledWith(client, { safetyMargin: 3, priorityFeePercentile: 90 });
+
+    setGasPolicy('ethereum', { urgency: 'slow' });
+    expect((await applyGasPolicy(client, 'ethereum', 21_000n)).tier).toBe('slow');
+    expect(getGasPolicy('base').urgency).toBe('normal');
+  });
+
+  it('clamps estimated fees to the cap while the base fee is under it', async () => {
+    estimateGas.mockResolvedValue(networkFees('60', '5'));
+
+    const gas = await applyGasPolicy(client, 'ethereum', 21_000n);
+
+    // 2 × 60 + 5 = 125 gwei, capped at the default 100; the tip fits under it
+    expect(gas).toMatchObject({ maxFeePerGas: parseGwei('100'), maxPriorityFeePerGas: parseGwei('5'), capped: true });
+    expect(formatAppliedGas(gas)).toBe('normal tier · max 100 gwei (capped by gas policy)');
+  });
+
+  it('refuses when the base fee is already above the cap', async () => {
+    setGasPolicy('ethereum', { maxFeeGwei: '30' });
+    estimateGas.mockResolvedValue(networkFees('35', '1'));
+
+    await expect(applyGasPolicy(client, 'ethereum', 21_000n))
+      .rejects.toMatchObject({ code: ClaraErrorCode.SPENDING_LIMIT, message: expect.stringContaining('above the 30 gwei cap') });
+  });
+
+  it('checks explicit fees without re-estimating', async () => {
+    const fees = { maxFeePerGas: parseGwei('50'), maxPriorityFeePerGas: parseGwei('2') };
+    expect(await applyGasPolicy(client, 'ethereum', 21_000n, fees)).toMatchObject({ tier: 'custom', ...fees });
+    expect(estimateGas).not.toHaveBeenCalled();
+
+    await expect(applyGasPolicy(client, 'ethereum', 21_000n, { maxFeePerGas: parseGwei('150') }))
+      .rejects.toThrow('above the 100 gwei cap on ethereum');
+  });
+
+  it('refuses a worst-case gas cost over the native and USD caps', async () => {
+    // 2,000,000 gas × 41 gwei = 0.082 ETH > 0.05
+    await expect(applyGasPolicy(client, 'ethereum', 2_000_000n))
+      .rejects.toThrow('above the 0.05 ETH per-transaction cap');
+
+    // 500,000 × 41 gwei = 0.0205 ETH ≈ $61.50 at $3000
+    setGasPolicy('ethereum', { maxGasUsd: '50', nativePriceUsd: '3000' });
+    await expect(applyGasPolicy(client, 'ethereum', 500_000n))
+      .rejects.toThrow('$61.50');
+  });
+});
@@ -2,58 +2,55 @@
  * Tests for smart gas estimation
  */
 
-import { describe, it, expect, vi } from 'vitest';
-import { estimateGas, estimateGasLimit, type GasEstimate } from '../para/gas.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { estimateGas, estimateGasLimit, clearFeeCache, type GasEstimate } from '../para/gas.js';
 import type { PublicClient } from 'viem';
 
 // Mock public client for testing
 function createMockClient(options: {
   baseFeePerGas?: bigint;
-  blockNumber?: bigint;
-  transactions?: Array<{ maxPriorityFeePerGas?: bigint }>;
+  /** Priority fee per block (same at every percentile) */
+  rewards?: bigint[];
   gasPrice?: bigint;
+  chainId?: number;
 }): PublicClient {
   const {
     baseFeePerGas = 1_000_000_000n, // 1 gwei
-    blockNumber = 1000n,
-    transactions = [],
+    rewards = [],
     gasPrice = 2_000_000_000n, // 2 gwei
+    chainId,
   } = options;
 
   return {
-    getBlock: vi.fn().mockImplementation(async ({ blockTag, blockNumber: bn, includeTransactions }) => {
-      if (blockTag === 'latest' || !bn) {
-        return {
-          baseFeePerGas,
-          number: blockNumber,
-          transactions: includeTransactions ? transactions : [],
-        };
-      }
-      return {
-        baseFeePerGas,
-        number: bn,
-        transactions: includeTransactions ? transactions : [],
-      };
-    }),
-    getBlockNumber: vi.fn().mockResolvedValue(blockNumber),
+    chain: chainId === undefined ? undefined : { id: chainId },
+    getFeeHistory: vi.fn().mockImplementation(async ({ rewardPercentiles }) => ({
+      baseFeePerGas: [...rewards.map(() => baseFeePerGas), baseFeePerGas],
+      reward: rewards.map((fee) => rewardPercentiles.map(() => fee)),
+    })),
+    getBlock: vi.fn().mockResolvedValue({ baseFeePerGas, number: 1000n }),
+    estimateMaxPriorityFeePerGas: vi.fn().mockResolvedValue(50_000_000n), // 0.05 gwei
     getGasPrice: vi.fn().mockResolvedValue(gasPrice),
     estimateGas: vi.fn().mockResolvedValue(21000n),
   } as unknown as PublicClient;
 }
 
 describe('Gas Estimation', () => {
+  beforeEach(() => {
+    clearFeeCache();
+  });
+
   describe('estimateGas', () => {
     it('should return valid EIP-1559 gas parameters', async () => {
       const client = createMockClient({
         baseFeePerGas: 1_000_000_000n, // 1 gwei
-        transactions: [
-          { maxPriorityFeePerGas: 100_000_000n }, // 0.1 gwei
-          { maxPriorityFeePerGas: 200_000_000n }, // 0.2 gwei
-          { maxPriorityFeePerGas: 150_000_000n }, // 0.15 gwei
+        rewards: [
+          100_000_000n, // 0.1 gwei
+          200_000_000n, // 0.2 gwei
+          150_000_000n, // 0.15 gwei
         ],
       });
 
-      const result = await estimateGas(client);
+      const result: GasEstimate = await estimateGas(client);
 
       expect(result.baseFeePerGas).toBe(1_000_000_000n);
       expect(result.maxFeePerGas).toBeGreaterThan(result.baseFeePerGas);
@@ -62,30 +59,81 @@ describe('Gas Estimation', () => {
       expect(result.formatted.maxFeeGwei).toBeDefined();
     });
 
+    it('should use the median of recent blocks from one eth_feeHistory call', async () => {
+      const client = createMockClient({
+        rewards: [100_000_000n, 0n, 300_000_000n, 5_000_000_000n, 200_000_000n],
+      });
+
+      const result = await estimateGas(client, { priorityFeePercentile: 90, blocksToSample: 5 });
+
+      // Empty block (0) ignored; median of 0.1, 0.2, 0.3, 5 gwei, robust to the outlier
+      expect(result.maxPriorityFeePerGas).toBe(300_000_000n);
+      expect(client.getFeeHistory).toHaveBeenCalledTimes(1);
+      expect(client.getFeeHistory).toHaveBeenCalledWith({
+        blockCount: 5,
+        rewardPercentiles: [10, 25, 50, 75, 90],
+        blockTag: 'latest',
+      });
+      expect(client.getBlock).not.toHaveBeenCalled();
+    });
+
     it('should apply safety margin to base fee', async () => {
       const baseFee = 1_000_000_000n; // 1 gwei
       const client = createMockClient({
         baseFeePerGas: baseFee,
-        transactions: [{ maxPriorityFeePerGas: 100_000_000n }],
+        rewards: [100_000_000n],
       });
 
       const result = await estimateGas(client, { safetyMargin: 2 });
 
       // maxFee should be at least 2 * baseFee (plus priority fee)
       expect(result.maxFeePerGas).toBeGreaterThanOrEqual(baseFee * 2n);
+      expect(result.maxFeePerGas).toBe(baseFee * 2n + 100_000_000n);
     });
 
-    it('should use fallback when no EIP-1559 transactions found', async () => {
+    it('should fall back to eth_maxPriorityFeePerGas when blocks have no rewards', async () => {
       const client = createMockClient({
         baseFeePerGas: 1_000_000_000n,
-        transactions: [], // No transactions to sample
+        rewards: [0n, 0n], // Empty blocks
       });
 
       const result = await estimateGas(client);
 
-      // Should still return valid values using fallback
+      // Should still return valid values using the node's suggestion
+      expect(result.maxPriorityFeePerGas).toBe(50_000_000n);
       expect(result.maxFeePerGas).toBeGreaterThan(0n);
-      expect(result.maxPriorityFeePerGas).toBeGreaterThan(0n);
+    });
+
+    it('should degrade to the latest block when eth_feeHistory is unavailable', async () => {
+      const client = createMockClient({ baseFeePerGas: 3_000_000_000n });
+      (client.getFeeHistory as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('method not found'));
+
+      const result = await estimateGas(client);
+
+      expect(result.baseFeePerGas).toBe(3_000_000_000n);
+      expect(result.maxPriorityFeePerGas).toBe(50_000_000n);
+    });
+
+    it('should share fee data per chain for a few seconds', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const preflight = createMockClient({ chainId: 8453, rewards: [100_000_000n] });
+        const send = createMockClient({ chainId: 8453, rewards: [100_000_000n] });
+        const other = createMockClient({ chainId: 10, rewards: [100_000_000n] });
+
+        await estimateGas(preflight);
+        await estimateGas(send, { safetyMargin: 3, priorityFeePercentile: 90 });
+        await estimateGas(other);
+        expect(preflight.getFeeHistory).toHaveBeenCalledTimes(1);
+        expect(send.getFeeHistory).not.toHaveBeenCalled();
+        expect(other.getFeeHistory).toHaveBeenCalledTimes(1);
+
+        vi.setSystemTime(Date.now() + 30_000);
+        await estimateGas(send);
+        expect(send.getFeeHistory).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
     });
 
     it('should fallback to legacy gas price when no EIP-1559 support', async () => {
@@ -95,7 +143,8 @@ describe('Gas Estimation', () => {
         gasPrice,
       });
 
-      // Override getBlock to return no baseFeePerGas
+      // Fee history unsupported and the latest block has no baseFeePerGas
+      (client.getFeeHistory as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('method not found'));
       (client.getBlock as ReturnType<typeof vi.fn>).mockResolvedValue({
         baseFeePerGas: null,
         number: 1000n,
@@ -0,0 +1,263 @@
+/**
+ * Tests for the embedded event indexer
+ *
+ * Drives syncIndex() with an in-memory chain: backfill, cursor persistence,
+ * clone discovery within a single range, and reorg rollback.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Hex } from 'viem';
+import {
+  syncIndex,
+  resetIndexer,
+  getIndexStatus,
+  queryBounties,
+  getReputation,
+  getAgentProfile,
+  type IndexerClient,
+} from '../indexer/index.js';
+import { getClaraContracts } from '../config/clara-contracts.js';
+
+// ─── Fake Chain ─────────────────────────────────────────────────────
+
+const contracts = getClaraContracts();
+const START = Number(contracts.registryDeployBlock);
+const DEPLOY = Number(contracts.bounty.deployBlock);
+const POSTER = '0x00000000000000000000000000000000000000aa';
+const WORKER = '0x00000000000000000000000000000000000000bb';
+const BOUNTY = '0x00000000000000000000000000000000000000b1';
+
+interface FakeLog {
+  address: string;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: number;
+  logIndex: number;
+}
+
+class FakeChain implements IndexerClient {
+  head = DEPLOY + 100;
+  logs: FakeLog[] = [];
+  /** Bumping the fork id changes every block hash from `forkBlock` upward */
+  forkBlock = Infinity;
+  forkId = 0;
+  getLogsCalls = 0;
+
+  hashOf(n: number): Hex {
+    const fork = n >= this.forkBlock ? this.forkId : 0;
+    return `0x${n.toString(16).padStart(56, '0')}${fork.toString(16).padStart(8, '0')}` as Hex;
+  }
+
+  async getBlockNumber() {
+    return BigInt(this.head);
+  }
+
+  async getBlock({ blockNumber }: { blockNumber: bigint }) {
+    return { hash: this.hashOf(Number(blockNumber)), timestamp: 1_700_000_000n + blockNumber };
+  }
+
+  async getLogs({ address, events, fromBlock, toBlock }: Parameters<IndexerClient['getLogs']>[0]) {
+    this.getLogsCalls++;
+    const addresses = address.map((a) => a.toLowerCase());
+    const names = events.map((e) => e.name);
+    return this.logs
+      .filter((l) => l.blockNumber >= Number(fromBlock) && l.blockNumber <= Number(toBlock))
+      .filter((l) => addresses.includes(l.address.toLowerCase()) && names.includes(l.eventName))
+      .map((l) => ({
+        ...l,
+        blockNumber: BigInt(l.blockNumber),
+        transactionHash: `0x${'1'.repeat(64)}`,
+      })) as any;
+  }
+}
+
+function bountyCreated(block: number): FakeLog {
+  return {
+    address: contracts.bounty.factory,
+    eventName: 'BountyCreated',
+    blockNumber: block,
+    logIndex: 0,
+    args: {
+      bountyAddress: BOUNTY,
+      poster: POSTER,
+      token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      amount: 50_000_000n,
+      posterBond: 5_000_000n,
+      bondRate: 1000n,
+      deadline: 2_000_000_000n,
+      taskURI: 'ipfs://task',
+      skillTags: ['Solidity'],
+    },
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Event Indexer', () => {
+  let dir: string;
+  let chain: FakeChain;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'clara-index-'));
+    process.env.CLARA_INDEX_PATH = join(dir, 'bounties.json');
+    resetIndexer();
+    chain = new FakeChain();
+  });
+
+  afterEach(() => {
+    resetIndexer();
+    delete process.env.CLARA_INDEX_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('backfills from the registry deploy block and stops at head minus confirmations', async () => {
+    chain.logs.push(bountyCreated(DEPLOY + 5));
+
+    const result = await syncIndex({ client: chain });
+
+    expect(result.fromBlock).toBe(START);
+    expect(getIndexStatus().cursorBlock).toBe(chain.head - 10);
+    expect(queryBounties({ status: 'open', skill: 'solidity' })).toHaveLength(1);
+  });
+
+  it('picks up events from clones created in the same range', async () => {
+    chain.logs.push(bountyCreated(DEPLOY + 5));
+    chain.logs.push({
+      address: BOUNTY,
+      eventName: 'BountyClaimed',
+      blockNumber: DEPLOY + 6,
+      logIndex: 0,
+      args: { claimer: WORKER, agentId: 42n },
+    });
+
+    await syncIndex({ client: chain });
+
+    const [bounty] = queryBounties();
+    expect(bounty.status).toBe('claimed');
+    expect(bounty.claimer).toBe(WORKER);
+    expect(bounty.claimerAgentId).toBe('42');
+  });
+
+  it('persists the cursor and resumes without rescanning', async () => {
+    chain.logs.push(bountyCreated(DEPLOY + 5));
+    await syncIndex({ client: chain });
+
+    const file = JSON.parse(readFileSync(process.env.CLARA_INDEX_PATH!, 'utf-8'));
+    expect(file.cursor.blockNumber).toBe(chain.head - 10);
+    expect(file.events).toHaveLength(1);
+
+    // Fresh process: reload from disk, nothing new to scan
+    resetIndexer();
+    chain.getLogsCalls = 0;
+    const result = await syncIndex({ client: chain });
+
+    expect(result.newEvents).toBe(0);
+    expect(chain.getLogsCalls).toBe(0);
+    expect(queryBounties()).toHaveLength(1);
+  });
+
+  it('rolls back and replays when the cursor block is reorged out', async () => {
+    chain.logs.push(bountyCreated(DEPLOY + 5));
+    chain.logs.push({
+      address: BOUNTY,
+      eventName: 'WorkSubmitted',
+      blockNumber: DEPLOY + 85,
+      logIndex: 0,
+      args: { claimer: WORKER, proofURI: 'https://example.com/pr/1' },
+    });
+    await syncIndex({ client: chain });
+    expect(queryBounties()[0].status).toBe('submitted');
+
+    // Reorg drops the WorkSubmitted block
+    chain.forkBlock = DEPLOY + 40;
+    chain.forkId = 1;
+    chain.logs = chain.logs.filter((l) => l.eventName !== 'WorkSubmitted');
+
+    const result = await syncIndex({ client: chain });
+
+    expect(result.reorged).toBe(true);
+    expect(queryBounties()[0].status).toBe('open');
+    expect(getIndexStatus().cursorBlock).toBe(chain.head - 10);
+  });
+
+  it('halves the chunk size when the RPC rejects a range', async () => {
+    const original = chain.getLogs.bind(chain);
+    chain.getLogs = async (args) => {
+      if (args.toBlock - args.fromBlock >= 10_000n) throw new Error('block range too large');
+      return original(args);
+    };
+    chain.logs.push(bountyCreated(DEPLOY + 70));
+
+    await syncIndex({ client: chain, chunkSize: 20_000 });
+
+    expect(queryBounties()).toHaveLength(1);
+  });
+
+  it('keeps the completed chunks when a later one fails', async () => {
+    chain.logs.push(bountyCreated(DEPLOY + 5));
+    const original = chain.getLogs.bind(chain);
+    chain.getLogs = async (args) => {
+      if (args.toBlock >= BigInt(DEPLOY)) throw new Error('connection reset');
+      return original(args);
+    };
+
+    await expect(syncIndex({ client: chain })).rejects.toThrow('connection reset');
+
+    const file = JSON.parse(readFileSync(process.env.CLARA_INDEX_PATH!, 'utf-8'));
+    expect(file.cursor.blockNumber).toBeLessThan(DEPLOY);
+    expect(file.events).toHaveLength(0);
+
+    // Next pass resumes after the saved cursor
+    chain.getLogs = original;
+    resetIndexer();
+    const result = await syncIndex({ client: chain });
+
+    expect(result.fromBlock).toBe(file.cursor.blockNumber + 1);
+    expect(queryBounties()).toHaveLength(1);
+  });
+
+  it('rebuilds an index written in the previous format', async () => {
+    writeFileSync(process.env.CLARA_INDEX_PATH!, JSON.stringify({
+      version: 1,
+      chainId: contracts.chainId,
+      cursor: { blockNumber: DEPLOY + 50, blockHash: chain.hashOf(DEPLOY + 50) },
+      events: [],
+    }));
+
+    const result = await syncIndex({ client: chain });
+
+    expect(result.fromBlock).toBe(START);
+  });
+
+  it('aggregates ERC-8004 feedback into profiles', async () => {
+    // Registered before the marketplace existed
+    chain.logs.push({
+      address: contracts.identityRegistry,
+      eventName: 'Registered',
+      blockNumber: START + 1,
+      logIndex: 0,
+      args: { agentId: 42n, tokenURI: 'data:,', owner: WORKER },
+    });
+    for (const [i, value] of [5n, 3n].entries()) {
+      chain.logs.push({
+        address: contracts.reputationRegistry,
+        eventName: 'NewFeedback',
+        blockNumber: DEPLOY + 2 + i,
+        logIndex: 0,
+        args: {
+          agentId: 42n, clientAddress: POSTER, feedbackIndex: BigInt(i + 1), value, valueDecimals: 0,
+          tag1: 'bounty', tag2: '', endpoint: '', feedbackURI: '', feedbackHash: `0x${'0'.repeat(64)}`,
+        },
+      });
+    }
+
+    await syncIndex({ client: chain });
+
+    expect(getReputation(42)).toMatchObject({ count: 2, average: 4 });
+    expect(getAgentProfile({ address: WORKER })?.agent.agentId).toBe('42');
+    expect(existsSync(process.env.CLARA_INDEX_PATH!)).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Nonce Manager Tests
+ *
+ * Reservations persist in CLARA_NONCE_FILE (shared by every process using
+ * the wallet), are released when a broadcast fails, can be renewed by a
+ * sender that still needs them, and are reconciled
+ * against the node's pending count — including reusing a nonce whose
+ * broadcast never reached the pool (a gap).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import type { Hex } from 'viem';
+import {
+  getTrackedNonce,
+  markNonceSent,
+  releaseNonce,
+  renewNonceReservations,
+  reserveNonces,
+  resetNonceTracker,
+} from '../para/nonce.js';
+
+const CHAIN_ID = 8453;
+const ADDRESS = '0x8744baf00f5ad7ffccc56c25fa5aa9270e2caffd' as Hex;
+
+describe('nonce manager', () => {
+  let pendingCount: number;
+  const client = { getTransactionCount: vi.fn(async () => pendingCount) };
+
+  beforeEach(() => {
+    resetNonceTracker();
+    pendingCount = 42;
+    client.getTransactionCount.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reserves past in-flight nonces using the pending count', async () => {
+    const first = await reserveNonces(client, CHAIN_ID, ADDRESS);
+    markNonceSent(CHAIN_ID, ADDRESS, first);
+    const second = await reserveNonces(client, CHAIN_ID, ADDRESS);
+
+    expect([first, second]).toEqual([42, 43]);
+    expect(client.getTransactionCount).toHaveBeenCalledWith({ address: ADDRESS, blockTag: 'pending' });
+    expect(getTrackedNonce(CHAIN_ID, ADDRESS)).toBe(43);
+  });
+
+  it('reuses a released reservation instead of leaving a gap', async () => {
+    await reserveNonces(client, CHAIN_ID, ADDRESS);
+    const failed = await reserveNonces(client, CHAIN_ID, ADDRESS);
+    releaseNonce(CHAIN_ID, ADDRESS, failed);
+
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(failed);
+  });
+
+  it('reserves consecutive blocks for bundles', async () => {
+    markNonceSent(CHAIN_ID, ADDRESS, 43);
+
+    // 42 is free but 43 isn't, so a 3-step bundle starts after it
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS, 3)).toBe(44);
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(42);
+  });
+
+  it('persists state in a file other processes can read', async () => {
+    await reserveNonces(client, CHAIN_ID, ADDRESS);
+
+    const state = JSON.parse(readFileSync(process.env.CLARA_NONCE_FILE!, 'utf-8'));
+    expect(Object.keys(state[`${CHAIN_ID}:${ADDRESS}`].reserved)).toEqual(['42']);
+  });
+
+  it('forgets nonces the node has counted', async () => {
+    markNonceSent(CHAIN_ID, ADDRESS, 42);
+    markNonceSent(CHAIN_ID, ADDRESS, 43);
+    pendingCount = 44;
+
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(44);
+    expect(getTrackedNonce(CHAIN_ID, ADDRESS)).toBe(44);
+  });
+
+  it('reuses a dropped nonce at the floor after the grace period', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    markNonceSent(CHAIN_ID, ADDRESS, 42);
+    markNonceSent(CHAIN_ID, ADDRESS, 43);
+
+    // Within the grace period the RPC may just be lagging
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(44);
+    releaseNonce(CHAIN_ID, ADDRESS, 44);
+
+    // Two minutes on, 42 still isn't in the pool: it was dropped
+    vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(42);
+    // 43 may be queued behind the gap, so it stays in use
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(44);
+  });
+
+  it('keeps renewed reservations past the abandonment TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const start = await reserveNonces(client, CHAIN_ID, ADDRESS, 3);
+
+    // A bundle still waiting on its first step renews the rest
+    vi.setSystemTime(Date.now() + 4 * 60 * 1000);
+    renewNonceReservations(CHAIN_ID, ADDRESS, [start + 1, start + 2]);
+    vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+
+    // The unrenewed first reservation lapsed; the renewed ones are still held
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(start);
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(start + 3);
+  });
+
+  it('breaks a lock left by a process that exited', async () => {
+    writeFileSync(`${process.env.CLARA_NONCE_FILE}.lock`, '999999999');
+
+    expect(await reserveNonces(client, CHAIN_ID, ADDRESS)).toBe(42);
+  });
+});
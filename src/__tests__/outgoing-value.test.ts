@@ -0,0 +1,123 @@
+/**
+ * Tests for outgoing value assessment
+ *
+ * Spending limits price what calls send out of the wallet: native value,
+ * ERC-20 transfers and approvals, swap inputs on known routers, or
+ * Tenderly balance decreases when the simulation has them. Tokens pulled
+ * under an allowance granted earlier in the same bundle count once.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import { encodeFunctionData, erc20Abi, parseAbi, parseEther, type Hex } from 'viem';
+import { assessOutgoingValue, formatSpendingPreview, perCallUsd } from '../services/outgoing-value.js';
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const OTHER = '0x1234567890123456789012345678901234567890' as Hex;
+const ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Hex;
+const WETH = '0x4200000000000000000000000000000000000006' as Hex;
+
+// $3000 ETH / WETH, $1 for every 6-decimal token
+vi.mock('../services/pricing.js', () => ({
+  isNativeLike: (_chain: string, token: string) =>
+    token === 'native' || token.toLowerCase() === '0x4200000000000000000000000000000000000006',
+  priceAmount: vi.fn(async (_chain: string, token: string, raw: bigint) => {
+    const native = token === 'native' || token.toLowerCase() === '0x4200000000000000000000000000000000000006';
+    const amount = Number(raw) / (native ? 1e18 : 1e6);
+    return { token, symbol: native ? 'ETH' : 'USDC', amount: String(amount), usd: amount * (native ? 3000 : 1) };
+  }),
+}));
+
+const SWAP_ROUTER_02 = parseAbi([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+]);
+
+function transfer(amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [OTHER, amount] });
+}
+
+function approve(spender: Hex, amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, amount] });
+}
+
+function swap(tokenIn: Hex, amountIn: bigint): Hex {
+  return encodeFunctionData({
+    abi: SWAP_ROUTER_02,
+    functionName: 'exactInputSingle',
+    args: [{ tokenIn, tokenOut: tokenIn === USDC ? WETH : USDC, fee: 500, recipient: WALLET, amountIn, amountOutMinimum: 0n, sqrtPriceLimitX96: 0n }],
+  });
+}
+
+describe('outgoing value', () => {
+  beforeEach(() => {
+    rmSync(process.env.CLARA_SPENDING_FILE!, { force: true });
+  });
+
+  it('prices native value and ERC-20 transfers out of the wallet', async () => {
+    const transferFrom = (from: Hex) =>
+      encodeFunctionData({ abi: erc20Abi, functionName: 'transferFrom', args: [from, OTHER, 3_000_000n] });
+
+    const value = await assessOutgoingValue('base', WALLET, [
+      { to: OTHER, value: parseEther('0.001') },
+      { to: USDC, value: 0n, data: transfer(2_000_000n) },
+      { to: USDC, value: 0n, data: transferFrom(WALLET) },
+      { to: USDC, value: 0n, data: transferFrom(OTHER) },
+    ]);
+
+    expect(perCallUsd(value)).toEqual([3, 2, 3, 0]);
+    expect(value.usd).toBe(8);
+  });
+
+  it('counts approvals, and swaps under them once', async () => {
+    const approveThenSwap = await assessOutgoingValue('base', WALLET, [
+      { to: USDC, value: 0n, data: approve(ROUTER, 10_000_000n) },
+      { to: ROUTER, value: 0n, data: swap(USDC, 10_000_000n) },
+    ]);
+    expect(perCallUsd(approveThenSwap)).toEqual([10, 0]);
+
+    // Standing allowance: the swap input counts
+    const swapOnly = await assessOutgoingValue('base', WALLET, [{ to: ROUTER, value: 0n, data: swap(USDC, 4_000_000n) }]);
+    expect(swapOnly.usd).toBe(4);
+
+    // Paying ETH as value: the WETH input leg is the same money
+    const fromEth = await assessOutgoingValue('base', WALLET, [{ to: ROUTER, value: parseEther('0.01'), data: swap(WETH, parseEther('0.01')) }]);
+    expect(fromEth.usd).toBe(30);
+
+    // Unknown contracts aren't decoded as routers
+    const unknown = await assessOutgoingValue('base', WALLET, [{ to: OTHER, value: 0n, data: swap(USDC, 4_000_000n) }]);
+    expect(unknown.usd).toBe(0);
+  });
+
+  it('uses Tenderly balance decreases over calldata when available', async () => {
+    const value = await assessOutgoingValue('base', WALLET, [{
+      to: ROUTER,
+      value: 0n,
+      data: swap(USDC, 99_000_000n),
+      simulation: {
+        success: true,
+        gasEstimate: 150_000n,
+        gasEstimateFormatted: '150,000',
+        provider: 'tenderly',
+        balanceChanges: [
+          { token: USDC, symbol: 'USDC', decimals: 6, rawAmount: '7000000', formattedAmount: '7', direction: 'decrease' },
+          { token: '', symbol: 'ETH', decimals: 18, rawAmount: '1000000000000000', formattedAmount: '0.001', direction: 'decrease' },
+          { token: WETH, symbol: 'WETH', decimals: 18, rawAmount: '2000000000000000', formattedAmount: '0.002', direction: 'increase' },
+        ],
+      },
+    }]);
+
+    expect(value.perCall[0].map((p) => [p.token, p.usd])).toEqual([[USDC, 7], ['native', 3]]);
+  });
+
+  it('previews the limit check for prepared calls', async () => {
+    const small = await assessOutgoingValue('base', WALLET, [{ to: USDC, value: 0n, data: transfer(500_000n) }]);
+    expect(formatSpendingPreview(small)).toBe('**Spends:** ~$0.50 (within limits, $10.00 left today)');
+
+    const large = await assessOutgoingValue('base', WALLET, [{ to: USDC, value: 0n, data: transfer(5_000_000n) }]);
+    expect(formatSpendingPreview(large)).toContain('🛑 **Over spending limits:** Amount $5.00 exceeds per-transaction limit');
+
+    const nothing = await assessOutgoingValue('base', WALLET, [{ to: OTHER, value: 0n, data: '0x12345678' }]);
+    expect(formatSpendingPreview(nothing)).toBe('');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for the spending policy engine
+ *
+ * ~/.clara/policy.json rules are checked in order — hours, recipients,
+ * calls, then USD caps per scope over rolling windows — and the first
+ * failing rule is named. An unreadable policy refuses everything.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { encodeFunctionData, erc20Abi, type Hex } from 'viem';
+import { clearPolicyNameCache, evaluatePolicy, type PolicyCall, type PolicyPayment } from '../services/policy.js';
+import { getSpendingHistory, getSpendingLimits, recordSpending, type SpendingRecord } from '../storage/spending.js';
+import type { SpendingPolicy } from '../storage/policy.js';
+
+const ALICE = '0x1111111111111111111111111111111111111111' as Hex;
+const MALLORY = '0x2222222222222222222222222222222222222222' as Hex;
+const ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Hex;
+
+// Test files run in parallel; keep this file's policies away from the others
+process.env.CLARA_POLICY_FILE = join(tmpdir(), `clara-test-policy-${process.pid}-engine.json`);
+
+vi.mock('../services/resolve-address.js', () => ({
+  resolveAddress: vi.fn(async (name: string) => {
+    const known: Record<string, Hex> = { 'alice.claraid.eth': ALICE, 'mallory.eth': MALLORY };
+    if (!known[name]) throw new Error(`Could not resolve ${name}`);
+    return { address: known[name], source: 'clara' };
+  }),
+}));
+
+function writePolicy(policy: SpendingPolicy | string): void {
+  writeFileSync(process.env.CLARA_POLICY_FILE!, typeof policy === 'string' ? policy : JSON.stringify(policy));
+}
+
+function usdc(usd: number, recipient: Hex = ALICE): PolicyPayment {
+  return {
+    tool: 'wallet_send',
+    chain: 'base',
+    amounts: [{ token: USDC, symbol: 'USDC', amount: String(usd), usd }],
+    recipients: [recipient],
+  };
+}
+
+function spent(usd: number, hoursAgo: number, extra: Partial<SpendingRecord> = {}): void {
+  recordSpending({
+    timestamp: new Date(Date.now() - hoursAgo * 3600_000).toISOString(),
+    amountUsd: usd.toFixed(2),
+    recipient: ALICE,
+    description: 'earlier',
+    url: '',
+    chainId: 8453,
+    paymentId: `test-${hoursAgo}`,
+    tool: 'wallet_send',
+    tokens: [{ token: USDC, symbol: 'USDC', amountUsd: usd.toFixed(2) }],
+    ...extra,
+  });
+}
+
+function approve(spender: Hex): { to: Hex; data: Hex; functionSignature: string } {
+  return {
+    to: USDC,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, 1_000_000n] }),
+    functionSignature: 'approve(address,uint256)',
+  };
+}
+
+describe('spending policy', () => {
+  beforeEach(() => {
+    rmSync(process.env.CLARA_POLICY_FILE!, { force: true });
+    rmSync(process.env.CLARA_SPENDING_FILE!, { force: true });
+    clearPolicyNameCache();
+  });
+
+  it('allows everything without a policy file, and nothing with a broken one', async () => {
+    expect(await evaluatePolicy(usdc(100))).toEqual({ allowed: true });
+
+    writePolicy('{"tokens": {');
+    expect(await evaluatePolicy(usdc(1))).toMatchObject({ allowed: false, rule: 'policy.json' });
+
+    writePolicy({ tokens: { USDC: { perDay: 'lots' } } });
+    expect(await evaluatePolicy(usdc(1))).toMatchObject({
+      allowed: false,
+      reason: expect.stringContaining('tokens.USDC.perDay must be a USD amount'),
+    });
+  });
+
+  it('checks recipients against allow and block lists, by address or name', async () => {
+    writePolicy({ recipients: { block: ['mallory.eth'] } });
+    expect(await evaluatePolicy(usdc(1, MALLORY))).toMatchObject({
+      allowed: false,
+      rule: 'recipients.block',
+      reason: `mallory.eth (${MALLORY.toLowerCase()}) is blocklisted`,
+    });
+    expect(await evaluatePolicy(usdc(1, ALICE))).toEqual({ allowed: true });
+
+    // Contract calls pay whoever the calldata names
+    writePolicy({ recipients: { allow: ['alice.claraid.eth'] } });
+    const transfer = (to: Hex) => ({
+      ...usdc(1),
+      recipients: [],
+      calls: [{ to: USDC, data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, 1n] }) }],
+    });
+    expect(await evaluatePolicy(transfer(ALICE))).toEqual({ allowed: true });
+    expect(await evaluatePolicy(transfer(MALLORY))).toMatchObject({ allowed: false, rule: 'recipients.allow' });
+  });
+
+  it('refuses when a blocklisted name cannot be resolved', async () => {
+    writePolicy({ recipients: { block: ['unknown.eth'] } });
+
+    expect(await evaluatePolicy(usdc(1))).toMatchObject({
+      allowed: false,
+      rule: 'recipients.block',
+      reason: "couldn't resolve unknown.eth to check the blocklist",
+    });
+  });
+
+  it('only allows listed contract calls', async () => {
+    writePolicy({ calls: { allow: [{ functions: ['approve'], spenders: [ROUTER] }, { contract: ROUTER, functions: ['0x04e45aaf'] }] } });
+    const calls = (...list: PolicyCall[]) => ({ ...usdc(0), recipients: [], calls: list });
+
+    expect(await evaluatePolicy(calls(approve(ROUTER), { to: ROUTER, data: '0x04e45aaf00' }))).toEqual({ allowed: true });
+    expect(await evaluatePolicy(calls(approve(MALLORY)))).toMatchObject({
+      allowed: false,
+      rule: 'calls.allow',
+      reason: `approve(address,uint256) on ${USDC} doesn't match any allowed call`,
+    });
+    expect(await evaluatePolicy(calls({ to: MALLORY, data: '0x04e45aaf00' }))).toMatchObject({ rule: 'calls.allow' });
+  });
+
+  it('caps tokens, chains, tools, and the total over rolling windows', async () => {
+    spent(8, 30);
+    spent(6, 2);
+    spent(5, 1, { chainId: 1, tool: 'wallet_executePrepared', tokens: [{ token: 'native', symbol: 'ETH', amountUsd: '5.00' }] });
+
+    writePolicy({ tokens: { usdc: { perDay: '10' } } });
+    expect(await evaluatePolicy(usdc(4))).toEqual({ allowed: true });
+    expect(await evaluatePolicy(usdc(5))).toMatchObject({
+      allowed: false,
+      rule: 'tokens.usdc.perDay',
+      reason: '$6.00 spent in the last 24 hours; another $5.00 would pass the $10 cap',
+    });
+
+    writePolicy({ total: { perWeek: '25' }, chains: { base: { perDay: '7' } } });
+    expect(await evaluatePolicy(usdc(1))).toEqual({ allowed: true });
+    expect(await evaluatePolicy(usdc(2))).toMatchObject({ rule: 'chains.base.perDay' });
+    expect(await evaluatePolicy({ ...usdc(7), chain: 'ethereum' })).toMatchObject({ rule: 'total.perWeek' });
+
+    writePolicy({ tools: { wallet_send: { perTransaction: '2', perMonth: '20' } } });
+    expect(await evaluatePolicy(usdc(3))).toMatchObject({ rule: 'tools.wallet_send.perTransaction' });
+    expect(await evaluatePolicy({ ...usdc(2), tool: 'work_post' })).toEqual({ allowed: true });
+  });
+
+  it('keeps a busy month of history for the 30-day caps, dropping only old records', async () => {
+    const record = (hoursAgo: number, i: number): SpendingRecord => ({
+      timestamp: new Date(Date.now() - hoursAgo * 3600_000).toISOString(),
+      amountUsd: '0.01',
+      recipient: ALICE,
+      description: 'small',
+      url: '',
+      chainId: 8453,
+      paymentId: `bulk-${i}`,
+      tool: 'wallet_send',
+      tokens: [{ token: USDC, symbol: 'USDC', amountUsd: '0.01' }],
+    });
+    const history = [record(100 * 24, -1), ...Array.from({ length: 1500 }, (_, i) => record(2 + (i % 600), i))];
+    writeFileSync(process.env.CLARA_SPENDING_FILE!, JSON.stringify({ limits: getSpendingLimits(), history }));
+    spent(0.01, 1);
+
+    expect(getSpendingHistory(365)).toHaveLength(1501);
+    writePolicy({ total: { perMonth: '15' } });
+    expect(await evaluatePolicy(usdc(0.5))).toMatchObject({ rule: 'total.perMonth' });
+  });
+
+  it('only allows payments within the configured hours', async () => {
+    writePolicy({ hours: { from: '22:00', to: '06:00', days: ['sat', 'sun'], timezone: 'UTC' } });
+
+    // 2026-10-17 is a Saturday
+    expect(await evaluatePolicy(usdc(1), new Date('2026-10-17T23:30:00Z'))).toEqual({ allowed: true });
+    expect(await evaluatePolicy(usdc(1), new Date('2026-10-18T05:59:00Z'))).toEqual({ allowed: true });
+    expect(await evaluatePolicy(usdc(1), new Date('2026-10-17T12:00:00Z'))).toMatchObject({
+      allowed: false,
+      rule: 'hours',
+      reason: "payments are only allowed 22:00–06:00 on sat, sun (UTC); it's sat 12:00",
+    });
+    expect(await evaluatePolicy(usdc(1), new Date('2026-10-19T23:30:00Z'))).toMatchObject({ rule: 'hours' });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for the USD price oracle
+ *
+ * Stablecoins are $1; everything else tries Herd token metadata, then the
+ * holder's discovered balances, then Chainlink (native tokens only). A
+ * cached price is served stale for a while if every source fails.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseEther, type Hex } from 'viem';
+import { clearPriceCache, getUsdPrice, priceAmount } from '../services/pricing.js';
+import { resolveToken } from '../config/tokens.js';
+
+const getContractMetadata = vi.fn();
+const discoverTokens = vi.fn();
+const readContract = vi.fn();
+
+vi.mock('../providers/index.js', () => ({
+  getProviderRegistry: () => ({ getContractMetadata, discoverTokens }),
+}));
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ readContract })),
+  };
+});
+
+const HOLDER = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const TOKEN = '0x1111111111111111111111111111111111111111' as Hex;
+
+function herdPrice(priceUsd?: string) {
+  return { success: true, data: { token: priceUsd ? { priceUsd } : undefined } };
+}
+
+/** Chainlink ETH/USD at `usd`, last updated `ageS` seconds ago */
+function chainlinkAnswer(usd: number, ageS = 60) {
+  const updatedAt = BigInt(Math.floor(Date.now() / 1000) - ageS);
+  readContract.mockImplementation(async ({ functionName }: { functionName: string }) =>
+    (functionName === 'decimals' ? 8 : [1n, BigInt(usd * 1e8), updatedAt, updatedAt, 1n]));
+}
+
+describe('price oracle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearPriceCache();
+    getContractMetadata.mockResolvedValue(herdPrice());
+    discoverTokens.mockResolvedValue({ success: false, error: 'unavailable' });
+    readContract.mockRejectedValue(new Error('rpc down'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prices stablecoins at $1 without any lookups', async () => {
+    const usdc = resolveToken('USDC', 'base')!.address;
+
+    const priced = await priceAmount('base', usdc, 25_000_000n);
+
+    expect(priced).toMatchObject({ symbol: 'USDC', amount: '25', usd: 25 });
+    expect(getContractMetadata).not.toHaveBeenCalled();
+  });
+
+  it('uses Herd metadata, looking up native tokens by their wrapped address', async () => {
+    getContractMetadata.mockResolvedValue(herdPrice('3000'));
+
+    const priced = await priceAmount('base', 'native', parseEther('0.5'));
+
+    expect(priced).toMatchObject({ symbol: 'ETH', usd: 1500, price: { source: 'herd-token' } });
+    expect(getContractMetadata).toHaveBeenCalledWith(expect.objectContaining({
+      address: resolveToken('WETH', 'base')!.address,
+      chain: 'base',
+    }));
+  });
+
+  it("falls back to the holder's discovered balances for other tokens", async () => {
+    discoverTokens.mockResolvedValue({
+      success: true,
+      data: { balances: [{ address: TOKEN, symbol: 'FOO', amount: '200', valueUsd: 50 }] },
+    });
+
+    expect(await getUsdPrice('base', TOKEN)).toBeNull();
+    expect(await getUsdPrice('base', TOKEN, HOLDER)).toMatchObject({ priceUsd: 0.25, source: 'herd-discovery' });
+    expect(readContract).not.toHaveBeenCalled();
+  });
+
+  it('reads Chainlink for native tokens and ignores stale answers', async () => {
+    chainlinkAnswer(2500);
+    expect(await getUsdPrice('ethereum', 'native')).toMatchObject({ priceUsd: 2500, source: 'chainlink' });
+
+    clearPriceCache();
+    chainlinkAnswer(2500, 3 * 60 * 60);
+    expect(await getUsdPrice('ethereum', 'native')).toBeNull();
+  });
+
+  it('serves a cached price as stale for up to 10 minutes once sources fail', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    getContractMetadata.mockResolvedValue(herdPrice('3000'));
+    await getUsdPrice('base', 'native');
+
+    getContractMetadata.mockRejectedValue(new Error('herd down'));
+    vi.setSystemTime(Date.now() + 2 * 60_000);
+    expect(await getUsdPrice('base', 'native')).toMatchObject({ priceUsd: 3000, stale: true });
+
+    vi.setSystemTime(Date.now() + 10 * 60_000);
+    expect(await getUsdPrice('base', 'native')).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for transaction bundles (wallet_call `calls` + wallet_executePrepared)
+ *
+ * Sequential simulation over eth_simulateV1 (Tenderly unset), the refusal
+ * path when no sequential simulator exists, and execution with explicit
+ * reserved sequential nonces that stops at the first revert or at a step
+ * that isn't mined in time.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { encodeFunctionResult, parseAbi, type Hex } from 'viem';
+import { handleCallRequest } from '../../tools/call.js';
+import { handleExecutePreparedRequest } from '../../tools/execute-prepared.js';
+import { getPreparedBundle, loadPrepared } from '../../para/prepared-tx.js';
+import type { ToolContext } from '../../middleware.js';
+
+const simulateCalls = vi.fn();
+const waitForTransactionReceipt = vi.fn();
+const signAndSendTransaction = vi.fn();
+const reserveNonces = vi.fn();
+const renewNonceReservations = vi.fn();
+const releaseNonce = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ simulateCalls, waitForTransactionReceipt })),
+  };
+});
+
+vi.mock('../../para/transactions.js', () => ({
+  signAndSendTransaction: (...args: unknown[]) => signAndSendTransaction(...args),
+}));
+
+vi.mock('../../para/nonce.js', () => ({
+  reserveNonces: (...args: unknown[]) => reserveNonces(...args),
+  releaseNonce: (...args: unknown[]) => releaseNonce(...args),
+  renewNonceReservations: (...args: unknown[]) => renewNonceReservations(...args),
+}));
+
+vi.mock('../../gas-preflight.js', () => ({
+  requireGas: vi.fn(async () => undefined),
+}));
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const VAULT = '0x1111111111111111111111111111111111111111';
+const TOKEN_ABI = parseAbi(['function approve(address spender, uint256 amount) returns (bool)']);
+const VAULT_ABI = parseAbi([
+  'function deposit(uint256 assets) returns (uint256 shares)',
+  'function stake(uint256 shares)',
+]);
+
+const CALLS = [
+  { contract: USDC, function: 'approve', args: [VAULT, '10000000'], abi: TOKEN_ABI },
+  { contract: VAULT, function: 'deposit', args: ['10000000'], abi: VAULT_ABI },
+  { contract: VAULT, function: 'stake', args: ['10000000'], abi: VAULT_ABI },
+];
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+    walletAddress: WALLET,
+    sessionKey: null,
+  };
+}
+
+function bundleIdFrom(text: string): string {
+  return text.match(/Prepared Bundle: `(pbx_[^`]+)`/)![1];
+}
+
+describe('transaction bundles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    simulateCalls.mockResolvedValue({
+      results: [
+        { status: 'success', gasUsed: 46_000n, data: encodeFunctionResult({ abi: TOKEN_ABI, functionName: 'approve', result: true }) },
+        { status: 'success', gasUsed: 120_000n, data: encodeFunctionResult({ abi: VAULT_ABI, functionName: 'deposit', result: 9_990_000n }) },
+        { status: 'success', gasUsed: 80_000n, data: '0x' },
+      ],
+    });
+    reserveNonces.mockResolvedValue(7);
+  });
+
+  it('simulates steps in sequence and stores one bundle', async () => {
+    const result = await handleCallRequest({ calls: CALLS }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(result.isError).toBe(false);
+    expect(simulateCalls).toHaveBeenCalledTimes(1);
+    expect(simulateCalls.mock.calls[0][0]).toMatchObject({ account: WALLET });
+    expect(simulateCalls.mock.calls[0][0].calls).toHaveLength(3);
+
+    expect(text).toContain('All steps would succeed');
+    expect(text).toContain('**Return Value:** "9990000"');
+
+    const bundle = getPreparedBundle(bundleIdFrom(text))!;
+    expect(bundle.steps.map((s) => s.functionSignature)).toEqual(['approve(address,uint256)', 'deposit(uint256)', 'stake(uint256)']);
+    expect(bundle.steps[1].simulation.gasEstimate).toBe(120_000n);
+  });
+
+  it('refuses to execute when no sequential simulator is available', async () => {
+    simulateCalls.mockRejectedValue(new Error('the method eth_simulateV1 does not exist'));
+
+    const prepared = await handleCallRequest({ calls: CALLS }, makeCtx());
+    expect(prepared.isError).toBe(true);
+    expect(prepared.content[0].text).toContain('eth_simulateV1');
+
+    const executed = await handleExecutePreparedRequest({ preparedTxId: bundleIdFrom(prepared.content[0].text) }, makeCtx());
+    expect(executed.isError).toBe(true);
+    expect(executed.content[0].text).toContain('Bundle simulation failed');
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('assigns sequential nonces and stops at the first revert', async () => {
+    const prepared = await handleCallRequest({ calls: CALLS }, makeCtx());
+    const bundleId = bundleIdFrom(prepared.content[0].text);
+
+    signAndSendTransaction
+      .mockResolvedValueOnce({ txHash: `0x${'1'.repeat(64)}` })
+      .mockResolvedValueOnce({ txHash: `0x${'2'.repeat(64)}` });
+    waitForTransactionReceipt
+      .mockResolvedValueOnce({ status: 'success' })
+      .mockResolvedValueOnce({ status: 'reverted' });
+
+    const result = await handleExecutePreparedRequest({ preparedTxId: bundleId }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(2);
+    expect(signAndSendTransaction.mock.calls[0][1]).toMatchObject({ to: USDC, nonce: 7, gas: 69_000n });
+    expect(signAndSendTransaction.mock.calls[1][1]).toMatchObject({ to: VAULT, nonce: 8 });
+    expect(reserveNonces.mock.calls[0][3]).toBe(3);
+    // Still held after the first receipt wait
+    expect(renewNonceReservations).toHaveBeenCalledWith(8453, WALLET, [8, 9]);
+    // The skipped step's nonce goes back to the pool
+    expect(releaseNonce).toHaveBeenCalledWith(8453, WALLET, 9);
+
+    expect(result.isError).toBe(true);
+    expect(text).toContain('Bundle stopped after 1 of 3 steps');
+    expect(text).toContain('2. ❌ `deposit(uint256)` reverted');
+    expect(text).toContain('3. ⏭️ `stake(uint256)` skipped');
+    expect(getPreparedBundle(bundleId)).toBeNull();
+  });
+
+  it('keeps the hash of a step that was sent but not mined in time', async () => {
+    const prepared = await handleCallRequest({ calls: CALLS }, makeCtx());
+    const bundleId = bundleIdFrom(prepared.content[0].text);
+    const approveHash = `0x${'1'.repeat(64)}`;
+
+    signAndSendTransaction.mockResolvedValueOnce({ txHash: approveHash, trackingId: 'trk_0123456789ab' });
+    waitForTransactionReceipt.mockRejectedValueOnce(new Error('Timed out while waiting for transaction'));
+
+    const result = await handleExecutePreparedRequest({ preparedTxId: bundleId }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+    // The broadcast nonce stays taken; only the skipped steps' go back
+    expect(releaseNonce).not.toHaveBeenCalledWith(8453, WALLET, 7);
+    expect(releaseNonce).toHaveBeenCalledWith(8453, WALLET, 8);
+    expect(text).toContain('1. ⏳ `approve(address,uint256)` pending: Not confirmed within 120s; check wallet_tx_status `trk_0123456789ab`');
+    expect(text).not.toContain('failed');
+
+    expect(loadPrepared(bundleId)?.txHashes).toEqual([approveHash]);
+  });
+
+  it('rejects single-step bundles', async () => {
+    const result = await handleCallRequest({ calls: [CALLS[0]] }, makeCtx());
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('A bundle needs 2-5 calls');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tests for wallet_call simulation
+ *
+ * Tenderly is exercised against a local HTTP stub (TENDERLY_API_URL),
+ * so the request shape and the response parsing are both covered.
+ * Return-value decoding and the read-only path for view functions are
+ * covered against a mocked eth_call.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { encodeFunctionResult, getAddress, parseAbi, type Hex } from 'viem';
+import { handleCallRequest } from '../../tools/call.js';
+import { getPreparedTx } from '../../para/prepared-tx.js';
+import type { ToolContext } from '../../middleware.js';
+
+const estimateGas = vi.fn();
+const call = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({
+      estimateGas,
+      call,
+    })),
+  };
+});
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const ABI = parseAbi(['function swap(uint256 amountIn) returns (uint256)']);
+const VAULT_ABI = parseAbi([
+  'struct Position { uint256 shares; address owner; uint64[] unlocks }',
+  'function position(uint256 id) view returns (Position)',
+  'function totals() view returns (uint256 assets, uint256 supply)',
+]);
+
+// ─── Tenderly stub ──────────────────────────────────────────────────
+
+let server: Server;
+let requests: Array<{ url: string; key: string | undefined; body: any }> = [];
+let nextResponse: { status: number; body: unknown };
+
+function simulationResponse(overrides: { status?: boolean; error?: string } = {}) {
+  const status = overrides.status ?? true;
+  return {
+    transaction: { status, gas_used: 123_456, error_message: overrides.error },
+    simulation: { id: 'sim', status, gas_used: 123_456, error_message: overrides.error },
+    transaction_info: {
+      asset_changes: status ? [
+        { token_info: { contract_address: USDC, symbol: 'USDC', decimals: 6 }, from: WALLET, to: ROUTER, raw_amount: '10000000', type: 'Transfer' },
+        { token_info: { contract_address: WETH, symbol: 'WETH', decimals: 18 }, from: ROUTER, to: WALLET, raw_amount: '4000000000000000', type: 'Transfer' },
+      ] : [],
+      logs: [{ address: USDC, name: 'Transfer', inputs: [] }],
+    },
+  };
+}
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+    walletAddress: WALLET,
+    sessionKey: null,
+  };
+}
+
+function preparedIdFrom(text: string): string {
+  return text.match(/Prepared Transaction: `(ptx_[^`]+)`/)![1];
+}
+
+describe('wallet_call simulation', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url ?? '', key: req.headers['x-access-key'] as string | undefined, body: JSON.parse(raw) });
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(nextResponse.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    process.env.TENDERLY_API_KEY = 'test-key';
+    process.env.TENDERLY_ACCOUNT_SLUG = 'acct';
+    process.env.TENDERLY_PROJECT_SLUG = 'proj';
+    process.env.TENDERLY_API_URL = `http://127.0.0.1:${port}/`;
+  });
+
+  afterAll(async () => {
+    delete process.env.TENDERLY_API_KEY;
+    delete process.env.TENDERLY_ACCOUNT_SLUG;
+    delete process.env.TENDERLY_PROJECT_SLUG;
+    delete process.env.TENDERLY_API_URL;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requests = [];
+    estimateGas.mockResolvedValue(90_000n);
+    call.mockResolvedValue({ data: '0x' });
+  });
+
+  it('stores Tenderly balance changes and previews them before execution', async () => {
+    nextResponse = { status: 200, body: simulationResponse() };
+
+    const result = await handleCallRequest(
+      { contract: ROUTER, function: 'swap', args: ['10000000'], abi: ABI },
+      makeCtx(),
+    );
+    const text = result.content[0].text;
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/api/v1/account/acct/project/proj/simulate');
+    expect(requests[0].key).toBe('test-key');
+    expect(requests[0].body).toMatchObject({ network_id: '8453', from: WALLET, to: ROUTER, simulation_type: 'full' });
+
+    expect(text).toContain('**You will:** send 10 USDC, receive 0.004 WETH');
+    expect(text).toContain('**Events:** Transfer');
+    expect(text).toContain('Simulated with Tenderly');
+
+    const prepared = getPreparedTx(preparedIdFrom(text))!;
+    expect(prepared.simulation.provider).toBe('tenderly');
+    expect(prepared.simulation.gasEstimate).toBe(123_456n);
+    expect(prepared.simulation.balanceChanges).toHaveLength(2);
+    expect(estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('records the revert reason from Tenderly', async () => {
+    nextResponse = { status: 200, body: simulationResponse({ status: false, error: 'STF' }) };
+
+    const result = await handleCallRequest(
+      { contract: ROUTER, function: 'swap', args: ['10000000'], abi: ABI },
+      makeCtx(),
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Would Fail:** STF');
+    expect(getPreparedTx(preparedIdFrom(result.content[0].text))!.simulation.revertReason).toBe('STF');
+  });
+
+  it('falls back to RPC estimateGas when the Tenderly API errors', async () => {
+    nextResponse = { status: 500, body: { error: 'internal' } };
+
+    const result = await handleCallRequest(
+      { contract: ROUTER, function: 'swap', args: ['10000000'], abi: ABI },
+      makeCtx(),
+    );
+    const text = result.content[0].text;
+
+    expect(estimateGas).toHaveBeenCalledTimes(1);
+    expect(text).toContain('90,000');
+    expect(text).not.toContain('You will:');
+    expect(getPreparedTx(preparedIdFrom(text))!.simulation.provider).toBeUndefined();
+  });
+
+  it('simulates bundles with the Tenderly bundle endpoint', async () => {
+    nextResponse = { status: 200, body: { simulation_results: [simulationResponse(), simulationResponse({ status: false, error: 'STF' })] } };
+
+    const result = await handleCallRequest({
+      calls: [
+        { contract: USDC, function: 'approve', args: [ROUTER, '10000000'], abi: parseAbi(['function approve(address,uint256) returns (bool)']) },
+        { contract: ROUTER, function: 'swap', args: ['10000000'], abi: ABI },
+      ],
+    }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/api/v1/account/acct/project/proj/simulate-bundle');
+    expect(requests[0].body.simulations).toHaveLength(2);
+    expect(requests[0].body.simulations[1]).toMatchObject({ to: ROUTER, from: WALLET });
+
+    expect(result.isError).toBe(true);
+    expect(text).toContain('Prepared Bundle: `pbx_');
+    expect(text).toContain('### Step 2: `swap`');
+    expect(text).toContain('Would Fail:** STF');
+  });
+
+  it('decodes the return value into the prepared transaction', async () => {
+    nextResponse = { status: 500, body: { error: 'internal' } };
+    call.mockResolvedValue({ data: encodeFunctionResult({ abi: ABI, functionName: 'swap', result: 4_000_000_000_000_000n }) });
+
+    const result = await handleCallRequest(
+      { contract: ROUTER, function: 'swap', args: ['10000000'], abi: ABI },
+      makeCtx(),
+    );
+    const text = result.content[0].text;
+
+    expect(text).toContain('**Return Value:** "4000000000000000"');
+    expect(getPreparedTx(preparedIdFrom(text))!.simulation.decodedReturn).toBe('4000000000000000');
+  });
+});
+
+describe('wallet_call read-only', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requests = [];
+  });
+
+  it('returns decoded structs for view functions without preparing a transaction', async () => {
+    call.mockResolvedValue({
+      data: encodeFunctionResult({
+        abi: VAULT_ABI,
+        functionName: 'position',
+        result: { shares: 10n ** 21n, owner: WALLET, unlocks: [1n, 2n] },
+      }),
+    });
+
+    const result = await handleCallRequest(
+      { contract: ROUTER, function: 'position', args: [7], abi: VAULT_ABI },
+      makeCtx(),
+    );
+    const text = result.content[0].text;
+
+    expect(result.isError).toBeUndefined();
+    expect(text).toContain('Read: `position(uint256)`');
+    expect(text).not.toContain('Prepared Transaction');
+    const json = JSON.parse(text.match(/```json\n([\s\S]+?)\n```/)![1]);
+    expect(json).toEqual({ shares: '1000000000000000000000', owner: getAddress(WALLET), unlocks: ['1', '2'] });
+    expect(requests).toHaveLength(0);
+    expect(estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('keys multiple named outputs by name', async () => {
+    call.mockResolvedValue({
+      data: encodeFunctionResult({ abi: VAULT_ABI, functionName: 'totals', result: [5n, 3n] }),
+    });
+
+    const result = await handleCallRequest(
+      { contract: ROUTER, function: 'totals', abi: VAULT_ABI },
+      makeCtx(),
+    );
+
+    const json = JSON.parse(result.content[0].text.match(/```json\n([\s\S]+?)\n```/)![1]);
+    expect(json).toEqual({ assets: '5', supply: '3' });
+  });
+
+  it('reports a revert from a view call', async () => {
+    call.mockRejectedValue(new Error("execution reverted with reason string 'unknown id'"));
+
+    const result = await handleCallRequest(
+      { contract: ROUTER, function: 'position', args: [7], abi: VAULT_ABI },
+      makeCtx(),
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Call reverted');
+    expect(result.content[0].text).toContain('unknown id');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for challenge_* tools
+ *
+ * Covers the client-side CreateParams mirror, payout math, the
+ * approve → createChallenge escrow flow (with spending limits, through
+ * the middleware), and solution hashing.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { decodeFunctionData, keccak256, parseUnits, toBytes, type Hex } from 'viem';
+import { challengeCreateSpendingExtractor, handleChallengeCreateRequest } from '../../tools/challenge-create.js';
+import { handleChallengeSubmitRequest } from '../../tools/challenge-submit.js';
+import { handleChallengeScoreRequest } from '../../tools/challenge-score.js';
+import {
+  computePrizeAmounts,
+  defaultPayoutBps,
+  validateCreateParams,
+} from '../../tools/challenge-helpers.js';
+import { CHALLENGE_ABI, getClaraContracts } from '../../config/clara-contracts.js';
+import { ClaraErrorCode } from '../../errors.js';
+import { wrapTool, type ToolContext } from '../../middleware.js';
+
+vi.mock('../../para/transactions.js', () => ({
+  signAndSendTransaction: vi.fn(),
+}));
+
+vi.mock('../../storage/spending.js', () => ({
+  checkSpendingLimits: vi.fn(() => ({ allowed: true })),
+  recordSpending: vi.fn(),
+}));
+
+vi.mock('../../storage/agent.js', () => ({
+  getAgentRecord: vi.fn(() => ({ agentId: '42' })),
+  saveAgentRecord: vi.fn(),
+}));
+
+vi.mock('../../storage/session.js', () => ({
+  getSession: vi.fn(async () => ({ authenticated: true, address: TEST_ADDRESS, walletId: 'test-wallet-id' })),
+  getSessionStatus: vi.fn(() => 'active'),
+  touchSession: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../auth/session-key.js', () => ({
+  getCurrentSessionKey: vi.fn(() => null),
+  getOrCreateSessionKey: vi.fn(async () => null),
+}));
+
+vi.mock('../../gas-preflight.js', () => ({
+  requireGas: vi.fn(),
+  requireContract: vi.fn(),
+  checkGasPreflight: vi.fn(),
+}));
+
+// Public client stub: readContract answers by function name, receipts come from `receipts`
+const reads: Record<string, unknown> = {};
+const receipts: Record<string, unknown> = {};
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({
+      simulateContract: vi.fn().mockResolvedValue({}),
+      readContract: vi.fn(async ({ functionName }: { functionName: string }) => reads[functionName]),
+      waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => receipts[hash]),
+    })),
+  };
+});
+
+import { signAndSendTransaction } from '../../para/transactions.js';
+import { checkSpendingLimits, recordSpending } from '../../storage/spending.js';
+
+// ─── Test Helpers ───────────────────────────────────────────────────
+
+const TEST_ADDRESS = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const CHALLENGE_ADDRESS = '0x3333333333333333333333333333333333333333' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Hex;
+const APPROVE_HASH = `0x${'a'.repeat(64)}` as Hex;
+const CREATE_HASH = `0x${'b'.repeat(64)}` as Hex;
+
+function makeCtx(address: Hex = TEST_ADDRESS): ToolContext {
+  return {
+    session: {
+      authenticated: true,
+      address,
+      walletId: 'test-wallet-id',
+    } as any,
+    walletAddress: address,
+    sessionKey: null,
+  };
+}
+
+function openChallenge(overrides: Record<string, unknown> = {}) {
+  Object.assign(reads, {
+    poster: '0x2222222222222222222222222222222222222222',
+    evaluator: '0x0000000000000000000000000000000000000000',
+    token: USDC,
+    prizePool: 300_000_000n,
+    posterBond: 15_000_000n,
+    deadline: 2_000_000_000n,
+    scoringDeadline: 2_000_259_200n,
+    challengeURI: '',
+    winnerCount: 2,
+    getPayoutBps: [6000, 4000],
+    status: 0, // Open
+    submissionCount: 0n,
+    scorePostedAt: 0n,
+    ...overrides,
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Challenge Tools', () => {
+  const NOW = 1_900_000_000n;
+  const valid = {
+    prizePool: 100n,
+    winnerCount: 3,
+    payoutBps: [5000, 3000, 2000],
+    deadline: NOW + 86_400n,
+    scoringDeadline: NOW + 2n * 86_400n,
+    now: NOW,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(reads)) delete reads[key];
+    for (const key of Object.keys(receipts)) delete receipts[key];
+  });
+
+  describe('CreateParams validation', () => {
+    it('accepts parameters ChallengeFactory would accept', () => {
+      expect(() => validateCreateParams(valid)).not.toThrow();
+    });
+
+    it('rejects payoutBps that do not sum to 10000', () => {
+      expect(() => validateCreateParams({ ...valid, payoutBps: [5000, 3000, 1000] })).toThrow('sum to 10000');
+    });
+
+    it('rejects a payoutBps length that differs from winnerCount', () => {
+      expect(() => validateCreateParams({ ...valid, winnerCount: 2 })).toThrow('winnerCount is 2');
+    });
+
+    it('caps winners at 25', () => {
+      expect(() => validateCreateParams({
+        ...valid,
+        winnerCount: 26,
+        payoutBps: defaultPayoutBps(26),
+      })).toThrow('Invalid winner count');
+    });
+
+    it('requires the scoring deadline after the submission deadline', () => {
+      expect(() => validateCreateParams({ ...valid, scoringDeadline: valid.deadline })).toThrow('Scoring deadline');
+    });
+  });
+
+  describe('Payout math', () => {
+    it('splits equally with the remainder to first place', () => {
+      expect(defaultPayoutBps(3)).toEqual([3334, 3333, 3333]);
+    });
+
+    it('gives the rounding dust to the last rank, as postScores expects', () => {
+      expect(computePrizeAmounts(100n, [3334, 3333, 3333])).toEqual([33n, 33n, 34n]);
+    });
+  });
+
+  describe('challenge_create', () => {
+    it('rejects an invalid split before reading or sending anything', async () => {
+      await expect(
+        handleChallengeCreateRequest({ task: 'x', prizePool: '100', winners: 2, payoutBps: [5000, 4000] }, makeCtx()),
+      ).rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('approves prize pool + poster bond, then creates the challenge', async () => {
+      const pool = parseUnits('300', 6);
+      reads.posterBondRate = 500n;
+      reads.allowance = 0n;
+      reads.balanceOf = pool * 2n;
+      receipts[APPROVE_HASH] = { status: 'success', logs: [] };
+      receipts[CREATE_HASH] = { status: 'success', logs: [] };
+      vi.mocked(signAndSendTransaction)
+        .mockResolvedValueOnce({ txHash: APPROVE_HASH })
+        .mockResolvedValueOnce({ txHash: CREATE_HASH });
+
+      // As registered in index.ts: the middleware checks and records the escrow
+      const createChallenge = wrapTool(handleChallengeCreateRequest, {
+        checksSpending: true,
+        spendingExtractor: challengeCreateSpendingExtractor,
+      });
+      const result = await createChallenge({ task: 'Fastest sort', prizePool: '300', winners: 3, payoutBps: [5000, 3000, 2000] });
+
+      expect(result.content[0].text).toContain('15 USDC');
+      expect(result.content[0].text).toContain('#1 150 USDC, #2 90 USDC, #3 60 USDC');
+      expect(checkSpendingLimits).toHaveBeenCalledWith('315.00');
+      expect(recordSpending).toHaveBeenCalledWith(expect.objectContaining({
+        amountUsd: '315.00',
+        txHash: CREATE_HASH,
+        tool: 'challenge_create',
+      }));
+
+      const calls = vi.mocked(signAndSendTransaction).mock.calls;
+      expect(calls[1][1].to).toBe(getClaraContracts().challenge.factory);
+    });
+  });
+
+  describe('challenge_submit', () => {
+    it('hashes the solution and inlines small solutions as a data URI', async () => {
+      openChallenge();
+      // No receipt: it returns once sent
+      vi.mocked(signAndSendTransaction).mockResolvedValueOnce({ txHash: CREATE_HASH, trackingId: 'trk_0123456789ab' });
+
+      const result = await handleChallengeSubmitRequest(
+        { challenge: CHALLENGE_ADDRESS, solution: 'return sorted;' },
+        makeCtx(),
+      );
+
+      const { args } = decodeFunctionData({
+        abi: CHALLENGE_ABI,
+        data: vi.mocked(signAndSendTransaction).mock.calls[0][1].data as Hex,
+      });
+      expect(args).toEqual([
+        42n,
+        `data:text/plain;base64,${Buffer.from('return sorted;').toString('base64')}`,
+        keccak256(toBytes('return sorted;')),
+      ]);
+      expect(result.content[0].text).toContain(keccak256(toBytes('return sorted;')));
+      expect(result.content[0].text).toContain('**Tracking ID:** `trk_0123456789ab`');
+    });
+
+    it('requires a solution', async () => {
+      await expect(
+        handleChallengeSubmitRequest({ challenge: CHALLENGE_ADDRESS }, makeCtx()),
+      ).rejects.toThrow('Missing solution');
+    });
+  });
+
+  describe('challenge_score', () => {
+    it('refuses callers who are neither poster nor evaluator', async () => {
+      openChallenge({ status: 1 });
+
+      await expect(
+        handleChallengeScoreRequest({
+          challenge: CHALLENGE_ADDRESS,
+          winners: ['0x4444444444444444444444444444444444444444', '0x5555555555555555555555555555555555555555'],
+        }, makeCtx()),
+      ).rejects.toThrow('Only the poster or the evaluator');
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('requires exactly winnerCount winners', async () => {
+      openChallenge({ status: 1, poster: TEST_ADDRESS });
+
+      await expect(
+        handleChallengeScoreRequest({
+          challenge: CHALLENGE_ADDRESS,
+          winners: ['0x4444444444444444444444444444444444444444'],
+        }, makeCtx()),
+      ).rejects.toThrow('pays 2 winners');
+    });
+  });
+});
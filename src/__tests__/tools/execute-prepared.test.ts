@@ -0,0 +1,468 @@
+/**
+ * Tests for wallet_executePrepared re-simulation
+ *
+ * The prepared call is simulated again right before signing. A flipped
+ * outcome or materially different balance changes refuse execution with
+ * a prepared → now diff, unless forced; otherwise the fresh gas estimate
+ * sizes the gas limit. Through the middleware, what the call sends now
+ * (priced from the fresh simulation) is checked against the spending policy
+ * and limits and recorded; above the approval threshold, or when it can't
+ * be priced, it waits for a human, inline or via `clara-mcp approve`.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { encodeFunctionData, erc20Abi, type Hex } from 'viem';
+import { executePreparedSpendingExtractor, handleExecutePreparedRequest } from '../../tools/execute-prepared.js';
+import { getPreparedTx, loadPrepared, storePreparedTx } from '../../para/prepared-tx.js';
+import type { TenderlyBalanceChange, TenderlySimulationResult } from '../../providers/tenderly.js';
+import { wrapTool, type ToolContext } from '../../middleware.js';
+import { getSpendingHistory } from '../../storage/spending.js';
+import { decideApproval, getApproval } from '../../storage/approvals.js';
+import { setApprovalPrompt } from '../../services/approval.js';
+
+const estimateGas = vi.fn();
+const call = vi.fn();
+const simulateWithTenderly = vi.fn();
+const signAndSendTransaction = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ estimateGas, call })),
+  };
+});
+
+vi.mock('../../providers/tenderly.js', () => ({
+  simulateWithTenderly: (...args: unknown[]) => simulateWithTenderly(...args),
+  simulateBundleWithTenderly: vi.fn(async () => null),
+}));
+
+vi.mock('../../para/transactions.js', () => ({
+  signAndSendTransaction: (...args: unknown[]) => signAndSendTransaction(...args),
+}));
+
+vi.mock('../../gas-preflight.js', () => ({
+  requireGas: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../storage/session.js', () => ({
+  getSession: vi.fn(async () => ({ authenticated: true, address: WALLET, walletId: 'test-wallet-id' })),
+  getSessionStatus: vi.fn(() => 'active'),
+  touchSession: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../auth/session-key.js', () => ({
+  getCurrentSessionKey: vi.fn(() => null),
+  getOrCreateSessionKey: vi.fn(async () => null),
+}));
+
+// Test files run in parallel; keep this file's policy away from the others
+process.env.CLARA_POLICY_FILE = join(tmpdir(), `clara-test-policy-${process.pid}-execute.json`);
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const TX_HASH = `0x${'b'.repeat(64)}` as Hex;
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+    walletAddress: WALLET,
+    sessionKey: null,
+  };
+}
+
+function swapChanges(wethOut: string): TenderlyBalanceChange[] {
+  return [
+    { token: USDC, symbol: 'USDC', decimals: 6, rawAmount: '10000000', formattedAmount: '10', direction: 'decrease' },
+    { token: WETH, symbol: 'WETH', decimals: 18, rawAmount: wethOut, formattedAmount: (Number(wethOut) / 1e18).toString(), direction: 'increase' },
+  ];
+}
+
+function tenderlyResult(wethOut: string): TenderlySimulationResult {
+  return { success: true, willRevert: false, gasUsed: 150_000, balanceChanges: swapChanges(wethOut) };
+}
+
+function prepare(simulation: Parameters<typeof storePreparedTx>[0]['simulation']): string {
+  return storePreparedTx({
+    to: ROUTER,
+    data: '0x12345678',
+    value: 0n,
+    chainId: 8453,
+    chain: 'base',
+    functionName: 'swap',
+    functionSignature: 'swap(uint256)',
+    args: ['10000000'],
+    simulation,
+  });
+}
+
+describe('wallet_executePrepared re-simulation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    simulateWithTenderly.mockResolvedValue(null);
+    estimateGas.mockResolvedValue(60_000n);
+    call.mockResolvedValue({ data: undefined });
+    signAndSendTransaction.mockResolvedValue({ txHash: TX_HASH });
+  });
+
+  it('sends with the fresh gas estimate when nothing changed', async () => {
+    const id = prepare({ success: true, gasEstimate: 40_000n, gasEstimateFormatted: '40,000' });
+
+    const result = await handleExecutePreparedRequest({ preparedTxId: id }, makeCtx());
+
+    expect(result.isError).toBeFalsy();
+    expect(estimateGas).toHaveBeenCalledWith(expect.objectContaining({ account: WALLET, to: ROUTER, data: '0x12345678' }));
+    expect(signAndSendTransaction.mock.calls[0][1]).toMatchObject({ gas: 90_000n });
+  });
+
+  it('refuses with a diff when the call now reverts', async () => {
+    const id = prepare({ success: true, gasEstimate: 40_000n, gasEstimateFormatted: '40,000' });
+    estimateGas.mockRejectedValue(new Error("execution reverted with reason string 'Paused'"));
+
+    const result = await handleExecutePreparedRequest({ preparedTxId: id }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(result.isError).toBe(true);
+    expect(text).toContain('Simulation changed since preparation');
+    expect(text).toContain('Outcome: ✅ would succeed → ❌ would fail (Paused)');
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+    // Still executable: the user can review or force
+    expect(getPreparedTx(id)).not.toBeNull();
+  });
+
+  it('sends anyway with force', async () => {
+    const id = prepare({ success: true, gasEstimate: 40_000n, gasEstimateFormatted: '40,000' });
+    estimateGas.mockRejectedValue(new Error('execution reverted'));
+
+    const result = await handleExecutePreparedRequest({ preparedTxId: id, force: true }, makeCtx());
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0].text).toContain('force-executed although its simulation changed');
+    expect(signAndSendTransaction.mock.calls[0][1]).toMatchObject({ gas: 60_000n });
+    expect(loadPrepared(id)!.state).toBe('executed');
+  });
+
+  it('compares Tenderly balance changes with a 1% tolerance', async () => {
+    const prepared = {
+      success: true,
+      gasEstimate: 150_000n,
+      gasEstimateFormatted: '150,000',
+      provider: 'tenderly' as const,
+      balanceChanges: swapChanges('4000000000000000'),
+    };
+
+    // 0.5% less WETH: within tolerance
+    simulateWithTenderly.mockResolvedValue(tenderlyResult('3980000000000000'));
+    const ok = await handleExecutePreparedRequest({ preparedTxId: prepare(prepared) }, makeCtx());
+    expect(ok.isError).toBeFalsy();
+
+    // 12.5% less WETH: refused
+    simulateWithTenderly.mockResolvedValue(tenderlyResult('3500000000000000'));
+    const changed = await handleExecutePreparedRequest({ preparedTxId: prepare(prepared) }, makeCtx());
+    expect(changed.isError).toBe(true);
+    expect(changed.content[0].text).toContain('WETH: +0.004 → +0.0035');
+    expect(changed.content[0].text).not.toContain('USDC');
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses when balance changes were simulated but the fresh simulation has none', async () => {
+    const prepared = {
+      success: true,
+      gasEstimate: 150_000n,
+      gasEstimateFormatted: '150,000',
+      provider: 'tenderly' as const,
+      balanceChanges: swapChanges('4000000000000000'),
+    };
+
+    // Tenderly is down: the RPC fallback only knows the call succeeds
+    const result = await handleExecutePreparedRequest({ preparedTxId: prepare(prepared) }, makeCtx());
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Re-simulation unavailable');
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('wallet_executePrepared one-time use', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    simulateWithTenderly.mockResolvedValue(null);
+    estimateGas.mockResolvedValue(60_000n);
+    call.mockResolvedValue({ data: undefined });
+    signAndSendTransaction.mockResolvedValue({ txHash: TX_HASH });
+  });
+
+  it('sends once when the same ID is executed twice at the same time', async () => {
+    const id = prepare({ success: true, gasEstimate: 40_000n, gasEstimateFormatted: '40,000' });
+
+    const results = await Promise.all([
+      handleExecutePreparedRequest({ preparedTxId: id }, makeCtx()),
+      handleExecutePreparedRequest({ preparedTxId: id }, makeCtx()),
+    ]);
+
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+    expect(results.filter((r) => r.isError)).toHaveLength(1);
+    expect(results.find((r) => r.isError)!.content[0].text).toContain(`already executing:** \`${id}\``);
+    expect(loadPrepared(id)).toMatchObject({ state: 'executed', txHashes: [TX_HASH] });
+  });
+
+  it('gives the ID back when the send fails before broadcasting', async () => {
+    const id = prepare({ success: true, gasEstimate: 40_000n, gasEstimateFormatted: '40,000' });
+    signAndSendTransaction.mockRejectedValueOnce(new Error('Para signing unavailable'));
+
+    const failed = await handleExecutePreparedRequest({ preparedTxId: id }, makeCtx());
+    expect(failed.content[0].text).toContain('Execution failed: Para signing unavailable');
+    expect(loadPrepared(id)!.history.map((h) => h.state)).toEqual(['pending', 'executing', 'pending']);
+
+    const retry = await handleExecutePreparedRequest({ preparedTxId: id }, makeCtx());
+    expect(retry.isError).toBeFalsy();
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('wallet_executePrepared spending limits', () => {
+  const execute = wrapTool(handleExecutePreparedRequest, {
+    checksSpending: true,
+    spendingExtractor: executePreparedSpendingExtractor,
+  });
+
+  function prepareTransfer(usdc: bigint): string {
+    return storePreparedTx({
+      to: USDC as Hex,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [ROUTER, usdc] }),
+      value: 0n,
+      chainId: 8453,
+      chain: 'base',
+      functionName: 'transfer',
+      functionSignature: 'transfer(address,uint256)',
+      args: [ROUTER, usdc.toString()],
+      simulation: { success: true, gasEstimate: 50_000n, gasEstimateFormatted: '50,000' },
+    });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(process.env.CLARA_SPENDING_FILE!, { force: true });
+    simulateWithTenderly.mockResolvedValue(null);
+    estimateGas.mockResolvedValue(50_000n);
+    call.mockResolvedValue({ data: undefined });
+    signAndSendTransaction.mockResolvedValue({ txHash: TX_HASH });
+  });
+
+  it('blocks calldata that moves more than the per-transaction limit', async () => {
+    const id = prepareTransfer(5_000_000n);
+
+    const result = await execute({ preparedTxId: id });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('transfer(address,uint256) on base blocked by spending limits');
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+    expect(getPreparedTx(id)).not.toBeNull();
+  });
+
+  it('records what was sent and reports it', async () => {
+    const result = await execute({ preparedTxId: prepareTransfer(500_000n) });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0].text).toContain('**Value moved:** ~$0.50');
+    expect(getSpendingHistory()).toEqual([
+      expect.objectContaining({
+        amountUsd: '0.50',
+        recipient: USDC,
+        txHash: TX_HASH,
+        chainId: 8453,
+        tool: 'wallet_executePrepared',
+        tokens: [{ token: USDC, symbol: 'USDC', amountUsd: '0.50' }],
+      }),
+    ]);
+  });
+
+  it('refuses calls the spending policy does not allow, naming the rule', async () => {
+    writeFileSync(process.env.CLARA_POLICY_FILE!, JSON.stringify({ calls: { allow: [{ functions: ['approve'] }] } }));
+    try {
+      const result = await execute({ preparedTxId: prepareTransfer(100_000n) });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('🛑 transfer(address,uint256) on base blocked by policy rule `calls.allow`');
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    } finally {
+      rmSync(process.env.CLARA_POLICY_FILE!, { force: true });
+    }
+  });
+
+  it('prices the fresh balance changes, so a grown spend is caught under force', async () => {
+    const usdcOut = (raw: string): TenderlyBalanceChange[] => [
+      { token: USDC, symbol: 'USDC', decimals: 6, rawAmount: raw, formattedAmount: String(Number(raw) / 1e6), direction: 'decrease' },
+    ];
+    const id = prepare({
+      success: true,
+      gasEstimate: 150_000n,
+      gasEstimateFormatted: '150,000',
+      provider: 'tenderly',
+      balanceChanges: usdcOut('400000'),
+    });
+    simulateWithTenderly.mockResolvedValue({ success: true, willRevert: false, gasUsed: 150_000, balanceChanges: usdcOut('5000000') });
+
+    const result = await execute({ preparedTxId: id, force: true });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('swap(uint256) on base blocked by spending limits');
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('records nothing when the handler sends nothing', async () => {
+    const id = prepareTransfer(500_000n);
+    estimateGas.mockRejectedValue(new Error('execution reverted'));
+
+    const result = await execute({ preparedTxId: id });
+
+    expect(result.content[0].text).toContain('Simulation changed since preparation');
+    expect(getSpendingHistory()).toEqual([]);
+  });
+});
+
+describe('wallet_executePrepared human approval', () => {
+  const execute = wrapTool(handleExecutePreparedRequest, {
+    checksSpending: true,
+    spendingExtractor: executePreparedSpendingExtractor,
+  });
+
+  // $0.80: within the $1 per-transaction limit, above the $0.50 approval threshold
+  function prepareTransfer(): string {
+    return storePreparedTx({
+      to: USDC as Hex,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [ROUTER, 800_000n] }),
+      value: 0n,
+      chainId: 8453,
+      chain: 'base',
+      functionName: 'transfer',
+      functionSignature: 'transfer(address,uint256)',
+      args: [ROUTER, '800000'],
+      simulation: { success: true, gasEstimate: 50_000n, gasEstimateFormatted: '50,000' },
+    });
+  }
+
+  function approvalIdIn(text: string): string {
+    return text.match(/apr_[0-9a-f]{8}/)![0];
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CLARA_APPROVAL_WAIT_MS', '0');
+    rmSync(process.env.CLARA_SPENDING_FILE!, { force: true });
+    setApprovalPrompt(null);
+    simulateWithTenderly.mockResolvedValue(null);
+    estimateGas.mockResolvedValue(50_000n);
+    call.mockResolvedValue({ data: undefined });
+    signAndSendTransaction.mockResolvedValue({ txHash: TX_HASH });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('waits for `clara-mcp approve`, then executes once with the approval ID', async () => {
+    const id = prepareTransfer();
+
+    const first = await execute({ preparedTxId: id });
+    expect(first.isError).toBe(true);
+    expect(first.content[0].text).toContain('⏸️');
+    expect(first.content[0].text).toContain('above the $0.50 approval threshold');
+    const approvalId = approvalIdIn(first.content[0].text);
+
+    const pending = await execute({ preparedTxId: id, approvalId });
+    expect(pending.content[0].text).toContain(`Still waiting for approval ${approvalId}`);
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+
+    decideApproval(approvalId, 'approved', 'cli');
+    const result = await execute({ preparedTxId: id, approvalId });
+
+    expect(result.isError).toBeFalsy();
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+    expect(getSpendingHistory()).toEqual([
+      expect.objectContaining({ amountUsd: '0.80', approval: expect.objectContaining({ id: approvalId, method: 'cli' }) }),
+    ]);
+    expect(loadPrepared(id)!.history.map((h) => h.state)).toEqual(['pending', 'approved', 'executing', 'executed']);
+    expect(getApproval(approvalId)!.status).toBe('used');
+  });
+
+  it("won't reuse an approval or apply it to a different payment", async () => {
+    const id = prepareTransfer();
+    const approvalId = approvalIdIn((await execute({ preparedTxId: id })).content[0].text);
+    decideApproval(approvalId, 'approved', 'cli');
+
+    const other = await execute({ preparedTxId: prepareTransfer(), approvalId });
+    expect(other.content[0].text).toContain('is for a different payment');
+
+    await execute({ preparedTxId: id, approvalId });
+    const replay = await execute({ preparedTxId: id, approvalId });
+    expect(replay.isError).toBe(true);
+    expect(getApproval(approvalId)!.status).toBe('used');
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks inline through elicitation when the client supports it', async () => {
+    const prompt = vi.fn(async () => false);
+    setApprovalPrompt(prompt);
+
+    const denied = await execute({ preparedTxId: prepareTransfer() });
+    expect(denied.content[0].text).toContain('was not approved');
+    expect(prompt.mock.calls[0][0]).toContain('Value: ~$0.80');
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+
+    prompt.mockResolvedValue(true);
+    const approved = await execute({ preparedTxId: prepareTransfer() });
+    expect(approved.isError).toBeFalsy();
+    expect(getSpendingHistory()[0].approval).toMatchObject({ method: 'elicitation' });
+  });
+
+  it('asks a human for amounts that can\'t be priced', async () => {
+    const token = '0x9999999999999999999999999999999999999999' as Hex;
+    const id = storePreparedTx({
+      to: token,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [ROUTER, 1000n] }),
+      value: 0n,
+      chainId: 8453,
+      chain: 'base',
+      functionName: 'transfer',
+      functionSignature: 'transfer(address,uint256)',
+      args: [ROUTER, '1000'],
+      simulation: { success: true, gasEstimate: 50_000n, gasEstimateFormatted: '50,000' },
+    });
+
+    const result = await execute({ preparedTxId: id });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("needs human approval: 1000 unknown token can't be priced in USD");
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+
+    // Once approved, the send is recorded at $0 with what couldn't be priced
+    const approvalId = approvalIdIn(result.content[0].text);
+    decideApproval(approvalId, 'approved', 'cli');
+    const sent = await execute({ preparedTxId: id, approvalId });
+
+    expect(sent.content[0].text).toContain('**Value moved:** ~$0.00 + 1000 unknown token (no USD price)');
+    expect(getSpendingHistory()).toEqual([
+      expect.objectContaining({
+        amountUsd: '0.00',
+        unpriced: ['1000 unknown token'],
+        txHash: TX_HASH,
+        approval: expect.objectContaining({ id: approvalId }),
+      }),
+    ]);
+  });
+
+  it('falls back to an approval ID when the client can\'t be asked', async () => {
+    setApprovalPrompt(async () => null);
+
+    const result = await execute({ preparedTxId: prepareTransfer() });
+
+    expect(result.content[0].text).toContain('needs human approval');
+    expect(getApproval(approvalIdIn(result.content[0].text))!.status).toBe('pending');
+  });
+});
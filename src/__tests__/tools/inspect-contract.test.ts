@@ -0,0 +1,122 @@
+/**
+ * Tests for wallet_inspect_contract
+ *
+ * Rendering of proxy/holder/function/risk sections, mutability filtering,
+ * and the `ref` round-trip through the metadata cache.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Hex } from 'viem';
+import { handleInspectContractRequest } from '../../tools/inspect-contract.js';
+import { extractSummary } from '../../cache/metadata.js';
+import type { ContractMetadata } from '../../providers/types.js';
+import { ClaraErrorCode } from '../../errors.js';
+import type { ToolContext } from '../../middleware.js';
+
+const CONTRACT = '0x1234567890123456789012345678901234567890' as Hex;
+
+const metadata: ContractMetadata = {
+  address: CONTRACT,
+  chain: 'base',
+  chainId: 8453,
+  name: 'VaultToken',
+  verified: true,
+  functions: [
+    { name: 'balanceOf', signature: '0x70a08231', fullSignature: 'balanceOf(address)', inputs: [], outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view' },
+    { name: 'deposit', signature: '0xd0e30db0', fullSignature: 'deposit()', inputs: [], outputs: [], stateMutability: 'payable', summary: 'Deposit ETH' },
+    { name: 'pause', signature: '0x8456cb59', fullSignature: 'pause()', inputs: [], outputs: [], stateMutability: 'nonpayable' },
+  ],
+  events: [],
+  token: {
+    type: 'ERC20',
+    symbol: 'VLT',
+    name: 'Vault',
+    decimals: 18,
+    topHolders: [{ address: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', sharePercentage: 42.5, type: 'contract', entityLabel: 'Bridge | escrow' }],
+  },
+  proxy: { isProxy: true, implementationAddress: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' },
+  upgrades: [{ version: 1, implementationAddress: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', blockNumber: 100, timestamp: '' }],
+  abi: [{ type: 'function', name: 'deposit' }],
+};
+
+const getContractMetadata = vi.fn();
+const hasCapability = vi.fn();
+const cached = new Map<string, { data: ContractMetadata; summary: ReturnType<typeof extractSummary> }>();
+
+vi.mock('../../providers/index.js', () => ({
+  getProviderRegistry: vi.fn(() => ({ getContractMetadata, hasCapability })),
+  getCachedSummary: vi.fn(() => null),
+  cacheMetadata: vi.fn((_chainId: number, _address: string, data: ContractMetadata) => {
+    const summary = extractSummary(data, 'ref123abc456');
+    cached.set(summary.ref, { data, summary });
+    return summary;
+  }),
+  getCachedMetadataByRef: vi.fn((ref: string) => cached.get(ref) ?? null),
+}));
+
+vi.mock('../../services/resolve-address.js', () => ({
+  resolveAddress: vi.fn(async (input: string) => ({ address: input, source: 'raw' })),
+  formatResolved: vi.fn((r: { address: string }) => `\`${r.address}\``),
+}));
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: CONTRACT, walletId: 'test-wallet-id' } as any,
+    walletAddress: CONTRACT,
+    sessionKey: null,
+  };
+}
+
+describe('wallet_inspect_contract', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cached.clear();
+    hasCapability.mockReturnValue(true);
+    getContractMetadata.mockResolvedValue({ success: true, data: metadata, provider: 'herd', level: 'full' });
+  });
+
+  it('renders proxy, upgrades, holders, write functions, and risk signals', async () => {
+    const result = await handleInspectContractRequest({ address: CONTRACT }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(text).toContain('implementation `0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb`');
+    expect(text).toContain('v1: `0xbbbb');
+    expect(text).toContain('42.50%');
+    expect(text).not.toContain('Bridge | escrow'); // pipe would break the table
+    expect(text).toContain('`deposit()` _payable_ — Deposit ETH');
+    expect(text).toContain('`pause()`');
+    expect(text).not.toContain('balanceOf(address)');
+    expect(text).toContain('**upgradeable_proxy**');
+    expect(text).toContain('**has_admin_functions**');
+    expect(text).toContain('{"ref": "ref123abc456"}');
+  });
+
+  it('filters functions by mutability', async () => {
+    const result = await handleInspectContractRequest({ address: CONTRACT, mutability: ['view'] }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(text).toContain('`balanceOf(address)` → (uint256) _view_');
+    expect(text).not.toContain('`deposit()`');
+  });
+
+  it('returns full metadata for a ref, without the ABI unless asked', async () => {
+    await handleInspectContractRequest({ address: CONTRACT }, makeCtx());
+
+    const compact = await handleInspectContractRequest({ ref: 'ref123abc456' }, makeCtx());
+    expect(compact.content[0].text).toContain('"name": "VaultToken"');
+    expect(compact.content[0].text).not.toContain('"abi"');
+
+    const full = await handleInspectContractRequest({ ref: 'ref123abc456', includeAbi: true }, makeCtx());
+    expect(full.content[0].text).toContain('"abi"');
+    expect(getContractMetadata).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects unknown refs and chains without contract intel', async () => {
+    await expect(handleInspectContractRequest({ ref: 'missing' }, makeCtx()))
+      .rejects.toThrow('No cached metadata');
+
+    hasCapability.mockReturnValue(false);
+    await expect(handleInspectContractRequest({ address: CONTRACT, chain: 'arbitrum' }, makeCtx()))
+      .rejects.toMatchObject({ code: ClaraErrorCode.PROVIDER_UNAVAILABLE });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for the lifecycle keeper and work_keeper
+ *
+ * Decisions are driven by live contract state; discovery comes from the
+ * (mocked) event index.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BaseError, decodeFunctionData, type Hex } from 'viem';
+import { findKeeperActions, prepareKeeperActions } from '../../services/keeper.js';
+import { handleWorkKeeperRequest } from '../../tools/work-keeper.js';
+import { CHALLENGE_ABI } from '../../config/clara-contracts.js';
+import { getPreparedTx } from '../../para/prepared-tx.js';
+import type { ToolContext } from '../../middleware.js';
+
+const TEST_ADDRESS = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const OTHER = '0x2222222222222222222222222222222222222222' as Hex;
+const BOUNTY_A = '0x1111111111111111111111111111111111111111' as Hex;
+const BOUNTY_B = '0x3333333333333333333333333333333333333333' as Hex;
+const CHALLENGE = '0x4444444444444444444444444444444444444444' as Hex;
+const NOW = 1_900_000_000n;
+
+vi.mock('../../indexer/index.js', () => ({
+  getIndexStatus: vi.fn(() => ({ cursorBlock: 100, headBlock: 110, syncing: false, lastError: null, eventCount: 3 })),
+  queryBounties: vi.fn(),
+  queryChallenges: vi.fn(),
+}));
+
+vi.mock('../../para/transactions.js', () => ({
+  signAndSendTransaction: vi.fn(),
+}));
+
+vi.mock('../../gas-preflight.js', () => ({
+  requireGas: vi.fn(),
+  requireContract: vi.fn(),
+  checkGasPreflight: vi.fn(),
+}));
+
+// Public client stub: readContract answers from `state[address][functionName]`
+const state: Record<string, Record<string, unknown>> = {};
+const estimateGas = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({
+      estimateGas,
+      readContract: vi.fn(async ({ address, functionName }: { address: string; functionName: string }) =>
+        state[address.toLowerCase()]?.[functionName]),
+      waitForTransactionReceipt: vi.fn(async () => ({ status: 'success', logs: [] })),
+    })),
+  };
+});
+
+import { queryBounties, queryChallenges } from '../../indexer/index.js';
+import { signAndSendTransaction } from '../../para/transactions.js';
+
+function makeCtx(address: Hex = TEST_ADDRESS): ToolContext {
+  return {
+    session: { authenticated: true, address, walletId: 'test-wallet-id' } as any,
+    walletAddress: address,
+    sessionKey: null,
+  };
+}
+
+function bounty(address: Hex, fields: Record<string, unknown>) {
+  state[address.toLowerCase()] = {
+    poster: TEST_ADDRESS,
+    claimer: OTHER,
+    token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    amount: 100_000_000n,
+    deadline: 1_000_000_000n,
+    taskURI: '',
+    status: 1, // Claimed
+    bondRate: 1000n,
+    posterBond: 10_000_000n,
+    workerBond: 10_000_000n,
+    ...fields,
+  };
+}
+
+describe('Lifecycle Keeper', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(state)) delete state[key];
+    estimateGas.mockResolvedValue(90_000n);
+    vi.mocked(queryBounties).mockImplementation(((query: { poster?: string }) =>
+      (query.poster ? [{ address: BOUNTY_A }, { address: BOUNTY_B }] : [])) as any);
+    vi.mocked(queryChallenges).mockReturnValue([]);
+  });
+
+  it('expires the poster\'s overdue bounty and auto-approves past the review period', async () => {
+    bounty(BOUNTY_A, {});
+    bounty(BOUNTY_B, { status: 2, deadline: NOW + 86_400n, submittedAt: NOW - 73n * 3600n }); // Submitted
+
+    const actions = await findKeeperActions(TEST_ADDRESS, { now: NOW });
+
+    expect(actions.map((a) => [a.address, a.functionName])).toEqual([
+      [BOUNTY_A, 'expire'],
+      [BOUNTY_B, 'autoApprove'],
+    ]);
+  });
+
+  it('never expires a bounty for its claimer (that would slash their bond)', async () => {
+    bounty(BOUNTY_A, { poster: OTHER, claimer: TEST_ADDRESS });
+    vi.mocked(queryBounties).mockImplementation(((query: { claimer?: string }) =>
+      (query.claimer ? [{ address: BOUNTY_A }] : [])) as any);
+
+    expect(await findKeeperActions(TEST_ADDRESS, { now: NOW })).toEqual([]);
+  });
+
+  it('prepares claimExpiredRefund for an expired challenge the wallet entered', async () => {
+    vi.mocked(queryBounties).mockReturnValue([]);
+    vi.mocked(queryChallenges).mockImplementation(((query: { submitter?: string }) =>
+      (query.submitter ? [{ address: CHALLENGE }] : [])) as any);
+    state[CHALLENGE.toLowerCase()] = {
+      poster: OTHER,
+      evaluator: '0x0000000000000000000000000000000000000000',
+      token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      prizePool: 300_000_000n,
+      posterBond: 15_000_000n,
+      deadline: NOW - 10n * 86_400n,
+      scoringDeadline: NOW - 7n * 86_400n,
+      challengeURI: '',
+      winnerCount: 2,
+      getPayoutBps: [6000, 4000],
+      status: 4, // Expired
+      submissionCount: 3n,
+      scorePostedAt: 0n,
+      getSubmission: { agentId: 42n, solutionURI: '', solutionHash: `0x${'0'.repeat(64)}`, submittedAt: 1n, version: 1n },
+      hasClaimed: false,
+    };
+
+    const [item] = await prepareKeeperActions(TEST_ADDRESS, await findKeeperActions(TEST_ADDRESS, { now: NOW }));
+
+    expect(item.prepared.simulation.success).toBe(true);
+    const stored = getPreparedTx(item.prepared.id)!;
+    expect(stored.to).toBe(CHALLENGE);
+    expect(decodeFunctionData({ abi: CHALLENGE_ABI, data: stored.data }).functionName).toBe('claimExpiredRefund');
+  });
+
+  describe('work_keeper', () => {
+    it('lists prepared actions without sending anything', async () => {
+      bounty(BOUNTY_A, {});
+      bounty(BOUNTY_B, { status: 0 });
+
+      const result = await handleWorkKeeperRequest({}, makeCtx());
+
+      expect(result.content[0].text).toContain('2 Pending Actions');
+      expect(result.content[0].text).toMatch(/`ptx_[^`]+`/);
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('stops at maxTransactions and reports the rest as skipped', async () => {
+      bounty(BOUNTY_A, {});
+      bounty(BOUNTY_B, { status: 0 });
+      vi.mocked(signAndSendTransaction).mockResolvedValue({ txHash: `0x${'a'.repeat(64)}` } as any);
+
+      const result = await handleWorkKeeperRequest({ execute: true, maxTransactions: 1 }, makeCtx());
+
+      expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toContain('1 sent, 1 skipped');
+      expect(result.content[0].text).toContain('1-transaction limit');
+    });
+
+    it('skips actions whose simulation reverts', async () => {
+      bounty(BOUNTY_A, {});
+      vi.mocked(queryBounties).mockImplementation(((query: { poster?: string }) =>
+        (query.poster ? [{ address: BOUNTY_A }] : [])) as any);
+      estimateGas.mockRejectedValue(new BaseError('DeadlineNotPassed()'));
+
+      const result = await handleWorkKeeperRequest({ execute: true }, makeCtx());
+
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('DeadlineNotPassed()');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for wallet_multicall_read
+ *
+ * One Multicall3 round trip per batch, per-read ABI/overload resolution,
+ * and isolation of failing reads.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { erc20Abi, parseAbi, type Hex } from 'viem';
+import { handleMulticallReadRequest } from '../../tools/multicall-read.js';
+import { MULTICALL3_ADDRESS } from '../../services/multicall.js';
+import { ClaraErrorCode } from '../../errors.js';
+import type { ToolContext } from '../../middleware.js';
+
+const multicall = vi.fn();
+const getContractMetadata = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ multicall })),
+  };
+});
+
+vi.mock('../../providers/index.js', () => ({
+  getProviderRegistry: vi.fn(() => ({ getContractMetadata })),
+}));
+
+vi.mock('../../services/resolve-address.js', () => ({
+  resolveAddress: vi.fn(async (input: string) => {
+    if (!input.startsWith('0x')) throw new Error(`Name not found: ${input}`);
+    return { address: input, source: 'raw' };
+  }),
+}));
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const VAULT = '0x1111111111111111111111111111111111111111';
+const VAULT_ABI = parseAbi([
+  'function convert(uint256 shares) view returns (uint256)',
+  'function convert(address owner) view returns (uint256)',
+  'function info() view returns (uint256 assets, address manager)',
+]);
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+    walletAddress: WALLET,
+    sessionKey: null,
+  };
+}
+
+function resultsJson(text: string) {
+  return JSON.parse(text.match(/```json\n([\s\S]+?)\n```/)![1]);
+}
+
+describe('wallet_multicall_read', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getContractMetadata.mockResolvedValue({ success: true, data: { abi: erc20Abi }, provider: 'herd', level: 'full' });
+  });
+
+  it('batches all reads into one Multicall3 call and decodes the results', async () => {
+    multicall.mockResolvedValue([
+      { status: 'success', result: 12_500_000n },
+      { status: 'success', result: 6 },
+      { status: 'success', result: [10n ** 24n, WALLET] },
+    ]);
+
+    const result = await handleMulticallReadRequest({
+      reads: [
+        { contract: USDC, function: 'balanceOf', args: [WALLET] },
+        { contract: USDC, function: 'decimals' },
+        { contract: VAULT, function: 'info', abi: VAULT_ABI },
+      ],
+    }, makeCtx());
+
+    expect(multicall).toHaveBeenCalledTimes(1);
+    const request = multicall.mock.calls[0][0];
+    expect(request).toMatchObject({ allowFailure: true, batchSize: 0, multicallAddress: MULTICALL3_ADDRESS });
+    expect(request.contracts).toHaveLength(3);
+    expect(request.contracts[0]).toMatchObject({ address: USDC, functionName: 'balanceOf' });
+
+    // Herd ABI fetched once for the two USDC reads, not at all for the override
+    expect(getContractMetadata).toHaveBeenCalledTimes(1);
+
+    const { results } = resultsJson(result.content[0].text);
+    expect(results.map((r: { result: unknown }) => r.result)).toEqual([
+      '12500000',
+      6,
+      { assets: '1000000000000000000000000', manager: WALLET },
+    ]);
+    expect(result.content[0].text).toContain('3/3 succeeded (1 RPC request)');
+  });
+
+  it('reports reverts and unencodable reads without failing the batch', async () => {
+    multicall.mockResolvedValue([
+      { status: 'failure', error: { shortMessage: 'execution reverted' } },
+      { status: 'success', result: 1n },
+    ]);
+
+    const result = await handleMulticallReadRequest({
+      reads: [
+        { contract: USDC, function: 'balanceOf', args: [WALLET] },
+        { contract: VAULT, function: 'convert', args: [WALLET], abi: VAULT_ABI },
+        { contract: VAULT, function: 'convert(uint256)', args: ['5'], abi: VAULT_ABI },
+        { contract: 'nobody', function: 'balanceOf', args: [WALLET] },
+      ],
+    }, makeCtx());
+
+    // Only the two resolvable, unambiguous reads reach the RPC
+    expect(multicall.mock.calls[0][0].contracts).toHaveLength(2);
+
+    const { results } = resultsJson(result.content[0].text);
+    expect(results[0]).toMatchObject({ success: false, error: 'execution reverted' });
+    expect(results[1].error).toContain('Ambiguous overload');
+    expect(results[2]).toMatchObject({ success: true, function: 'convert(uint256)', result: '1' });
+    expect(results[3].error).toContain('Cannot resolve contract');
+    expect(result.isError).toBe(false);
+  });
+
+  it('validates the batch', async () => {
+    await expect(handleMulticallReadRequest({ reads: [] }, makeCtx()))
+      .rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+
+    const tooMany = Array.from({ length: 51 }, () => ({ contract: USDC, function: 'decimals' }));
+    await expect(handleMulticallReadRequest({ reads: tooMany }, makeCtx()))
+      .rejects.toThrow('Too many reads');
+
+    multicall.mockRejectedValue(new Error('429 Too Many Requests'));
+    await expect(handleMulticallReadRequest({ reads: [{ contract: USDC, function: 'decimals' }] }, makeCtx()))
+      .rejects.toMatchObject({ code: ClaraErrorCode.PROVIDER_UNAVAILABLE });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for the pending transaction registry and wallet_pending
+ *
+ * Entries are pruned once the chain nonce passes them; speed-ups resend
+ * the same call and cancels send 0 ETH to self, both at the same nonce
+ * with fees raised enough to satisfy the EIP-1559 replacement rule.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import type { Hex } from 'viem';
+import { handlePendingRequest } from '../../tools/pending.js';
+import { getPendingTx, listPendingTxs, recordPendingTx } from '../../storage/pending.js';
+import { ClaraErrorCode } from '../../errors.js';
+import type { ToolContext } from '../../middleware.js';
+
+const getTransactionCount = vi.fn();
+const estimateGas = vi.fn();
+const signAndSendTransaction = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ getTransactionCount })),
+  };
+});
+
+vi.mock('../../para/gas.js', () => ({
+  estimateGas: (...args: unknown[]) => estimateGas(...args),
+}));
+
+vi.mock('../../para/transactions.js', () => ({
+  signAndSendTransaction: (...args: unknown[]) => signAndSendTransaction(...args),
+}));
+
+vi.mock('../../gas-preflight.js', () => ({
+  requireGas: vi.fn(async () => undefined),
+}));
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Hex;
+const GWEI = 1_000_000_000n;
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+    walletAddress: WALLET,
+    sessionKey: null,
+  };
+}
+
+function record(nonce: number, hashDigit: string) {
+  return recordPendingTx({
+    chainId: 8453,
+    address: WALLET,
+    nonce,
+    txHash: `0x${hashDigit.repeat(64)}` as Hex,
+    to: USDC,
+    value: '0',
+    data: '0xa9059cbb',
+    gas: '65000',
+    maxFeePerGas: (2n * GWEI).toString(),
+    maxPriorityFeePerGas: (GWEI / 10n).toString(),
+  });
+}
+
+describe('wallet_pending', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(process.env.CLARA_PENDING_FILE!, { force: true });
+    getTransactionCount.mockResolvedValue(5);
+    estimateGas.mockResolvedValue({ maxFeePerGas: GWEI, maxPriorityFeePerGas: GWEI / 100n });
+    signAndSendTransaction.mockResolvedValue({ txHash: `0x${'f'.repeat(64)}` });
+  });
+
+  it('keeps earlier hashes when a nonce is sent again', () => {
+    record(5, '1');
+    const replaced = record(5, '2');
+
+    expect(replaced.replaced).toEqual([`0x${'1'.repeat(64)}`]);
+    expect(getPendingTx(8453, WALLET.toUpperCase(), 5)!.txHash).toBe(`0x${'2'.repeat(64)}`);
+  });
+
+  it('lists what is still pending and prunes confirmed nonces', async () => {
+    record(4, '1');
+    record(5, '2');
+    record(6, '3');
+
+    const result = await handlePendingRequest({ action: 'list', chain: 'base' }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(getTransactionCount).toHaveBeenCalledWith({ address: WALLET, blockTag: 'latest' });
+    expect(text).toContain('| base | 5 |');
+    expect(text).toContain('| base | 6 |');
+    expect(text).not.toContain('| base | 4 |');
+    expect(listPendingTxs(WALLET).map((tx) => tx.nonce)).toEqual([5, 6]);
+  });
+
+  it('speeds up the oldest pending transaction with bumped fees', async () => {
+    record(5, '1');
+    record(6, '2');
+
+    const result = await handlePendingRequest({ action: 'speed_up', chain: 'base' }, makeCtx());
+
+    expect(signAndSendTransaction).toHaveBeenCalledWith('test-wallet-id', {
+      to: USDC,
+      value: 0n,
+      data: '0xa9059cbb',
+      gas: 65_000n,
+      chainId: 8453,
+      nonce: 5,
+      // +20% over the pending fees (both above the network estimate)
+      maxFeePerGas: (24n * GWEI) / 10n,
+      maxPriorityFeePerGas: (12n * GWEI) / 100n,
+      description: 'Speed-up of nonce 5 on base',
+    });
+    expect(result.content[0].text).toContain('Sped up nonce 5 on base');
+    expect(result.content[0].text).toContain(`\`0x${'1'.repeat(64)}\``);
+  });
+
+  it('cancels with a 0 ETH self-send, raising fees to the network estimate', async () => {
+    record(5, '1');
+    estimateGas.mockResolvedValue({ maxFeePerGas: 5n * GWEI, maxPriorityFeePerGas: GWEI });
+
+    await handlePendingRequest({ action: 'cancel', chain: 'base', nonce: 5, bumpPercent: 10 }, makeCtx());
+
+    expect(signAndSendTransaction.mock.calls[0][1]).toEqual({
+      to: WALLET,
+      value: 0n,
+      data: undefined,
+      gas: 21_000n,
+      chainId: 8453,
+      nonce: 5,
+      maxFeePerGas: 5n * GWEI,
+      maxPriorityFeePerGas: GWEI,
+      description: 'Cancellation of nonce 5 on base',
+    });
+  });
+
+  it('refuses confirmed nonces and too-small bumps', async () => {
+    record(4, '1');
+
+    await expect(handlePendingRequest({ action: 'cancel', chain: 'base', nonce: 4 }, makeCtx()))
+      .rejects.toThrow('No pending transaction at nonce 4');
+    await expect(handlePendingRequest({ action: 'speed_up', bumpPercent: 5 }, makeCtx()))
+      .rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+  });
+});
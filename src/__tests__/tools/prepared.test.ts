@@ -0,0 +1,151 @@
+/**
+ * Tests for the on-disk prepared transaction store and wallet_prepared
+ *
+ * Round-trip through ~/.clara/prepared (CLARA_PREPARED_DIR in tests),
+ * lifecycle transitions, expiry extension, and the content-hash check
+ * that stops a tampered record from being executed.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Hex } from 'viem';
+import { handlePreparedRequest } from '../../tools/prepared.js';
+import { handleExecutePreparedRequest } from '../../tools/execute-prepared.js';
+import {
+  getPreparedTx,
+  loadPrepared,
+  storePreparedTx,
+  verifyPreparedContent,
+} from '../../para/prepared-tx.js';
+import { ClaraErrorCode } from '../../errors.js';
+import type { ToolContext } from '../../middleware.js';
+
+const signAndSendTransaction = vi.fn();
+
+// Re-simulation at execute time sees the same outcome
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({
+      estimateGas: vi.fn(async () => 46_000n),
+      call: vi.fn(async () => ({ data: undefined })),
+    })),
+  };
+});
+
+vi.mock('../../para/transactions.js', () => ({
+  signAndSendTransaction: (...args: unknown[]) => signAndSendTransaction(...args),
+}));
+
+vi.mock('../../gas-preflight.js', () => ({
+  requireGas: vi.fn(async () => undefined),
+}));
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Hex;
+const TX_HASH = `0x${'a'.repeat(64)}` as Hex;
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+    walletAddress: WALLET,
+    sessionKey: null,
+  };
+}
+
+function prepare(value = 0n, expiryMs?: number): string {
+  return storePreparedTx({
+    to: USDC,
+    data: '0x095ea7b3',
+    value,
+    chainId: 8453,
+    chain: 'base',
+    contractName: 'USDC',
+    functionName: 'approve',
+    functionSignature: 'approve(address,uint256)',
+    args: [WALLET, '1000000'],
+    simulation: { success: true, gasEstimate: 46_000n, gasEstimateFormatted: '46,000' },
+  }, expiryMs);
+}
+
+describe('prepared transaction store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signAndSendTransaction.mockResolvedValue({ txHash: TX_HASH });
+  });
+
+  it('persists records with bigints and a content-bound ID', () => {
+    const id = prepare(10n ** 18n);
+    expect(id).toMatch(/^ptx_[a-z0-9]+_[0-9a-f]{12}$/);
+
+    const tx = loadPrepared(id)!;
+    expect(tx.state).toBe('pending');
+    expect((tx as { value: bigint }).value).toBe(10n ** 18n);
+    expect((tx as { simulation: { gasEstimate: bigint } }).simulation.gasEstimate).toBe(46_000n);
+    expect(verifyPreparedContent(tx)).toBe(true);
+    expect(id).toContain(tx.contentHash.slice(2, 14));
+  });
+
+  it('marks executed records and refuses to send them twice', async () => {
+    const id = prepare();
+
+    const first = await handleExecutePreparedRequest({ preparedTxId: id }, makeCtx());
+    expect(first.isError).toBeFalsy();
+    expect(loadPrepared(id)).toMatchObject({ state: 'executed', txHashes: [TX_HASH] });
+
+    const second = await handleExecutePreparedRequest({ preparedTxId: id }, makeCtx());
+    expect(second.isError).toBe(true);
+    expect(second.content[0].text).toContain('already executed');
+    expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a record whose calldata was changed on disk', async () => {
+    const id = prepare();
+    const file = join(process.env.CLARA_PREPARED_DIR!, `${id}.json`);
+    writeFileSync(file, readFileSync(file, 'utf-8').replace('0x095ea7b3', '0xa9059cbb'));
+
+    const result = await handleExecutePreparedRequest({ preparedTxId: id }, makeCtx());
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Integrity check failed');
+    expect(signAndSendTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('wallet_prepared', () => {
+  it('lists, inspects, and rejects with an audit trail', async () => {
+    const id = prepare();
+
+    const list = await handlePreparedRequest({ action: 'list', state: 'pending' }, makeCtx());
+    expect(list.content[0].text).toContain(`\`${id}\``);
+    expect(list.content[0].text).toContain('USDC.approve');
+
+    const rejected = await handlePreparedRequest({ action: 'reject', id, reason: 'wrong spender' }, makeCtx());
+    expect(rejected.content[0].text).toContain('Rejected');
+    expect(getPreparedTx(id)).toBeNull();
+
+    const inspect = await handlePreparedRequest({ action: 'inspect', id }, makeCtx());
+    expect(inspect.content[0].text).toContain('rejected');
+    expect(inspect.content[0].text).toContain('wrong spender');
+    expect(inspect.content[0].text).toContain('✅ matches ID');
+
+    await expect(handlePreparedRequest({ action: 'reject', id }, makeCtx()))
+      .rejects.toThrow('from rejected to rejected');
+  });
+
+  it('extends pending records but not expired ones', async () => {
+    const id = prepare();
+    const before = loadPrepared(id)!.expiresAt;
+
+    await handlePreparedRequest({ action: 'extend', id, minutes: 20 }, makeCtx());
+    expect(loadPrepared(id)!.expiresAt).toBeGreaterThan(before + 10 * 60_000);
+
+    const stale = prepare(1n, -1);
+    await expect(handlePreparedRequest({ action: 'extend', id: stale }, makeCtx()))
+      .rejects.toThrow('it is expired');
+
+    await expect(handlePreparedRequest({ action: 'extend', id, minutes: 90 }, makeCtx()))
+      .rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+  });
+});
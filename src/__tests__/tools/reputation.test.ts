@@ -0,0 +1,127 @@
+/**
+ * Tests for work_reputation and work_rate
+ *
+ * Agent lookup by ID / address / name, score rendering from the index,
+ * and the prepare-then-execute feedback flow.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { decodeFunctionData, type Hex } from 'viem';
+import { handleWorkReputationRequest } from '../../tools/work-reputation.js';
+import { handleWorkRateRequest } from '../../tools/work-rate.js';
+import { REPUTATION_REGISTRY_ABI, getClaraContracts } from '../../config/clara-contracts.js';
+import { getPreparedTx } from '../../para/prepared-tx.js';
+import { ClaraErrorCode } from '../../errors.js';
+import type { ToolContext } from '../../middleware.js';
+
+const TEST_ADDRESS = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const AGENT_OWNER = '0x00000000000000000000000000000000000000bb' as Hex;
+
+const agent = { agentId: '42', owner: AGENT_OWNER, uri: 'data:,', registeredAt: 1_700_000_000 };
+const reputation = {
+  agentId: '42',
+  count: 2,
+  average: 4,
+  feedback: [
+    { agentId: '42', client: '0x00000000000000000000000000000000000000aa', feedbackIndex: '2', value: '3', valueDecimals: 0, tag1: 'peer', tag2: '', feedbackURI: '', timestamp: 1_700_100_000, revoked: false },
+    { agentId: '42', client: '0x00000000000000000000000000000000000000aa', feedbackIndex: '1', value: '5', valueDecimals: 0, tag1: 'bounty', tag2: 'solidity', feedbackURI: '', timestamp: 1_700_000_000, revoked: false },
+  ],
+};
+
+vi.mock('../../indexer/index.js', () => ({
+  getIndexStatus: vi.fn(() => ({ cursorBlock: 100, headBlock: 110, syncing: false, lastError: null, eventCount: 3 })),
+  getIndexedAgent: vi.fn((id: string | number) => (String(id) === '42' ? agent : null)),
+  getAgentsByOwner: vi.fn((owner: string) => (owner.toLowerCase() === AGENT_OWNER ? [agent] : [])),
+  getReputation: vi.fn(() => reputation),
+  getAgentProfile: vi.fn(() => ({ agent, reputation, bountiesPosted: 0, bountiesCompleted: 1, bountiesInProgress: 0 })),
+}));
+
+vi.mock('../../services/resolve-address.js', () => ({
+  resolveAddress: vi.fn(async (input: string) => ({
+    address: input.startsWith('0x') ? input : AGENT_OWNER,
+    source: input.startsWith('0x') ? 'raw' : 'clara',
+    displayName: input.startsWith('0x') ? undefined : `${input}.claraid.eth`,
+  })),
+}));
+
+const estimateGas = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ estimateGas })),
+  };
+});
+
+import { getIndexStatus } from '../../indexer/index.js';
+import { resolveAddress } from '../../services/resolve-address.js';
+
+function makeCtx(address: Hex = TEST_ADDRESS): ToolContext {
+  return {
+    session: { authenticated: true, address, walletId: 'test-wallet-id' } as any,
+    walletAddress: address,
+    sessionKey: null,
+  };
+}
+
+describe('Reputation Tools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    estimateGas.mockResolvedValue(80_000n);
+  });
+
+  describe('work_reputation', () => {
+    it('resolves a claraid.eth name to its agent and shows the score', async () => {
+      const result = await handleWorkReputationRequest({ name: 'brian' }, makeCtx());
+      const text = result.content[0].text;
+
+      expect(resolveAddress).toHaveBeenCalledWith('brian');
+      expect(text).toContain('Agent #42 (brian.claraid.eth)');
+      expect(text).toContain('4.00 from 2 reviews');
+      expect(text).toContain('bounty, solidity');
+    });
+
+    it('reports an address with no registered agent', async () => {
+      await expect(
+        handleWorkReputationRequest({ address: TEST_ADDRESS }, makeCtx()),
+      ).rejects.toThrow('No ERC-8004 agent found');
+    });
+
+    it('waits for the indexer backfill', async () => {
+      vi.mocked(getIndexStatus).mockReturnValueOnce({ cursorBlock: null, headBlock: null, syncing: true, lastError: null, eventCount: 0 });
+
+      const result = await handleWorkReputationRequest({ agentId: 42 }, makeCtx());
+
+      expect(result.content[0].text).toContain('still backfilling');
+    });
+  });
+
+  describe('work_rate', () => {
+    it('prepares a simulated giveFeedback for wallet_executePrepared', async () => {
+      const result = await handleWorkRateRequest({ agentId: 42, rating: 4, skill: 'Solidity' }, makeCtx());
+      const text = result.content[0].text;
+
+      expect(result.isError).toBe(false);
+      const id = text.match(/preparedTxId="(ptx_[^"]+)"/)?.[1];
+      const prepared = getPreparedTx(id!);
+      expect(prepared?.to).toBe(getClaraContracts().reputationRegistry);
+
+      const { functionName, args } = decodeFunctionData({ abi: REPUTATION_REGISTRY_ABI, data: prepared!.data });
+      expect(functionName).toBe('giveFeedback');
+      expect(args.slice(0, 5)).toEqual([42n, 4n, 0, 'peer', 'solidity']);
+    });
+
+    it('refuses to rate an agent the wallet owns', async () => {
+      await expect(
+        handleWorkRateRequest({ agentId: 42, rating: 5 }, makeCtx(AGENT_OWNER)),
+      ).rejects.toThrow('cannot rate it');
+    });
+
+    it('rejects ratings outside 1-5', async () => {
+      await expect(
+        handleWorkRateRequest({ agentId: 42, rating: 0 }, makeCtx()),
+      ).rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+    });
+  });
+});
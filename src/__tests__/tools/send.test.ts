@@ -32,6 +32,16 @@ vi.mock('../../config/tokens.js', () => ({
 vi.mock('../../storage/spending.js', () => ({
   checkSpendingLimits: vi.fn(() => ({ allowed: true })),
   recordSpending: vi.fn(),
+  getSpendingLimits: vi.fn(() => ({ requireApprovalAbove: '0.50' })),
+}));
+
+// Mock USD pricing ($3000 ETH, $1 stablecoins)
+vi.mock('../../services/pricing.js', () => ({
+  priceAmount: vi.fn(async (_chain: string, token: string, raw: bigint) => {
+    const isNative = token === 'native';
+    const amount = isNative ? Number(raw) / 1e18 : Number(raw) / 1e6;
+    return { token, symbol: isNative ? 'ETH' : 'USDC', amount: String(amount), usd: amount * (isNative ? 3000 : 1) };
+  }),
 }));
 
 // Mock risk assessment
@@ -57,13 +67,15 @@ vi.mock('viem', async () => {
     createPublicClient: vi.fn(() => ({
       call: vi.fn().mockResolvedValue(undefined),
       getCode: vi.fn().mockResolvedValue('0x'),
-      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: 'success' }),
     })),
   };
 });
 
 import { signAndSendTransaction } from '../../para/transactions.js';
 import { resolveToken } from '../../config/tokens.js';
+import { checkSpendingLimits, recordSpending } from '../../storage/spending.js';
+import { priceAmount } from '../../services/pricing.js';
+import { decideApproval } from '../../storage/approvals.js';
 
 // ─── Test Helpers ───────────────────────────────────────────────────
 
@@ -192,23 +204,32 @@ describe('Send Tool', () => {
     it('sends native token successfully', async () => {
       vi.mocked(signAndSendTransaction).mockResolvedValue({
         txHash: '0xabc123def456789012345678901234567890123456789012345678901234567890',
+        trackingId: 'trk_abc123def456',
+        gas: { tier: 'fast', maxFeePerGas: 120_000_000n, maxPriorityFeePerGas: 10_000_000n, gasLimit: 21_000n, capped: false },
       });
 
       const result = await handleSendRequest({
         to: '0x1234567890123456789012345678901234567890',
         amount: '0.1',
         chain: 'base',
+        urgency: 'fast',
       }, makeCtx());
 
       expect(result.isError).toBeUndefined();
-      expect(result.content[0].text).toContain('Transaction confirmed');
+      // Returns on submission; the watcher tracks confirmation
+      expect(result.content[0].text).toContain('Transaction submitted');
       expect(result.content[0].text).toContain('0.1');
       expect(result.content[0].text).toContain('ETH');
+      expect(result.content[0].text).toContain('trk_abc123def456');
+      expect(result.content[0].text).toContain('wallet_tx_status');
+      expect(result.content[0].text).toContain('**Gas:** fast tier · max 0.12 gwei');
       expect(signAndSendTransaction).toHaveBeenCalledWith(
         'test-wallet-id',
         expect.objectContaining({
           to: '0x1234567890123456789012345678901234567890',
           chainId: 8453, // Base
+          description: 'Send 0.1 ETH on base',
+          urgency: 'fast',
         })
       );
     });
@@ -230,6 +251,107 @@ describe('Send Tool', () => {
     });
   });
 
+  describe('handleSendRequest - Spending Limits', () => {
+    it('prices native sends and blocks them over the limit', async () => {
+      vi.mocked(checkSpendingLimits).mockReturnValueOnce({
+        allowed: false,
+        requiresApproval: true,
+        reason: 'Amount $15000.00 exceeds per-transaction limit of $1.00',
+        todayTotal: 0,
+        remainingToday: 10,
+      });
+
+      const result = await handleSendRequest({
+        to: '0x1234567890123456789012345678901234567890',
+        amount: '5',
+        chain: 'base',
+      }, makeCtx());
+
+      expect(priceAmount).toHaveBeenCalledWith('base', 'native', 5_000_000_000_000_000_000n, TEST_ADDRESS);
+      expect(checkSpendingLimits).toHaveBeenCalledWith('15000.00');
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Send blocked by spending limits');
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('records priced sends and asks a human when a token has no price', async () => {
+      vi.mocked(signAndSendTransaction).mockResolvedValue({
+        txHash: '0xabc123def456789012345678901234567890123456789012345678901234567890',
+      });
+
+      const sent = await handleSendRequest({
+        to: '0x1234567890123456789012345678901234567890',
+        amount: '0.0001',
+        chain: 'base',
+      }, makeCtx());
+      expect(sent.content[0].text).toContain('(~$0.30)');
+      expect(recordSpending).toHaveBeenCalledWith(expect.objectContaining({ amountUsd: '0.30' }));
+
+      vi.mocked(priceAmount).mockResolvedValueOnce({ token: 'native', symbol: 'ETH', amount: '0.0001', usd: null });
+      const unpriced = await handleSendRequest({
+        to: '0x1234567890123456789012345678901234567890',
+        amount: '0.0001',
+        chain: 'base',
+      }, makeCtx());
+      expect(unpriced.isError).toBe(true);
+      expect(unpriced.content[0].text).toContain(
+        'Send 0.0001 ETH on base (~$0.00 + 0.0001 ETH (no USD price)) needs human approval: 0.0001 ETH can\'t be priced in USD',
+      );
+      expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+      expect(recordSpending).toHaveBeenCalledTimes(1);
+
+      // Approved, it is recorded at $0 with the amount that had no price
+      const approvalId = unpriced.content[0].text.match(/apr_[0-9a-f]{8}/)![0];
+      decideApproval(approvalId, 'approved', 'cli');
+      vi.mocked(priceAmount).mockResolvedValueOnce({ token: 'native', symbol: 'ETH', amount: '0.0001', usd: null });
+      await handleSendRequest({
+        to: '0x1234567890123456789012345678901234567890',
+        amount: '0.0001',
+        chain: 'base',
+        approvalId,
+      }, makeCtx());
+      expect(recordSpending).toHaveBeenLastCalledWith(expect.objectContaining({
+        amountUsd: '0.00',
+        unpriced: ['0.0001 ETH'],
+        approval: expect.objectContaining({ id: approvalId }),
+      }));
+    });
+
+    it('waits for human approval above the threshold', async () => {
+      vi.mocked(checkSpendingLimits).mockReturnValueOnce({
+        allowed: true,
+        requiresApproval: true,
+        todayTotal: 0,
+        remainingToday: 10,
+      }).mockReturnValueOnce({
+        allowed: true,
+        requiresApproval: true,
+        todayTotal: 0,
+        remainingToday: 10,
+      });
+      vi.mocked(signAndSendTransaction).mockResolvedValue({
+        txHash: '0xabc123def456789012345678901234567890123456789012345678901234567890',
+      });
+      const args = { to: '0x1234567890123456789012345678901234567890', amount: '0.0003', chain: 'base' };
+
+      const paused = await handleSendRequest(args, makeCtx());
+      expect(paused.isError).toBe(true);
+      expect(paused.content[0].text).toContain('Send 0.0003 ETH on base (~$0.90) needs human approval');
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+
+      const approvalId = paused.content[0].text.match(/apr_[0-9a-f]{8}/)![0];
+      expect(paused.content[0].text).toContain(`clara-mcp approve ${approvalId}`);
+      decideApproval(approvalId, 'approved', 'cli');
+
+      const sent = await handleSendRequest({ ...args, approvalId }, makeCtx());
+      expect(sent.content[0].text).toContain('Transaction submitted');
+      expect(recordSpending).toHaveBeenCalledWith(expect.objectContaining({
+        amountUsd: '0.90',
+        approval: expect.objectContaining({ id: approvalId, method: 'cli' }),
+      }));
+    });
+  });
+
   describe('handleSendRequest - ERC20 Token Transfer', () => {
     it('sends ERC20 token successfully', async () => {
       vi.mocked(resolveToken).mockReturnValue({
@@ -249,7 +371,7 @@ describe('Send Tool', () => {
       }, makeCtx());
 
       expect(result.isError).toBeUndefined();
-      expect(result.content[0].text).toContain('Transaction confirmed');
+      expect(result.content[0].text).toContain('Transaction submitted');
       expect(result.content[0].text).toContain('100');
       expect(result.content[0].text).toContain('USDC');
       expect(signAndSendTransaction).toHaveBeenCalledWith(
@@ -0,0 +1,133 @@
+/**
+ * Tests for wallet_spending
+ *
+ * Summary, history filtered by days and recipient, CSV/JSON export, and
+ * the rule that the agent can lower limits but never raise them.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Hex } from 'viem';
+import { handleSpendingRequest } from '../../tools/spending.js';
+import { getSpendingLimits, recordSpending, type SpendingRecord } from '../../storage/spending.js';
+import { ClaraErrorCode } from '../../errors.js';
+import type { ToolContext } from '../../middleware.js';
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const ALICE = '0x1111111111111111111111111111111111111111' as Hex;
+const BOB = '0x2222222222222222222222222222222222222222' as Hex;
+
+// Test files run in parallel; keep this file's history away from the others
+process.env.CLARA_SPENDING_FILE = join(tmpdir(), `clara-test-spending-${process.pid}-tool.json`);
+
+vi.mock('../../services/resolve-address.js', () => ({
+  resolveAddress: vi.fn(async (input: string) => {
+    if (input.startsWith('0x')) return { address: input, source: 'raw' };
+    if (input === 'alice.claraid.eth') return { address: ALICE, source: 'clara' };
+    throw new Error(`Could not resolve ${input}`);
+  }),
+}));
+
+const ctx = {
+  session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+  walletAddress: WALLET,
+  sessionKey: null,
+} as ToolContext;
+
+function spent(usd: string, daysAgo: number, extra: Partial<SpendingRecord> = {}): void {
+  recordSpending({
+    timestamp: new Date(Date.now() - daysAgo * 86_400_000).toISOString(),
+    amountUsd: usd,
+    recipient: ALICE,
+    description: `Send ${usd} USDC`,
+    url: '',
+    chainId: 8453,
+    paymentId: `test-${daysAgo}-${usd}`,
+    tool: 'wallet_send',
+    tokens: [{ token: 'native', symbol: 'ETH', amountUsd: usd }],
+    ...extra,
+  });
+}
+
+async function run(args: Record<string, unknown>): Promise<string> {
+  const result = await handleSpendingRequest(args, ctx);
+  return result.content[0].text;
+}
+
+describe('wallet_spending', () => {
+  beforeEach(() => {
+    rmSync(process.env.CLARA_SPENDING_FILE!, { force: true });
+  });
+
+  it('summarizes spending against the limits', async () => {
+    spent('0.40', 0);
+
+    const text = await run({});
+    expect(text).toContain("Today's spending: $0.40 / $10.00");
+    expect(text).toContain('Per transaction:  $1.00');
+  });
+
+  it('filters history by days and recipient', async () => {
+    spent('0.40', 0);
+    spent('0.30', 0, { recipient: BOB, description: 'Pay bob' });
+    spent('0.90', 20, {
+      description: 'Old payment',
+      approval: { id: 'apr_1a2b3c4d', method: 'cli', approvedAt: new Date().toISOString() },
+    });
+
+    const week = await run({ action: 'history' });
+    expect(week).toContain('Send 0.40 USDC');
+    expect(week).toContain('Pay bob');
+    expect(week).not.toContain('Old payment');
+
+    const alice = await run({ action: 'history', days: 30, recipient: 'alice.claraid.eth' });
+    expect(alice).toContain(`Spending History to ${ALICE} (last 30 days)`);
+    expect(alice).toContain('Old payment  (approved apr_1a2b3c4d via cli)');
+    expect(alice).not.toContain('Pay bob');
+
+    await expect(run({ action: 'history', recipient: 'nobody.eth' })).rejects.toMatchObject({
+      code: ClaraErrorCode.INVALID_INPUT,
+    });
+  });
+
+  it('exports CSV and JSON', async () => {
+    spent('0.40', 0, { description: '=HYPERLINK("x"), "quoted"', txHash: '0xabc' });
+
+    const csv = await run({ action: 'export' });
+    expect(csv).toContain('timestamp,amountUsd,recipient,description,chainId,txHash,tool,tokens,approvalId,approvalMethod');
+    expect(csv).toContain(`0.40,${ALICE},"'=HYPERLINK(""x""), ""quoted""",8453,0xabc,wallet_send,ETH:0.40,,`);
+
+    const json = await run({ action: 'export', format: 'json' });
+    const records = JSON.parse(json.split('```json\n')[1].split('\n```')[0]);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ amountUsd: '0.40', txHash: '0xabc' });
+
+    await expect(run({ action: 'export', format: 'xml' })).rejects.toMatchObject({
+      code: ClaraErrorCode.INVALID_INPUT,
+    });
+  });
+
+  it('lowers limits but leaves raising to the CLI', async () => {
+    const lowered = await run({ action: 'limits', maxPerDay: '5', requireApprovalAbove: 0.25 });
+    expect(lowered).toContain('**maxPerDay:** $10.00 → $5.00');
+    expect(getSpendingLimits()).toMatchObject({ maxPerDay: '5.00', requireApprovalAbove: '0.25' });
+
+    await expect(run({ action: 'limits', maxPerDay: '50' })).rejects.toMatchObject({
+      code: ClaraErrorCode.APPROVAL_REQUIRED,
+      suggestion: expect.not.stringContaining('clara-mcp'),
+    });
+    expect(getSpendingLimits().maxPerDay).toBe('5.00');
+
+    // Mixed: the lower one goes through, the higher one waits for the human
+    const mixed = await run({ action: 'limits', maxPerTransaction: '0.50', maxPerDay: '8' });
+    expect(mixed).toContain('Not changed: raising maxPerDay is up to the human.');
+    expect(mixed).not.toContain('clara-mcp limits set');
+    expect(getSpendingLimits()).toMatchObject({ maxPerTransaction: '0.50', maxPerDay: '5.00' });
+
+    await expect(run({ action: 'limits', maxPerDay: '-1' })).rejects.toMatchObject({
+      code: ClaraErrorCode.INVALID_INPUT,
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for background transaction tracking and wallet_tx_status
+ *
+ * Sends are recorded as pending; the watcher settles them from receipts
+ * (confirmed / reverted), marks same-nonce siblings of a mined transaction
+ * as replaced, and falls back to the confirmed nonce when the replacement
+ * wasn't sent from here. A receipt lookup that errors is retried next poll.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rmSync } from 'fs';
+import { TransactionReceiptNotFoundError, type Hex } from 'viem';
+import { handleTxStatusRequest } from '../../tools/tx-status.js';
+import { getTrackedTx, trackTransaction } from '../../storage/tracked-txs.js';
+import { onTxSettled, pollTrackedTxs } from '../../services/tx-watcher.js';
+import { ClaraErrorCode } from '../../errors.js';
+import type { ToolContext } from '../../middleware.js';
+
+const getTransactionReceipt = vi.fn();
+const getTransactionCount = vi.fn();
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({ getTransactionReceipt, getTransactionCount })),
+  };
+});
+
+const WALLET = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+
+function hash(digit: string): Hex {
+  return `0x${digit.repeat(64)}` as Hex;
+}
+
+function track(nonce: number, digit: string, description?: string) {
+  return trackTransaction({
+    chain: 'base',
+    chainId: 8453,
+    from: WALLET,
+    nonce,
+    txHash: hash(digit),
+    description,
+  });
+}
+
+function receipt(status: 'success' | 'reverted') {
+  return { status, blockNumber: 123n, gasUsed: 21_000n };
+}
+
+function makeCtx(): ToolContext {
+  return {
+    session: { authenticated: true, address: WALLET, walletId: 'test-wallet-id' } as any,
+    walletAddress: WALLET,
+    sessionKey: null,
+  };
+}
+
+describe('transaction watcher', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(process.env.CLARA_TX_FILE!, { force: true });
+    getTransactionReceipt.mockResolvedValue(null);
+    getTransactionCount.mockResolvedValue(0);
+  });
+
+  it('records confirmations and reverts and notifies listeners', async () => {
+    const sent = track(0, '1', 'Send 10 USDC on base');
+    const failed = track(1, '2');
+    getTransactionReceipt.mockImplementation(async ({ hash: h }: { hash: Hex }) =>
+      receipt(h === sent.txHash ? 'success' : 'reverted'));
+
+    const heard: string[] = [];
+    const unsubscribe = onTxSettled((tx) => heard.push(`${tx.id}:${tx.status}`));
+    await pollTrackedTxs();
+    unsubscribe();
+
+    expect(getTrackedTx(sent.id)).toMatchObject({ status: 'confirmed', blockNumber: '123', gasUsed: '21000' });
+    expect(getTrackedTx(failed.txHash)!.status).toBe('reverted');
+    expect(heard.sort()).toEqual([`${sent.id}:confirmed`, `${failed.id}:reverted`].sort());
+  });
+
+  it('marks the other transaction at a mined nonce as replaced', async () => {
+    const original = track(5, '1');
+    const speedUp = track(5, '2', 'Speed-up of nonce 5 on base');
+    getTransactionReceipt.mockImplementation(async ({ hash: h }: { hash: Hex }) =>
+      (h === speedUp.txHash ? receipt('success') : null));
+
+    await pollTrackedTxs();
+
+    expect(getTrackedTx(speedUp.id)!.status).toBe('confirmed');
+    expect(getTrackedTx(original.id)).toMatchObject({ status: 'replaced', replacedBy: speedUp.txHash });
+  });
+
+  it('marks a transaction replaced when its nonce was used elsewhere', async () => {
+    const lost = track(3, '1');
+    const waiting = track(4, '2');
+    getTransactionCount.mockResolvedValue(4);
+
+    await pollTrackedTxs();
+
+    expect(getTransactionCount).toHaveBeenCalledWith({ address: WALLET, blockTag: 'latest' });
+    expect(getTrackedTx(lost.id)).toMatchObject({ status: 'replaced' });
+    expect(getTrackedTx(lost.id)!.replacedBy).toBeUndefined();
+    expect(getTrackedTx(waiting.id)!.status).toBe('pending');
+  });
+
+  it("doesn't mark a transaction mined during the poll as replaced", async () => {
+    const sent = track(3, '1');
+    // Mined after the nonce was read but before its receipt was fetched
+    getTransactionCount.mockResolvedValue(3);
+    getTransactionReceipt.mockImplementation(async () => {
+      getTransactionCount.mockResolvedValue(4);
+      return null;
+    });
+
+    await pollTrackedTxs();
+    expect(getTrackedTx(sent.id)!.status).toBe('pending');
+
+    getTransactionReceipt.mockResolvedValue(receipt('success'));
+    await pollTrackedTxs();
+    expect(getTrackedTx(sent.id)!.status).toBe('confirmed');
+  });
+
+  it('retries a transaction whose receipt lookup failed instead of calling it replaced', async () => {
+    const sent = track(3, '1');
+    getTransactionCount.mockResolvedValue(4);
+    getTransactionReceipt.mockRejectedValue(new Error('HTTP request failed: 503'));
+
+    await pollTrackedTxs();
+    expect(getTrackedTx(sent.id)!.status).toBe('pending');
+
+    getTransactionReceipt.mockRejectedValue(new TransactionReceiptNotFoundError({ hash: sent.txHash }));
+    await pollTrackedTxs();
+    expect(getTrackedTx(sent.id)!.status).toBe('replaced');
+  });
+});
+
+describe('wallet_tx_status', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(process.env.CLARA_TX_FILE!, { force: true });
+    getTransactionReceipt.mockResolvedValue(null);
+    getTransactionCount.mockResolvedValue(0);
+  });
+
+  it('checks for receipts before reporting a transaction', async () => {
+    const sent = track(0, '1', 'Send 0.1 ETH on base');
+    getTransactionReceipt.mockResolvedValue(receipt('success'));
+
+    const result = await handleTxStatusRequest({ id: sent.id }, makeCtx());
+    const text = result.content[0].text;
+
+    expect(text).toContain('Send 0.1 ETH on base');
+    expect(text).toContain('Confirmed in block 123');
+    expect(text).toContain(`"txHash": "${sent.txHash}"`);
+  });
+
+  it('lists recent transactions newest first', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const older = track(0, '1');
+    vi.setSystemTime(Date.now() + 1000);
+    const newer = track(1, '2');
+    vi.useRealTimers();
+
+    const text = (await handleTxStatusRequest({}, makeCtx())).content[0].text;
+
+    expect(text).toContain('| ⏳ pending |');
+    expect(text.indexOf(newer.id)).toBeLessThan(text.indexOf(older.id));
+  });
+
+  it('rejects untracked and malformed ids', async () => {
+    await expect(handleTxStatusRequest({ id: hash('9') }, makeCtx()))
+      .rejects.toThrow('No tracked transaction');
+    await expect(handleTxStatusRequest({ id: 'trk_nothex' }, makeCtx()))
+      .rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+  });
+});
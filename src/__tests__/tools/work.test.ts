@@ -0,0 +1,433 @@
+/**
+ * Tests for work_* bounty tools
+ *
+ * Covers input validation, the approve → createBounty escrow flow with
+ * bond math, spending limits on escrow deposits (through the middleware),
+ * custom errors from a reverting simulation, the task URI round-trip used
+ * by work_browse, and the work_register registration file.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  parseUnits,
+  type Hex,
+} from 'viem';
+import { workPostToolDefinition, handleWorkPostRequest, workPostSpendingExtractor } from '../../tools/work-post.js';
+import { handleWorkClaimRequest, workClaimSpendingExtractor } from '../../tools/work-claim.js';
+import { handleWorkApproveRequest } from '../../tools/work-approve.js';
+import { buildAgentRegistration, handleWorkRegisterRequest } from '../../tools/work-register.js';
+import { decodeTaskURI, encodeTaskURI } from '../../tools/work-helpers.js';
+import { BOUNTY_ABI, BOUNTY_FACTORY_ABI, calculateBond, getClaraContracts } from '../../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../../errors.js';
+import { wrapTool, type ToolContext } from '../../middleware.js';
+
+vi.mock('../../para/transactions.js', () => ({
+  signAndSendTransaction: vi.fn(),
+}));
+
+vi.mock('../../storage/spending.js', () => ({
+  checkSpendingLimits: vi.fn(() => ({ allowed: true })),
+  recordSpending: vi.fn(),
+}));
+
+vi.mock('../../services/pricing.js', async () => {
+  const actual = await vi.importActual<typeof import('../../services/pricing.js')>('../../services/pricing.js');
+  return { ...actual, priceAmount: vi.fn(actual.priceAmount) };
+});
+
+vi.mock('../../storage/agent.js', () => ({
+  getAgentRecord: vi.fn(() => null),
+  saveAgentRecord: vi.fn(),
+}));
+
+vi.mock('../../storage/session.js', () => ({
+  getSession: vi.fn(async () => ({ authenticated: true, address: TEST_ADDRESS, walletId: 'test-wallet-id' })),
+  getSessionStatus: vi.fn(() => 'active'),
+  touchSession: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../auth/session-key.js', () => ({
+  getCurrentSessionKey: vi.fn(() => null),
+  getOrCreateSessionKey: vi.fn(async () => null),
+}));
+
+vi.mock('../../gas-preflight.js', () => ({
+  requireGas: vi.fn(),
+  requireContract: vi.fn(),
+  checkGasPreflight: vi.fn(),
+}));
+
+// Public client stub: readContract answers by function name, receipts come from `receipts`
+// (a hash with no receipt times out)
+const reads: Record<string, unknown> = {};
+const receipts: Record<string, unknown> = {};
+const simulateContract = vi.fn(async () => ({}));
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({
+      simulateContract,
+      readContract: vi.fn(async ({ functionName }: { functionName: string }) => reads[functionName]),
+      waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => {
+        if (!(hash in receipts)) throw new Error('Timed out while waiting for transaction');
+        return receipts[hash];
+      }),
+    })),
+  };
+});
+
+import { signAndSendTransaction } from '../../para/transactions.js';
+import { checkSpendingLimits, recordSpending } from '../../storage/spending.js';
+import { getAgentRecord } from '../../storage/agent.js';
+import { priceAmount } from '../../services/pricing.js';
+
+// ─── Test Helpers ───────────────────────────────────────────────────
+
+const TEST_ADDRESS = '0xabcdef1234567890abcdef1234567890abcdef12' as Hex;
+const BOUNTY_ADDRESS = '0x1111111111111111111111111111111111111111' as Hex;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Hex;
+const WETH = '0x4200000000000000000000000000000000000006' as Hex;
+const APPROVE_HASH = `0x${'a'.repeat(64)}` as Hex;
+const CREATE_HASH = `0x${'b'.repeat(64)}` as Hex;
+
+function makeCtx(address: Hex = TEST_ADDRESS): ToolContext {
+  return {
+    session: {
+      authenticated: true,
+      address,
+      walletId: 'test-wallet-id',
+    } as any,
+    walletAddress: address,
+    sessionKey: null,
+  };
+}
+
+/** Build a BountyCreated log as it would appear in the createBounty receipt */
+function bountyCreatedLog(amount: bigint, posterBond: bigint) {
+  const topics = encodeEventTopics({
+    abi: BOUNTY_FACTORY_ABI,
+    eventName: 'BountyCreated',
+    args: { bountyAddress: BOUNTY_ADDRESS, poster: TEST_ADDRESS },
+  });
+  const data = encodeAbiParameters(
+    [
+      { type: 'address' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' },
+      { type: 'uint256' }, { type: 'string' }, { type: 'string[]' },
+    ],
+    [USDC, amount, posterBond, 1000n, 2_000_000_000n, 'data:', ['solidity']],
+  );
+  return {
+    address: getClaraContracts().bounty.factory,
+    topics,
+    data,
+    blockNumber: 1n,
+    blockHash: `0x${'0'.repeat(64)}`,
+    logIndex: 0,
+    transactionHash: CREATE_HASH,
+    transactionIndex: 0,
+    removed: false,
+  };
+}
+
+// As registered in index.ts: the middleware checks and records the escrow
+const postBounty = wrapTool(handleWorkPostRequest, { checksSpending: true, spendingExtractor: workPostSpendingExtractor });
+const claimBounty = wrapTool(handleWorkClaimRequest, { checksSpending: true, spendingExtractor: workClaimSpendingExtractor });
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Work Tools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(reads)) delete reads[key];
+    for (const key of Object.keys(receipts)) delete receipts[key];
+  });
+
+  describe('Task URIs', () => {
+    it('round-trips task and skills through a data URI', () => {
+      const uri = encodeTaskURI({ task: 'Audit the staking contract', skills: ['solidity'] });
+      expect(uri.startsWith('data:application/json;base64,')).toBe(true);
+      expect(decodeTaskURI(uri)).toEqual({ task: 'Audit the staking contract', skills: ['solidity'] });
+    });
+
+    it('treats foreign URIs as plain task text', () => {
+      expect(decodeTaskURI('ipfs://bafy')).toEqual({ task: 'ipfs://bafy', skills: [] });
+    });
+  });
+
+  describe('Bond math', () => {
+    it('matches Bounty.sol basis-point rounding', () => {
+      expect(calculateBond(50_000_000n, 1000n)).toBe(5_000_000n);
+      expect(calculateBond(3n, 1000n)).toBe(0n);
+    });
+  });
+
+  describe('work_post', () => {
+    it('requires task and amount', () => {
+      expect(workPostToolDefinition.inputSchema.required).toEqual(['task', 'amount']);
+    });
+
+    it('rejects a non-positive amount', async () => {
+      await expect(
+        handleWorkPostRequest({ task: 'x', amount: '0' }, makeCtx()),
+      ).rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+    });
+
+    it('approves amount + poster bond, then creates the bounty', async () => {
+      const amount = parseUnits('50', 6);
+      const bond = calculateBond(amount, 1000n);
+      reads.bondRate = 1000n;
+      reads.allowance = 0n;
+      reads.balanceOf = amount + bond;
+      receipts[APPROVE_HASH] = { status: 'success', logs: [] };
+      receipts[CREATE_HASH] = { status: 'success', logs: [bountyCreatedLog(amount, bond)] };
+
+      vi.mocked(signAndSendTransaction)
+        .mockResolvedValueOnce({ txHash: APPROVE_HASH })
+        .mockResolvedValueOnce({ txHash: CREATE_HASH });
+
+      const result = await postBounty({ task: 'Audit the staking contract', amount: '50', skills: ['Solidity'] });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain(BOUNTY_ADDRESS);
+      expect(result.content[0].text).toContain('5 USDC');
+
+      // Two transactions: USDC approve to the factory, then createBounty
+      const calls = vi.mocked(signAndSendTransaction).mock.calls;
+      expect(calls).toHaveLength(2);
+      expect(calls[0][1].to).toBe(USDC);
+      expect(calls[1][1].to).toBe(getClaraContracts().bounty.factory);
+
+      expect(checkSpendingLimits).toHaveBeenCalledWith('55.00');
+      expect(recordSpending).toHaveBeenCalledWith(expect.objectContaining({
+        amountUsd: '55.00',
+        txHash: CREATE_HASH,
+        recipient: BOUNTY_ADDRESS,
+        tool: 'work_post',
+      }));
+    });
+
+    it('records the deposit when createBounty was sent but its confirmation timed out', async () => {
+      reads.bondRate = 1000n;
+      reads.allowance = parseUnits('1000', 6);
+      reads.balanceOf = parseUnits('1000', 6);
+      vi.mocked(signAndSendTransaction).mockResolvedValueOnce({ txHash: CREATE_HASH });
+
+      const result = await postBounty({ task: 'x', amount: '10' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('createBounty submitted but confirmation timed out');
+      expect(recordSpending).toHaveBeenCalledWith(expect.objectContaining({
+        amountUsd: '11.00',
+        txHash: CREATE_HASH,
+        recipient: getClaraContracts().bounty.factory,
+        tool: 'work_post',
+      }));
+    });
+
+    it('skips the approval when allowance already covers the deposit', async () => {
+      reads.bondRate = 1000n;
+      reads.allowance = parseUnits('1000', 6);
+      reads.balanceOf = parseUnits('1000', 6);
+      receipts[CREATE_HASH] = { status: 'success', logs: [] };
+      vi.mocked(signAndSendTransaction).mockResolvedValueOnce({ txHash: CREATE_HASH });
+
+      await handleWorkPostRequest({ task: 'x', amount: '1' }, makeCtx());
+
+      expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('blocks deposits over the spending limit before sending anything', async () => {
+      reads.bondRate = 1000n;
+      vi.mocked(checkSpendingLimits).mockReturnValueOnce({
+        allowed: false,
+        requiresApproval: false,
+        reason: 'Exceeds per-transaction limit',
+        todayTotal: '0.00',
+        remainingToday: '10.00',
+      });
+
+      const result = await postBounty({ task: 'x', amount: '500' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Bounty escrow 550 USDC blocked by spending limits');
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('prices non-stablecoin deposits and asks a human when there is no price', async () => {
+      reads.bondRate = 1000n;
+      vi.mocked(priceAmount).mockResolvedValueOnce({ token: WETH, symbol: 'WETH', amount: '0.011', usd: 40 });
+      vi.mocked(checkSpendingLimits).mockReturnValueOnce({
+        allowed: false,
+        requiresApproval: false,
+        reason: 'Exceeds per-transaction limit',
+        todayTotal: 0,
+        remainingToday: 10,
+      });
+
+      const blocked = await postBounty({ task: 'x', amount: '0.01', token: 'WETH' });
+      expect(blocked.content[0].text).toContain('blocked by spending limits');
+      expect(priceAmount).toHaveBeenCalledWith('base', WETH, parseUnits('0.011', 18), TEST_ADDRESS);
+      expect(checkSpendingLimits).toHaveBeenCalledWith('40.00');
+
+      vi.mocked(priceAmount).mockResolvedValueOnce({ token: WETH, symbol: 'WETH', amount: '0.011', usd: null });
+      const unpriced = await postBounty({ task: 'x', amount: '0.01', token: 'WETH' });
+      expect(unpriced.content[0].text).toContain("needs human approval: 0.011 WETH can't be priced in USD");
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('work_claim', () => {
+    it('rejects an invalid bounty address', async () => {
+      await expect(
+        handleWorkClaimRequest({ bounty: 'nope', agentId: 1 }, makeCtx()),
+      ).rejects.toBeInstanceOf(ClaraError);
+    });
+
+    it('requires an agentId', async () => {
+      await expect(
+        handleWorkClaimRequest({ bounty: BOUNTY_ADDRESS }, makeCtx()),
+      ).rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+    });
+
+    it('defaults to the agentId from work_register and records the worker bond', async () => {
+      // Read by the spending extractor, then by the handler
+      vi.mocked(getAgentRecord)
+        .mockReturnValueOnce({ agentId: '42' } as any)
+        .mockReturnValueOnce({ agentId: '42' } as any);
+      Object.assign(reads, {
+        poster: '0x2222222222222222222222222222222222222222',
+        claimer: '0x0000000000000000000000000000000000000000',
+        token: USDC,
+        amount: 1_000_000n,
+        deadline: 2_000_000_000n,
+        taskURI: '',
+        status: 0, // Open
+        bondRate: 1000n,
+        posterBond: 100_000n,
+        workerBond: 0n,
+        allowance: 1_000_000n,
+        balanceOf: 1_000_000n,
+      });
+      receipts[CREATE_HASH] = { status: 'success', logs: [] };
+      vi.mocked(signAndSendTransaction).mockResolvedValueOnce({ txHash: CREATE_HASH });
+
+      const result = await claimBounty({ bounty: BOUNTY_ADDRESS });
+
+      expect(result.content[0].text).toContain('**Agent ID:** 42');
+      expect(signAndSendTransaction).toHaveBeenCalledTimes(1);
+      expect(checkSpendingLimits).toHaveBeenCalledWith('0.10');
+      expect(recordSpending).toHaveBeenCalledWith(expect.objectContaining({
+        amountUsd: '0.10',
+        txHash: CREATE_HASH,
+        recipient: BOUNTY_ADDRESS,
+        tool: 'work_claim',
+      }));
+    });
+
+    it("names the bounty's custom error when the claim would revert", async () => {
+      Object.assign(reads, {
+        poster: '0x2222222222222222222222222222222222222222',
+        claimer: '0x0000000000000000000000000000000000000000',
+        token: USDC,
+        amount: 1_000_000n,
+        deadline: 2_000_000_000n,
+        taskURI: '',
+        status: 0, // Open
+        bondRate: 1000n,
+        posterBond: 100_000n,
+        workerBond: 0n,
+        allowance: 1_000_000n,
+        balanceOf: 1_000_000n,
+      });
+      const reverted = new ContractFunctionRevertedError({
+        abi: BOUNTY_ABI,
+        functionName: 'claim',
+        data: encodeErrorResult({ abi: BOUNTY_ABI, errorName: 'InvalidStatus', args: [1, 0] }),
+      });
+      simulateContract.mockRejectedValueOnce(
+        new ContractFunctionExecutionError(reverted, { abi: BOUNTY_ABI, functionName: 'claim', args: [42n] }),
+      );
+
+      await expect(handleWorkClaimRequest({ bounty: BOUNTY_ADDRESS, agentId: 42 }, makeCtx())).rejects.toMatchObject({
+        code: ClaraErrorCode.SIMULATION_FAILED,
+        message: 'claim would fail: InvalidStatus(1, 0)',
+      });
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('work_register', () => {
+    it('builds an AgentRegistration with the ENS name and CAIP-10 agentWallet', () => {
+      const registration = buildAgentRegistration({
+        name: 'CodeBot',
+        skills: ['solidity'],
+        services: ['https://codebot.example'],
+        ensName: 'codebot',
+        walletAddress: TEST_ADDRESS,
+        agentId: '7',
+      });
+
+      expect(registration.services).toEqual([
+        { type: 'ENS', endpoint: 'codebot.claraid.eth' },
+        { type: 'agentWallet', endpoint: `eip155:8453:${TEST_ADDRESS}` },
+        { type: 'web', endpoint: 'https://codebot.example' },
+      ]);
+      expect(registration.x402Support).toBe(true);
+      expect(registration.registrations).toEqual([
+        { agentRegistry: getClaraContracts().identityRegistry, agentId: '7' },
+      ]);
+    });
+
+    it('requires at least one skill', async () => {
+      await expect(
+        handleWorkRegisterRequest({ name: 'CodeBot', skills: [] }, makeCtx()),
+      ).rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+    });
+
+    it('does not mint a second identity for a registered wallet', async () => {
+      vi.mocked(getAgentRecord).mockReturnValueOnce({
+        agentId: '42', name: 'CodeBot', registeredAt: '2026-01-01T00:00:00.000Z',
+      } as any);
+
+      const result = await handleWorkRegisterRequest({ name: 'CodeBot', skills: ['solidity'] }, makeCtx());
+
+      expect(result.content[0].text).toContain('already registered as agent **#42**');
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('work_approve', () => {
+    it('rejects ratings outside 1-5', async () => {
+      await expect(
+        handleWorkApproveRequest({ bounty: BOUNTY_ADDRESS, rating: 7 }, makeCtx()),
+      ).rejects.toMatchObject({ code: ClaraErrorCode.INVALID_INPUT });
+    });
+
+    it('refuses when the caller is not the poster', async () => {
+      Object.assign(reads, {
+        poster: '0x2222222222222222222222222222222222222222',
+        claimer: TEST_ADDRESS,
+        token: USDC,
+        amount: 1_000_000n,
+        deadline: 2_000_000_000n,
+        taskURI: '',
+        status: 2, // Submitted
+        bondRate: 1000n,
+        posterBond: 100_000n,
+        workerBond: 100_000n,
+      });
+
+      await expect(
+        handleWorkApproveRequest({ bounty: BOUNTY_ADDRESS }, makeCtx()),
+      ).rejects.toThrow('Only the poster');
+      expect(signAndSendTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
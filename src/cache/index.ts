@@ -8,6 +8,7 @@ export {
   initCache,
   getCachedMetadata,
   getCachedSummary,
+  getCachedMetadataByRef,
   cacheMetadata,
   invalidateCache,
   clearCache,
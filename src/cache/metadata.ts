@@ -483,6 +483,43 @@ export function getCachedSummary(
   return cached?.summary || null;
 }
 
+/**
+ * Look up cached metadata by the `ref` from its summary.
+ * Checks memory first, then scans the file cache. Expired entries are ignored.
+ */
+export function getCachedMetadataByRef(
+  ref: string
+): { data: ContractMetadata; summary: ContractMetadataSummary } | null {
+  for (const key of memoryCache.keys()) {
+    const entry = memoryCache.get(key);
+    if (entry?.summary.ref === ref && Date.now() - entry.timestamp < config.metadataTtl) {
+      return { data: entry.data, summary: entry.summary };
+    }
+  }
+
+  ensureCacheDir();
+  try {
+    for (const file of readdirSync(config.cacheDir)) {
+      const data = readFileSync(join(config.cacheDir, file));
+      const json = file.endsWith('.gz') ? gunzipSync(data).toString('utf-8') : data.toString('utf-8');
+      const parsed = JSON.parse(json);
+      if (parsed.summary?.ref === ref && Date.now() - parsed.timestamp < config.metadataTtl) {
+        memoryCache.set(parsed.key, {
+          data: parsed.data,
+          summary: parsed.summary,
+          timestamp: parsed.timestamp,
+          size: parsed.size,
+        });
+        return { data: parsed.data, summary: parsed.summary };
+      }
+    }
+  } catch (error) {
+    console.error('Error scanning file cache:', error);
+  }
+
+  return null;
+}
+
 /**
  * Store metadata in cache
  * @param implementationAddress - For proxy contracts, include impl address to avoid stale data
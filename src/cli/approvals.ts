@@ -0,0 +1,99 @@
+/**
+ * Approval CLI for Clara
+ *
+ * Answers the approval requests that payments above the
+ * `requireApprovalAbove` spending limit wait on, when the MCP client
+ * can't ask inline (no elicitation support). Approving always takes a
+ * person at an interactive terminal, so an agent with shell access can't
+ * answer its own request.
+ *
+ * Usage:
+ *   clara-mcp approve              # List pending requests
+ *   clara-mcp approve <id>         # Show a request and confirm it
+ *   clara-mcp approve <id> --deny  # Deny it
+ */
+
+import * as p from '@clack/prompts';
+import pc from 'picocolors';
+
+import { decideApproval, getApproval, listApprovals } from '../storage/approvals.js';
+import { formatApprovalQuestion, formatApprovalValue } from '../services/approval.js';
+
+function minutesLeft(expiresAt: string): number {
+  return Math.max(0, Math.ceil((Date.parse(expiresAt) - Date.now()) / 60_000));
+}
+
+/**
+ * List pending requests, newest first
+ */
+function printPending(): void {
+  const pending = listApprovals({ status: 'pending' });
+  if (pending.length === 0) {
+    console.log(pc.dim('No payments are waiting for approval.'));
+    return;
+  }
+
+  console.log(pc.cyan(`Waiting for approval (${pending.length})`));
+  console.log('');
+  for (const request of pending) {
+    console.log(
+      `  ${pc.bold(request.id)}  ${formatApprovalValue(request)}  ${request.description}  ` +
+        pc.dim(`(expires in ${minutesLeft(request.expiresAt)} min)`)
+    );
+  }
+  console.log('');
+  console.log(`Run ${pc.cyan('clara-mcp approve <id>')} to review one.`);
+}
+
+/**
+ * Approve or deny a payment from the CLI
+ */
+export async function runApproveCommand(): Promise<void> {
+  const id = process.argv[3];
+  const deny = process.argv.includes('--deny');
+
+  if (!id || id.startsWith('--')) {
+    printPending();
+    return;
+  }
+
+  const request = getApproval(id);
+  if (!request) {
+    console.error(pc.red(`✗ No approval request ${id}`));
+    process.exit(1);
+  }
+  if (request.status !== 'pending') {
+    console.error(pc.red(`✗ ${id} is already ${request.status}`));
+    process.exit(1);
+  }
+
+  let decision: 'approved' | 'denied' = 'denied';
+  if (!deny) {
+    if (!process.stdin.isTTY) {
+      console.error(pc.red('✗ Approving needs an interactive terminal'));
+      process.exit(1);
+    }
+    p.note(formatApprovalQuestion(request), 'Payment');
+    const confirmed = await p.confirm({ message: 'Approve this payment?', initialValue: false });
+    if (p.isCancel(confirmed)) {
+      p.cancel('Left pending.');
+      process.exit(0);
+    }
+    decision = confirmed ? 'approved' : 'denied';
+  }
+
+  const decided = decideApproval(id, decision, 'cli');
+  if (!decided) {
+    // Answered elsewhere (or lapsed) while the prompt was open
+    console.error(pc.red(`✗ ${id} is no longer pending`));
+    process.exit(1);
+  }
+
+  if (decided.status === 'approved') {
+    console.log(pc.green(`✔ Approved ${id}`));
+    console.log(pc.dim('  The agent can go ahead now.'));
+  } else {
+    console.log(pc.yellow(`✗ Denied ${id}`));
+    console.log(pc.dim('  Nothing will be sent.'));
+  }
+}
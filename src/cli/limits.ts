@@ -0,0 +1,165 @@
+/**
+ * Spending Limits CLI for Clara
+ *
+ * The terminal side of wallet_spending. Agents can only lower limits;
+ * raising one is confirmed here, by the human, at an interactive terminal
+ * (so an agent with shell access can't pipe in the answer).
+ *
+ * Usage:
+ *   clara-mcp limits                                   # Spending against the limits
+ *   clara-mcp limits history [--days 30] [--recipient <address|name>]
+ *   clara-mcp limits export [--format csv|json] [--days 90] > spending.csv
+ *   clara-mcp limits set --per-day 20 [--per-transaction 2] [--approval-above 1]
+ */
+
+import * as p from '@clack/prompts';
+import pc from 'picocolors';
+
+import {
+  formatSpendingExport,
+  formatSpendingHistory,
+  formatSpendingSummary,
+  getSpendingHistory,
+  getSpendingLimits,
+  LIMIT_KEYS,
+  normalizeLimitAmount,
+  raisedSpendingLimits,
+  setSpendingLimits,
+  type SpendingLimits,
+} from '../storage/spending.js';
+import { resolveAddress } from '../services/resolve-address.js';
+
+/** Flag for each limit in `limits set` */
+const LIMIT_FLAGS: Record<keyof SpendingLimits, string> = {
+  maxPerTransaction: '--per-transaction',
+  maxPerDay: '--per-day',
+  requireApprovalAbove: '--approval-above',
+};
+
+/**
+ * Value following a --flag, if given
+ */
+function flagValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx !== -1 ? process.argv[idx + 1] : undefined;
+}
+
+function fail(message: string): never {
+  console.error(pc.red(`✗ ${message}`));
+  process.exit(1);
+}
+
+function printUsage(): void {
+  console.log('');
+  console.log('Usage:');
+  console.log('  clara-mcp limits                      Show spending against the limits');
+  console.log('  clara-mcp limits history              Show recent payments');
+  console.log('  clara-mcp limits export               Print the history as CSV or JSON');
+  console.log('  clara-mcp limits set                  Change limits');
+  console.log('');
+  console.log('Options:');
+  console.log('  --days <n>                            Days of history (default: 7)');
+  console.log('  --recipient <address|name>            Only payments to this recipient');
+  console.log('  --format csv|json                     Export format (default: csv)');
+  console.log('  --per-transaction <usd>               Max USD per transaction');
+  console.log('  --per-day <usd>                       Max USD per rolling 24 hours');
+  console.log('  --approval-above <usd>                Ask a human above this amount');
+}
+
+async function parseFilters(): Promise<{ days: number; recipient?: string }> {
+  const daysFlag = flagValue('--days');
+  const days = daysFlag === undefined ? 7 : parseInt(daysFlag, 10);
+  if (Number.isNaN(days) || days < 1) {
+    fail(`Invalid --days: ${daysFlag}`);
+  }
+
+  const recipientFlag = flagValue('--recipient');
+  if (recipientFlag === undefined) {
+    return { days };
+  }
+  try {
+    return { days, recipient: (await resolveAddress(recipientFlag)).address };
+  } catch (error) {
+    fail(`Could not resolve ${recipientFlag}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Change limits. Lowering applies straight away; raising asks first.
+ */
+async function handleLimitsSet(): Promise<void> {
+  const changes: Partial<SpendingLimits> = {};
+  for (const key of LIMIT_KEYS) {
+    const value = flagValue(LIMIT_FLAGS[key]);
+    if (value === undefined) continue;
+    const amount = normalizeLimitAmount(value);
+    if (amount === null) {
+      fail(`Invalid ${LIMIT_FLAGS[key]}: ${value} (use a USD amount like 5.00)`);
+    }
+    changes[key] = amount;
+  }
+  if (Object.keys(changes).length === 0) {
+    fail(`Nothing to set: pass ${LIMIT_KEYS.map((key) => LIMIT_FLAGS[key]).join(', ')}`);
+  }
+
+  const current = getSpendingLimits();
+  const raised = raisedSpendingLimits(changes, current);
+  if (raised.length > 0) {
+    if (!process.stdin.isTTY) {
+      fail('Raising a limit needs an interactive terminal');
+    }
+    p.note(
+      raised.map((key) => `${key}: $${current[key]} → $${changes[key]}`).join('\n'),
+      'Raise limits'
+    );
+    const confirmed = await p.confirm({
+      message: 'Let the agent spend more without asking?',
+      initialValue: false,
+    });
+    if (p.isCancel(confirmed) || !confirmed) {
+      p.cancel('Limits unchanged.');
+      process.exit(0);
+    }
+  }
+
+  const updated = setSpendingLimits(changes);
+  for (const key of LIMIT_KEYS) {
+    if (changes[key] === undefined) continue;
+    console.log(pc.green(`✔ ${key}: $${current[key]} → $${updated[key]}`));
+  }
+}
+
+/**
+ * Show, export, or change spending limits from the CLI
+ */
+export async function runLimitsCommand(): Promise<void> {
+  const action = process.argv[3];
+
+  if (!action || action.startsWith('--')) {
+    console.log(formatSpendingSummary());
+    printUsage();
+    return;
+  }
+
+  switch (action) {
+    case 'history': {
+      const { days, recipient } = await parseFilters();
+      console.log(formatSpendingHistory(days, recipient));
+      break;
+    }
+    case 'export': {
+      const format = flagValue('--format') ?? 'csv';
+      if (format !== 'csv' && format !== 'json') {
+        fail(`Invalid --format: ${format} (use csv or json)`);
+      }
+      const { days, recipient } = await parseFilters();
+      console.log(formatSpendingExport(getSpendingHistory(days, recipient), format));
+      break;
+    }
+    case 'set':
+      await handleLimitsSet();
+      break;
+    default:
+      fail(`Unknown limits command: ${action}`);
+  }
+}
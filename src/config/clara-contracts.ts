@@ -0,0 +1,302 @@
+/**
+ * Clara Contract Deployments
+ *
+ * Addresses and ABIs for the on-chain bounty marketplace (BountyFactory,
+ * Bounty clones) and the ERC-8004 registries it depends on.
+ *
+ * Addresses mirror contracts/deployments/base-mainnet.json — that file lives
+ * outside the TypeScript rootDir, so keep the two in sync when redeploying.
+ */
+
+import { parseAbi, type Hex } from 'viem';
+import type { SupportedChain } from './chains.js';
+
+// ─── Deployments ─────────────────────────────────────────────────────
+
+export interface FactoryDeployment {
+  implementation: Hex;
+  factory: Hex;
+  /** First block to scan for factory events */
+  deployBlock: bigint;
+}
+
+export interface ClaraDeployment {
+  chain: SupportedChain;
+  chainId: number;
+  bounty: FactoryDeployment;
+  challenge: FactoryDeployment;
+  identityRegistry: Hex;
+  reputationRegistry: Hex;
+  /** First block to scan for ERC-8004 registry events */
+  registryDeployBlock: bigint;
+}
+
+/**
+ * Base mainnet deployment (contracts/deployments/base-mainnet.json)
+ */
+const BASE_MAINNET: ClaraDeployment = {
+  chain: 'base',
+  chainId: 8453,
+  bounty: {
+    implementation: '0xd108ee0c32F7743128227d74995Eb01b8985d2F1',
+    factory: '0x639A05560Cf089187494f9eE357D7D1c69b7558e',
+    deployBlock: 41888723n,
+  },
+  challenge: {
+    implementation: '0x5e1b03423623833aC55008c6404eF3df4BBF08B0',
+    factory: '0x4EAfC31EE6b06bBe71e3c2f66AFE9429f8554c0d',
+    deployBlock: 42040783n,
+  },
+  identityRegistry: '0x8004A169FB4a3325136EB29fA0ceB6D2e539a432',
+  reputationRegistry: '0x8004BAa17C55a88189AE136b182e5fdA19dE9b63',
+  // Lower bound (late Sep 2025), not the exact deploy block: scanning early
+  // only costs empty ranges, scanning late drops agents and feedback.
+  registryDeployBlock: 36000000n,
+};
+
+/**
+ * Chain the marketplace contracts are deployed on.
+ * All work_* tools operate here.
+ */
+export const CLARA_CHAIN: SupportedChain = 'base';
+
+/**
+ * Get the active Clara deployment
+ */
+export function getClaraContracts(): ClaraDeployment {
+  return BASE_MAINNET;
+}
+
+// ─── ABIs ────────────────────────────────────────────────────────────
+
+export const BOUNTY_FACTORY_ABI = parseAbi([
+  'function createBounty(address token, uint256 amount, uint256 deadline, string taskURI, string[] skillTags) returns (address)',
+  'function bondRate() view returns (uint256)',
+  'function bounties(uint256) view returns (address)',
+  'function getBountyCount() view returns (uint256)',
+  'event BountyCreated(address indexed bountyAddress, address indexed poster, address token, uint256 amount, uint256 posterBond, uint256 bondRate, uint256 deadline, string taskURI, string[] skillTags)',
+  'error ZeroImplementation()',
+  'error ZeroRegistry()',
+  'error NotOwner()',
+  'error BondRateTooHigh()',
+]);
+
+export const BOUNTY_ABI = parseAbi([
+  'function poster() view returns (address)',
+  'function claimer() view returns (address)',
+  'function claimerAgentId() view returns (uint256)',
+  'function token() view returns (address)',
+  'function amount() view returns (uint256)',
+  'function deadline() view returns (uint256)',
+  'function taskURI() view returns (string)',
+  'function proofURI() view returns (string)',
+  'function status() view returns (uint8)',
+  'function bondRate() view returns (uint256)',
+  'function posterBond() view returns (uint256)',
+  'function workerBond() view returns (uint256)',
+  'function submittedAt() view returns (uint256)',
+  'function rejectionCount() view returns (uint8)',
+  'function claim(uint256 agentId)',
+  'function submitWork(string proofURI)',
+  'function approve()',
+  'function approveWithFeedback(int128 value, uint8 valueDecimals, string tag1, string tag2, string endpoint, string feedbackURI, bytes32 feedbackHash)',
+  'function reject()',
+  'function cancel()',
+  'function unclaim()',
+  'function expire()',
+  'function autoApprove()',
+  'event BountyClaimed(address indexed claimer, uint256 agentId)',
+  'event WorkSubmitted(address indexed claimer, string proofURI)',
+  'event BountyApproved(address indexed claimer, uint256 amount)',
+  'event BountyExpired(address indexed poster, uint256 amount)',
+  'event BountyCancelled(address indexed poster, uint256 amount)',
+  'event BountyRejected(address indexed poster, address indexed claimer, uint8 rejectionCount)',
+  'event AutoApproved(address indexed claimer, uint256 amount)',
+  'error AlreadyInitialized()',
+  'error NotPoster()',
+  'error NotClaimer()',
+  'error InvalidStatus(uint8 current, uint8 expected)',
+  'error NotRegisteredAgent()',
+  'error DeadlineNotReached()',
+  'error DeadlinePassed()',
+  'error ZeroAddress()',
+  'error ZeroAmount()',
+  'error DeadlineTooSoon()',
+  'error ReviewPeriodNotElapsed()',
+  'error MaxRejectionsReached()',
+  'error UnclaimWindowClosed()',
+]);
+
+export const CHALLENGE_FACTORY_ABI = parseAbi([
+  'struct CreateParams { address token; address evaluator; uint256 prizePool; uint256 deadline; uint256 scoringDeadline; string challengeURI; bytes32 evalConfigHash; bytes32 privateSetHash; uint8 winnerCount; uint16[] payoutBps; uint256 maxParticipants; string[] skillTags; }',
+  'function createChallenge(CreateParams p) returns (address challenge)',
+  'function posterBondRate() view returns (uint256)',
+  'function getChallengeCount() view returns (uint256)',
+  'function challenges(uint256) view returns (address)',
+  'event ChallengeCreated(address indexed challengeAddress, address indexed poster, address token, uint256 prizePool, uint256 posterBond, uint256 deadline, uint256 scoringDeadline, string challengeURI, string[] skillTags)',
+  'error ZeroImplementation()',
+  'error ZeroRegistry()',
+  'error NotOwner()',
+  'error BondRateTooHigh()',
+  'error InvalidPayoutBpsLength()',
+  'error InvalidPayoutBpsSum()',
+  'error WinnerCountTooHigh()',
+  'error DeadlineTooSoon()',
+  'error ScoringDeadlineTooSoon()',
+]);
+
+export const CHALLENGE_ABI = parseAbi([
+  'struct Winner { address account; uint256 agentId; uint256 score; uint256 prizeAmount; }',
+  'struct Submission { uint256 agentId; string solutionURI; bytes32 solutionHash; uint256 submittedAt; uint256 version; }',
+  'function poster() view returns (address)',
+  'function evaluator() view returns (address)',
+  'function token() view returns (address)',
+  'function prizePool() view returns (uint256)',
+  'function deadline() view returns (uint256)',
+  'function scoringDeadline() view returns (uint256)',
+  'function challengeURI() view returns (string)',
+  'function posterBond() view returns (uint256)',
+  'function maxParticipants() view returns (uint256)',
+  'function winnerCount() view returns (uint8)',
+  'function status() view returns (uint8)',
+  'function submissionCount() view returns (uint256)',
+  'function scorePostedAt() view returns (uint256)',
+  'function hasClaimed(address) view returns (bool)',
+  'function lastSubmissionTime(address) view returns (uint256)',
+  'function getPayoutBps() view returns (uint16[])',
+  'function getWinnerCount() view returns (uint256)',
+  'function getWinner(uint256 index) view returns (Winner)',
+  'function getSubmission(address submitter) view returns (Submission)',
+  'function submit(uint256 agentId, string solutionURI, bytes32 solutionHash)',
+  'function postScores(Winner[] winners)',
+  'function claimPrize()',
+  'function claimExpiredRefund()',
+  'function advanceToScoring()',
+  'function finalize()',
+  'function expire()',
+  'function cancel()',
+  'event SubmissionReceived(address indexed submitter, uint256 indexed agentId, uint256 version, bytes32 solutionHash)',
+  'event ScoresPosted(address indexed challenge, uint256 winnerCountPosted)',
+  'event PrizeClaimed(address indexed winner, uint256 rank, uint256 amount)',
+  'event ChallengeFinalized(address indexed challenge)',
+  'event ChallengeExpired(address indexed challenge, uint256 refundPerSubmitter)',
+  'event ChallengeCancelled(address indexed challenge)',
+  'error AlreadyInitialized()',
+  'error NotPoster()',
+  'error InvalidStatus(uint8 current, uint8 expected)',
+  'error NotRegisteredAgent()',
+  'error DeadlinePassed()',
+  'error DeadlineNotReached()',
+  'error ZeroAddress()',
+  'error ZeroAmount()',
+  'error DeadlineTooSoon()',
+  'error ScoringDeadlineTooSoon()',
+  'error MaxParticipantsReached()',
+  'error SubmissionCooldown()',
+  'error HasSubmissions()',
+  'error ScoresNotPosted()',
+  'error FinalizationDelayNotElapsed()',
+  'error ScoringDeadlineNotReached()',
+  'error NotAWinner()',
+  'error AlreadyClaimed()',
+  'error InvalidWinnerCount()',
+  'error InvalidPrizeSum()',
+  'error WinnerNotSubmitter()',
+  'error ScoresAlreadyPosted()',
+  'error DuplicateWinner()',
+  'error InvalidPrizeAmount()',
+  'error NotASubmitter()',
+  'error NotEvaluator()',
+]);
+
+/**
+ * ERC-8004 IdentityRegistry (ERC-721 — one token per agent)
+ */
+export const IDENTITY_REGISTRY_ABI = parseAbi([
+  'function register(string tokenURI) returns (uint256 agentId)',
+  'function ownerOf(uint256 agentId) view returns (address)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenURI(uint256 agentId) view returns (string)',
+  'event Registered(uint256 indexed agentId, string tokenURI, address indexed owner)',
+  'event URIUpdated(uint256 indexed agentId, string newURI, address indexed updatedBy)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+]);
+
+/**
+ * ERC-8004 ReputationRegistry
+ */
+export const REPUTATION_REGISTRY_ABI = parseAbi([
+  'function giveFeedback(uint256 agentId, int128 value, uint8 valueDecimals, string tag1, string tag2, string endpoint, string feedbackURI, bytes32 feedbackHash)',
+  'event NewFeedback(uint256 indexed agentId, address indexed clientAddress, uint64 feedbackIndex, int128 value, uint8 valueDecimals, string indexed indexedTag1, string tag1, string tag2, string endpoint, string feedbackURI, bytes32 feedbackHash)',
+  'event FeedbackRevoked(uint256 indexed agentId, address indexed clientAddress, uint64 indexed feedbackIndex)',
+]);
+
+export const ERC20_APPROVE_ABI = parseAbi([
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)',
+]);
+
+/**
+ * Bounty.Status enum, in contract order
+ */
+export const BOUNTY_STATUSES = [
+  'open',
+  'claimed',
+  'submitted',
+  'approved',
+  'expired',
+  'cancelled',
+  'rejected',
+  'resolved',
+] as const;
+
+export type BountyStatus = (typeof BOUNTY_STATUSES)[number];
+
+/**
+ * Bounty timing enforced by Bounty.sol
+ */
+export const BOUNTY_LIMITS = {
+  /** Poster review window after submitWork before autoApprove (seconds) */
+  reviewPeriod: 72 * 3600,
+} as const;
+
+/**
+ * Challenge.ChallengeStatus enum, in contract order
+ */
+export const CHALLENGE_STATUSES = ['open', 'scoring', 'finalized', 'cancelled', 'expired'] as const;
+
+export type ChallengeStatus = (typeof CHALLENGE_STATUSES)[number];
+
+/**
+ * Challenge limits enforced by ChallengeFactory / Challenge
+ */
+export const CHALLENGE_LIMITS = {
+  maxWinners: 25,
+  minSubmissions: 2,
+  /** Delay between postScores and finalize (seconds) */
+  finalizationDelay: 12 * 3600,
+  /** Minimum time between resubmissions (seconds) */
+  submissionCooldown: 3600,
+} as const;
+
+/**
+ * Map the on-chain uint8 status to its name
+ */
+export function bountyStatusName(status: number): BountyStatus {
+  return BOUNTY_STATUSES[status] ?? 'open';
+}
+
+/**
+ * Map the on-chain uint8 challenge status to its name
+ */
+export function challengeStatusName(status: number): ChallengeStatus {
+  return CHALLENGE_STATUSES[status] ?? 'open';
+}
+
+/**
+ * Bond owed for a given amount at a basis-point rate (matches Bounty.sol math)
+ */
+export function calculateBond(amount: bigint, bondRate: bigint): bigint {
+  return (amount * bondRate) / 10000n;
+}
@@ -10,6 +10,7 @@ export enum ClaraErrorCode {
   NO_SESSION = 'NO_SESSION',
   SESSION_EXPIRED = 'SESSION_EXPIRED',
   SPENDING_LIMIT = 'SPENDING_LIMIT',
+  APPROVAL_REQUIRED = 'APPROVAL_REQUIRED',
   INSUFFICIENT_GAS = 'INSUFFICIENT_GAS',
   NO_CONTRACT = 'NO_CONTRACT',
   SIMULATION_FAILED = 'SIMULATION_FAILED',
@@ -38,7 +39,9 @@ export function formatClaraError(error: ClaraError): {
   content: Array<{ type: string; text: string }>;
   isError: boolean;
 } {
-  const icon = error.code === ClaraErrorCode.SPENDING_LIMIT ? '🛑' : '❌';
+  const icon = error.code === ClaraErrorCode.SPENDING_LIMIT ? '🛑'
+    : error.code === ClaraErrorCode.APPROVAL_REQUIRED ? '⏸️'
+    : '❌';
   let text = `${icon} ${error.message}`;
   if (error.suggestion) text += `\n\n→ ${error.suggestion}`;
   if (error.context) text += `\n\n${JSON.stringify(error.context, null, 2)}`;
@@ -3,7 +3,8 @@
  *
  * Checks whether the wallet can afford a transaction BEFORE attempting it.
  * Uses the existing EIP-1559 gas estimation from para/gas.ts and combines
- * it with the wallet's ETH balance to determine affordability.
+ * it with the wallet's ETH balance to determine affordability. Fee data is
+ * cached per chain there, so the send that follows reuses the same lookup.
  *
  * Two-function API:
  * - checkGasPreflight() — returns a result object (no side effects)
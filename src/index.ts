@@ -2,9 +2,9 @@
 /**
  * Clara MCP Server
  *
- * A focused wallet primitive — 8 tools for session management,
- * reading balances, sending transactions, signing messages, and
- * managing ENS identity.
+ * A focused wallet primitive — tools for session management,
+ * reading balances, sending transactions, and signing messages —
+ * plus the work_* and challenge_* tools for the on-chain marketplace.
  *
  * Other MCP servers compose with Clara via wallet_call + wallet_executePrepared.
  *
@@ -64,28 +64,85 @@ import {
 
 // Read
 import { dashboardToolDefinition, handleDashboardRequest } from './tools/dashboard.js';
+import { historyToolDefinition, handleHistoryRequest } from './tools/history.js';
+import { analyzeTxToolDefinition, handleAnalyzeTxRequest } from './tools/analyze-tx.js';
+import { inspectContractToolDefinition, handleInspectContractRequest } from './tools/inspect-contract.js';
 
 // Write
 import { sendToolDefinition, handleSendRequest } from './tools/send.js';
 import { callToolDefinition, handleCallRequest } from './tools/call.js';
+import { multicallReadToolDefinition, handleMulticallReadRequest } from './tools/multicall-read.js';
+import { preparedToolDefinition, handlePreparedRequest } from './tools/prepared.js';
+import { pendingToolDefinition, handlePendingRequest } from './tools/pending.js';
+import { txStatusToolDefinition, handleTxStatusRequest } from './tools/tx-status.js';
+import { spendingToolDefinition, handleSpendingRequest } from './tools/spending.js';
 import {
   executePreparedToolDefinition,
   handleExecutePreparedRequest,
+  executePreparedSpendingExtractor,
 } from './tools/execute-prepared.js';
 
 // Sign
 import { signToolDefinition, handleSignRequest } from './tools/sign.js';
 
+// Work (bounty marketplace)
+import { workRegisterToolDefinition, handleWorkRegisterRequest } from './tools/work-register.js';
+import {
+  workPostToolDefinition,
+  handleWorkPostRequest,
+  workPostSpendingExtractor,
+} from './tools/work-post.js';
+import { workBrowseToolDefinition, handleWorkBrowseRequest } from './tools/work-browse.js';
+import {
+  workClaimToolDefinition,
+  handleWorkClaimRequest,
+  workClaimSpendingExtractor,
+  workUnclaimToolDefinition,
+  handleWorkUnclaimRequest,
+} from './tools/work-claim.js';
+import { workSubmitToolDefinition, handleWorkSubmitRequest } from './tools/work-submit.js';
+import {
+  workApproveToolDefinition,
+  handleWorkApproveRequest,
+  workRejectToolDefinition,
+  handleWorkRejectRequest,
+} from './tools/work-approve.js';
+import { workCancelToolDefinition, handleWorkCancelRequest } from './tools/work-cancel.js';
+import { workReputationToolDefinition, handleWorkReputationRequest } from './tools/work-reputation.js';
+import { workRateToolDefinition, handleWorkRateRequest } from './tools/work-rate.js';
+import { workKeeperToolDefinition, handleWorkKeeperRequest } from './tools/work-keeper.js';
+
+// Challenges (competitive prize pools)
+import {
+  challengeCreateToolDefinition,
+  handleChallengeCreateRequest,
+  challengeCreateSpendingExtractor,
+} from './tools/challenge-create.js';
+import { challengeBrowseToolDefinition, handleChallengeBrowseRequest } from './tools/challenge-browse.js';
+import { challengeSubmitToolDefinition, handleChallengeSubmitRequest } from './tools/challenge-submit.js';
+import { challengeScoreToolDefinition, handleChallengeScoreRequest } from './tools/challenge-score.js';
+import { challengeClaimToolDefinition, handleChallengeClaimRequest } from './tools/challenge-claim.js';
+
 // Identity: wallet_name moved to CLI (clara-mcp name register/lookup/reverse)
 
 // Providers
 import { initProviders } from './providers/index.js';
 
+// Indexer
+import { startIndexer } from './indexer/index.js';
+
+// Transaction watcher
+import { formatTxSettled, onTxSettled, startTxWatcher } from './services/tx-watcher.js';
+
+// Payment approvals
+import { setApprovalPrompt } from './services/approval.js';
+
 // ─── Gas Preflight Extractors ────────────────────────────────────────
 
 import { parseUnits } from 'viem';
 import type { GasPreflightExtractor } from './middleware.js';
 import type { SupportedChain } from './config/chains.js';
+import { CLARA_CHAIN } from './config/clara-contracts.js';
 
 /**
  * Extract chain and value from wallet_send args for gas estimation.
@@ -120,6 +177,26 @@ const callGasExtractor: GasPreflightExtractor = (args) => {
   return { chain: chain as SupportedChain, txValue: value, gasLimit: 300_000n };
 };
 
+/**
+ * Bounty and challenge actions always run on the marketplace chain.
+ * work_post / challenge_create may send an approve plus a clone deployment,
+ * and challenge_score writes up to 25 winners, so budget more gas.
+ */
+const workPostGasExtractor: GasPreflightExtractor = () => {
+  return { chain: CLARA_CHAIN, gasLimit: 600_000n };
+};
+
+const workGasExtractor: GasPreflightExtractor = () => {
+  return { chain: CLARA_CHAIN, gasLimit: 300_000n };
+};
+
+/**
+ * work_keeper only sends transactions with execute=true; listing is read-only.
+ */
+const workKeeperGasExtractor: GasPreflightExtractor = (args) => {
+  return args.execute === true ? { chain: CLARA_CHAIN, gasLimit: 300_000n } : null;
+};
+
 // ─── Tool Registration ──────────────────────────────────────────────
 // Each tool is registered with its definition, handler, and middleware config.
 // Auth-required tools receive a ToolContext with pre-validated session.
@@ -133,6 +210,10 @@ registerTool(reauthToolDefinition, handleReauthRequest, {
 
 // Read (auth required)
 registerTool(dashboardToolDefinition, handleDashboardRequest);
+registerTool(historyToolDefinition, handleHistoryRequest);
+registerTool(analyzeTxToolDefinition, handleAnalyzeTxRequest);
+registerTool(inspectContractToolDefinition, handleInspectContractRequest);
+registerTool(multicallReadToolDefinition, handleMulticallReadRequest);
 
 // Write (auth required)
 registerTool(sendToolDefinition, handleSendRequest, {
@@ -145,13 +226,85 @@ registerTool(callToolDefinition, handleCallRequest, {
   gasExtractor: callGasExtractor,
 });
 registerTool(executePreparedToolDefinition, handleExecutePreparedRequest, {
+  checksSpending: true,
+  spendingExtractor: executePreparedSpendingExtractor,
   gasPreflight: 'check',
   gasExtractor: executePreparedGasExtractor,
 });
+registerTool(preparedToolDefinition, handlePreparedRequest);
+registerTool(pendingToolDefinition, handlePendingRequest);
+registerTool(txStatusToolDefinition, handleTxStatusRequest);
+registerTool(spendingToolDefinition, handleSpendingRequest);
 
 // Sign (auth required)
 registerTool(signToolDefinition, handleSignRequest);
 
+// Work (auth required — bounty marketplace on Base)
+registerTool(workRegisterToolDefinition, handleWorkRegisterRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(workBrowseToolDefinition, handleWorkBrowseRequest);
+registerTool(workPostToolDefinition, handleWorkPostRequest, {
+  checksSpending: true,
+  spendingExtractor: workPostSpendingExtractor,
+  gasPreflight: 'check',
+  gasExtractor: workPostGasExtractor,
+});
+registerTool(workClaimToolDefinition, handleWorkClaimRequest, {
+  checksSpending: true,
+  spendingExtractor: workClaimSpendingExtractor,
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(workUnclaimToolDefinition, handleWorkUnclaimRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(workSubmitToolDefinition, handleWorkSubmitRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(workApproveToolDefinition, handleWorkApproveRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(workRejectToolDefinition, handleWorkRejectRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(workCancelToolDefinition, handleWorkCancelRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(workReputationToolDefinition, handleWorkReputationRequest);
+registerTool(workRateToolDefinition, handleWorkRateRequest);
+registerTool(workKeeperToolDefinition, handleWorkKeeperRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workKeeperGasExtractor,
+});
+
+// Challenges (auth required — same contracts deployment as work_*)
+registerTool(challengeBrowseToolDefinition, handleChallengeBrowseRequest);
+registerTool(challengeCreateToolDefinition, handleChallengeCreateRequest, {
+  checksSpending: true,
+  spendingExtractor: challengeCreateSpendingExtractor,
+  gasPreflight: 'check',
+  gasExtractor: workPostGasExtractor,
+});
+registerTool(challengeSubmitToolDefinition, handleChallengeSubmitRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+registerTool(challengeScoreToolDefinition, handleChallengeScoreRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workPostGasExtractor,
+});
+registerTool(challengeClaimToolDefinition, handleChallengeClaimRequest, {
+  gasPreflight: 'check',
+  gasExtractor: workGasExtractor,
+});
+
 debugLog(`TOOLS_REGISTERED count=${getAllToolDefinitions().length}`);
 
 // ─── Config Validation ──────────────────────────────────────────────
@@ -178,6 +331,8 @@ function createServer(): Server {
     {
       capabilities: {
         tools: {},
+        // Transaction confirmations are pushed as log notifications
+        logging: {},
       },
     },
   );
@@ -232,6 +387,18 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  if (cmd === 'approve') {
+    const { runApproveCommand } = await import('./cli/approvals.js');
+    await runApproveCommand();
+    process.exit(0);
+  }
+
+  if (cmd === 'limits') {
+    const { runLimitsCommand } = await import('./cli/limits.js');
+    await runLimitsCommand();
+    process.exit(0);
+  }
+
   // ─── MCP Server (default — no args) ─────────────────────────────
 
   // Validate config (warnings only — don't block startup)
@@ -250,12 +417,52 @@ async function main(): Promise<void> {
   debugLog('CONNECTED to stdio — server ready');
   console.error('Clara MCP Server running on stdio');
 
+  // Ask for payment approvals inline when the client supports elicitation;
+  // otherwise tools hand back an ID for `clara-mcp approve`
+  if (process.env.CLARA_APPROVAL_ELICITATION !== 'false') {
+    setApprovalPrompt(async (message) => {
+      if (!server.getClientCapabilities()?.elicitation) return null;
+      const answer = await server.elicitInput({
+        message,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: { type: 'boolean', title: 'Approve this payment' },
+          },
+          required: ['approve'],
+        },
+      });
+      return answer.action === 'accept' && answer.content?.approve === true;
+    });
+  }
+
   // Initialize providers in background (non-blocking)
   // Tools that need providers will check isProvidersInitialized()
   initProviders().catch((error) => {
     console.error('Provider initialization error:', error);
     // Don't exit - core wallet tools still work without providers
   });
+
+  // Start the bounty/agent event indexer (backfills, then polls every 15s)
+  if (process.env.CLARA_INDEXER !== 'false') {
+    startIndexer();
+  }
+
+  // Track sent transactions until they confirm, revert, or are replaced
+  if (process.env.CLARA_TX_WATCHER !== 'false') {
+    startTxWatcher();
+    if (process.env.CLARA_TX_NOTIFICATIONS !== 'false') {
+      onTxSettled((tx) => {
+        server.sendLoggingMessage({
+          level: tx.status === 'confirmed' ? 'info' : 'warning',
+          logger: 'clara',
+          data: formatTxSettled(tx),
+        }).catch((error) => {
+          console.error('[watcher] Notification failed:', error instanceof Error ? error.message : error);
+        });
+      });
+    }
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,42 @@
+/**
+ * Indexer Module
+ *
+ * Embedded event indexer for the bounty marketplace, challenges, and the
+ * ERC-8004 identity/reputation registries.
+ *
+ * Usage:
+ *   // During startup (background, non-blocking)
+ *   startIndexer();
+ *
+ *   // In tools — no RPC, served from the local index
+ *   const open = queryBounties({ status: 'open', skill: 'solidity' });
+ */
+
+export * from './types.js';
+export {
+  syncIndex,
+  startIndexer,
+  stopIndexer,
+  getIndexState,
+  getIndexStatus,
+  resetIndexer,
+  type IndexerClient,
+  type IndexStatus,
+  type SyncOptions,
+  type SyncResult,
+} from './sync.js';
+export {
+  queryBounties,
+  getIndexedBounty,
+  queryChallenges,
+  getIndexedChallenge,
+  getIndexedAgent,
+  getAgentsByOwner,
+  getReputation,
+  getAgentProfile,
+  type BountyQuery,
+  type ChallengeQuery,
+  type ReputationSummary,
+  type AgentProfile,
+} from './queries.js';
+export { getIndexPath } from './store.js';
@@ -0,0 +1,164 @@
+/**
+ * Indexer Queries
+ *
+ * Read-only views over the local index. No RPC — these run against the
+ * in-memory state rebuilt from ~/.clara/bounties.json.
+ */
+
+import type { BountyStatus, ChallengeStatus } from '../config/clara-contracts.js';
+import { getIndexState } from './sync.js';
+import type {
+  IndexedAgent,
+  IndexedBounty,
+  IndexedChallenge,
+  IndexedFeedback,
+} from './types.js';
+
+// ─── Bounties ────────────────────────────────────────────────────────
+
+export interface BountyQuery {
+  status?: BountyStatus | BountyStatus[];
+  skill?: string;
+  poster?: string;
+  claimer?: string;
+  /** Exclude bounties whose deadline has passed (unix seconds "now") */
+  openAt?: number;
+}
+
+/**
+ * Bounties matching a filter, newest first
+ */
+export function queryBounties(query: BountyQuery = {}): IndexedBounty[] {
+  const statuses = query.status === undefined
+    ? null
+    : Array.isArray(query.status) ? query.status : [query.status];
+  const skill = query.skill?.toLowerCase();
+  const poster = query.poster?.toLowerCase();
+  const claimer = query.claimer?.toLowerCase();
+
+  return Object.values(getIndexState().bounties)
+    .filter((b) => !statuses || statuses.includes(b.status))
+    .filter((b) => !skill || b.skillTags.includes(skill))
+    .filter((b) => !poster || b.poster === poster)
+    .filter((b) => !claimer || b.claimer === claimer)
+    .filter((b) => query.openAt === undefined || b.deadline > query.openAt)
+    .sort((a, b) => b.createdAt - a.createdAt || b.updatedBlock - a.updatedBlock);
+}
+
+/**
+ * Single bounty by address
+ */
+export function getIndexedBounty(address: string): IndexedBounty | null {
+  return getIndexState().bounties[address.toLowerCase()] ?? null;
+}
+
+// ─── Challenges ──────────────────────────────────────────────────────
+
+export interface ChallengeQuery {
+  status?: ChallengeStatus | ChallengeStatus[];
+  skill?: string;
+  poster?: string;
+  submitter?: string;
+}
+
+/**
+ * Challenges matching a filter, newest first
+ */
+export function queryChallenges(query: ChallengeQuery = {}): IndexedChallenge[] {
+  const statuses = query.status === undefined
+    ? null
+    : Array.isArray(query.status) ? query.status : [query.status];
+  const skill = query.skill?.toLowerCase();
+  const poster = query.poster?.toLowerCase();
+  const submitter = query.submitter?.toLowerCase();
+
+  return Object.values(getIndexState().challenges)
+    .filter((c) => !statuses || statuses.includes(c.status))
+    .filter((c) => !skill || c.skillTags.includes(skill))
+    .filter((c) => !poster || c.poster === poster)
+    .filter((c) => !submitter || submitter in c.submissions)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Single challenge by address
+ */
+export function getIndexedChallenge(address: string): IndexedChallenge | null {
+  return getIndexState().challenges[address.toLowerCase()] ?? null;
+}
+
+// ─── Agents & Reputation ─────────────────────────────────────────────
+
+/**
+ * Agent by ERC-8004 token ID
+ */
+export function getIndexedAgent(agentId: string | number | bigint): IndexedAgent | null {
+  return getIndexState().agents[String(agentId)] ?? null;
+}
+
+/**
+ * Agents currently owned by an address (oldest registration first)
+ */
+export function getAgentsByOwner(owner: string): IndexedAgent[] {
+  const target = owner.toLowerCase();
+  return Object.values(getIndexState().agents)
+    .filter((a) => a.owner === target)
+    .sort((a, b) => a.registeredAt - b.registeredAt);
+}
+
+export interface ReputationSummary {
+  agentId: string;
+  count: number;
+  /** Mean feedback value (decimals applied), null with no feedback */
+  average: number | null;
+  feedback: IndexedFeedback[];
+}
+
+/**
+ * Aggregate non-revoked ERC-8004 feedback for an agent, newest first
+ */
+export function getReputation(agentId: string | number | bigint): ReputationSummary {
+  const id = String(agentId);
+  const feedback = getIndexState().feedback
+    .filter((f) => f.agentId === id && !f.revoked)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const total = feedback.reduce((sum, f) => sum + Number(f.value) / 10 ** f.valueDecimals, 0);
+
+  return {
+    agentId: id,
+    count: feedback.length,
+    average: feedback.length > 0 ? total / feedback.length : null,
+    feedback,
+  };
+}
+
+export interface AgentProfile {
+  agent: IndexedAgent;
+  reputation: ReputationSummary;
+  bountiesPosted: number;
+  bountiesCompleted: number;
+  bountiesInProgress: number;
+}
+
+/**
+ * Full profile: identity, reputation, and bounty track record.
+ * Looks up by agent ID, or by owner address (first registered agent).
+ */
+export function getAgentProfile(lookup: { agentId?: string | number; address?: string }): AgentProfile | null {
+  const agent = lookup.agentId !== undefined
+    ? getIndexedAgent(lookup.agentId)
+    : lookup.address ? getAgentsByOwner(lookup.address)[0] ?? null : null;
+  if (!agent) return null;
+
+  const bounties = Object.values(getIndexState().bounties);
+  const asWorker = bounties.filter((b) => b.claimerAgentId === agent.agentId);
+
+  return {
+    agent,
+    reputation: getReputation(agent.agentId),
+    bountiesPosted: bounties.filter((b) => b.poster === agent.owner).length,
+    bountiesCompleted: asWorker.filter((b) => b.status === 'approved').length,
+    bountiesInProgress: asWorker.filter((b) => b.status === 'claimed' || b.status === 'submitted' || b.status === 'rejected').length,
+  };
+}
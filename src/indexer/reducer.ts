@@ -0,0 +1,221 @@
+/**
+ * Indexer Reducer
+ *
+ * Folds IndexedEvents (in chain order) into the queryable IndexState.
+ * Pure and deterministic — the same events always produce the same state,
+ * which is what makes reorg rollback a simple replay.
+ */
+
+import type { IndexedEvent, IndexState } from './types.js';
+
+/**
+ * Create an empty state
+ */
+export function emptyState(): IndexState {
+  return { bounties: {}, challenges: {}, agents: {}, feedback: [] };
+}
+
+/**
+ * Lowercase address helper (event args are stored as returned by viem)
+ */
+function addr(value: string | string[] | undefined): string {
+  return typeof value === 'string' ? value.toLowerCase() : '';
+}
+
+function str(value: string | string[] | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function list(value: string | string[] | undefined): string[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Apply a single event to the state (mutates)
+ */
+export function applyEvent(state: IndexState, event: IndexedEvent): void {
+  const { args } = event;
+
+  switch (event.name) {
+    // ─── BountyFactory ───────────────────────────────────────────
+    case 'BountyCreated': {
+      const address = addr(args.bountyAddress);
+      state.bounties[address] = {
+        address,
+        poster: addr(args.poster),
+        token: addr(args.token),
+        amount: str(args.amount),
+        posterBond: str(args.posterBond),
+        bondRate: str(args.bondRate),
+        deadline: Number(args.deadline),
+        taskURI: str(args.taskURI),
+        skillTags: list(args.skillTags).map((s) => s.toLowerCase()),
+        status: 'open',
+        rejectionCount: 0,
+        createdAt: event.timestamp,
+        updatedBlock: event.blockNumber,
+      };
+      return;
+    }
+
+    // ─── Bounty clones ───────────────────────────────────────────
+    case 'BountyClaimed':
+    case 'WorkSubmitted':
+    case 'BountyApproved':
+    case 'AutoApproved':
+    case 'BountyRejected':
+    case 'BountyCancelled':
+    case 'BountyExpired': {
+      const bounty = state.bounties[event.address];
+      if (!bounty) return;
+      bounty.updatedBlock = event.blockNumber;
+
+      // NOTE: unclaim() emits no event, so a released bounty stays 'claimed'
+      // here until the next claim or expiry.
+      if (event.name === 'BountyClaimed') {
+        bounty.status = 'claimed';
+        bounty.claimer = addr(args.claimer);
+        bounty.claimerAgentId = str(args.agentId);
+        bounty.claimedAt = event.timestamp;
+      } else if (event.name === 'WorkSubmitted') {
+        bounty.status = 'submitted';
+        bounty.proofURI = str(args.proofURI);
+        bounty.submittedAt = event.timestamp;
+      } else if (event.name === 'BountyApproved' || event.name === 'AutoApproved') {
+        bounty.status = 'approved';
+      } else if (event.name === 'BountyRejected') {
+        bounty.rejectionCount = Number(args.rejectionCount);
+        // Second rejection resolves the bounty (both bonds burned)
+        bounty.status = bounty.rejectionCount >= 2 ? 'resolved' : 'rejected';
+      } else if (event.name === 'BountyCancelled') {
+        bounty.status = 'cancelled';
+      } else {
+        bounty.status = 'expired';
+      }
+      return;
+    }
+
+    // ─── ChallengeFactory ────────────────────────────────────────
+    case 'ChallengeCreated': {
+      const address = addr(args.challengeAddress);
+      state.challenges[address] = {
+        address,
+        poster: addr(args.poster),
+        token: addr(args.token),
+        prizePool: str(args.prizePool),
+        posterBond: str(args.posterBond),
+        deadline: Number(args.deadline),
+        scoringDeadline: Number(args.scoringDeadline),
+        challengeURI: str(args.challengeURI),
+        skillTags: list(args.skillTags).map((s) => s.toLowerCase()),
+        status: 'open',
+        submissions: {},
+        claimedBy: [],
+        createdAt: event.timestamp,
+        updatedBlock: event.blockNumber,
+      };
+      return;
+    }
+
+    // ─── Challenge clones ────────────────────────────────────────
+    case 'SubmissionReceived':
+    case 'ScoresPosted':
+    case 'PrizeClaimed':
+    case 'ChallengeFinalized':
+    case 'ChallengeExpired':
+    case 'ChallengeCancelled': {
+      const challenge = state.challenges[event.address];
+      if (!challenge) return;
+      challenge.updatedBlock = event.blockNumber;
+
+      if (event.name === 'SubmissionReceived') {
+        const submitter = addr(args.submitter);
+        challenge.submissions[submitter] = {
+          submitter,
+          agentId: str(args.agentId),
+          version: Number(args.version),
+          solutionHash: str(args.solutionHash),
+          submittedAt: event.timestamp,
+        };
+      } else if (event.name === 'ScoresPosted') {
+        // advanceToScoring() emits nothing; scores imply the Scoring phase
+        challenge.status = 'scoring';
+        challenge.scoresPostedAt = event.timestamp;
+      } else if (event.name === 'PrizeClaimed') {
+        challenge.claimedBy.push(addr(args.winner));
+      } else if (event.name === 'ChallengeFinalized') {
+        challenge.status = 'finalized';
+      } else if (event.name === 'ChallengeExpired') {
+        challenge.status = 'expired';
+      } else {
+        challenge.status = 'cancelled';
+      }
+      return;
+    }
+
+    // ─── ERC-8004 IdentityRegistry ───────────────────────────────
+    case 'Registered': {
+      const agentId = str(args.agentId);
+      state.agents[agentId] = {
+        agentId,
+        owner: addr(args.owner),
+        uri: str(args.tokenURI),
+        registeredAt: event.timestamp,
+      };
+      return;
+    }
+
+    case 'URIUpdated': {
+      const agent = state.agents[str(args.agentId)];
+      if (agent) agent.uri = str(args.newURI);
+      return;
+    }
+
+    case 'Transfer': {
+      const agent = state.agents[str(args.tokenId)];
+      if (agent) agent.owner = addr(args.to);
+      return;
+    }
+
+    // ─── ERC-8004 ReputationRegistry ─────────────────────────────
+    case 'NewFeedback': {
+      state.feedback.push({
+        agentId: str(args.agentId),
+        client: addr(args.clientAddress),
+        feedbackIndex: str(args.feedbackIndex),
+        value: str(args.value),
+        valueDecimals: Number(args.valueDecimals),
+        tag1: str(args.tag1),
+        tag2: str(args.tag2),
+        feedbackURI: str(args.feedbackURI),
+        timestamp: event.timestamp,
+        revoked: false,
+      });
+      return;
+    }
+
+    case 'FeedbackRevoked': {
+      const agentId = str(args.agentId);
+      const client = addr(args.clientAddress);
+      const index = str(args.feedbackIndex);
+      for (const fb of state.feedback) {
+        if (fb.agentId === agentId && fb.client === client && fb.feedbackIndex === index) {
+          fb.revoked = true;
+        }
+      }
+      return;
+    }
+
+    default:
+      return;
+  }
+}
+
+/**
+ * Rebuild state from a full event list
+ */
+export function buildState(events: IndexedEvent[]): IndexState {
+  const state = emptyState();
+  for (const event of events) applyEvent(state, event);
+  return state;
+}
@@ -0,0 +1,70 @@
+/**
+ * Indexer Storage
+ *
+ * Persists the event log and cursor to ~/.clara/bounties.json so restarts
+ * resume from the last processed block instead of re-scanning from deploy.
+ *
+ * Override the location with CLARA_INDEX_PATH (used by tests).
+ */
+
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { IndexFile } from './types.js';
+
+/**
+ * Resolve the index file path
+ */
+export function getIndexPath(): string {
+  return process.env.CLARA_INDEX_PATH || join(homedir(), '.clara', 'bounties.json');
+}
+
+/**
+ * Create an empty index for a chain
+ */
+export function emptyIndexFile(chainId: number): IndexFile {
+  return { version: 2, chainId, cursor: null, events: [] };
+}
+
+/**
+ * Load the index from disk
+ *
+ * Returns an empty index if the file is missing, corrupt, from an older
+ * format, or for a different chain — the indexer then backfills from scratch.
+ */
+export function loadIndexFile(chainId: number): IndexFile {
+  const path = getIndexPath();
+  if (!existsSync(path)) return emptyIndexFile(chainId);
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<IndexFile>;
+    if (parsed.version !== 2 || parsed.chainId !== chainId || !Array.isArray(parsed.events)) {
+      console.error('[indexer] Index file format changed or chain mismatch — rebuilding');
+      return emptyIndexFile(chainId);
+    }
+    return {
+      version: 2,
+      chainId,
+      cursor: parsed.cursor ?? null,
+      events: parsed.events,
+    };
+  } catch (error) {
+    console.error('[indexer] Failed to read index file, rebuilding:', error instanceof Error ? error.message : error);
+    return emptyIndexFile(chainId);
+  }
+}
+
+/**
+ * Save the index atomically (write temp file, then rename)
+ */
+export function saveIndexFile(file: IndexFile): void {
+  const path = getIndexPath();
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(file), { mode: 0o600 });
+  renameSync(tmp, path);
+}
@@ -0,0 +1,441 @@
+/**
+ * Indexer Sync
+ *
+ * Backfills from the ERC-8004 registries' deploy block (they predate the
+ * marketplace), then polls for new blocks.
+ *
+ * Each pass:
+ * 1. Reorg check — the cursor's stored block hash must still be canonical.
+ *    If not, drop events past a rewind point and replay (event-sourced state).
+ * 2. Scan [cursor+1, head - CONFIRMATIONS] in chunks:
+ *    a. factories + ERC-8004 registries (discovers new clones)
+ *    b. all known bounty/challenge clones
+ * 3. Persist events + cursor every SAVE_EVERY_CHUNKS chunks and at the end of
+ *    the pass. Both are written together, so a crash only rescans unsaved chunks.
+ *
+ * Chunks shrink automatically when the RPC rejects a range as too large.
+ */
+
+import { createPublicClient, http, type AbiEvent, type Hex, type Log } from 'viem';
+import { CHAINS, getRpcUrl } from '../config/chains.js';
+import {
+  BOUNTY_ABI,
+  BOUNTY_FACTORY_ABI,
+  CHALLENGE_ABI,
+  CHALLENGE_FACTORY_ABI,
+  CLARA_CHAIN,
+  IDENTITY_REGISTRY_ABI,
+  REPUTATION_REGISTRY_ABI,
+  getClaraContracts,
+} from '../config/clara-contracts.js';
+import { applyEvent, buildState } from './reducer.js';
+import { loadIndexFile, saveIndexFile } from './store.js';
+import type { IndexedEvent, IndexFile, IndexState } from './types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Blocks behind head treated as final (Base: ~20s) */
+const CONFIRMATIONS = 10;
+
+/** How far to rewind when the cursor block is no longer canonical */
+const REORG_REWIND = 64;
+
+/** Give up rewinding and rebuild from scratch after this many attempts */
+const MAX_REWINDS = 8;
+
+const DEFAULT_CHUNK_SIZE = 10_000;
+const MIN_CHUNK_SIZE = 100;
+
+/** Max clone addresses per eth_getLogs filter */
+const ADDRESS_BATCH = 200;
+
+/** Chunks between index file writes during a backfill (each write is the whole file) */
+const SAVE_EVERY_CHUNKS = 50;
+
+const DEFAULT_POLL_INTERVAL_MS = 15_000;
+
+// ============================================================================
+// Event Sets
+// ============================================================================
+
+type EventAbi = readonly AbiEvent[];
+
+function eventsOf(abi: readonly unknown[]): EventAbi {
+  return abi.filter((item): item is AbiEvent => (item as { type?: string }).type === 'event');
+}
+
+/** Events emitted by the singletons (factories + registries) */
+const ROOT_EVENTS: EventAbi = [
+  ...eventsOf(BOUNTY_FACTORY_ABI),
+  ...eventsOf(CHALLENGE_FACTORY_ABI),
+  ...eventsOf(IDENTITY_REGISTRY_ABI),
+  ...eventsOf(REPUTATION_REGISTRY_ABI),
+];
+
+/** Events emitted by bounty/challenge clones */
+const CLONE_EVENTS: EventAbi = [...eventsOf(BOUNTY_ABI), ...eventsOf(CHALLENGE_ABI)];
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * The subset of viem's PublicClient the indexer needs (injectable for tests)
+ */
+export interface IndexerClient {
+  getBlockNumber(): Promise<bigint>;
+  getBlock(args: { blockNumber: bigint }): Promise<{ hash: Hex | null; timestamp: bigint }>;
+  getLogs(args: {
+    address: Hex[];
+    events: EventAbi;
+    fromBlock: bigint;
+    toBlock: bigint;
+  }): Promise<Log[]>;
+}
+
+function createIndexerClient(): IndexerClient {
+  return createPublicClient({
+    chain: CHAINS[CLARA_CHAIN].chain,
+    transport: http(getRpcUrl(CLARA_CHAIN)),
+  }) as unknown as IndexerClient;
+}
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+let indexFile: IndexFile | null = null;
+let indexState: IndexState | null = null;
+let syncInFlight: Promise<SyncResult> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let lastError: string | null = null;
+let lastHead: number | null = null;
+
+function ensureLoaded(): { file: IndexFile; state: IndexState } {
+  if (!indexFile || !indexState) {
+    indexFile = loadIndexFile(getClaraContracts().chainId);
+    indexState = buildState(indexFile.events);
+  }
+  return { file: indexFile, state: indexState };
+}
+
+/**
+ * Current derived state (loads from disk on first use — no RPC)
+ */
+export function getIndexState(): IndexState {
+  return ensureLoaded().state;
+}
+
+export interface IndexStatus {
+  /** Last indexed block, or null before the first chunk completes */
+  cursorBlock: number | null;
+  /** Latest head seen by the last sync */
+  headBlock: number | null;
+  syncing: boolean;
+  lastError: string | null;
+  eventCount: number;
+}
+
+/**
+ * Indexer progress, for tools that want to say "still backfilling"
+ */
+export function getIndexStatus(): IndexStatus {
+  const { file } = ensureLoaded();
+  return {
+    cursorBlock: file.cursor?.blockNumber ?? null,
+    headBlock: lastHead,
+    syncing: syncInFlight !== null,
+    lastError,
+    eventCount: file.events.length,
+  };
+}
+
+/**
+ * Drop in-memory state (for testing)
+ */
+export function resetIndexer(): void {
+  stopIndexer();
+  indexFile = null;
+  indexState = null;
+  syncInFlight = null;
+  lastError = null;
+  lastHead = null;
+}
+
+// ============================================================================
+// Log Decoding
+// ============================================================================
+
+function toJsonSafe(value: unknown): string | string[] {
+  if (Array.isArray(value)) return value.map((v) => String(v));
+  return String(value);
+}
+
+function toIndexedEvent(log: Log, timestamp: number): IndexedEvent | null {
+  const decoded = log as Log & { eventName?: string; args?: Record<string, unknown> };
+  if (!decoded.eventName || !decoded.args || log.blockNumber === null || log.logIndex === null) {
+    return null;
+  }
+
+  const args: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(decoded.args)) {
+    args[key] = toJsonSafe(value);
+  }
+
+  return {
+    name: decoded.eventName,
+    address: log.address.toLowerCase(),
+    blockNumber: Number(log.blockNumber),
+    logIndex: log.logIndex,
+    txHash: log.transactionHash ?? '',
+    timestamp,
+    args,
+  };
+}
+
+// ============================================================================
+// Range Scanning
+// ============================================================================
+
+/**
+ * Fetch and decode every relevant log in [fromBlock, toBlock], in chain order
+ */
+async function fetchRange(
+  client: IndexerClient,
+  state: IndexState,
+  fromBlock: number,
+  toBlock: number,
+): Promise<IndexedEvent[]> {
+  const contracts = getClaraContracts();
+  const range = { fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+
+  const rootLogs = await client.getLogs({
+    address: [
+      contracts.bounty.factory,
+      contracts.challenge.factory,
+      contracts.identityRegistry,
+      contracts.reputationRegistry,
+    ],
+    events: ROOT_EVENTS,
+    ...range,
+  });
+
+  // Clones created in this range can emit events in the same range
+  const clones = new Set<string>([...Object.keys(state.bounties), ...Object.keys(state.challenges)]);
+  for (const log of rootLogs as Array<Log & { eventName?: string; args?: Record<string, unknown> }>) {
+    const created = log.args?.bountyAddress ?? log.args?.challengeAddress;
+    if (typeof created === 'string') clones.add(created.toLowerCase());
+  }
+
+  const cloneList = Array.from(clones) as Hex[];
+  const cloneLogs: Log[] = [];
+  for (let i = 0; i < cloneList.length; i += ADDRESS_BATCH) {
+    const batch = await client.getLogs({
+      address: cloneList.slice(i, i + ADDRESS_BATCH),
+      events: CLONE_EVENTS,
+      ...range,
+    });
+    cloneLogs.push(...batch);
+  }
+
+  const logs = [...rootLogs, ...cloneLogs].sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? (a.logIndex ?? 0) - (b.logIndex ?? 0)
+      : Number((a.blockNumber ?? 0n) - (b.blockNumber ?? 0n)),
+  );
+
+  // Timestamps only for blocks that actually have events (sparse)
+  const timestamps = new Map<bigint, number>();
+  for (const log of logs) {
+    if (log.blockNumber !== null && !timestamps.has(log.blockNumber)) {
+      const block = await client.getBlock({ blockNumber: log.blockNumber });
+      timestamps.set(log.blockNumber, Number(block.timestamp));
+    }
+  }
+
+  return logs
+    .map((log) => toIndexedEvent(log, timestamps.get(log.blockNumber ?? -1n) ?? 0))
+    .filter((e): e is IndexedEvent => e !== null);
+}
+
+/**
+ * First block with any indexed contract (registries, factories)
+ */
+function getStartBlock(): number {
+  const contracts = getClaraContracts();
+  const blocks = [contracts.registryDeployBlock, contracts.bounty.deployBlock, contracts.challenge.deployBlock];
+  return Number(blocks.reduce((min, b) => (b < min ? b : min)));
+}
+
+function isRangeTooLarge(error: unknown): boolean {
+  const msg = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return ['range', 'too many', 'limit', 'exceed', 'too large', 'timeout'].some((p) => msg.includes(p));
+}
+
+// ============================================================================
+// Reorg Handling
+// ============================================================================
+
+/**
+ * Roll the index back so that only events at or below `blockNumber` remain
+ */
+function rollbackTo(file: IndexFile, blockNumber: number): IndexState {
+  file.events = file.events.filter((e) => e.blockNumber <= blockNumber);
+  return buildState(file.events);
+}
+
+/**
+ * Verify the cursor is still canonical; rewind until it is.
+ *
+ * @returns true if a rewind happened
+ */
+async function reconcileReorg(client: IndexerClient, file: IndexFile): Promise<boolean> {
+  const startBlock = getStartBlock();
+  let rewound = false;
+
+  for (let attempt = 0; file.cursor; attempt++) {
+    const block = await client.getBlock({ blockNumber: BigInt(file.cursor.blockNumber) });
+    if (block.hash === file.cursor.blockHash) return rewound;
+
+    rewound = true;
+    const target = file.cursor.blockNumber - REORG_REWIND;
+    console.error(`[indexer] Reorg detected at block ${file.cursor.blockNumber}, rewinding to ${target}`);
+
+    if (attempt >= MAX_REWINDS || target < startBlock) {
+      file.cursor = null;
+      file.events = [];
+      indexState = buildState([]);
+      return rewound;
+    }
+
+    indexState = rollbackTo(file, target);
+    const targetBlock = await client.getBlock({ blockNumber: BigInt(target) });
+    file.cursor = { blockNumber: target, blockHash: targetBlock.hash ?? '' };
+  }
+
+  return rewound;
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  reorged: boolean;
+}
+
+export interface SyncOptions {
+  client?: IndexerClient;
+  chunkSize?: number;
+}
+
+async function runSync(options: SyncOptions): Promise<SyncResult> {
+  const client = options.client ?? createIndexerClient();
+  const { file } = ensureLoaded();
+
+  const reorged = await reconcileReorg(client, file);
+  if (reorged) saveIndexFile(file);
+
+  const head = Number(await client.getBlockNumber());
+  lastHead = head;
+  const safeHead = head - CONFIRMATIONS;
+  const startBlock = file.cursor ? file.cursor.blockNumber + 1 : getStartBlock();
+
+  let chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  let from = startBlock;
+  let newEvents = 0;
+  let unsavedChunks = 0;
+
+  try {
+    while (from <= safeHead) {
+      const to = Math.min(from + chunkSize - 1, safeHead);
+
+      let events: IndexedEvent[];
+      let toBlock: { hash: Hex | null };
+      try {
+        events = await fetchRange(client, indexState!, from, to);
+        toBlock = await client.getBlock({ blockNumber: BigInt(to) });
+      } catch (error) {
+        if (isRangeTooLarge(error) && chunkSize > MIN_CHUNK_SIZE) {
+          chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+          continue;
+        }
+        throw error;
+      }
+
+      // Events and cursor advance together, so a save never splits them
+      for (const event of events) applyEvent(indexState!, event);
+      file.events.push(...events);
+      file.cursor = { blockNumber: to, blockHash: toBlock.hash ?? '' };
+      newEvents += events.length;
+
+      if (++unsavedChunks >= SAVE_EVERY_CHUNKS) {
+        saveIndexFile(file);
+        unsavedChunks = 0;
+      }
+
+      from = to + 1;
+    }
+  } finally {
+    // Keep completed chunks even when a later one fails
+    if (unsavedChunks > 0) saveIndexFile(file);
+  }
+
+  return { fromBlock: startBlock, toBlock: Math.max(startBlock - 1, safeHead), newEvents, reorged };
+}
+
+/**
+ * Run one sync pass. Concurrent callers share the in-flight pass.
+ */
+export async function syncIndex(options: SyncOptions = {}): Promise<SyncResult> {
+  if (syncInFlight) return syncInFlight;
+
+  syncInFlight = runSync(options)
+    .then((result) => {
+      lastError = null;
+      return result;
+    })
+    .catch((error) => {
+      lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    })
+    .finally(() => {
+      syncInFlight = null;
+    });
+
+  return syncInFlight;
+}
+
+/**
+ * Start background polling. Safe to call more than once.
+ *
+ * The timer is unref'd so it never keeps the process alive on its own.
+ */
+export function startIndexer(intervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+  if (pollTimer) return;
+
+  const tick = () => {
+    syncIndex().catch((error) => {
+      console.error('[indexer] Sync failed:', error instanceof Error ? error.message : error);
+    });
+  };
+
+  tick();
+  pollTimer = setInterval(tick, intervalMs);
+  pollTimer.unref?.();
+}
+
+/**
+ * Stop background polling
+ */
+export function stopIndexer(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Indexer Types
+ *
+ * The index is event-sourced: the raw decoded logs are persisted, and the
+ * bounty/challenge/agent views are rebuilt from them. Rolling back a reorg
+ * is just dropping the tail of the event list and replaying.
+ */
+
+import type { BountyStatus, ChallengeStatus } from '../config/clara-contracts.js';
+
+// ─── Persisted ───────────────────────────────────────────────────────
+
+/**
+ * A decoded log, JSON-safe (bigints are stored as decimal strings)
+ */
+export interface IndexedEvent {
+  name: string;
+  /** Emitting contract (lowercase) */
+  address: string;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  /** Block timestamp (unix seconds) */
+  timestamp: number;
+  args: Record<string, string | string[]>;
+}
+
+/**
+ * Last fully-processed block. The hash is re-checked on every sync to
+ * detect reorgs deeper than the confirmation window.
+ */
+export interface IndexCursor {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexFile {
+  /** 2: backfill starts at the registries' deploy block, not the factory's */
+  version: 2;
+  chainId: number;
+  cursor: IndexCursor | null;
+  events: IndexedEvent[];
+}
+
+// ─── Derived ─────────────────────────────────────────────────────────
+
+export interface IndexedBounty {
+  address: string;
+  poster: string;
+  token: string;
+  /** Raw token units */
+  amount: string;
+  posterBond: string;
+  bondRate: string;
+  /** Unix seconds */
+  deadline: number;
+  taskURI: string;
+  skillTags: string[];
+  status: BountyStatus;
+  claimer?: string;
+  claimerAgentId?: string;
+  proofURI?: string;
+  rejectionCount: number;
+  createdAt: number;
+  claimedAt?: number;
+  submittedAt?: number;
+  /** Block of the most recent state change */
+  updatedBlock: number;
+}
+
+export interface IndexedChallengeSubmission {
+  submitter: string;
+  agentId: string;
+  version: number;
+  solutionHash: string;
+  submittedAt: number;
+}
+
+export interface IndexedChallenge {
+  address: string;
+  poster: string;
+  token: string;
+  prizePool: string;
+  posterBond: string;
+  deadline: number;
+  scoringDeadline: number;
+  challengeURI: string;
+  skillTags: string[];
+  status: ChallengeStatus;
+  submissions: Record<string, IndexedChallengeSubmission>;
+  scoresPostedAt?: number;
+  claimedBy: string[];
+  createdAt: number;
+  updatedBlock: number;
+}
+
+export interface IndexedAgent {
+  agentId: string;
+  owner: string;
+  uri: string;
+  registeredAt: number;
+}
+
+export interface IndexedFeedback {
+  agentId: string;
+  client: string;
+  feedbackIndex: string;
+  /** Signed fixed-point value, see valueDecimals */
+  value: string;
+  valueDecimals: number;
+  tag1: string;
+  tag2: string;
+  feedbackURI: string;
+  timestamp: number;
+  revoked: boolean;
+}
+
+export interface IndexState {
+  bounties: Record<string, IndexedBounty>;
+  challenges: Record<string, IndexedChallenge>;
+  agents: Record<string, IndexedAgent>;
+  feedback: IndexedFeedback[];
+}
@@ -3,8 +3,9 @@
  *
  * Wraps every tool handler with standard pre/post processing:
  * 1. Auth check (getSession → validate → inject ctx)
- * 2. Error normalization (ClaraError → MCP response)
- * 3. Session touch (extend expiry after successful ops)
+ * 2. Gas preflight, spending policy and limits, and human approval (for tools that configure them)
+ * 3. Error normalization (ClaraError → MCP response)
+ * 4. Session touch (extend expiry after successful ops)
  *
  * Tools receive a ToolContext with session + walletAddress pre-validated,
  * eliminating the getSession()/touchSession() boilerplate from every handler.
@@ -13,11 +14,16 @@
 import { getSession, getSessionStatus, touchSession } from './storage/session.js';
 import { ClaraError, ClaraErrorCode, formatClaraError } from './errors.js';
 import { checkGasPreflight, requireGas } from './gas-preflight.js';
+import { checkSpendingLimits, recordSpending, type SpendingApproval } from './storage/spending.js';
+import { formatApprovalValue, requireApproval } from './services/approval.js';
+import { formatUnpricedAmount, type OutgoingValue } from './services/outgoing-value.js';
+import { requireWithinPolicy, spendingTokens, type PolicyCall } from './services/policy.js';
+import type { PricedAmount } from './services/pricing.js';
 import { getOrCreateSessionKey, getCurrentSessionKey } from './auth/session-key.js';
 import type { SessionKeyData } from './auth/session-key.js';
 import type { Hex } from 'viem';
 import type { WalletSession } from './storage/session.js';
-import type { SupportedChain } from './config/chains.js';
+import { CHAINS, type SupportedChain } from './config/chains.js';
 
 /**
  * Context injected into auth-required tool handlers
@@ -27,6 +33,12 @@ export interface ToolContext {
   walletAddress: Hex;
   /** Ephemeral session key for signing proxy requests (null if init failed) */
   sessionKey: SessionKeyData | null;
+  /**
+   * Set while a spendingExtractor's intent is in flight: the handler reports
+   * the transaction that moved the funds, and who holds them when that's
+   * only known afterwards (e.g. a new bounty clone), for the spending record
+   */
+  reportSent?: (txHash: Hex, recipient?: string) => void;
 }
 
 /**
@@ -70,12 +82,55 @@ export type GasPreflightExtractor = (args: Record<string, unknown>) => {
   gasLimit?: bigint;
 } | null;
 
+/**
+ * What a tool call is about to send out of the wallet
+ */
+export interface SpendingIntent {
+  /** Tool name, for per-tool policy caps */
+  tool: string;
+  /** What a human approval for this call covers, e.g. the prepared tx ID */
+  subject: string;
+  chain: SupportedChain;
+  value: OutgoingValue;
+  recipient: string;
+  /** Contract calls about to be signed; the policy checks who they pay instead of `recipient` */
+  calls?: PolicyCall[];
+  /** e.g. "transfer(address,uint256) on base" */
+  description: string;
+  /**
+   * What was actually sent once the handler has run (result undefined if it
+   * threw), or null for nothing. Default: all of `value` if the handler
+   * reported a transaction through `ctx.reportSent`, even if it failed
+   * afterwards, or returned without an error. `amounts` defaults to
+   * everything in `value`.
+   */
+  settle?: (result: ToolResult | undefined) => { usd: number; txHash?: Hex; amounts?: PricedAmount[] } | null;
+  /** Called once a human has approved the call (above `requireApprovalAbove`) */
+  onApproved?: (approval: SpendingApproval) => void;
+}
+
+/**
+ * Function to work out what a call will send, for spending limits.
+ * Returns null to skip the check for this particular call.
+ */
+export type SpendingExtractor = (
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+) => Promise<SpendingIntent | null>;
+
 /**
  * Configuration for how middleware wraps a tool
  */
 export interface ToolConfig {
   requiresAuth: boolean;
+  /**
+   * The tool moves value and is subject to spending limits. With a
+   * spendingExtractor the middleware checks the limits before the handler
+   * and records the spend after it; without one the handler enforces them
+   * itself (wallet_send, which prices its own amount).
+   */
   checksSpending: boolean;
+  spendingExtractor?: SpendingExtractor;
   touchesSession: boolean;
   gasPreflight: GasPreflightMode;
   gasExtractor?: GasPreflightExtractor;
@@ -167,10 +222,34 @@ export function wrapTool(
           }
         }
 
-        // 3. Call handler with context
-        const result = await (handler as ToolHandler)(args, ctx);
+        // 3. Spending policy, limits, and approval (if configured)
+        const spending = cfg.checksSpending && cfg.spendingExtractor
+          ? await cfg.spendingExtractor(args, ctx)
+          : null;
+        const approval = spending
+          ? await requireWithinSpendingLimits(spending, args.approvalId)
+          : undefined;
+        let sent: { txHash: Hex; recipient?: string } | undefined;
+        if (spending) {
+          ctx.reportSent = (txHash, recipient) => {
+            sent = { txHash, recipient };
+          };
+        }
+
+        // 4. Call handler with context
+        let result: ToolResult | undefined;
+        try {
+          result = await (handler as ToolHandler)(args, ctx);
+        } finally {
+          // 5. Record what was actually sent, even if the handler threw after
+          // broadcasting (e.g. a confirmation timeout)
+          if (spending) {
+            const notes = settleSpending(spending, result, approval, sent);
+            if (result) result = withNotes(result, notes);
+          }
+        }
 
-        // 4. Touch session to extend expiry
+        // 6. Touch session to extend expiry
         if (cfg.touchesSession) {
           await touchSession();
         }
@@ -198,6 +277,99 @@ export function wrapTool(
   };
 }
 
+// ─── Spending Limits ─────────────────────────────────────
+
+/**
+ * Check the policy and the limits, and get a human's approval above the
+ * approval threshold or for anything that couldn't be priced
+ *
+ * @throws ClaraError (SPENDING_LIMIT) if a policy rule or limit blocks the
+ *   intent, or (APPROVAL_REQUIRED) while it waits for approval
+ */
+async function requireWithinSpendingLimits(
+  intent: SpendingIntent,
+  approvalId: unknown,
+): Promise<SpendingApproval | undefined> {
+  await requireWithinPolicy({
+    tool: intent.tool,
+    chain: intent.chain,
+    amounts: intent.value.perCall.flat(),
+    recipients: intent.calls ? [] : [intent.recipient],
+    calls: intent.calls,
+  }, intent.description);
+
+  const { usd, unpriced } = intent.value;
+  let requiresApproval = unpriced.length > 0;
+  if (usd > 0) {
+    const check = checkSpendingLimits(usd.toFixed(2));
+    if (!check.allowed) {
+      throw new ClaraError(
+        ClaraErrorCode.SPENDING_LIMIT,
+        `${intent.description} blocked by spending limits: ${check.reason}`,
+        'Only the human can raise spending limits.',
+      );
+    }
+    requiresApproval ||= check.requiresApproval;
+  }
+  if (!requiresApproval) return undefined;
+
+  const approval = await requireApproval({
+    subject: intent.subject,
+    description: intent.description,
+    amountUsd: usd,
+    unpriced: unpriced.map(formatUnpricedAmount),
+    recipient: intent.recipient,
+    chain: intent.chain,
+  }, approvalId);
+  intent.onApproved?.(approval);
+  return approval;
+}
+
+/**
+ * Record the spend, returning notes for the result
+ */
+function settleSpending(
+  intent: SpendingIntent,
+  result: ToolResult | undefined,
+  approval: SpendingApproval | undefined,
+  sent: { txHash: Hex; recipient?: string } | undefined,
+): string[] {
+  const settled = intent.settle
+    ? intent.settle(result)
+    : (sent || (result && !result.isError) ? { usd: intent.value.usd, txHash: sent?.txHash } : null);
+  if (!settled) return [];
+
+  // Approved amounts without a price still leave an audit record, at $0
+  const amounts = settled.amounts ?? intent.value.perCall.flat();
+  const unpriced = amounts.filter((a) => a.usd === null).map(formatUnpricedAmount);
+  const notes: string[] = [];
+  if (settled.usd > 0 || approval) {
+    recordSpending({
+      timestamp: new Date().toISOString(),
+      amountUsd: settled.usd.toFixed(2),
+      recipient: sent?.recipient ?? intent.recipient,
+      description: intent.description,
+      url: '',
+      chainId: CHAINS[intent.chain].chainId,
+      txHash: settled.txHash,
+      paymentId: `spend-${settled.txHash?.slice(0, 10) ?? Date.now()}`,
+      approval,
+      tool: intent.tool,
+      tokens: spendingTokens(amounts),
+      ...(unpriced.length > 0 ? { unpriced } : {}),
+    });
+    notes.push(`**Value moved:** ${formatApprovalValue({ amountUsd: settled.usd.toFixed(2), unpriced })}`);
+  }
+  return notes;
+}
+
+function withNotes(result: ToolResult, notes: string[]): ToolResult {
+  if (notes.length === 0 || result.content.length === 0) return result;
+
+  const [first, ...rest] = result.content;
+  return { ...result, content: [{ ...first, text: `${first.text}\n\n${notes.join('\n')}` }, ...rest] };
+}
+
 // ─── Session Key Initialization ──────────────────────────
 
 const PROXY_URL = process.env.CLARA_PROXY_URL || 'https://clara-proxy.bflynn4141.workers.dev';
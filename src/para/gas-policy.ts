@@ -0,0 +1,157 @@
+/**
+ * Gas Policy Enforcement
+ *
+ * Applies the per-chain gas policy (stored with the spending limits in
+ * ~/.clara/spending.json) to every transaction signAndSendTransaction
+ * sends:
+ * - urgency tier (slow / normal / fast) picks the estimation parameters
+ * - maxFeeGwei caps maxFeePerGas: estimated fees are clamped to it, but a
+ *   base fee already above it (or explicit fees above it) is refused
+ * - maxGasNative / maxGasUsd cap the worst-case gas cost, gas limit × max fee
+ *   (USD at nativePriceUsd if set, otherwise the price oracle)
+ */
+
+import { formatEther, formatGwei, parseEther, parseGwei, type PublicClient } from 'viem';
+import { estimateGas, type GasEstimateOptions } from './gas.js';
+import { getGasPolicy, type GasPolicy, type GasUrgency } from '../storage/spending.js';
+import { CHAINS, type SupportedChain } from '../config/chains.js';
+import { getUsdPrice } from '../services/pricing.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+export const GAS_URGENCIES: GasUrgency[] = ['slow', 'normal', 'fast'];
+
+/** Estimation parameters per tier; `normal` is estimateGas's defaults */
+const URGENCY_OPTIONS: Record<GasUrgency, GasEstimateOptions> = {
+  slow: { safetyMargin: 1.25, priorityFeePercentile: 25 },
+  normal: { safetyMargin: 2, priorityFeePercentile: 75 },
+  fast: { safetyMargin: 3, priorityFeePercentile: 90 },
+};
+
+/** Floor for very low gas chains like Base */
+const MIN_MAX_FEE = 100_000_000n; // 0.1 gwei
+
+/**
+ * Fees a transaction was sent with, and how they were chosen
+ */
+export interface AppliedGas {
+  /** `custom` when the caller supplied fees (e.g. a replacement) */
+  tier: GasUrgency | 'custom';
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasLimit: bigint;
+  /** Estimated fees were lowered to the policy's maxFeeGwei */
+  capped: boolean;
+}
+
+function policyHint(chain: SupportedChain): string {
+  return `Wait for gas to come down, or raise gasPolicies.${chain} in ~/.clara/spending.json.`;
+}
+
+/**
+ * Check worst-case gas cost against the policy's native and USD caps
+ */
+async function checkGasCost(chain: SupportedChain, policy: GasPolicy, gasLimit: bigint, maxFeePerGas: bigint): Promise<void> {
+  const symbol = CHAINS[chain].nativeSymbol;
+  const worstCase = gasLimit * maxFeePerGas;
+
+  if (policy.maxGasNative && worstCase > parseEther(policy.maxGasNative)) {
+    throw new ClaraError(
+      ClaraErrorCode.SPENDING_LIMIT,
+      `Gas could cost up to ${formatEther(worstCase)} ${symbol} on ${chain}, above the ${policy.maxGasNative} ${symbol} per-transaction cap`,
+      policyHint(chain),
+    );
+  }
+
+  if (policy.maxGasUsd) {
+    const nativePrice = policy.nativePriceUsd
+      ? parseFloat(policy.nativePriceUsd)
+      : (await getUsdPrice(chain, 'native'))?.priceUsd;
+    if (nativePrice === undefined) {
+      console.error(`[gas] No ${symbol} price on ${chain}; skipping the USD gas cap`);
+      return;
+    }
+    const usd = Number(formatEther(worstCase)) * nativePrice;
+    if (usd > parseFloat(policy.maxGasUsd)) {
+      throw new ClaraError(
+        ClaraErrorCode.SPENDING_LIMIT,
+        `Gas could cost up to $${usd.toFixed(2)} on ${chain}, above the $${policy.maxGasUsd} per-transaction cap`,
+        policyHint(chain),
+      );
+    }
+  }
+}
+
+/**
+ * Choose fees for a transaction under the chain's gas policy.
+ *
+ * Estimates fees for the urgency tier unless `fees.maxFeePerGas` is
+ * given, in which case those fees are only checked.
+ *
+ * @throws ClaraError (SPENDING_LIMIT) if the policy forbids the transaction
+ */
+export async function applyGasPolicy(
+  client: PublicClient,
+  chain: SupportedChain,
+  gasLimit: bigint,
+  fees: { maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint } = {},
+  urgency?: GasUrgency,
+): Promise<AppliedGas> {
+  const policy = getGasPolicy(chain);
+  const cap = policy.maxFeeGwei ? parseGwei(policy.maxFeeGwei) : undefined;
+
+  if (fees.maxFeePerGas !== undefined) {
+    if (cap !== undefined && fees.maxFeePerGas > cap) {
+      throw new ClaraError(
+        ClaraErrorCode.SPENDING_LIMIT,
+        `Max fee of ${formatGwei(fees.maxFeePerGas)} gwei is above the ${policy.maxFeeGwei} gwei cap on ${chain}`,
+        policyHint(chain),
+      );
+    }
+    await checkGasCost(chain, policy, gasLimit, fees.maxFeePerGas);
+    return { tier: 'custom', maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas, gasLimit, capped: false };
+  }
+
+  const tier = urgency ?? policy.urgency;
+  const estimate = await estimateGas(client, URGENCY_OPTIONS[tier]);
+  let maxFeePerGas = estimate.maxFeePerGas;
+  let maxPriorityFeePerGas = estimate.maxPriorityFeePerGas;
+
+  if (maxFeePerGas < MIN_MAX_FEE) {
+    maxFeePerGas = MIN_MAX_FEE;
+    maxPriorityFeePerGas = MIN_MAX_FEE / 10n;
+  }
+
+  let capped = false;
+  if (cap !== undefined && maxFeePerGas > cap) {
+    // Below the base fee the transaction can't be included at all
+    if (estimate.baseFeePerGas >= cap) {
+      throw new ClaraError(
+        ClaraErrorCode.SPENDING_LIMIT,
+        `Gas on ${chain} is ${formatGwei(estimate.baseFeePerGas)} gwei, above the ${policy.maxFeeGwei} gwei cap`,
+        policyHint(chain),
+      );
+    }
+    maxFeePerGas = cap;
+    if (maxPriorityFeePerGas > cap - estimate.baseFeePerGas) {
+      maxPriorityFeePerGas = cap - estimate.baseFeePerGas;
+    }
+    capped = true;
+  }
+
+  await checkGasCost(chain, policy, gasLimit, maxFeePerGas);
+
+  console.error(
+    `[gas] ${chain} ${tier}: maxFee=${formatGwei(maxFeePerGas)} gwei, ` +
+    `priorityFee=${formatGwei(maxPriorityFeePerGas)} gwei${capped ? ' (capped by policy)' : ''}`,
+  );
+
+  return { tier, maxFeePerGas, maxPriorityFeePerGas, gasLimit, capped };
+}
+
+/**
+ * One-line summary for tool output, e.g. "normal tier · max 0.12 gwei"
+ */
+export function formatAppliedGas(gas: AppliedGas): string {
+  const tier = gas.tier === 'custom' ? 'custom fees' : `${gas.tier} tier`;
+  return `${tier} · max ${formatGwei(gas.maxFeePerGas)} gwei${gas.capped ? ' (capped by gas policy)' : ''}`;
+}
@@ -1,13 +1,18 @@
 /**
  * Smart EIP-1559 Gas Estimation
  *
- * Implements block-sampling based gas estimation inspired by evm-wallet-skill.
- * Analyzes recent blocks to determine optimal gas parameters.
+ * Prices gas from `eth_feeHistory`: one RPC call returns the next block's
+ * base fee and per-block priority fee percentiles over recent blocks, where
+ * sampling full blocks took ten heavy calls per send.
  *
- * Key improvements over basic estimation:
- * - Samples priority fees from actual recent transactions (not just current gas price)
- * - Uses percentile-based selection (75th) to avoid outliers
+ * Key properties:
+ * - Priority fee is the median across recent blocks of the requested
+ *   reward percentile (75th by default), so one outlier block doesn't skew it
  * - Applies safety margin to base fee for price volatility
+ * - Fee data is cached per chain for a few seconds, so the gas preflight
+ *   and the send that follows it share one lookup
+ * - Degrades to the latest block's base fee and `eth_maxPriorityFeePerGas`
+ *   when the node doesn't serve fee history
  * - Provides consistent gas limit buffers
  *
  * @see https://eips.ethereum.org/EIPS/eip-1559 for EIP-1559 background
@@ -39,16 +44,17 @@ export interface GasEstimate {
 export interface GasEstimateOptions {
   /**
    * Safety margin multiplier for base fee (default: 2)
-   * Higher values protect against base fee spikes but cost more
+   * Higher values protect against base fee spikes but cost more.
+   * Fractional margins are rounded to 0.01.
    */
   safetyMargin?: number;
   /**
-   * Percentile of priority fees to use (default: 75)
+   * Reward percentile of recent blocks to use as the priority fee (default: 75)
    * 75th percentile is a good balance between speed and cost
    */
   priorityFeePercentile?: number;
   /**
-   * Number of blocks to sample for priority fee analysis (default: 10)
+   * Number of recent blocks of fee history to consider (default: 10)
    */
   blocksToSample?: number;
 }
@@ -61,86 +67,123 @@ function formatGwei(wei: bigint): string {
   return gwei.toFixed(4);
 }
 
+// ============================================================================
+// Fee Data (cached per chain)
+// ============================================================================
+
+/** Roughly one L1 block; long enough for a preflight + send to share */
+const FEE_CACHE_TTL_MS = 12_000;
+
+/** Percentiles fetched on every lookup, covering the urgency tiers */
+const FEE_PERCENTILES = [10, 25, 50, 75, 90];
+
+/** Fallback priority fee: 0.1 gwei (reasonable default for L2s like Base) */
+const FALLBACK_PRIORITY_FEE = 100_000_000n;
+
+/** Some chains need a non-zero priority fee: 0.01 gwei */
+const MIN_PRIORITY_FEE = 10_000_000n;
+
+interface FeeData {
+  /** Next block's base fee, or null on chains without EIP-1559 */
+  baseFeePerGas: bigint | null;
+  /** Priority fee per recent block, by reward percentile */
+  rewards: Map<number, bigint[]>;
+}
+
+const feeCache = new Map<string, { fetchedAt: number; percentiles: number[]; data: Promise<FeeData> }>();
+
+async function fetchFeeData(client: PublicClient, percentiles: number[], blockCount: number): Promise<FeeData> {
+  try {
+    const history = await client.getFeeHistory({
+      blockCount,
+      rewardPercentiles: percentiles,
+      blockTag: 'latest',
+    });
+    // The last entry is the base fee of the block after `latest`
+    const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+    const rewards = new Map(percentiles.map((p, i) => [p, (history.reward ?? []).map((block) => block[i])]));
+    return { baseFeePerGas: nextBaseFee ? nextBaseFee : null, rewards };
+  } catch (error) {
+    console.error('[gas] eth_feeHistory failed, using latest block:', error instanceof Error ? error.message : error);
+    const latestBlock = await client.getBlock({ blockTag: 'latest' });
+    return { baseFeePerGas: latestBlock.baseFeePerGas ?? null, rewards: new Map() };
+  }
+}
+
 /**
- * Estimate priority fee by sampling recent block transactions
- *
- * Analyzes transactions from recent blocks to find realistic priority fees.
- * Uses percentile selection to avoid outliers (e.g., MEV bots paying extreme fees).
- *
- * @param client - Viem public client
- * @param percentile - Which percentile to use (0-100, default 75)
- * @param blocksToSample - How many blocks to analyze (default 10)
+ * Fee data for the client's chain, from cache when fresh.
+ * Clients without a chain (e.g. test doubles) are never cached.
  */
-async function estimatePriorityFee(
-  client: PublicClient,
-  percentile: number = 75,
-  blocksToSample: number = 10
-): Promise<bigint> {
-  try {
-    const latestBlockNumber = await client.getBlockNumber();
-    const priorityFees: bigint[] = [];
-
-    // Sample every other block for efficiency
-    const step = 2n;
-    const startBlock = latestBlockNumber - BigInt(blocksToSample * 2);
-
-    for (let i = 0; i < blocksToSample; i++) {
-      const blockNumber = startBlock + BigInt(i) * step;
-
-      try {
-        const block = await client.getBlock({
-          blockNumber,
-          includeTransactions: true,
-        });
-
-        if (block.transactions && Array.isArray(block.transactions)) {
-          // Sample up to 10 transactions per block
-          const txs = block.transactions.slice(0, 10);
-          for (const tx of txs) {
-            // Only include EIP-1559 transactions (they have maxPriorityFeePerGas)
-            if (typeof tx === 'object' && tx.maxPriorityFeePerGas) {
-              priorityFees.push(tx.maxPriorityFeePerGas);
-            }
-          }
-        }
-      } catch (err) {
-        // Skip blocks that fail to fetch — log for debugging RPC issues
-        console.warn(`[gas] Failed to fetch block for gas estimation:`, err instanceof Error ? err.message : err);
-        continue;
-      }
-    }
+function getFeeData(client: PublicClient, percentile: number, blockCount: number): Promise<FeeData> {
+  const percentiles = [...new Set([...FEE_PERCENTILES, percentile])].sort((a, b) => a - b);
+  const chainId = client.chain?.id;
+  if (chainId === undefined) {
+    return fetchFeeData(client, percentiles, blockCount);
+  }
 
-    if (priorityFees.length === 0) {
-      // Fallback: 0.1 gwei (reasonable default for L2s like Base)
-      console.error('[gas] No priority fees found in recent blocks, using fallback');
-      return 100_000_000n; // 0.1 gwei
-    }
+  const key = `${chainId}:${blockCount}`;
+  const cached = feeCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < FEE_CACHE_TTL_MS && cached.percentiles.includes(percentile)) {
+    return cached.data;
+  }
 
-    // Sort and get percentile
-    priorityFees.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
-    const index = Math.floor((percentile / 100) * (priorityFees.length - 1));
-    const selectedFee = priorityFees[index];
+  const data = fetchFeeData(client, percentiles, blockCount);
+  feeCache.set(key, { fetchedAt: Date.now(), percentiles, data });
+  // Don't cache failures
+  data.catch(() => {
+    if (feeCache.get(key)?.data === data) feeCache.delete(key);
+  });
+  return data;
+}
 
-    // Ensure minimum of 0.01 gwei (some chains need non-zero priority)
-    const minPriorityFee = 10_000_000n; // 0.01 gwei
-    return selectedFee > minPriorityFee ? selectedFee : minPriorityFee;
-  } catch (error) {
-    // Fallback on any error
-    console.error('[gas] Priority fee estimation failed:', error);
-    return 100_000_000n; // 0.1 gwei fallback
+/**
+ * Forget cached fee data (for testing)
+ */
+export function clearFeeCache(): void {
+  feeCache.clear();
+}
+
+/**
+ * Priority fee: median over recent blocks of the chosen reward percentile,
+ * falling back to the node's eth_maxPriorityFeePerGas suggestion.
+ *
+ * Empty blocks report a zero reward, so they're left out of the median.
+ */
+async function estimatePriorityFee(client: PublicClient, fees: FeeData, percentile: number): Promise<bigint> {
+  const samples = (fees.rewards.get(percentile) ?? [])
+    .filter((fee) => fee > 0n)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  let priorityFee: bigint;
+  if (samples.length > 0) {
+    priorityFee = samples[Math.floor(samples.length / 2)];
+  } else {
+    try {
+      priorityFee = await client.estimateMaxPriorityFeePerGas();
+      console.error('[gas] No fee history rewards, using eth_maxPriorityFeePerGas');
+    } catch (error) {
+      console.error('[gas] Priority fee estimation failed, using fallback:', error instanceof Error ? error.message : error);
+      return FALLBACK_PRIORITY_FEE;
+    }
   }
+
+  return priorityFee > MIN_PRIORITY_FEE ? priorityFee : MIN_PRIORITY_FEE;
 }
 
+// ============================================================================
+// Estimation
+// ============================================================================
+
 /**
  * Smart EIP-1559 gas estimation
  *
  * Calculates optimal gas parameters by:
- * 1. Getting current base fee from latest block
- * 2. Sampling priority fees from recent transactions
+ * 1. Getting the next block's base fee from fee history
+ * 2. Taking recent blocks' priority fees at the requested percentile
  * 3. Applying safety margin: maxFee = (safetyMargin × baseFee) + priorityFee
  *
  * This approach is more reliable than simply doubling gas price because:
- * - It accounts for actual network conditions (priority fee sampling)
+ * - It accounts for actual network conditions (priority fee percentiles)
  * - It handles base fee volatility (safety margin)
  * - It works well on both L1 (Ethereum) and L2s (Base, Optimism)
  *
@@ -169,9 +212,8 @@ export async function estimateGas(
     blocksToSample = 10,
   } = options;
 
-  // Get latest block for base fee
-  const latestBlock = await client.getBlock({ blockTag: 'latest' });
-  const baseFeePerGas = latestBlock.baseFeePerGas;
+  const fees = await getFeeData(client, priorityFeePercentile, blocksToSample);
+  const baseFeePerGas = fees.baseFeePerGas;
 
   if (!baseFeePerGas) {
     // Chain doesn't support EIP-1559 (rare for modern chains)
@@ -189,18 +231,13 @@ export async function estimateGas(
     };
   }
 
-  // Estimate priority fee from recent transactions
-  const maxPriorityFeePerGas = await estimatePriorityFee(
-    client,
-    priorityFeePercentile,
-    blocksToSample
-  );
+  const maxPriorityFeePerGas = await estimatePriorityFee(client, fees, priorityFeePercentile);
 
   // Calculate max fee with safety margin
   // Formula: maxFee = safetyMargin × baseFee + priorityFee
   // This ensures we can handle base fee increases while the tx is pending
   const maxFeePerGas =
-    baseFeePerGas * BigInt(safetyMargin) + maxPriorityFeePerGas;
+    (baseFeePerGas * BigInt(Math.round(safetyMargin * 100))) / 100n + maxPriorityFeePerGas;
 
   console.error(
     `[gas] Estimated: baseFee=${formatGwei(baseFeePerGas)} gwei, ` +
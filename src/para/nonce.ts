@@ -0,0 +1,230 @@
+/**
+ * Nonce Manager
+ *
+ * Hands out nonces per chain+address. State lives in ~/.clara/nonces.json
+ * so it survives restarts, and every read-modify-write happens under a
+ * lock file so two Clara processes sharing a wallet (e.g. two MCP
+ * clients) never hand out the same nonce.
+ *
+ * Each nonce is either:
+ * - reserved: handed to a sender that hasn't broadcast yet. Released if
+ *   the broadcast fails, so the next send reuses it instead of leaving a gap.
+ * - sent: broadcast, but possibly not yet counted by the RPC (load-balanced
+ *   nodes lag a few seconds behind our own sends).
+ *
+ * Reconciliation: the node's `pending` transaction count is the floor.
+ * Anything below it is mined or in the pool and is forgotten. A nonce we
+ * sent that is still AT the floor after a grace period never reached the
+ * pool (dropped), which is a gap that blocks every later nonce. It is
+ * freed so the next send fills it.
+ */
+
+import { existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { Hex } from 'viem';
+import { withFileLock } from '../utils/file-lock.js';
+
+interface AddressNonces {
+  /** nonce → ISO time it was handed out */
+  reserved: Record<string, string>;
+  /** nonce → ISO time it was broadcast */
+  sent: Record<string, string>;
+}
+
+type NonceFile = Record<string, AddressNonces>;
+
+/** A reservation not broadcast within this time is assumed abandoned (crashed process) */
+const RESERVATION_TTL_MS = 5 * 60 * 1000;
+
+/** How long the RPC may take to count a broadcast before it's treated as dropped */
+const SENT_GRACE_MS = 60 * 1000;
+
+/** Sent nonces still above the pending count after this long are forgotten */
+const SENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+function getNonceFile(): string {
+  return process.env.CLARA_NONCE_FILE || join(homedir(), '.clara', 'nonces.json');
+}
+
+function stateKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+// ─── Lock ────────────────────────────────────────────────────────────
+
+/**
+ * Run a short synchronous critical section under the nonce file lock.
+ * Held only for file I/O; RPC calls happen outside.
+ */
+function withLock<T>(fn: () => T): T {
+  return withFileLock(getNonceFile(), fn);
+}
+
+// ─── Storage ─────────────────────────────────────────────────────────
+
+function load(): NonceFile {
+  const file = getNonceFile();
+  if (!existsSync(file)) return {};
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as NonceFile;
+  } catch (error) {
+    // Losing local state is safe: the pending count is the source of truth
+    console.error('[nonce] Failed to load nonce state, starting from chain:', error);
+    return {};
+  }
+}
+
+function save(data: NonceFile): void {
+  const file = getNonceFile();
+  const tmp = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  renameSync(tmp, file);
+}
+
+/**
+ * Mutate one address's state under the lock
+ */
+function update<T>(chainId: number, address: string, fn: (state: AddressNonces) => T): T {
+  return withLock(() => {
+    const data = load();
+    const key = stateKey(chainId, address);
+    const state = data[key] ?? { reserved: {}, sent: {} };
+    const result = fn(state);
+    if (Object.keys(state.reserved).length === 0 && Object.keys(state.sent).length === 0) {
+      delete data[key];
+    } else {
+      data[key] = state;
+    }
+    save(data);
+    return result;
+  });
+}
+
+// ─── Reconciliation ──────────────────────────────────────────────────
+
+function age(iso: string): number {
+  return Date.now() - Date.parse(iso);
+}
+
+/**
+ * Forget what the node already counts, abandoned reservations, and a
+ * dropped broadcast at the floor (the gap)
+ */
+function reconcile(state: AddressNonces, pendingCount: number, label: string): void {
+  for (const [nonce, at] of Object.entries(state.reserved)) {
+    if (Number(nonce) < pendingCount) {
+      delete state.reserved[nonce];
+    } else if (age(at) > RESERVATION_TTL_MS) {
+      console.error(`[nonce] ${label}: reservation ${nonce} abandoned since ${at}, releasing`);
+      delete state.reserved[nonce];
+    }
+  }
+
+  for (const [nonce, at] of Object.entries(state.sent)) {
+    if (Number(nonce) < pendingCount || age(at) > SENT_TTL_MS) {
+      delete state.sent[nonce];
+    }
+  }
+
+  const atFloor = state.sent[pendingCount];
+  if (atFloor && age(atFloor) > SENT_GRACE_MS) {
+    const queued = Object.keys(state.sent).filter((n) => Number(n) > pendingCount).length;
+    console.error(
+      `[nonce] ${label}: gap at nonce ${pendingCount} — sent at ${atFloor} but not in the pending pool` +
+      `${queued > 0 ? `; ${queued} later transaction(s) are stuck behind it` : ''}. Reusing ${pendingCount}.`,
+    );
+    delete state.sent[pendingCount];
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Reserve `count` consecutive nonces and return the first.
+ *
+ * Starts at the node's pending transaction count and skips nonces that
+ * are reserved or recently sent (by this or another process). Callers
+ * must mark each nonce sent or release it.
+ */
+export async function reserveNonces(
+  publicClient: { getTransactionCount: (args: { address: Hex; blockTag: 'pending' }) => Promise<number> },
+  chainId: number,
+  address: Hex,
+  count = 1,
+): Promise<number> {
+  const pendingCount = await publicClient.getTransactionCount({ address, blockTag: 'pending' });
+
+  return update(chainId, address, (state) => {
+    reconcile(state, pendingCount, stateKey(chainId, address));
+
+    const inUse = (n: number) => state.reserved[n] !== undefined || state.sent[n] !== undefined;
+    let start = pendingCount;
+    while (Array.from({ length: count }, (_, i) => start + i).some(inUse)) {
+      start++;
+    }
+
+    const now = new Date().toISOString();
+    for (let i = 0; i < count; i++) {
+      state.reserved[start + i] = now;
+    }
+
+    console.error(
+      `[nonce] Reserved ${count > 1 ? `${start}-${start + count - 1}` : start} ` +
+      `(pending=${pendingCount}${start > pendingCount ? `, ${start - pendingCount} in flight` : ''})`,
+    );
+    return start;
+  });
+}
+
+/**
+ * Record a broadcast nonce (reserved or explicitly chosen, e.g. a replacement)
+ */
+export function markNonceSent(chainId: number, address: string, nonce: number): void {
+  update(chainId, address, (state) => {
+    delete state.reserved[nonce];
+    state.sent[nonce] = new Date().toISOString();
+  });
+}
+
+/**
+ * Restart the abandonment clock on reservations a live sender still holds
+ * (a bundle waiting on earlier steps' receipts can outlast the TTL)
+ */
+export function renewNonceReservations(chainId: number, address: string, nonces: number[]): void {
+  update(chainId, address, (state) => {
+    const now = new Date().toISOString();
+    for (const nonce of nonces) {
+      if (state.reserved[nonce] !== undefined) state.reserved[nonce] = now;
+    }
+  });
+}
+
+/**
+ * Give back a reservation whose broadcast failed, so it isn't left as a gap
+ */
+export function releaseNonce(chainId: number, address: string, nonce: number): void {
+  update(chainId, address, (state) => {
+    delete state.reserved[nonce];
+  });
+}
+
+/**
+ * Highest nonce reserved or sent from here, or undefined if none is outstanding
+ */
+export function getTrackedNonce(chainId: number, address: string): number | undefined {
+  const state = load()[stateKey(chainId, address)];
+  if (!state) return undefined;
+  const nonces = [...Object.keys(state.reserved), ...Object.keys(state.sent)].map(Number);
+  return nonces.length > 0 ? Math.max(...nonces) : undefined;
+}
+
+/**
+ * Forget all nonce state (for testing)
+ */
+export function resetNonceTracker(): void {
+  withLock(() => {
+    const file = getNonceFile();
+    if (existsSync(file)) unlinkSync(file);
+  });
+}
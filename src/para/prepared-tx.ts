@@ -1,8 +1,26 @@
 /**
- * Prepared Transaction Cache
+ * Prepared Transaction Store
  *
  * Stores prepared transactions between wallet_call (simulate) and
  * wallet_executePrepared (execute) to prevent "model drift".
+ * Bundles (ordered multi-call sequences such as approve + swap) are
+ * stored the same way under a single ID and expiry.
+ *
+ * Storage: ~/.clara/prepared/<id>.json (override with CLARA_PREPARED_DIR),
+ * one file per preparation, so pending work survives restarts and every
+ * preparation leaves an audit record of how it ended:
+ *
+ *   pending ──▶ approved ──▶ executing ──▶ executed
+ *      │           │
+ *      └───────────┴──▶ expired | rejected
+ *
+ * The executor claims a record (→ executing) under a lock before it
+ * signs, so two calls with the same ID can't both send. A claim whose
+ * send failed before anything was broadcast goes back to where it was.
+ *
+ * The ID embeds a hash of the chain, calldata, targets, and values; the
+ * executor re-derives it before sending, so a record edited on disk
+ * can't be executed under its original ID.
  *
  * Key benefits:
  * - Exact same calldata is executed as was simulated
@@ -10,17 +28,59 @@
  * - Expiry prevents stale transactions from being executed
  */
 
-import type { Hex } from 'viem';
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { keccak256, toHex, type Hex } from 'viem';
+import { sanitizeFunctionName, sanitizeTokenSymbol } from '../utils/sanitize.js';
 import type { SupportedChain } from '../config/chains.js';
+import type { TenderlyBalanceChange, TenderlySimulationResult } from '../providers/tenderly.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { withFileLock } from '../utils/file-lock.js';
 
 /**
- * A prepared transaction ready for execution
+ * Lifecycle state of a preparation
+ */
+export type PreparedState = 'pending' | 'approved' | 'executing' | 'executed' | 'expired' | 'rejected';
+
+/**
+ * One entry in a preparation's audit trail
+ */
+export interface PreparedStateChange {
+  state: PreparedState;
+  /** ISO timestamp */
+  at: string;
+  note?: string;
+}
+
+/**
+ * Fields the store assigns and maintains (never passed in by callers)
  */
-export interface PreparedTransaction {
+export interface PreparedLifecycle {
   id: string;
   createdAt: number;
   expiresAt: number;
+  state: PreparedState;
+  /** keccak256 over chain, targets, calldata, values, and createdAt */
+  contentHash: Hex;
+  history: PreparedStateChange[];
+  /** Hashes of the transactions sent on execution */
+  txHashes?: Hex[];
+}
 
+/**
+ * A prepared transaction ready for execution
+ */
+export interface PreparedTransaction extends PreparedLifecycle {
   // Transaction data
   to: Hex;
   data: Hex;
@@ -42,95 +102,401 @@ export interface PreparedTransaction {
     error?: string;
     returnData?: Hex;
     decodedReturn?: unknown;
+    /** Which simulator produced this result (default: RPC estimateGas/call) */
+    provider?: 'rpc' | 'tenderly';
+    /** Wallet balance changes (Tenderly only) */
+    balanceChanges?: TenderlyBalanceChange[];
+    /** Decoded event logs (Tenderly only) */
+    logs?: TenderlySimulationResult['logs'];
+    /** Revert reason as reported by the simulator */
+    revertReason?: string;
   };
 }
 
-// In-memory cache with expiry
-const preparedTxCache = new Map<string, PreparedTransaction>();
+/**
+ * One call in a prepared bundle: a prepared transaction without its own
+ * ID, expiry, or state. Its simulation ran against the state left by the
+ * previous steps.
+ */
+export type PreparedBundleStep = Omit<PreparedTransaction, keyof PreparedLifecycle>;
+
+/**
+ * An ordered list of calls prepared, simulated, and executed together
+ */
+export interface PreparedBundle extends PreparedLifecycle {
+  chainId: number;
+  chain: SupportedChain;
+  steps: PreparedBundleStep[];
+  /** Every step simulated successfully in sequence */
+  success: boolean;
+  /** Why the bundle can't be executed as simulated */
+  error?: string;
+}
+
+export type PreparedRecord = PreparedTransaction | PreparedBundle;
 
 // Default expiry: 5 minutes (transactions can go stale due to nonce/gas changes)
 const DEFAULT_EXPIRY_MS = 5 * 60 * 1000;
 
+// Finished records are kept this long for the audit trail, then pruned
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const ACTIVE_STATES: PreparedState[] = ['pending', 'approved'];
+
+const TRANSITIONS: Record<PreparedState, PreparedState[]> = {
+  pending: ['approved', 'executing', 'expired', 'rejected'],
+  approved: ['executing', 'expired', 'rejected'],
+  executing: ['executed', 'pending', 'approved'],
+  executed: [],
+  expired: [],
+  rejected: [],
+};
+
+// ─── Disk Storage ────────────────────────────────────────────────────
+
+function getPreparedDir(): string {
+  return process.env.CLARA_PREPARED_DIR || join(homedir(), '.clara', 'prepared');
+}
+
+function recordPath(id: string): string {
+  return join(getPreparedDir(), `${id}.json`);
+}
+
+// bigints (value, gas estimates) round-trip as {"$bigint": "123"}
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? { $bigint: value.toString() } : value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && typeof (value as { $bigint?: unknown }).$bigint === 'string') {
+    return BigInt((value as { $bigint: string }).$bigint);
+  }
+  return value;
+}
+
 /**
- * Generate a unique prepared transaction ID
+ * Write a record atomically (temp file, then rename)
  */
-function generateTxId(): string {
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 8);
-  return `ptx_${timestamp}_${random}`;
+function saveRecord(record: PreparedRecord): void {
+  const dir = getPreparedDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  const path = recordPath(record.id);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(record, replacer), { mode: 0o600 });
+  chmodSync(tmp, 0o600);
+  renameSync(tmp, path);
+}
+
+// IDs come from tool input — never let them escape the store directory
+function isRecordId(id: string): boolean {
+  return /^p[tb]x_[a-z0-9_]+$/.test(id);
 }
 
 /**
- * Store a prepared transaction
+ * Run a read-modify-write of one record under its lock, so a claim,
+ * rejection, or extension in another process can't be overwritten
  */
-export function storePreparedTx(
-  tx: Omit<PreparedTransaction, 'id' | 'createdAt' | 'expiresAt'>,
-  expiryMs: number = DEFAULT_EXPIRY_MS
+function withRecordLock<T>(id: string, fn: () => T): T {
+  return isRecordId(id) ? withFileLock(recordPath(id), fn) : fn();
+}
+
+function readRecord(id: string): PreparedRecord | null {
+  if (!isRecordId(id)) return null;
+
+  const path = recordPath(id);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'), reviver) as PreparedRecord;
+  } catch (error) {
+    console.error(`[prepared] Unreadable record ${id}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Move an active record past its expiry into the expired state
+ */
+function refreshExpiry(record: PreparedRecord): PreparedRecord {
+  if (ACTIVE_STATES.includes(record.state) && Date.now() > record.expiresAt) {
+    record.state = 'expired';
+    record.history.push({ state: 'expired', at: new Date(record.expiresAt).toISOString() });
+    saveRecord(record);
+  }
+  return record;
+}
+
+// ─── IDs and Content Hashes ──────────────────────────────────────────
+
+function computeContentHash(
+  chainId: number,
+  createdAt: number,
+  calls: Array<{ to: Hex; data: Hex; value: bigint }>,
+): Hex {
+  const canonical = JSON.stringify({
+    chainId,
+    createdAt,
+    calls: calls.map((c) => [c.to.toLowerCase(), c.data.toLowerCase(), c.value.toString()]),
+  });
+  return keccak256(toHex(canonical));
+}
+
+function recordCalls(record: PreparedRecord): Array<{ to: Hex; data: Hex; value: bigint }> {
+  return 'steps' in record ? record.steps : [record];
+}
+
+function buildId(prefix: 'ptx' | 'pbx', createdAt: number, contentHash: Hex): string {
+  return `${prefix}_${createdAt.toString(36)}_${contentHash.slice(2, 14)}`;
+}
+
+/**
+ * Whether an ID refers to a prepared bundle rather than a single transaction
+ */
+export function isBundleId(id: string): boolean {
+  return id.startsWith('pbx_');
+}
+
+/**
+ * Re-derive the content hash from the stored calls and check that it
+ * matches both the recorded hash and the ID it was issued under.
+ */
+export function verifyPreparedContent(record: PreparedRecord): boolean {
+  const hash = computeContentHash(record.chainId, record.createdAt, recordCalls(record));
+  const prefix = 'steps' in record ? 'pbx' : 'ptx';
+  return hash === record.contentHash && buildId(prefix, record.createdAt, hash) === record.id;
+}
+
+// ─── Store / Retrieve ────────────────────────────────────────────────
+
+function storeRecord<T extends PreparedRecord>(
+  prefix: 'ptx' | 'pbx',
+  fields: Omit<T, keyof PreparedLifecycle>,
+  calls: Array<{ to: Hex; data: Hex; value: bigint }>,
+  expiryMs: number,
 ): string {
-  const id = generateTxId();
-  const now = Date.now();
+  const createdAt = Date.now();
+  const contentHash = computeContentHash(fields.chainId, createdAt, calls);
+  const id = buildId(prefix, createdAt, contentHash);
 
-  const prepared: PreparedTransaction = {
-    ...tx,
+  const record = {
+    ...fields,
     id,
-    createdAt: now,
-    expiresAt: now + expiryMs,
-  };
+    createdAt,
+    expiresAt: createdAt + expiryMs,
+    state: 'pending',
+    contentHash,
+    history: [{ state: 'pending', at: new Date(createdAt).toISOString() }],
+  } as unknown as T;
 
-  preparedTxCache.set(id, prepared);
+  saveRecord(record);
 
-  // Clean up expired entries periodically
+  // Prune old finished records opportunistically
   cleanupExpired();
 
   return id;
 }
 
 /**
- * Retrieve a prepared transaction by ID
+ * Store a prepared transaction
+ */
+export function storePreparedTx(
+  tx: Omit<PreparedTransaction, keyof PreparedLifecycle>,
+  expiryMs: number = DEFAULT_EXPIRY_MS
+): string {
+  return storeRecord<PreparedTransaction>('ptx', tx, [tx], expiryMs);
+}
+
+/**
+ * Store a prepared bundle
+ */
+export function storePreparedBundle(
+  bundle: Omit<PreparedBundle, keyof PreparedLifecycle>,
+  expiryMs: number = DEFAULT_EXPIRY_MS
+): string {
+  return storeRecord<PreparedBundle>('pbx', bundle, bundle.steps, expiryMs);
+}
+
+/**
+ * Load a record in any state (expired records are marked as such)
+ */
+export function loadPrepared(id: string): PreparedRecord | null {
+  const record = readRecord(id);
+  return record ? refreshExpiry(record) : null;
+}
+
+/**
+ * Retrieve an executable (pending or approved, unexpired) prepared transaction
  */
 export function getPreparedTx(id: string): PreparedTransaction | null {
-  const tx = preparedTxCache.get(id);
+  if (isBundleId(id)) return null;
+  const tx = loadPrepared(id);
+  return tx && ACTIVE_STATES.includes(tx.state) ? (tx as PreparedTransaction) : null;
+}
 
-  if (!tx) {
-    return null;
+/**
+ * Retrieve an executable (pending or approved, unexpired) prepared bundle
+ */
+export function getPreparedBundle(id: string): PreparedBundle | null {
+  if (!isBundleId(id)) return null;
+  const bundle = loadPrepared(id);
+  return bundle && ACTIVE_STATES.includes(bundle.state) ? (bundle as PreparedBundle) : null;
+}
+
+/**
+ * List records, newest first
+ */
+export function listPrepared(options: { states?: PreparedState[]; limit?: number } = {}): PreparedRecord[] {
+  const dir = getPreparedDir();
+  if (!existsSync(dir)) return [];
+
+  const records = readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => loadPrepared(file.slice(0, -'.json'.length)))
+    .filter((r): r is PreparedRecord => r !== null)
+    .filter((r) => !options.states || options.states.includes(r.state))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return options.limit ? records.slice(0, options.limit) : records;
+}
+
+// ─── State Transitions ───────────────────────────────────────────────
+
+/**
+ * Move a record to a new state, appending to its audit trail
+ */
+export function transitionPrepared(
+  id: string,
+  state: PreparedState,
+  details: { note?: string; txHashes?: Hex[] } = {},
+): PreparedRecord {
+  return withRecordLock(id, () => applyTransition(id, state, details));
+}
+
+function applyTransition(
+  id: string,
+  state: PreparedState,
+  details: { note?: string; txHashes?: Hex[] },
+): PreparedRecord {
+  const record = loadPrepared(id);
+  if (!record) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Prepared transaction not found: ${id}`);
+  }
+  if (!TRANSITIONS[record.state].includes(state)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Cannot move ${id} from ${record.state} to ${state}.`,
+      record.state === 'expired' ? 'Run wallet_call again to prepare a fresh transaction.' : undefined,
+    );
   }
 
-  // Check expiry
-  if (Date.now() > tx.expiresAt) {
-    preparedTxCache.delete(id);
-    return null;
+  record.state = state;
+  record.history.push({ state, at: new Date().toISOString(), ...(details.note ? { note: details.note } : {}) });
+  if (details.txHashes) {
+    record.txHashes = details.txHashes;
   }
+  saveRecord(record);
+  return record;
+}
 
-  return tx;
+/**
+ * Claim an active record for execution. Returns null if it is unknown,
+ * expired, or already claimed, so only one caller ever sends it.
+ */
+export function claimPrepared(id: string): PreparedRecord | null {
+  return withRecordLock(id, () => {
+    const record = loadPrepared(id);
+    if (!record || !ACTIVE_STATES.includes(record.state)) return null;
+    return applyTransition(id, 'executing', {});
+  });
 }
 
 /**
- * Delete a prepared transaction (after execution or cancellation)
+ * Give back a claim whose send failed before anything was broadcast
  */
-export function deletePreparedTx(id: string): boolean {
-  return preparedTxCache.delete(id);
+export function releasePrepared(id: string, note: string): void {
+  withRecordLock(id, () => {
+    const previous = loadPrepared(id)?.history.filter((h) => h.state !== 'executing').at(-1)?.state;
+    applyTransition(id, previous === 'approved' ? 'approved' : 'pending', { note });
+  });
 }
 
 /**
- * Clean up expired prepared transactions
+ * Record that a claimed preparation was sent (replaces deleting it after use)
+ */
+export function markPreparedExecuted(id: string, txHashes: Hex[], note?: string): void {
+  transitionPrepared(id, 'executed', { txHashes, note });
+}
+
+/**
+ * Push back the expiry of an active record
+ */
+export function extendPrepared(id: string, extensionMs: number): PreparedRecord {
+  return withRecordLock(id, () => applyExtension(id, extensionMs));
+}
+
+function applyExtension(id: string, extensionMs: number): PreparedRecord {
+  const record = loadPrepared(id);
+  if (!record) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Prepared transaction not found: ${id}`);
+  }
+  if (!ACTIVE_STATES.includes(record.state)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Cannot extend ${id}: it is ${record.state}.`,
+      record.state === 'expired' ? 'Run wallet_call again — the simulation may be stale.' : undefined,
+    );
+  }
+
+  record.expiresAt = Date.now() + extensionMs;
+  record.history.push({ state: record.state, at: new Date().toISOString(), note: `extended to ${new Date(record.expiresAt).toISOString()}` });
+  saveRecord(record);
+  return record;
+}
+
+/**
+ * Prune finished records past the retention window
  */
 function cleanupExpired(): void {
-  const now = Date.now();
-  for (const [id, tx] of preparedTxCache) {
-    if (now > tx.expiresAt) {
-      preparedTxCache.delete(id);
+  const dir = getPreparedDir();
+  if (!existsSync(dir)) return;
+
+  const cutoff = Date.now() - RETENTION_MS;
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    const record = readRecord(file.slice(0, -'.json'.length));
+    if (record && !ACTIVE_STATES.includes(record.state) && record.createdAt < cutoff) {
+      try {
+        unlinkSync(join(dir, file));
+      } catch {
+        // Best-effort
+      }
     }
   }
 }
 
 /**
- * Format a prepared transaction for display
+ * Summarize balance changes as "send 10 USDC, receive 0.004 WETH"
  */
-export function formatPreparedTx(tx: PreparedTransaction): string {
-  const lines: string[] = [];
+export function formatBalanceChangeSummary(changes: TenderlyBalanceChange[]): string {
+  const describe = (change: TenderlyBalanceChange) => {
+    const symbol = sanitizeTokenSymbol(change.symbol) || `${change.token.slice(0, 8)}...`;
+    return `${change.formattedAmount} ${symbol}`;
+  };
+  const sent = changes.filter((c) => c.direction === 'decrease').map(describe);
+  const received = changes.filter((c) => c.direction === 'increase').map(describe);
 
-  lines.push(`## Prepared Transaction: \`${tx.id}\``);
-  lines.push('');
+  const parts: string[] = [];
+  if (sent.length > 0) parts.push(`send ${sent.join(' + ')}`);
+  if (received.length > 0) parts.push(`receive ${received.join(' + ')}`);
+  return parts.join(', ');
+}
+
+/**
+ * Contract / function / args / value lines for a call
+ */
+function formatCallLines(tx: PreparedBundleStep): string[] {
+  const lines: string[] = [];
 
   // Contract info
   if (tx.contractName) {
@@ -151,29 +517,90 @@ export function formatPreparedTx(tx: PreparedTransaction): string {
     lines.push(`**Value:** ${ethValue.toFixed(6)} ETH`);
   }
 
-  lines.push(`**Chain:** ${tx.chain} (${tx.chainId})`);
-  lines.push('');
+  return lines;
+}
 
-  // Simulation results
-  lines.push('### Simulation Result');
-  lines.push('');
+/**
+ * Simulation outcome lines for a call
+ */
+function formatSimulationLines(simulation: PreparedTransaction['simulation']): string[] {
+  const lines: string[] = [];
 
-  if (tx.simulation.success) {
+  if (simulation.success) {
     lines.push('✅ **Would Succeed**');
-    lines.push(`**Gas Estimate:** ${tx.simulation.gasEstimateFormatted}`);
-    if (tx.simulation.decodedReturn !== undefined) {
-      lines.push(`**Return Value:** ${JSON.stringify(tx.simulation.decodedReturn)}`);
+    lines.push(`**Gas Estimate:** ${simulation.gasEstimateFormatted}`);
+    if (simulation.decodedReturn !== undefined) {
+      lines.push(`**Return Value:** ${JSON.stringify(simulation.decodedReturn)}`);
+    }
+    if (simulation.balanceChanges) {
+      const summary = formatBalanceChangeSummary(simulation.balanceChanges);
+      lines.push(summary ? `**You will:** ${summary}` : '**You will:** send and receive no tokens');
+    }
+    if (simulation.logs && simulation.logs.length > 0) {
+      const names = simulation.logs.map((log) => sanitizeFunctionName(log.name) || 'unknown');
+      lines.push(`**Events:** ${names.slice(0, 10).join(', ')}${names.length > 10 ? ` (+${names.length - 10} more)` : ''}`);
     }
   } else {
-    lines.push(`❌ **Would Fail:** ${tx.simulation.error}`);
+    lines.push(`❌ **Would Fail:** ${simulation.error}`);
+  }
+  if (simulation.provider === 'tenderly') {
+    lines.push('_Simulated with Tenderly_');
   }
 
-  // Expiry
-  const expiresIn = Math.max(0, tx.expiresAt - Date.now());
+  return lines;
+}
+
+function formatExpiry(expiresAt: number): string {
+  const expiresIn = Math.max(0, expiresAt - Date.now());
   const expiresMinutes = Math.floor(expiresIn / 60000);
   const expiresSeconds = Math.floor((expiresIn % 60000) / 1000);
+  return `⏱️ **Expires in:** ${expiresMinutes}m ${expiresSeconds}s`;
+}
+
+/**
+ * Format a prepared transaction for display
+ */
+export function formatPreparedTx(tx: PreparedTransaction): string {
+  const lines: string[] = [];
+
+  lines.push(`## Prepared Transaction: \`${tx.id}\``);
+  lines.push('');
+  lines.push(...formatCallLines(tx));
+  lines.push(`**Chain:** ${tx.chain} (${tx.chainId})`);
+  lines.push('');
+
+  // Simulation results
+  lines.push('### Simulation Result');
+  lines.push('');
+  lines.push(...formatSimulationLines(tx.simulation));
+
+  lines.push('');
+  lines.push(formatExpiry(tx.expiresAt));
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a prepared bundle for display
+ */
+export function formatPreparedBundle(bundle: PreparedBundle): string {
+  const lines: string[] = [];
+
+  lines.push(`## Prepared Bundle: \`${bundle.id}\``);
+  lines.push('');
+  lines.push(`**Steps:** ${bundle.steps.length}, executed in order — stops at the first failure`);
+  lines.push(`**Chain:** ${bundle.chain} (${bundle.chainId})`);
+  lines.push(bundle.success ? '✅ **All steps would succeed**' : `❌ **Bundle would fail:** ${bundle.error ?? 'a step failed simulation'}`);
+
+  bundle.steps.forEach((step, i) => {
+    lines.push('');
+    lines.push(`### Step ${i + 1}: \`${step.functionName}\``);
+    lines.push(...formatCallLines(step));
+    lines.push(...formatSimulationLines(step.simulation));
+  });
+
   lines.push('');
-  lines.push(`⏱️ **Expires in:** ${expiresMinutes}m ${expiresSeconds}s`);
+  lines.push(formatExpiry(bundle.expiresAt));
 
   return lines.join('\n');
 }
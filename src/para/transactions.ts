@@ -22,39 +22,17 @@ import { base, mainnet, arbitrum, optimism, polygon } from 'viem/chains';
 import { getSession } from '../storage/session.js';
 import { createParaAccount } from './account.js';
 import { getRpcUrl, type SupportedChain } from '../config/chains.js';
-import { estimateGas } from './gas.js';
+import { applyGasPolicy, type AppliedGas } from './gas-policy.js';
+import type { GasUrgency } from '../storage/spending.js';
+import { ClaraError } from '../errors.js';
 import { decodeContractError, formatContractError } from '../utils/contract-errors.js';
+import { recordPendingTx } from '../storage/pending.js';
+import { trackTransaction } from '../storage/tracked-txs.js';
+import { markNonceSent, releaseNonce, reserveNonces } from './nonce.js';
 
-/**
- * Module-level nonce tracker
- *
- * Tracks the last nonce used per address+chain to prevent stale nonce reads
- * when multiple transactions are sent in rapid succession (before the first
- * one is mined). Key format: "{chainId}:{address}".
- */
-const nonceTracker = new Map<string, number>();
-
-/**
- * Get the tracked nonce for an address on a chain.
- * Returns undefined if no nonce has been tracked yet.
- */
-export function getTrackedNonce(chainId: number, address: string): number | undefined {
-  return nonceTracker.get(`${chainId}:${address.toLowerCase()}`);
-}
-
-/**
- * Update the tracked nonce after a successful transaction send.
- */
-export function setTrackedNonce(chainId: number, address: string, nonce: number): void {
-  nonceTracker.set(`${chainId}:${address.toLowerCase()}`, nonce);
-}
-
-/**
- * Reset the nonce tracker (for testing).
- */
-export function resetNonceTracker(): void {
-  nonceTracker.clear();
-}
+// Nonce bookkeeping lives in ./nonce.ts (persisted, shared across processes);
+// these names are kept for existing callers
+export { getTrackedNonce, markNonceSent as setTrackedNonce, resetNonceTracker } from './nonce.js';
 
 // Chain mapping
 const CHAIN_MAP: Record<number, Chain> = {
@@ -91,6 +69,10 @@ export interface TransactionParams {
   maxFeePerGas?: bigint;
   /** Optional max priority fee (EIP-1559) */
   maxPriorityFeePerGas?: bigint;
+  /** What the transaction does, for wallet_tx_status and notifications */
+  description?: string;
+  /** Gas urgency tier (default: the chain's gas policy) */
+  urgency?: GasUrgency;
 }
 
 /**
@@ -98,6 +80,10 @@ export interface TransactionParams {
  */
 export interface TransactionResult {
   txHash: Hex;
+  /** wallet_tx_status ID; confirmation is tracked in the background */
+  trackingId?: string;
+  /** Fees sent with and the gas policy tier that chose them */
+  gas?: AppliedGas;
 }
 
 /**
@@ -121,9 +107,11 @@ function getChainNameFromId(chainId: number): SupportedChain {
  * Handles:
  * - Value normalization (bigint -> hex string)
  * - Gas estimation (automatic if not provided)
+ * - Gas policy: urgency tier, fee cap, per-transaction gas cost cap
  * - Nonce management (automatic if not provided)
  * - Transaction signing via Para
  * - Broadcasting to the network
+ * - Registering the send for wallet_pending and wallet_tx_status
  *
  * @param walletId - Para wallet ID from session
  * @param tx - Transaction parameters
@@ -178,6 +166,9 @@ export async function signAndSendTransaction(
     value = BigInt(tx.value);
   }
 
+  // Set when we reserve the nonce ourselves; released if the send fails
+  let reservedNonce: number | undefined;
+
   try {
     // Build transaction request
     const request: {
@@ -245,38 +236,21 @@ export async function signAndSendTransaction(
       }
     }
 
-    // If gas prices not provided, use smart estimation
-    if (!request.maxFeePerGas) {
-      // Smart gas estimation: samples recent blocks for optimal pricing
-      const gasEstimate = await estimateGas(publicClient);
-      request.maxFeePerGas = gasEstimate.maxFeePerGas;
-      request.maxPriorityFeePerGas = gasEstimate.maxPriorityFeePerGas;
-
-      // Ensure minimum of 0.1 gwei for very low gas chains like Base
-      const minMaxFee = 100_000_000n; // 0.1 gwei
-      if (request.maxFeePerGas < minMaxFee) {
-        request.maxFeePerGas = minMaxFee;
-        request.maxPriorityFeePerGas = minMaxFee / 10n;
-      }
-
-      console.error(
-        `[para] Smart gas estimate: maxFee=${gasEstimate.formatted.maxFeeGwei} gwei, ` +
-        `priorityFee=${gasEstimate.formatted.priorityFeeGwei} gwei`
-      );
-    }
-
-    // Get nonce if not provided
+    // Fees: estimated for the urgency tier (or checked, if given) under the chain's gas policy
+    const gas = await applyGasPolicy(
+      publicClient,
+      chainName,
+      request.gas,
+      { maxFeePerGas: request.maxFeePerGas, maxPriorityFeePerGas: request.maxPriorityFeePerGas },
+      tx.urgency,
+    );
+    request.maxFeePerGas = gas.maxFeePerGas;
+    request.maxPriorityFeePerGas = gas.maxPriorityFeePerGas;
+
+    // Reserve a nonce if not provided
     if (request.nonce === undefined) {
-      const chainNonce = await publicClient.getTransactionCount({ address });
-      const tracked = getTrackedNonce(tx.chainId, address);
-      if (tracked !== undefined && tracked >= chainNonce) {
-        // Use tracked nonce + 1 since on-chain state hasn't caught up yet
-        request.nonce = tracked + 1;
-        console.error(`[para] Nonce (tracked): ${request.nonce} (chain=${chainNonce}, tracked=${tracked})`);
-      } else {
-        request.nonce = chainNonce;
-        console.error(`[para] Nonce (chain): ${request.nonce}`);
-      }
+      reservedNonce = await reserveNonces(publicClient, tx.chainId, address);
+      request.nonce = reservedNonce;
     }
 
     console.error(`[para] Sending transaction to ${tx.to.slice(0, 10)}...`);
@@ -288,13 +262,63 @@ export async function signAndSendTransaction(
     // 3. Broadcast to the network
     const txHash = await walletClient.sendTransaction(request);
 
-    // Track the nonce we just used so subsequent sends increment correctly
-    setTrackedNonce(tx.chainId, address, request.nonce!);
+    // Broadcast: the nonce is used now, whatever happens to the bookkeeping below
+    reservedNonce = undefined;
+
+    // Mark the nonce as in flight so subsequent sends (from any process) skip it
+    try {
+      markNonceSent(tx.chainId, address, request.nonce!);
+    } catch (err) {
+      // The reservation stays held until it lapses, so nothing reuses the nonce meanwhile
+      console.error('[para] Failed to mark nonce sent:', err instanceof Error ? err.message : err);
+    }
+
+    // Register for wallet_pending (speed-up / cancel) until the nonce confirms
+    try {
+      recordPendingTx({
+        chainId: tx.chainId,
+        address,
+        nonce: request.nonce!,
+        txHash,
+        to: tx.to,
+        value: value.toString(),
+        data: request.data,
+        gas: request.gas?.toString(),
+        maxFeePerGas: request.maxFeePerGas?.toString(),
+        maxPriorityFeePerGas: request.maxPriorityFeePerGas?.toString(),
+      });
+    } catch (err) {
+      console.error('[para] Failed to record pending transaction:', err instanceof Error ? err.message : err);
+    }
+
+    // Hand confirmation off to the transaction watcher
+    let trackingId: string | undefined;
+    try {
+      trackingId = trackTransaction({
+        chain: chainName,
+        chainId: tx.chainId,
+        from: address,
+        nonce: request.nonce!,
+        txHash,
+        description: tx.description,
+      }).id;
+    } catch (err) {
+      console.error('[para] Failed to track transaction:', err instanceof Error ? err.message : err);
+    }
 
     console.error(`[para] Transaction sent: ${txHash}`);
 
-    return { txHash };
+    return { txHash, trackingId, gas };
   } catch (error) {
+    if (reservedNonce !== undefined) {
+      releaseNonce(tx.chainId, address, reservedNonce);
+    }
+
+    // Policy refusals already carry a code and suggestion
+    if (error instanceof ClaraError) {
+      throw error;
+    }
+
     // Check if this is a contract revert error
     const decodedError = decodeContractError(error);
     if (decodedError.signature !== 'Unknown') {
@@ -325,7 +349,7 @@ export async function signAndSendTransaction(
     if (message.includes('replacement transaction underpriced')) {
       throw new Error(
         `Transaction underpriced - there's already a pending transaction with this nonce. ` +
-        `Increase gas price or wait for the pending transaction to confirm.`
+        `Use wallet_pending to speed it up or cancel it, or wait for it to confirm.`
       );
     }
 
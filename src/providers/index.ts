@@ -156,6 +156,7 @@ export {
   initCache,
   getCachedMetadata,
   getCachedSummary,
+  getCachedMetadataByRef,
   cacheMetadata,
   invalidateCache,
   clearCache,
@@ -23,8 +23,12 @@ export interface TenderlyConfig {
   apiKey: string;
   accountSlug: string;
   projectSlug: string;
+  /** API base URL (override for self-hosted proxies or tests) */
+  apiUrl: string;
 }
 
+const DEFAULT_TENDERLY_API_URL = 'https://api.tenderly.co';
+
 /**
  * Get Tenderly config from environment
  */
@@ -32,12 +36,13 @@ export function getTenderlyConfig(): TenderlyConfig | null {
   const apiKey = process.env.TENDERLY_API_KEY;
   const accountSlug = process.env.TENDERLY_ACCOUNT_SLUG || 'jamm';
   const projectSlug = process.env.TENDERLY_PROJECT_SLUG || 'project';
+  const apiUrl = (process.env.TENDERLY_API_URL || DEFAULT_TENDERLY_API_URL).replace(/\/+$/, '');
 
   if (!apiKey) {
     return null;
   }
 
-  return { apiKey, accountSlug, projectSlug };
+  return { apiKey, accountSlug, projectSlug, apiUrl };
 }
 
 /**
@@ -190,7 +195,7 @@ export async function simulateWithTenderly(
   }
 
   const chainId = getChainId(chain);
-  const apiUrl = `https://api.tenderly.co/api/v1/account/${config.accountSlug}/project/${config.projectSlug}/simulate`;
+  const apiUrl = `${config.apiUrl}/api/v1/account/${config.accountSlug}/project/${config.projectSlug}/simulate`;
 
   const request: TenderlySimulationRequest = {
     network_id: chainId.toString(),
@@ -229,6 +234,70 @@ export async function simulateWithTenderly(
   }
 }
 
+/**
+ * Simulate an ordered list of transactions with Tenderly's bundle API.
+ * Each transaction runs against the state left by the previous ones, so
+ * "approve, then swap" simulates the swap with the allowance in place.
+ *
+ * Returns one result per transaction, or null if Tenderly is unavailable.
+ */
+export async function simulateBundleWithTenderly(
+  transactions: Array<{
+    to: string;
+    data?: string;
+    value?: string;
+  }>,
+  userAddress: string,
+  chain: SupportedChain
+): Promise<TenderlySimulationResult[] | null> {
+  const config = getTenderlyConfig();
+  if (!config) {
+    return null;
+  }
+
+  const chainId = getChainId(chain);
+  const apiUrl = `${config.apiUrl}/api/v1/account/${config.accountSlug}/project/${config.projectSlug}/simulate-bundle`;
+
+  const simulations: TenderlySimulationRequest[] = transactions.map((tx) => ({
+    network_id: chainId.toString(),
+    from: userAddress,
+    to: tx.to,
+    input: tx.data || '0x',
+    value: tx.value || '0',
+    save: false,
+    save_if_fails: false,
+    simulation_type: 'full',
+  }));
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Access-Key': config.apiKey,
+      },
+      body: JSON.stringify({ simulations }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Tenderly bundle API error:', response.status, errorText);
+      return null;
+    }
+
+    const data = await response.json() as { simulation_results?: TenderlySimulationResponse[] };
+    if (!data.simulation_results || data.simulation_results.length !== transactions.length) {
+      console.error('Tenderly bundle response missing results');
+      return null;
+    }
+
+    return data.simulation_results.map((result) => parseSimulationResponse(result, userAddress));
+  } catch (error) {
+    console.error('Tenderly bundle simulation failed:', error);
+    return null;
+  }
+}
+
 /**
  * Parse Tenderly response into our format
  */
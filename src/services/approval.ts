@@ -0,0 +1,203 @@
+/**
+ * Human Approval
+ *
+ * Payments above the `requireApprovalAbove` spending limit need a human's
+ * yes, and so do payments that can't be priced in USD, since no limit can
+ * vouch for them. When the MCP client supports elicitation the question is asked
+ * inline. Otherwise the tool stops with a one-time approval ID; the human
+ * runs `clara-mcp approve <id>`, and the agent calls the tool again with
+ * `approvalId`, which waits (polling the approval record) for the answer.
+ *
+ * Every request and decision is kept in storage/approvals.ts, and the
+ * approval is attached to the payment's spending history record.
+ */
+
+import type { SupportedChain } from '../config/chains.js';
+import {
+  consumeApproval,
+  createApproval,
+  decideApproval,
+  getApproval,
+  type ApprovalRequest,
+} from '../storage/approvals.js';
+import { getSpendingLimits, type SpendingApproval } from '../storage/spending.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+/**
+ * The payment a human is asked to approve
+ */
+export interface ApprovalIntent {
+  /** Identifies this exact payment; an approval only applies to the same subject */
+  subject: string;
+  description: string;
+  /** USD value of what could be priced */
+  amountUsd: number;
+  /** Amounts with no USD price, e.g. "5 FOO" */
+  unpriced?: string[];
+  recipient: string;
+  chain: SupportedChain;
+}
+
+/**
+ * Ask the human a yes/no question in the client. Resolves null when the
+ * client can't be asked.
+ */
+export type ApprovalPrompt = (message: string) => Promise<boolean | null>;
+
+const POLL_INTERVAL_MS = 1000;
+const DEFAULT_WAIT_MS = 60_000;
+
+let prompt: ApprovalPrompt | null = null;
+
+/**
+ * Install the elicitation prompt (the server does this once connected)
+ */
+export function setApprovalPrompt(fn: ApprovalPrompt | null): void {
+  prompt = fn;
+}
+
+function getWaitMs(): number {
+  const configured = parseInt(process.env.CLARA_APPROVAL_WAIT_MS ?? '', 10);
+  return Number.isNaN(configured) ? DEFAULT_WAIT_MS : configured;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Value of a request, e.g. "~$5.00" or "~$0.00 + 5 FOO (no USD price)"
+ */
+export function formatApprovalValue(request: Pick<ApprovalRequest, 'amountUsd' | 'unpriced'>): string {
+  return request.unpriced?.length
+    ? `~$${request.amountUsd} + ${request.unpriced.join(' + ')} (no USD price)`
+    : `~$${request.amountUsd}`;
+}
+
+/**
+ * Question shown to the human, for elicitation and the CLI alike
+ */
+export function formatApprovalQuestion(request: ApprovalRequest): string {
+  return [
+    `Approve this payment? (${request.id})`,
+    '',
+    request.description,
+    `Value: ${formatApprovalValue(request)}`,
+    `To: ${request.recipient}`,
+    `Chain: ${request.chain}`,
+  ].join('\n');
+}
+
+function retryHint(id: string): string {
+  return `Ask the human to run \`clara-mcp approve ${id}\`, then call this tool again with the same arguments plus "approvalId": "${id}".`;
+}
+
+function denied(request: ApprovalRequest): ClaraError {
+  return new ClaraError(
+    ClaraErrorCode.SPENDING_LIMIT,
+    `${request.description} was not approved (${request.id}).`,
+    'Nothing was sent. Don\'t retry unless the human asks you to.',
+  );
+}
+
+function use(request: ApprovalRequest): SpendingApproval {
+  const used = consumeApproval(request.id);
+  if (!used) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Approval ${request.id} was already used.`,
+      'Call again without approvalId to request a new approval.',
+    );
+  }
+  return { id: used.id, method: used.method!, approvedAt: used.decidedAt! };
+}
+
+/**
+ * Wait for the human's answer to an earlier request
+ */
+async function awaitApproval(intent: ApprovalIntent, id: string): Promise<SpendingApproval> {
+  let request = getApproval(id);
+  if (!request) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Unknown approval: ${id.slice(0, 20)}`,
+      'Call again without approvalId to request a new approval.',
+    );
+  }
+  if (request.subject !== intent.subject) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Approval ${id} is for a different payment (${request.description}).`,
+      'Call again without approvalId to request an approval for this one.',
+    );
+  }
+
+  const deadline = Date.now() + getWaitMs();
+  while (request.status === 'pending' && Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+    request = getApproval(id) ?? request;
+  }
+
+  switch (request.status) {
+    case 'approved':
+      return use(request);
+    case 'denied':
+      throw denied(request);
+    case 'pending':
+      throw new ClaraError(ClaraErrorCode.APPROVAL_REQUIRED, `Still waiting for approval ${id}.`, retryHint(id));
+    default:
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        `Approval ${id} is ${request.status}.`,
+        'Call again without approvalId to request a new approval.',
+      );
+  }
+}
+
+/**
+ * Get a human's approval for a payment above the approval threshold, or
+ * one with amounts that couldn't be priced.
+ *
+ * @param approvalId - From an earlier call that stopped for approval
+ * @throws ClaraError (APPROVAL_REQUIRED) with a new approval ID when the
+ *   human has to answer from the CLI; SPENDING_LIMIT if they said no
+ */
+export async function requireApproval(intent: ApprovalIntent, approvalId?: unknown): Promise<SpendingApproval> {
+  if (typeof approvalId === 'string' && approvalId) {
+    return awaitApproval(intent, approvalId.trim());
+  }
+
+  const request = createApproval({
+    subject: intent.subject,
+    description: intent.description,
+    amountUsd: intent.amountUsd.toFixed(2),
+    unpriced: intent.unpriced?.length ? intent.unpriced : undefined,
+    recipient: intent.recipient,
+    chain: intent.chain,
+  });
+
+  if (prompt) {
+    let answer: boolean | null = null;
+    try {
+      answer = await prompt(formatApprovalQuestion(request));
+    } catch (error) {
+      console.error('[approval] Elicitation failed, falling back to the CLI:', error instanceof Error ? error.message : error);
+    }
+    if (answer !== null) {
+      const decided = decideApproval(request.id, answer ? 'approved' : 'denied', 'elicitation') ?? request;
+      if (decided.status !== 'approved') {
+        throw denied(decided);
+      }
+      return use(decided);
+    }
+  }
+
+  const reason = request.unpriced
+    ? `${request.unpriced.join(', ')} can't be priced in USD, so spending limits can't cover it`
+    : `it's above the $${getSpendingLimits().requireApprovalAbove} approval threshold`;
+  throw new ClaraError(
+    ClaraErrorCode.APPROVAL_REQUIRED,
+    `${intent.description} (${formatApprovalValue(request)}) needs human approval: ${reason}. Approval ID: ${request.id}`,
+    retryHint(request.id),
+  );
+}
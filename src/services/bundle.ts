@@ -0,0 +1,227 @@
+/**
+ * Transaction Bundles
+ *
+ * Simulates and executes an ordered list of calls (typically "approve,
+ * then act") as one unit. Each step is simulated against the state left
+ * by the previous steps — with Tenderly's bundle API when configured,
+ * otherwise with eth_simulateV1 on the chain RPC. Plain estimateGas
+ * can't see earlier steps' effects, so without either simulator the
+ * bundle is marked as failed rather than guessed at.
+ *
+ * Execution reserves sequential nonces up front, renews them while it
+ * waits for each receipt, and stops at the first failure, releasing the
+ * nonces it didn't use. A step that was broadcast keeps its hash even if
+ * its receipt times out.
+ */
+
+import { createPublicClient, http, type Hex } from 'viem';
+import type { ToolContext } from '../middleware.js';
+import { CHAINS, getExplorerTxUrl, getRpcUrl, type SupportedChain } from '../config/chains.js';
+import { simulateBundleWithTenderly } from '../providers/tenderly.js';
+import { signAndSendTransaction } from '../para/transactions.js';
+import type { AppliedGas } from '../para/gas-policy.js';
+import type { GasUrgency } from '../storage/spending.js';
+import { releaseNonce, renewNonceReservations, reserveNonces } from '../para/nonce.js';
+import type { PreparedBundle, PreparedTransaction } from '../para/prepared-tx.js';
+import { requireGas } from '../gas-preflight.js';
+
+/**
+ * A call to simulate as part of a bundle
+ */
+export interface BundleCall {
+  to: Hex;
+  data: Hex;
+  value: bigint;
+}
+
+/**
+ * Outcome of one bundle step at execution time
+ */
+export interface BundleStepExecution {
+  step: number;
+  functionName: string;
+  /** pending: broadcast, but no receipt before the timeout */
+  status: 'confirmed' | 'pending' | 'reverted' | 'failed' | 'skipped';
+  txHash?: Hex;
+  explorerUrl?: string;
+  error?: string;
+  /** Fees the step was sent with */
+  gas?: AppliedGas;
+}
+
+function getClient(chain: SupportedChain) {
+  return createPublicClient({
+    chain: CHAINS[chain].chain,
+    transport: http(getRpcUrl(chain)),
+  });
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Simulate calls in sequence. Returns one simulation per call, plus a
+ * bundle-level error when no sequential simulator is available.
+ */
+export async function simulateBundle(
+  chain: SupportedChain,
+  from: Hex,
+  calls: BundleCall[],
+): Promise<{ simulations: PreparedTransaction['simulation'][]; error?: string }> {
+  const tenderly = await simulateBundleWithTenderly(
+    calls.map((c) => ({ to: c.to, data: c.data, value: c.value.toString() })),
+    from,
+    chain,
+  );
+  if (tenderly) {
+    return {
+      simulations: tenderly.map((result) => ({
+        success: result.success,
+        gasEstimate: result.success ? BigInt(result.gasUsed) : 0n,
+        gasEstimateFormatted: result.success ? result.gasUsed.toLocaleString() : '0',
+        provider: 'tenderly',
+        balanceChanges: result.balanceChanges,
+        logs: result.logs,
+        ...(result.willRevert ? {
+          error: result.revertReason || 'Execution reverted',
+          revertReason: result.revertReason,
+        } : {}),
+      })),
+    };
+  }
+
+  try {
+    const { results } = await getClient(chain).simulateCalls({
+      account: from,
+      calls: calls.map((c) => ({ to: c.to, data: c.data, value: c.value })),
+    });
+    return {
+      simulations: results.map((result) => (result.status === 'success'
+        ? {
+          success: true,
+          gasEstimate: result.gasUsed,
+          gasEstimateFormatted: result.gasUsed.toLocaleString(),
+          provider: 'rpc' as const,
+          returnData: result.data,
+        }
+        : {
+          success: false,
+          gasEstimate: 0n,
+          gasEstimateFormatted: '0',
+          provider: 'rpc' as const,
+          error: (result.error as { shortMessage?: string })?.shortMessage || result.error?.message || 'Execution reverted',
+        })),
+    };
+  } catch (error) {
+    console.error(`[bundle] eth_simulateV1 unavailable on ${chain}:`, error instanceof Error ? error.message : error);
+    return {
+      simulations: calls.map(() => ({
+        success: false,
+        gasEstimate: 0n,
+        gasEstimateFormatted: '0',
+        error: 'Not simulated',
+      })),
+      error: 'Sequential simulation unavailable: configure Tenderly (TENDERLY_API_KEY) or use an RPC that supports eth_simulateV1',
+    };
+  }
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+const RECEIPT_TIMEOUT_MS = 120_000;
+
+/** Gas to budget for a step without a simulated estimate */
+const DEFAULT_STEP_GAS = 300_000n;
+
+function stepGasLimit(simulation: PreparedTransaction['simulation']): bigint {
+  // 50% buffer, as wallet_executePrepared
+  return simulation.gasEstimate ? (simulation.gasEstimate * 150n) / 100n : DEFAULT_STEP_GAS;
+}
+
+/**
+ * Send the bundle's steps in order with sequential nonces.
+ * Stops at the first send error, on-chain revert, or step that isn't
+ * mined in time; later steps are reported as skipped.
+ */
+export async function executeBundle(
+  ctx: ToolContext,
+  bundle: PreparedBundle,
+  urgency?: GasUrgency,
+): Promise<BundleStepExecution[]> {
+  const totalGas = bundle.steps.reduce((sum, step) => sum + stepGasLimit(step.simulation), 0n);
+  const totalValue = bundle.steps.reduce((sum, step) => sum + step.value, 0n);
+  await requireGas(bundle.chain, ctx.walletAddress, { txValue: totalValue, gasLimit: totalGas });
+
+  const client = getClient(bundle.chain);
+  const startNonce = await reserveNonces(client, bundle.chainId, ctx.walletAddress, bundle.steps.length);
+
+  const executions: BundleStepExecution[] = [];
+  let stopped = false;
+
+  for (const [i, step] of bundle.steps.entries()) {
+    const base = { step: i + 1, functionName: step.functionSignature };
+    if (stopped) {
+      releaseNonce(bundle.chainId, ctx.walletAddress, startNonce + i);
+      executions.push({ ...base, status: 'skipped' });
+      continue;
+    }
+
+    // Earlier steps' receipt waits can outlast the reservation TTL; keep
+    // the remaining nonces from being handed to another sender
+    if (i > 0) {
+      const remaining = Array.from({ length: bundle.steps.length - i }, (_, j) => startNonce + i + j);
+      renewNonceReservations(bundle.chainId, ctx.walletAddress, remaining);
+    }
+
+    let sent: Awaited<ReturnType<typeof signAndSendTransaction>>;
+    try {
+      sent = await signAndSendTransaction(ctx.session.walletId!, {
+        to: step.to,
+        data: step.data,
+        value: step.value,
+        chainId: bundle.chainId,
+        nonce: startNonce + i,
+        gas: stepGasLimit(step.simulation),
+        description: `${bundle.id} step ${i + 1}: ${step.functionSignature}`,
+        urgency,
+      });
+    } catch (error) {
+      // Nothing was broadcast for this nonce
+      releaseNonce(bundle.chainId, ctx.walletAddress, startNonce + i);
+      executions.push({ ...base, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      stopped = true;
+      continue;
+    }
+
+    const { txHash, gas, trackingId } = sent;
+    console.error(`[bundle] ${bundle.id} step ${i + 1} sent: ${txHash}`);
+    const explorerUrl = getExplorerTxUrl(bundle.chain, txHash);
+
+    try {
+      const receipt = await client.waitForTransactionReceipt({ hash: txHash, timeout: RECEIPT_TIMEOUT_MS });
+      if (receipt.status === 'success') {
+        executions.push({ ...base, status: 'confirmed', txHash, explorerUrl, gas });
+      } else {
+        executions.push({ ...base, status: 'reverted', txHash, explorerUrl, gas, error: 'Reverted on-chain' });
+        stopped = true;
+      }
+    } catch {
+      // Broadcast, just not mined yet. Later steps may depend on it, so stop here.
+      const lookup = trackingId ? `wallet_tx_status \`${trackingId}\`` : 'wallet_tx_status';
+      executions.push({
+        ...base,
+        status: 'pending',
+        txHash,
+        explorerUrl,
+        gas,
+        error: `Not confirmed within ${RECEIPT_TIMEOUT_MS / 1000}s; check ${lookup}`,
+      });
+      stopped = true;
+    }
+  }
+
+  return executions;
+}
@@ -0,0 +1,358 @@
+/**
+ * Lifecycle Keeper
+ *
+ * Bounty.autoApprove/expire and the Challenge transitions are
+ * permissionless, but funds stay locked until someone calls them. The
+ * keeper finds the wallet's own positions past their deadlines and
+ * prepares the calls that release them.
+ *
+ * Discovery uses the event index; before the index has backfilled it
+ * falls back to scanning the most recent factory clones. Every decision
+ * is made on live contract state, so a stale index can only cause a
+ * missed action, never a wrong one.
+ */
+
+import { BaseError, encodeFunctionData, type Hex, type TransactionReceipt } from 'viem';
+import type { ToolContext } from '../middleware.js';
+import { CHAINS, getExplorerTxUrl } from '../config/chains.js';
+import {
+  BOUNTY_ABI,
+  BOUNTY_FACTORY_ABI,
+  BOUNTY_LIMITS,
+  CHALLENGE_ABI,
+  CHALLENGE_FACTORY_ABI,
+  CHALLENGE_LIMITS,
+  CLARA_CHAIN,
+  getClaraContracts,
+} from '../config/clara-contracts.js';
+import { getIndexStatus, queryBounties, queryChallenges } from '../indexer/index.js';
+import {
+  claimPrepared,
+  storePreparedTx,
+  getPreparedTx,
+  markPreparedExecuted,
+  releasePrepared,
+  type PreparedTransaction,
+} from '../para/prepared-tx.js';
+import { signAndSendTransaction } from '../para/transactions.js';
+import { requireGas } from '../gas-preflight.js';
+import { getWorkClient, readBountyState } from '../tools/work-helpers.js';
+import { readChallengeState } from '../tools/challenge-helpers.js';
+
+/** Clones checked per factory when the index is unavailable */
+const FACTORY_SCAN_LIMIT = 50;
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type BountyKeeperFunction = 'autoApprove' | 'expire';
+
+export type ChallengeKeeperFunction = 'advanceToScoring' | 'finalize' | 'expire' | 'claimExpiredRefund';
+
+export type KeeperFunction = BountyKeeperFunction | ChallengeKeeperFunction;
+
+interface KeeperActionBase {
+  address: Hex;
+  /** Why the call is due, for display */
+  reason: string;
+}
+
+export type KeeperAction =
+  | (KeeperActionBase & { kind: 'bounty'; functionName: BountyKeeperFunction })
+  | (KeeperActionBase & { kind: 'challenge'; functionName: ChallengeKeeperFunction });
+
+export interface PreparedKeeperAction {
+  action: KeeperAction;
+  prepared: PreparedTransaction;
+}
+
+export interface KeeperExecution {
+  action: KeeperAction;
+  txHash?: Hex;
+  explorerUrl?: string;
+  error?: string;
+}
+
+// ─── Discovery ───────────────────────────────────────────────────────
+
+/**
+ * Bounty and challenge clones the wallet posted or participates in
+ */
+async function discoverPositions(
+  wallet: Hex,
+  allowScan: boolean,
+): Promise<{ bounties: Hex[]; challenges: Hex[] }> {
+  if (getIndexStatus().cursorBlock !== null) {
+    const bounties = [
+      ...queryBounties({ poster: wallet }),
+      ...queryBounties({ claimer: wallet }),
+    ].map((b) => b.address as Hex);
+    const challenges = [
+      ...queryChallenges({ poster: wallet }),
+      ...queryChallenges({ submitter: wallet }),
+    ].map((c) => c.address as Hex);
+    return { bounties: [...new Set(bounties)], challenges: [...new Set(challenges)] };
+  }
+  return allowScan ? scanFactories(wallet) : { bounties: [], challenges: [] };
+}
+
+/**
+ * Fallback discovery: check the most recent clones of each factory
+ */
+async function scanFactories(wallet: Hex): Promise<{ bounties: Hex[]; challenges: Hex[] }> {
+  const client = getWorkClient();
+  const contracts = getClaraContracts();
+  const me = wallet.toLowerCase();
+
+  // The last FACTORY_SCAN_LIMIT of `count` clones, looked up by index
+  const recent = (count: bigint, cloneAt: (index: bigint) => Promise<Hex>): Promise<Hex[]> => {
+    const from = Math.max(0, Number(count) - FACTORY_SCAN_LIMIT);
+    return Promise.all(Array.from({ length: Number(count) - from }, (_, i) => cloneAt(BigInt(from + i))));
+  };
+
+  const bountyFactory = contracts.bounty.factory;
+  const challengeFactory = contracts.challenge.factory;
+  const [bountyClones, challengeClones] = await Promise.all([
+    client.readContract({ address: bountyFactory, abi: BOUNTY_FACTORY_ABI, functionName: 'getBountyCount' })
+      .then((count) => recent(count, (index) =>
+        client.readContract({ address: bountyFactory, abi: BOUNTY_FACTORY_ABI, functionName: 'bounties', args: [index] }))),
+    client.readContract({ address: challengeFactory, abi: CHALLENGE_FACTORY_ABI, functionName: 'getChallengeCount' })
+      .then((count) => recent(count, (index) =>
+        client.readContract({ address: challengeFactory, abi: CHALLENGE_FACTORY_ABI, functionName: 'challenges', args: [index] }))),
+  ]);
+
+  const bounties = await Promise.all(bountyClones.map(async (address) => {
+    const [poster, claimer] = await Promise.all([
+      client.readContract({ address, abi: BOUNTY_ABI, functionName: 'poster' }),
+      client.readContract({ address, abi: BOUNTY_ABI, functionName: 'claimer' }),
+    ]);
+    return poster.toLowerCase() === me || claimer.toLowerCase() === me ? address : null;
+  }));
+
+  const challenges = await Promise.all(challengeClones.map(async (address) => {
+    const [poster, submission] = await Promise.all([
+      client.readContract({ address, abi: CHALLENGE_ABI, functionName: 'poster' }),
+      client.readContract({ address, abi: CHALLENGE_ABI, functionName: 'getSubmission', args: [wallet] }),
+    ]);
+    return poster.toLowerCase() === me || submission.version > 0n ? address : null;
+  }));
+
+  return {
+    bounties: bounties.filter((a): a is Hex => a !== null),
+    challenges: challenges.filter((a): a is Hex => a !== null),
+  };
+}
+
+// ─── Decisions ───────────────────────────────────────────────────────
+
+async function bountyAction(address: Hex, wallet: Hex, now: bigint): Promise<KeeperAction | null> {
+  const bounty = await readBountyState(address);
+  const isPoster = bounty.poster.toLowerCase() === wallet.toLowerCase();
+
+  if (bounty.status === 'submitted') {
+    const submittedAt = await getWorkClient().readContract({ address, abi: BOUNTY_ABI, functionName: 'submittedAt' });
+    if (now >= submittedAt + BigInt(BOUNTY_LIMITS.reviewPeriod)) {
+      return { kind: 'bounty', address, functionName: 'autoApprove', reason: 'Review period elapsed — pays the worker and returns both bonds' };
+    }
+  }
+
+  // Expiring a claimed bounty slashes the worker bond, so only the poster's keeper does it
+  if ((bounty.status === 'open' || bounty.status === 'claimed') && isPoster && now >= bounty.deadline) {
+    return { kind: 'bounty', address, functionName: 'expire', reason: 'Deadline passed — refunds escrow and bonds to you' };
+  }
+
+  return null;
+}
+
+async function challengeAction(address: Hex, wallet: Hex, now: bigint): Promise<KeeperAction | null> {
+  const challenge = await readChallengeState(address);
+  const client = getWorkClient();
+
+  if (challenge.status === 'open' && now > challenge.deadline) {
+    return { kind: 'challenge', address, functionName: 'advanceToScoring', reason: 'Submissions closed — moves to scoring (or cancels and refunds the poster)' };
+  }
+
+  if (challenge.status === 'scoring') {
+    if (challenge.scorePostedAt !== 0n && now >= challenge.scorePostedAt + BigInt(CHALLENGE_LIMITS.finalizationDelay)) {
+      return { kind: 'challenge', address, functionName: 'finalize', reason: 'Finalization delay elapsed — unlocks prizes and returns the poster bond' };
+    }
+    if (challenge.scorePostedAt === 0n && now > challenge.scoringDeadline) {
+      return { kind: 'challenge', address, functionName: 'expire', reason: 'No scores by the scoring deadline — opens refunds to submitters' };
+    }
+  }
+
+  if (challenge.status === 'expired') {
+    const [submission, claimed] = await Promise.all([
+      client.readContract({ address, abi: CHALLENGE_ABI, functionName: 'getSubmission', args: [wallet] }),
+      client.readContract({ address, abi: CHALLENGE_ABI, functionName: 'hasClaimed', args: [wallet] }),
+    ]);
+    if (submission.version > 0n && !claimed) {
+      return { kind: 'challenge', address, functionName: 'claimExpiredRefund', reason: 'Challenge expired — claims your refund share' };
+    }
+  }
+
+  return null;
+}
+
+export interface FindKeeperOptions {
+  /** Unix seconds (defaults to the current time) */
+  now?: bigint;
+  /** Scan recent factory clones while the index is backfilling (default: true) */
+  allowScan?: boolean;
+}
+
+/**
+ * Find keeper calls that are due for the wallet's positions
+ */
+export async function findKeeperActions(
+  wallet: Hex,
+  options: FindKeeperOptions = {},
+): Promise<KeeperAction[]> {
+  const now = options.now ?? BigInt(Math.floor(Date.now() / 1000));
+  const { bounties, challenges } = await discoverPositions(wallet, options.allowScan ?? true);
+
+  const results = await Promise.allSettled([
+    ...bounties.map((address) => bountyAction(address, wallet, now)),
+    ...challenges.map((address) => challengeAction(address, wallet, now)),
+  ]);
+
+  const actions: KeeperAction[] = [];
+  for (const result of results) {
+    if (result.status === 'fulfilled' && result.value) {
+      actions.push(result.value);
+    } else if (result.status === 'rejected') {
+      console.error('[keeper] Skipping position:', result.reason instanceof Error ? result.reason.message : result.reason);
+    }
+  }
+  return actions;
+}
+
+// ─── Preparation ─────────────────────────────────────────────────────
+
+/**
+ * Encode and simulate each action, storing it as a PreparedTransaction
+ * (so it can also be run individually via wallet_executePrepared)
+ */
+export async function prepareKeeperActions(
+  wallet: Hex,
+  actions: KeeperAction[],
+): Promise<PreparedKeeperAction[]> {
+  const client = getWorkClient();
+
+  return Promise.all(actions.map(async (action) => {
+    const data = action.kind === 'bounty'
+      ? encodeFunctionData({ abi: BOUNTY_ABI, functionName: action.functionName })
+      : encodeFunctionData({ abi: CHALLENGE_ABI, functionName: action.functionName });
+
+    let simulation: PreparedTransaction['simulation'];
+    try {
+      const gasEstimate = await client.estimateGas({ account: wallet, to: action.address, data, value: 0n });
+      simulation = { success: true, gasEstimate, gasEstimateFormatted: gasEstimate.toLocaleString() };
+    } catch (error) {
+      simulation = {
+        success: false,
+        gasEstimate: 0n,
+        gasEstimateFormatted: '0',
+        error: error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const id = storePreparedTx({
+      to: action.address,
+      data,
+      value: 0n,
+      chainId: CHAINS[CLARA_CHAIN].chainId,
+      chain: CLARA_CHAIN,
+      contractName: action.kind === 'bounty' ? 'Clara Bounty' : 'Clara Challenge',
+      functionName: action.functionName,
+      functionSignature: `${action.functionName}()`,
+      args: [],
+      simulation,
+    });
+
+    return { action, prepared: getPreparedTx(id)! };
+  }));
+}
+
+// ─── Execution ───────────────────────────────────────────────────────
+
+export interface KeeperLimits {
+  /** Max transactions to send in one run */
+  maxTransactions: number;
+  /** Max total gas (sum of simulated estimates) for one run */
+  maxGas: bigint;
+}
+
+/**
+ * Send the simulated-successful actions in order, within the limits.
+ * Keeper calls move no funds out of the wallet (value 0, no approvals),
+ * so only the gas budget applies.
+ */
+export async function executeKeeperActions(
+  ctx: ToolContext,
+  prepared: PreparedKeeperAction[],
+  limits: KeeperLimits,
+): Promise<{ executed: KeeperExecution[]; skipped: KeeperExecution[] }> {
+  const executed: KeeperExecution[] = [];
+  const skipped: KeeperExecution[] = [];
+
+  const runnable: PreparedKeeperAction[] = [];
+  let gasBudget = 0n;
+  for (const item of prepared) {
+    if (!item.prepared.simulation.success) {
+      skipped.push({ action: item.action, error: `Simulation failed: ${item.prepared.simulation.error}` });
+    } else if (runnable.length >= limits.maxTransactions) {
+      skipped.push({ action: item.action, error: `Over the ${limits.maxTransactions}-transaction limit` });
+    } else if (gasBudget + item.prepared.simulation.gasEstimate > limits.maxGas) {
+      skipped.push({ action: item.action, error: `Over the ${limits.maxGas.toLocaleString()} gas budget` });
+    } else {
+      gasBudget += item.prepared.simulation.gasEstimate;
+      runnable.push(item);
+    }
+  }
+
+  if (runnable.length === 0) return { executed, skipped };
+
+  // One balance check for the whole batch (50% buffer, as wallet_executePrepared)
+  await requireGas(CLARA_CHAIN, ctx.walletAddress, { gasLimit: (gasBudget * 150n) / 100n });
+
+  const client = getWorkClient();
+  for (const { action, prepared: tx } of runnable) {
+    if (!claimPrepared(tx.id)) {
+      skipped.push({ action, error: `${tx.id} was already claimed for execution` });
+      continue;
+    }
+
+    let txHash: Hex;
+    try {
+      ({ txHash } = await signAndSendTransaction(ctx.session.walletId!, {
+        to: tx.to,
+        data: tx.data,
+        value: 0n,
+        chainId: tx.chainId,
+        gas: (tx.simulation.gasEstimate * 150n) / 100n,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      releasePrepared(tx.id, `not sent: ${message}`);
+      skipped.push({ action, error: message });
+      continue;
+    }
+
+    try {
+      markPreparedExecuted(tx.id, [txHash], 'work_keeper');
+      console.error(`[keeper] ${action.functionName} sent for ${action.address}: ${txHash}`);
+
+      const receipt: TransactionReceipt = await client.waitForTransactionReceipt({ hash: txHash, timeout: 120_000 });
+      const explorerUrl = getExplorerTxUrl(CLARA_CHAIN, txHash);
+      if (receipt.status === 'success') {
+        executed.push({ action, txHash, explorerUrl });
+      } else {
+        skipped.push({ action, txHash, explorerUrl, error: 'Reverted on-chain' });
+      }
+    } catch (error) {
+      skipped.push({ action, txHash, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { executed, skipped };
+}
@@ -0,0 +1,96 @@
+/**
+ * Batched Reads via Multicall3
+ *
+ * Multicall3 is deployed at the same address on every chain in CHAINS,
+ * so N view calls (and native balances, via getEthBalance) collapse into
+ * a single eth_call per chain. Each read can fail independently —
+ * a reverting token doesn't sink the rest of the batch.
+ */
+
+import { createPublicClient, http, parseAbi, type Abi, type Hex } from 'viem';
+import { CHAINS, getRpcUrl, type SupportedChain } from '../config/chains.js';
+
+/**
+ * Canonical Multicall3 deployment (same address on all supported chains)
+ */
+export const MULTICALL3_ADDRESS: Hex = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = parseAbi([
+  'function getEthBalance(address addr) view returns (uint256 balance)',
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single contract read in a batch
+ */
+export interface MulticallRead {
+  address: Hex;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * Outcome of a single read (results are viem-decoded, bigints intact)
+ */
+export type MulticallResult =
+  | { success: true; result: unknown }
+  | { success: false; error: string };
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+/**
+ * Read that returns an address's native balance (Multicall3.getEthBalance)
+ */
+export function nativeBalanceRead(address: Hex): MulticallRead {
+  return {
+    address: MULTICALL3_ADDRESS,
+    abi: MULTICALL3_ABI,
+    functionName: 'getEthBalance',
+    args: [address],
+  };
+}
+
+/**
+ * Execute reads in one aggregate3 call.
+ *
+ * Results are returned in input order. Throws only when the RPC request
+ * itself fails; individual reverts come back as `success: false`.
+ */
+export async function multicallRead(
+  chain: SupportedChain,
+  reads: MulticallRead[],
+): Promise<MulticallResult[]> {
+  if (reads.length === 0) return [];
+
+  const client = createPublicClient({
+    chain: CHAINS[chain].chain,
+    transport: http(getRpcUrl(chain)),
+  });
+
+  // batchSize 0 disables viem's calldata chunking: one batch, one round trip
+  const results = await client.multicall({
+    contracts: reads.map((read) => ({
+      address: read.address,
+      abi: read.abi,
+      functionName: read.functionName,
+      args: read.args ?? [],
+    })),
+    allowFailure: true,
+    batchSize: 0,
+    multicallAddress: MULTICALL3_ADDRESS,
+  });
+
+  return results.map((r): MulticallResult => {
+    if (r.status === 'success') {
+      return { success: true, result: r.result };
+    }
+    const error = r.error as { shortMessage?: string; message?: string } | undefined;
+    return { success: false, error: error?.shortMessage || error?.message || 'Call failed' };
+  });
+}
@@ -0,0 +1,299 @@
+/**
+ * Outgoing Value
+ *
+ * Works out what a transaction, or a bundle of them, moves out of the
+ * wallet so spending limits cover contract calls and not just wallet_send:
+ *
+ * - Tenderly balance changes when the simulation has them (every decrease)
+ * - Otherwise the calldata: native value, ERC-20 transfer / transferFrom
+ *   out of the wallet, and the input leg of swaps on known Uniswap routers
+ * - ERC-20 approve, always: balance changes don't show an allowance, but
+ *   the spender can take it
+ *
+ * Within a bundle, tokens a spender pulls under an allowance the bundle
+ * granted are counted once, at the approve.
+ */
+
+import { decodeFunctionData, isAddress, parseAbi, zeroAddress, type Hex } from 'viem';
+import type { SupportedChain } from '../config/chains.js';
+import type { TenderlyBalanceChange } from '../providers/tenderly.js';
+import { checkSpendingLimits } from '../storage/spending.js';
+import type { Simulation } from './simulation.js';
+import { isNativeLike, priceAmount, type PricedAmount } from './pricing.js';
+import type { PolicyVerdict } from './policy.js';
+
+/**
+ * A call to assess: the prepared transaction fields that matter here
+ */
+export interface OutgoingCall {
+  to: Hex;
+  value: bigint;
+  data?: Hex;
+  simulation?: Simulation;
+}
+
+/**
+ * What a set of calls sends out of the wallet, priced in USD
+ */
+export interface OutgoingValue {
+  /** Priced outgoing amounts of each call, in call order */
+  perCall: PricedAmount[][];
+  /** USD total of everything that could be priced */
+  usd: number;
+  /** Outgoing amounts no source could price */
+  unpriced: PricedAmount[];
+}
+
+interface Leg {
+  token: Hex | 'native';
+  amount: bigint;
+  approval?: boolean;
+}
+
+const ERC20_ABI = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+]);
+
+const ROUTER_ABI = parseAbi([
+  // Uniswap V2
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  // Uniswap V3 SwapRouter
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)',
+  'function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params)',
+  // Uniswap SwapRouter02 (same swaps without the deadline)
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)',
+  'function exactOutput((bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params)',
+  'function multicall(bytes[] data)',
+  'function multicall(uint256 deadline, bytes[] data)',
+]);
+
+/** Routers whose swap calldata is decoded (addresses are lowercase) */
+const KNOWN_ROUTERS: Record<SupportedChain, string[]> = {
+  ethereum: [
+    '0x7a250d5630b4cf539739df2c5dacb4c659f2488d', // Uniswap V2 Router
+    '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3 Router
+    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45', // Uniswap V3 Router 02
+  ],
+  base: [
+    '0x2626664c2603336e57b271c5c0b26f421741e481', // Uniswap V3 Router 02
+  ],
+  arbitrum: [
+    '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3 Router
+    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45', // Uniswap V3 Router 02
+  ],
+  optimism: [
+    '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3 Router
+    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45', // Uniswap V3 Router 02
+  ],
+  polygon: [
+    '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3 Router
+    '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45', // Uniswap V3 Router 02
+  ],
+};
+
+/** Placeholder Tenderly and some APIs use for the native token */
+const NATIVE_PLACEHOLDER = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+function decodeErc20(data: Hex | undefined) {
+  if (!data || data.length < 10) return null;
+  try {
+    return decodeFunctionData({ abi: ERC20_ABI, data });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Token and amount a router swap takes from the wallet (the maximum, for
+ * exact-output swaps). Multicalls are decoded one level deep.
+ */
+function decodeSwapInputs(data: Hex, nested = false): Array<{ token: Hex; amount: bigint }> {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: ROUTER_ABI, data });
+  } catch {
+    return [];
+  }
+
+  const args = decoded.args as readonly unknown[];
+  const params = args[0] as { tokenIn?: Hex; path?: Hex; amountIn?: bigint; amountInMaximum?: bigint };
+  switch (decoded.functionName) {
+    case 'multicall':
+      return nested ? [] : (args[args.length - 1] as Hex[]).flatMap((inner) => decodeSwapInputs(inner, true));
+    case 'exactInputSingle':
+      return [{ token: params.tokenIn!, amount: params.amountIn! }];
+    case 'exactOutputSingle':
+      return [{ token: params.tokenIn!, amount: params.amountInMaximum! }];
+    // V3 paths are token (20 bytes) | fee (3 bytes) | token ...; exact-output paths run backwards
+    case 'exactInput':
+      return [{ token: `0x${params.path!.slice(2, 42)}`, amount: params.amountIn! }];
+    case 'exactOutput':
+      return [{ token: `0x${params.path!.slice(-40)}`, amount: params.amountInMaximum! }];
+    case 'swapTokensForExactTokens':
+    case 'swapTokensForExactETH':
+      return [{ token: (args[2] as Hex[])[0], amount: args[1] as bigint }];
+    default:
+      return [{ token: (args[2] as Hex[])[0], amount: args[0] as bigint }];
+  }
+}
+
+function changeToken(change: TenderlyBalanceChange): Hex | 'native' {
+  const token = change.token?.toLowerCase();
+  return token && isAddress(token) && token !== zeroAddress && token !== NATIVE_PLACEHOLDER
+    ? change.token as Hex
+    : 'native';
+}
+
+/**
+ * Everything one call sends out of the wallet, unpriced
+ */
+function outgoingLegs(chain: SupportedChain, holder: Hex, call: OutgoingCall): Leg[] {
+  const legs: Leg[] = [];
+  const erc20 = decodeErc20(call.data);
+
+  if (erc20?.functionName === 'approve') {
+    legs.push({ token: call.to, amount: erc20.args[1], approval: true });
+  }
+
+  if (call.simulation?.balanceChanges) {
+    for (const change of call.simulation.balanceChanges) {
+      if (change.direction === 'decrease') {
+        legs.push({ token: changeToken(change), amount: BigInt(change.rawAmount) });
+      }
+    }
+    return legs;
+  }
+
+  if (call.value > 0n) {
+    legs.push({ token: 'native', amount: call.value });
+  }
+  if (erc20?.functionName === 'transfer') {
+    legs.push({ token: call.to, amount: erc20.args[1] });
+  }
+  if (erc20?.functionName === 'transferFrom' && erc20.args[0].toLowerCase() === holder.toLowerCase()) {
+    legs.push({ token: call.to, amount: erc20.args[2] });
+  }
+  if (call.data && KNOWN_ROUTERS[chain].includes(call.to.toLowerCase())) {
+    for (const input of decodeSwapInputs(call.data)) {
+      // Swaps from ETH are paid with the call's value, already counted
+      if (!(call.value > 0n && isNativeLike(chain, input.token))) {
+        legs.push(input);
+      }
+    }
+  }
+  return legs;
+}
+
+async function priceLeg(chain: SupportedChain, leg: Leg, holder: Hex): Promise<PricedAmount> {
+  try {
+    return await priceAmount(chain, leg.token, leg.amount, holder);
+  } catch (error) {
+    // Not an ERC-20 after all (no decimals()), or the RPC failed
+    console.error(`[spending] Could not read token ${leg.token}:`, error instanceof Error ? error.message : error);
+    return { token: leg.token, symbol: 'unknown token', amount: leg.amount.toString(), usd: null };
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Price what `calls`, executed in order from `holder`, send out of the wallet
+ */
+export async function assessOutgoingValue(
+  chain: SupportedChain,
+  holder: Hex,
+  calls: OutgoingCall[],
+): Promise<OutgoingValue> {
+  const approved = new Set<string>();
+  const perCall: PricedAmount[][] = [];
+
+  for (const call of calls) {
+    const target = call.to.toLowerCase();
+    const legs = outgoingLegs(chain, holder, call).filter((leg) =>
+      leg.amount > 0n &&
+      (leg.approval || leg.token === 'native' || !approved.has(`${leg.token.toLowerCase()}:${target}`)));
+
+    // Keyed token:spender
+    const erc20 = decodeErc20(call.data);
+    if (erc20?.functionName === 'approve') {
+      approved.add(`${target}:${erc20.args[0].toLowerCase()}`);
+    }
+
+    perCall.push(await Promise.all(legs.map((leg) => priceLeg(chain, leg, holder))));
+  }
+
+  const all = perCall.flat();
+  return {
+    perCall,
+    usd: all.reduce((sum, p) => sum + (p.usd ?? 0), 0),
+    unpriced: all.filter((p) => p.usd === null),
+  };
+}
+
+/**
+ * Who a call pays: the recipient of an ERC-20 transfer, the spender of an
+ * approve, otherwise the contract called
+ */
+export function callRecipient(call: { to: Hex; data?: Hex }): Hex {
+  const erc20 = decodeErc20(call.data);
+  switch (erc20?.functionName) {
+    case 'transfer':
+    case 'approve':
+      return erc20.args[0];
+    case 'transferFrom':
+      return erc20.args[1];
+    default:
+      return call.to;
+  }
+}
+
+/**
+ * USD moved by each call, in call order
+ */
+export function perCallUsd(value: OutgoingValue): number[] {
+  return value.perCall.map((priced) => priced.reduce((sum, p) => sum + (p.usd ?? 0), 0));
+}
+
+/**
+ * An amount with no USD price, e.g. "5 FOO"
+ */
+export function formatUnpricedAmount(unpriced: PricedAmount): string {
+  return `${unpriced.amount} ${unpriced.symbol}`;
+}
+
+/**
+ * Preview of the spending policy and limit checks for calls that are only
+ * being prepared, e.g. "**Spends:** ~$5.00 (within limits, $5.00 left today)"
+ */
+export function formatSpendingPreview(value: OutgoingValue, verdict?: PolicyVerdict): string {
+  const lines: string[] = [];
+  if (verdict && !verdict.allowed) {
+    lines.push(`🛑 **Blocked by policy rule \`${verdict.rule}\`:** ${verdict.reason}. \`wallet_executePrepared\` will refuse this until ~/.clara/policy.json allows it.`);
+  } else if (value.usd > 0) {
+    const check = checkSpendingLimits(value.usd.toFixed(2));
+    lines.push(check.allowed
+      ? `**Spends:** ~$${value.usd.toFixed(2)} (within limits, $${check.remainingToday.toFixed(2)} left today)`
+      : `🛑 **Over spending limits:** ${check.reason}. \`wallet_executePrepared\` will refuse this until the limits allow it.`);
+  }
+  if (value.unpriced.length > 0) {
+    lines.push(`⏸️ **Needs approval:** ${value.unpriced.map(formatUnpricedAmount).join(', ')} can't be priced in USD, so \`wallet_executePrepared\` will ask the human first.`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,345 @@
+/**
+ * Spending Policy
+ *
+ * Evaluates ~/.clara/policy.json (see storage/policy.ts) against a payment
+ * before anything is signed. Rules run in a fixed order and the first one
+ * that fails blocks the payment, named in the error so the human knows
+ * what to edit:
+ *
+ *   hours → recipients.block → recipients.allow → calls.allow
+ *   → total → chains → tokens → tools
+ *
+ * Caps count the payment plus the spending history in each rolling window
+ * (24 hours, 7 days, 30 days). Names in the policy are resolved like
+ * wallet_send resolves them and cached for 10 minutes.
+ */
+
+import { toFunctionSelector, type Hex } from 'viem';
+import { CHAINS, type SupportedChain } from '../config/chains.js';
+import {
+  loadSpendingPolicy,
+  WEEKDAYS,
+  type PolicyCaps,
+  type SpendingPolicy,
+  type TimeWindow,
+  type Weekday,
+} from '../storage/policy.js';
+import { getSpendingHistory, type SpendingRecord, type SpendingToken } from '../storage/spending.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { callRecipient } from './outgoing-value.js';
+import type { PricedAmount } from './pricing.js';
+import { resolveAddress } from './resolve-address.js';
+
+/**
+ * A contract call, for `calls.allow`
+ */
+export interface PolicyCall {
+  to: Hex;
+  data?: Hex;
+  /** e.g. "approve(address,uint256)", when known */
+  functionSignature?: string;
+}
+
+/**
+ * A payment about to be signed
+ */
+export interface PolicyPayment {
+  tool: string;
+  chain: SupportedChain;
+  /** What leaves the wallet; unpriced amounts can't count toward caps */
+  amounts: PricedAmount[];
+  /** Who's paid, besides the recipients `calls` decode to */
+  recipients: string[];
+  calls?: PolicyCall[];
+}
+
+export type PolicyVerdict =
+  | { allowed: true }
+  | { allowed: false; rule: string; reason: string };
+
+type Denial = Extract<PolicyVerdict, { allowed: false }>;
+
+const ALLOWED: PolicyVerdict = { allowed: true };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WINDOWS = [
+  ['perDay', DAY_MS, '24 hours'],
+  ['perWeek', 7 * DAY_MS, '7 days'],
+  ['perMonth', 30 * DAY_MS, '30 days'],
+] as const;
+
+const APPROVE_SELECTOR = toFunctionSelector('approve(address,uint256)');
+
+const NAME_TTL_MS = 10 * 60 * 1000;
+
+function deny(rule: string, reason: string): Denial {
+  return { allowed: false, rule, reason };
+}
+
+function sumUsd(amounts: Array<{ usd: number | null }>): number {
+  return amounts.reduce((sum, a) => sum + (a.usd ?? 0), 0);
+}
+
+// ============================================================================
+// Names
+// ============================================================================
+
+const resolvedNames = new Map<string, { address: string; at: number }>();
+
+/**
+ * Lowercase address for a policy entry. Names that can't be resolved right
+ * now fall back to the last known address, if any.
+ */
+async function resolveEntry(entry: string): Promise<string | null> {
+  if (entry.startsWith('0x')) return entry.toLowerCase();
+
+  const cached = resolvedNames.get(entry);
+  if (cached && Date.now() - cached.at < NAME_TTL_MS) return cached.address;
+  try {
+    const resolved = await resolveAddress(entry);
+    resolvedNames.set(entry, { address: resolved.address.toLowerCase(), at: Date.now() });
+  } catch (error) {
+    console.error(`[policy] Could not resolve ${entry}:`, error instanceof Error ? error.message : error);
+  }
+  return resolvedNames.get(entry)?.address ?? null;
+}
+
+async function resolveEntries(entries: string[]): Promise<Set<string>> {
+  const resolved = await Promise.all(entries.map(resolveEntry));
+  return new Set(resolved.filter((a): a is string => a !== null));
+}
+
+/**
+ * Clear resolved policy names (for tests)
+ */
+export function clearPolicyNameCache(): void {
+  resolvedNames.clear();
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function localTime(now: Date, timezone?: string): { day: Weekday; minutes: number; display: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  const weekday = part('weekday').toLowerCase();
+  return {
+    day: WEEKDAYS.find((d) => d === weekday) ?? 'sun',
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+    display: `${weekday} ${part('hour')}:${part('minute')}`,
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function checkHours(hours: TimeWindow, now: Date): Denial | null {
+  const local = localTime(now, hours.timezone);
+  const from = toMinutes(hours.from);
+  const to = toMinutes(hours.to);
+  const inHours = from <= to
+    ? local.minutes >= from && local.minutes < to
+    : local.minutes >= from || local.minutes < to;
+  if (inHours && (!hours.days || hours.days.includes(local.day))) return null;
+
+  const window = `${hours.from}–${hours.to}${hours.days ? ` on ${hours.days.join(', ')}` : ''}${hours.timezone ? ` (${hours.timezone})` : ''}`;
+  return deny('hours', `payments are only allowed ${window}; it's ${local.display}`);
+}
+
+async function checkRecipients(
+  recipients: NonNullable<SpendingPolicy['recipients']>,
+  payment: PolicyPayment,
+): Promise<Denial | null> {
+  const calls = payment.calls ?? [];
+  const paid = [...new Set([...payment.recipients, ...calls.map(callRecipient)].map((r) => r.toLowerCase()))];
+  const touched = new Set([...paid, ...calls.map((c) => c.to.toLowerCase())]);
+
+  for (const entry of recipients.block ?? []) {
+    const address = await resolveEntry(entry);
+    if (!address) {
+      return deny('recipients.block', `couldn't resolve ${entry} to check the blocklist`);
+    }
+    if (touched.has(address)) {
+      return deny('recipients.block', `${entry.startsWith('0x') ? entry : `${entry} (${address})`} is blocklisted`);
+    }
+  }
+
+  if (recipients.allow) {
+    const allowed = await resolveEntries(recipients.allow);
+    const outsider = paid.find((r) => !allowed.has(r));
+    if (outsider) {
+      return deny('recipients.allow', `${outsider} isn't on the recipient allowlist`);
+    }
+  }
+  return null;
+}
+
+function functionMatches(entry: string, selector: string, signature?: string): boolean {
+  if (/^0x[0-9a-fA-F]{8}$/.test(entry)) return entry.toLowerCase() === selector;
+  if (entry.includes('(')) {
+    try {
+      return toFunctionSelector(entry) === selector;
+    } catch {
+      return false;
+    }
+  }
+  return signature?.split('(')[0] === entry;
+}
+
+async function checkCalls(rules: NonNullable<SpendingPolicy['calls']>, payment: PolicyPayment): Promise<Denial | null> {
+  for (const call of payment.calls ?? []) {
+    // Plain transfers aren't contract calls; recipients rules cover them
+    if (!call.data || call.data.length < 10) continue;
+    const selector = call.data.slice(0, 10).toLowerCase();
+
+    let matched = false;
+    for (const rule of rules.allow) {
+      if (rule.contract && await resolveEntry(rule.contract) !== call.to.toLowerCase()) continue;
+      if (!rule.functions.some((f) => functionMatches(f, selector, call.functionSignature))) continue;
+      if (rule.spenders && selector === APPROVE_SELECTOR) {
+        const spenders = await resolveEntries(rule.spenders);
+        if (!spenders.has(callRecipient(call).toLowerCase())) continue;
+      }
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      return deny('calls.allow', `${call.functionSignature ?? selector} on ${call.to} doesn't match any allowed call`);
+    }
+  }
+  return null;
+}
+
+interface CapScope {
+  rule: string;
+  caps: PolicyCaps;
+  /** USD of this payment that counts toward the scope */
+  usd: number;
+  /** USD of a past payment that counted toward it */
+  spent: (record: SpendingRecord) => number;
+}
+
+function checkScope(scope: CapScope, history: SpendingRecord[], now: Date): Denial | null {
+  if (scope.usd <= 0) return null;
+
+  const cap = scope.caps.perTransaction;
+  if (cap !== undefined && scope.usd > parseFloat(cap)) {
+    return deny(`${scope.rule}.perTransaction`, `$${scope.usd.toFixed(2)} is over the $${cap} per-transaction cap`);
+  }
+  for (const [key, ms, label] of WINDOWS) {
+    const windowCap = scope.caps[key];
+    if (windowCap === undefined) continue;
+    const since = now.getTime() - ms;
+    const spent = history
+      .filter((r) => Date.parse(r.timestamp) >= since)
+      .reduce((sum, r) => sum + scope.spent(r), 0);
+    if (spent + scope.usd > parseFloat(windowCap)) {
+      return deny(
+        `${scope.rule}.${key}`,
+        `$${spent.toFixed(2)} spent in the last ${label}; another $${scope.usd.toFixed(2)} would pass the $${windowCap} cap`,
+      );
+    }
+  }
+  return null;
+}
+
+function tokenMatches(key: string, token: { token: string; symbol: string }): boolean {
+  const k = key.toLowerCase();
+  return k === token.symbol.toLowerCase() || k === token.token.toLowerCase();
+}
+
+function capScopes(policy: SpendingPolicy, payment: PolicyPayment): CapScope[] {
+  const usd = sumUsd(payment.amounts);
+  const amount = (record: SpendingRecord) => parseFloat(record.amountUsd);
+  const scopes: CapScope[] = [];
+
+  if (policy.total) {
+    scopes.push({ rule: 'total', caps: policy.total, usd, spent: amount });
+  }
+  const chainCaps = policy.chains?.[payment.chain];
+  if (chainCaps) {
+    const chainId = CHAINS[payment.chain].chainId;
+    scopes.push({ rule: `chains.${payment.chain}`, caps: chainCaps, usd, spent: (r) => (r.chainId === chainId ? amount(r) : 0) });
+  }
+  for (const [key, caps] of Object.entries(policy.tokens ?? {})) {
+    scopes.push({
+      rule: `tokens.${key}`,
+      caps,
+      usd: sumUsd(payment.amounts.filter((a) => tokenMatches(key, a))),
+      spent: (r) => (r.tokens ?? []).filter((t) => tokenMatches(key, t)).reduce((sum, t) => sum + parseFloat(t.amountUsd), 0),
+    });
+  }
+  const toolCaps = policy.tools?.[payment.tool];
+  if (toolCaps) {
+    scopes.push({ rule: `tools.${payment.tool}`, caps: toolCaps, usd, spent: (r) => (r.tool === payment.tool ? amount(r) : 0) });
+  }
+  return scopes;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check a payment against the spending policy
+ */
+export async function evaluatePolicy(payment: PolicyPayment, now: Date = new Date()): Promise<PolicyVerdict> {
+  let policy: SpendingPolicy | null;
+  try {
+    policy = loadSpendingPolicy();
+  } catch (error) {
+    return deny('policy.json', `the policy can't be read, so every payment is refused: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!policy) return ALLOWED;
+
+  const denial = (policy.hours ? checkHours(policy.hours, now) : null)
+    ?? (policy.recipients ? await checkRecipients(policy.recipients, payment) : null)
+    ?? (policy.calls ? await checkCalls(policy.calls, payment) : null);
+  if (denial) return denial;
+
+  const history = getSpendingHistory(31);
+  for (const scope of capScopes(policy, payment)) {
+    const capped = checkScope(scope, history, now);
+    if (capped) return capped;
+  }
+  return ALLOWED;
+}
+
+/**
+ * @throws ClaraError (SPENDING_LIMIT) naming the rule that blocks the payment
+ */
+export async function requireWithinPolicy(payment: PolicyPayment, description: string): Promise<void> {
+  const verdict = await evaluatePolicy(payment);
+  if (!verdict.allowed) {
+    throw new ClaraError(
+      ClaraErrorCode.SPENDING_LIMIT,
+      `${description} blocked by policy rule \`${verdict.rule}\`: ${verdict.reason}`,
+      'Edit ~/.clara/policy.json to change the rule.',
+    );
+  }
+}
+
+/**
+ * Per-token breakdown of a payment for its spending record
+ */
+export function spendingTokens(amounts: PricedAmount[]): SpendingToken[] {
+  const byToken = new Map<string, SpendingToken>();
+  for (const a of amounts) {
+    if (a.usd === null) continue;
+    const key = a.token.toLowerCase();
+    const existing = byToken.get(key);
+    const usd = (existing ? parseFloat(existing.amountUsd) : 0) + a.usd;
+    byToken.set(key, { token: a.token, symbol: a.symbol, amountUsd: usd.toFixed(2) });
+  }
+  return [...byToken.values()];
+}
@@ -0,0 +1,268 @@
+/**
+ * USD Pricing
+ *
+ * Prices native tokens and ERC-20s so spending limits apply to every
+ * value-moving transaction, not just stablecoins. Sources, in order:
+ *
+ * 1. Stablecoins (USDC / USDT / DAI from config/tokens) at $1
+ * 2. Herd token metadata `priceUsd`
+ * 3. Herd token discovery: `valueUsd / amount` for a token the wallet holds
+ * 4. Chainlink USD feed on-chain (native token and its wrapped form only)
+ *
+ * Prices are cached for a minute. If every source fails, a cached price up
+ * to 10 minutes old is used (marked stale); anything older is never used.
+ * Chainlink answers older than their feed's heartbeat allowance are ignored.
+ */
+
+import { createPublicClient, formatUnits, http, type Hex } from 'viem';
+import { CHAINS, getRpcUrl, type SupportedChain } from '../config/chains.js';
+import { TOKENS } from '../config/tokens.js';
+import { getProviderRegistry } from '../providers/index.js';
+
+export type PriceSource = 'stablecoin' | 'herd-token' | 'herd-discovery' | 'chainlink';
+
+/**
+ * A token's USD price and where it came from
+ */
+export interface UsdPrice {
+  priceUsd: number;
+  source: PriceSource;
+  /** When the price was fetched (ms since epoch) */
+  fetchedAt: number;
+  /** Served from cache after every source failed */
+  stale?: boolean;
+}
+
+/**
+ * USD value of one token amount in a transaction
+ */
+export interface PricedAmount {
+  token: Hex | 'native';
+  symbol: string;
+  amount: string;
+  usd: number | null;
+  price?: UsdPrice;
+}
+
+const PRICE_TTL_MS = 60_000;
+const MAX_PRICE_AGE_MS = 10 * 60_000;
+
+/** Chainlink answers older than this are treated as unavailable */
+const MAX_FEED_AGE_S = 2 * 60 * 60;
+
+const STABLECOINS = ['USDC', 'USDT', 'DAI'];
+
+/** Wrapped native token per chain (priced like the native token) */
+const WRAPPED_NATIVE: Record<SupportedChain, Hex> = {
+  ethereum: TOKENS.ethereum.WETH.address,
+  base: TOKENS.base.WETH.address,
+  arbitrum: TOKENS.arbitrum.WETH.address,
+  optimism: TOKENS.optimism.WETH.address,
+  polygon: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', // WPOL
+};
+
+/** Chainlink native/USD aggregators */
+const NATIVE_USD_FEEDS: Record<SupportedChain, Hex> = {
+  ethereum: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', // ETH / USD
+  base: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70', // ETH / USD
+  arbitrum: '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612', // ETH / USD
+  optimism: '0x13e3Ee699D1909E989722E753853AE30b17e08c5', // ETH / USD
+  polygon: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0', // POL / USD
+};
+
+const AGGREGATOR_ABI = [
+  {
+    inputs: [],
+    name: 'latestRoundData',
+    outputs: [
+      { name: 'roundId', type: 'uint80' },
+      { name: 'answer', type: 'int256' },
+      { name: 'startedAt', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'answeredInRound', type: 'uint80' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'decimals',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const ERC20_METADATA_ABI = [
+  { inputs: [], name: 'decimals', outputs: [{ name: '', type: 'uint8' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'symbol', outputs: [{ name: '', type: 'string' }], stateMutability: 'view', type: 'function' },
+] as const;
+
+const priceCache = new Map<string, UsdPrice>();
+const tokenCache = new Map<string, { decimals: number; symbol: string }>();
+
+function getClient(chain: SupportedChain) {
+  return createPublicClient({
+    chain: CHAINS[chain].chain,
+    transport: http(getRpcUrl(chain)),
+  });
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function knownToken(chain: SupportedChain, token: Hex) {
+  return Object.values(TOKENS[chain]).find((t) => sameAddress(t.address, token));
+}
+
+/**
+ * The chain's native token or its wrapped form (priced the same)
+ */
+export function isNativeLike(chain: SupportedChain, token: Hex | 'native'): boolean {
+  return token === 'native' || sameAddress(token, WRAPPED_NATIVE[chain]);
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+async function fromHerdToken(chain: SupportedChain, token: Hex | 'native'): Promise<number | null> {
+  const address = token === 'native' ? WRAPPED_NATIVE[chain] : token;
+  const result = await getProviderRegistry().getContractMetadata({ address, chain, detailLevel: 'summary' });
+  const price = result.success ? parseFloat(result.data?.token?.priceUsd ?? '') : NaN;
+  return price > 0 ? price : null;
+}
+
+async function fromHerdDiscovery(chain: SupportedChain, token: Hex | 'native', holder: Hex): Promise<number | null> {
+  const result = await getProviderRegistry().discoverTokens(holder, chain);
+  if (!result.success || !result.data) return null;
+  const balance = result.data.balances.find((b) =>
+    token === 'native' ? b.address === 'native' : sameAddress(b.address, token));
+  const amount = balance ? parseFloat(balance.amount) : 0;
+  return balance && amount > 0 && balance.valueUsd > 0 ? balance.valueUsd / amount : null;
+}
+
+async function fromChainlink(chain: SupportedChain, token: Hex | 'native'): Promise<number | null> {
+  if (!isNativeLike(chain, token)) return null;
+
+  const client = getClient(chain);
+  const feed = NATIVE_USD_FEEDS[chain];
+  const [round, decimals] = await Promise.all([
+    client.readContract({ address: feed, abi: AGGREGATOR_ABI, functionName: 'latestRoundData' }),
+    client.readContract({ address: feed, abi: AGGREGATOR_ABI, functionName: 'decimals' }),
+  ]);
+  const [, answer, , updatedAt] = round;
+  if (answer <= 0n) return null;
+  if (Date.now() / 1000 - Number(updatedAt) > MAX_FEED_AGE_S) {
+    console.error(`[pricing] Chainlink feed on ${chain} last updated ${new Date(Number(updatedAt) * 1000).toISOString()}, ignoring`);
+    return null;
+  }
+  return Number(formatUnits(answer, decimals));
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * USD price of a token (or the chain's native token), or null if no
+ * source can price it.
+ *
+ * @param holder - Wallet holding the token; enables the discovery source
+ */
+export async function getUsdPrice(
+  chain: SupportedChain,
+  token: Hex | 'native',
+  holder?: Hex,
+): Promise<UsdPrice | null> {
+  if (token !== 'native') {
+    const known = knownToken(chain, token);
+    if (known && STABLECOINS.includes(known.symbol)) {
+      return { priceUsd: 1, source: 'stablecoin', fetchedAt: Date.now() };
+    }
+  }
+
+  const key = `${chain}:${isNativeLike(chain, token) ? 'native' : token.toLowerCase()}`;
+  const cached = priceCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) {
+    return cached;
+  }
+
+  const sources: Array<[PriceSource, () => Promise<number | null>]> = [
+    ['herd-token', () => fromHerdToken(chain, token)],
+    ['herd-discovery', () => (holder ? fromHerdDiscovery(chain, token, holder) : Promise.resolve(null))],
+    ['chainlink', () => fromChainlink(chain, token)],
+  ];
+
+  for (const [source, fetch] of sources) {
+    try {
+      const priceUsd = await fetch();
+      if (priceUsd !== null) {
+        const price: UsdPrice = { priceUsd, source, fetchedAt: Date.now() };
+        priceCache.set(key, price);
+        return price;
+      }
+    } catch (error) {
+      console.error(`[pricing] ${source} failed for ${key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (cached && Date.now() - cached.fetchedAt < MAX_PRICE_AGE_MS) {
+    console.error(`[pricing] Using stale ${cached.source} price for ${key}`);
+    return { ...cached, stale: true };
+  }
+  return null;
+}
+
+/**
+ * Decimals and symbol of an ERC-20 (config first, then on-chain)
+ */
+export async function getTokenInfo(chain: SupportedChain, token: Hex): Promise<{ decimals: number; symbol: string }> {
+  const known = knownToken(chain, token);
+  if (known) return { decimals: known.decimals, symbol: known.symbol };
+
+  const key = `${chain}:${token.toLowerCase()}`;
+  const cached = tokenCache.get(key);
+  if (cached) return cached;
+
+  const client = getClient(chain);
+  const [decimals, symbol] = await Promise.all([
+    client.readContract({ address: token, abi: ERC20_METADATA_ABI, functionName: 'decimals' }),
+    client.readContract({ address: token, abi: ERC20_METADATA_ABI, functionName: 'symbol' }).catch(() => 'tokens'),
+  ]);
+  const info = { decimals, symbol };
+  tokenCache.set(key, info);
+  return info;
+}
+
+/**
+ * Price a raw token amount. `usd` is null when the token can't be priced.
+ */
+export async function priceAmount(
+  chain: SupportedChain,
+  token: Hex | 'native',
+  rawAmount: bigint,
+  holder?: Hex,
+): Promise<PricedAmount> {
+  const { decimals, symbol } = token === 'native'
+    ? { decimals: 18, symbol: CHAINS[chain].nativeSymbol }
+    : await getTokenInfo(chain, token);
+  const amount = formatUnits(rawAmount, decimals);
+  const price = await getUsdPrice(chain, token, holder);
+  return {
+    token,
+    symbol,
+    amount,
+    usd: price ? parseFloat(amount) * price.priceUsd : null,
+    price: price ?? undefined,
+  };
+}
+
+/**
+ * Forget cached prices (for testing)
+ */
+export function clearPriceCache(): void {
+  priceCache.clear();
+  tokenCache.clear();
+}
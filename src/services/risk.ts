@@ -168,6 +168,36 @@ function getRecommendation(overallRisk: 'low' | 'medium' | 'high' | 'critical'):
 // Public API
 // ============================================================================
 
+/**
+ * Assess risk from already-fetched metadata (no API calls)
+ */
+export function assessMetadataRisk(metadata: ContractMetadata): RiskAssessment {
+  if (isKnownSafe(metadata.address, metadata.chain)) {
+    return {
+      address: metadata.address,
+      chain: metadata.chain,
+      signals: [{
+        type: 'known_scam' as RiskSignalType, // Reusing type for "known safe"
+        severity: 'info',
+        message: 'Known trusted contract',
+      }],
+      overallRisk: 'low',
+      recommendation: 'proceed',
+    };
+  }
+
+  const signals = extractRiskSignals(metadata);
+  const overallRisk = calculateOverallRisk(signals);
+
+  return {
+    address: metadata.address,
+    chain: metadata.chain,
+    signals,
+    overallRisk,
+    recommendation: getRecommendation(overallRisk),
+  };
+}
+
 /**
  * Assess risk for a contract address
  */
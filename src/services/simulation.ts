@@ -0,0 +1,169 @@
+/**
+ * Transaction Simulation
+ *
+ * Single-call simulation shared by wallet_call (at preparation) and
+ * wallet_executePrepared (again, against the current block, right before
+ * signing). Tenderly is used when configured for balance changes and
+ * logs; otherwise estimateGas + eth_call on the chain RPC.
+ *
+ * compareSimulations() decides whether a fresh result still matches the
+ * one the user reviewed: a flipped outcome, or balance changes that moved
+ * by more than 1%, count as material.
+ */
+
+import { createPublicClient, http, type Hex } from 'viem';
+import { CHAINS, getRpcUrl, type SupportedChain } from '../config/chains.js';
+import { simulateWithTenderly, type TenderlyBalanceChange } from '../providers/tenderly.js';
+import type { PreparedTransaction } from '../para/prepared-tx.js';
+import { sanitizeTokenSymbol } from '../utils/sanitize.js';
+import type { BundleCall } from './bundle.js';
+
+export type Simulation = PreparedTransaction['simulation'];
+
+/** Balance changes that differ by more than this (basis points) are material */
+const MATERIAL_CHANGE_BPS = 100n;
+
+function getClient(chain: SupportedChain) {
+  return createPublicClient({
+    chain: CHAINS[chain].chain,
+    transport: http(getRpcUrl(chain)),
+  });
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Simulate one call from `from`. Never throws: RPC errors and reverts both
+ * come back as `success: false` with the reason. Return data is raw —
+ * callers with an ABI decode it.
+ */
+export async function simulateTransaction(
+  chain: SupportedChain,
+  from: Hex,
+  call: BundleCall,
+): Promise<Simulation> {
+  const client = getClient(chain);
+
+  const fetchReturnData = async (simulation: Simulation) => {
+    try {
+      const result = await client.call({ account: from, to: call.to, data: call.data, value: call.value });
+      if (result.data) {
+        simulation.returnData = result.data;
+      }
+    } catch (err) {
+      // Gas estimate succeeded, so the tx may still work on-chain
+      console.warn('[simulation] Return data unavailable:', err instanceof Error ? err.message : err);
+    }
+    return simulation;
+  };
+
+  const tenderly = await simulateWithTenderly(
+    { to: call.to, data: call.data, value: call.value.toString() },
+    from,
+    chain,
+  );
+  if (tenderly) {
+    const simulation: Simulation = {
+      success: tenderly.success,
+      gasEstimate: tenderly.success ? BigInt(tenderly.gasUsed) : 0n,
+      gasEstimateFormatted: tenderly.success ? tenderly.gasUsed.toLocaleString() : '0',
+      provider: 'tenderly',
+      balanceChanges: tenderly.balanceChanges,
+      logs: tenderly.logs,
+      ...(tenderly.willRevert ? {
+        error: tenderly.revertReason || 'Execution reverted',
+        revertReason: tenderly.revertReason,
+      } : {}),
+    };
+    return tenderly.success ? fetchReturnData(simulation) : simulation;
+  }
+
+  try {
+    const gasEstimate = await client.estimateGas({ account: from, to: call.to, data: call.data, value: call.value });
+    return fetchReturnData({
+      success: true,
+      gasEstimate,
+      gasEstimateFormatted: gasEstimate.toLocaleString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const revertMatch = message.match(/reverted with reason string '([^']+)'/);
+    return {
+      success: false,
+      gasEstimate: 0n,
+      gasEstimateFormatted: '0',
+      error: revertMatch ? revertMatch[1] : message,
+    };
+  }
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+function describeOutcome(simulation: Simulation): string {
+  return simulation.success ? '✅ would succeed' : `❌ would fail (${simulation.error || 'Execution reverted'})`;
+}
+
+function tokenLabel(change: TenderlyBalanceChange): string {
+  return sanitizeTokenSymbol(change.symbol) || `${change.token.slice(0, 8)}...`;
+}
+
+/** Net signed raw amount per token */
+function netChanges(changes: TenderlyBalanceChange[]): Map<string, { label: string; amount: bigint; formatted: string }> {
+  const net = new Map<string, { label: string; amount: bigint; formatted: string }>();
+  for (const change of changes) {
+    const key = change.token.toLowerCase();
+    const signed = change.direction === 'increase' ? BigInt(change.rawAmount) : -BigInt(change.rawAmount);
+    const sign = change.direction === 'increase' ? '+' : '-';
+    const existing = net.get(key);
+    net.set(key, existing
+      ? { ...existing, amount: existing.amount + signed, formatted: `${existing.formatted} ${sign}${change.formattedAmount}` }
+      : { label: tokenLabel(change), amount: signed, formatted: `${sign}${change.formattedAmount}` });
+  }
+  return net;
+}
+
+function isMaterial(before: bigint, after: bigint): boolean {
+  const abs = (n: bigint) => (n < 0n ? -n : n);
+  if (before === 0n) return after !== 0n;
+  if ((before < 0n) !== (after < 0n)) return true;
+  return abs(after - before) * 10_000n > abs(before) * MATERIAL_CHANGE_BPS;
+}
+
+/**
+ * Material differences between the simulation a user reviewed and a fresh
+ * one, as "what: before → after" lines. Empty when nothing material changed.
+ * Balance changes are compared when both results carry them (Tenderly);
+ * if only the reviewed one does, the fresh one can't vouch for them and
+ * that is reported as a difference too.
+ */
+export function compareSimulations(before: Simulation, after: Simulation): string[] {
+  const diffs: string[] = [];
+
+  if (before.success !== after.success) {
+    diffs.push(`Outcome: ${describeOutcome(before)} → ${describeOutcome(after)}`);
+    return diffs;
+  }
+
+  if (before.balanceChanges && !after.balanceChanges) {
+    diffs.push('Re-simulation unavailable: Tenderly did not answer, so the balance changes could not be checked again');
+    return diffs;
+  }
+
+  if (before.balanceChanges && after.balanceChanges) {
+    const old = netChanges(before.balanceChanges);
+    const now = netChanges(after.balanceChanges);
+    for (const token of new Set([...old.keys(), ...now.keys()])) {
+      const a = old.get(token);
+      const b = now.get(token);
+      if (isMaterial(a?.amount ?? 0n, b?.amount ?? 0n)) {
+        diffs.push(`${(a ?? b)!.label}: ${a?.formatted ?? 'no change'} → ${b?.formatted ?? 'no change'}`);
+      }
+    }
+  }
+
+  return diffs;
+}
@@ -0,0 +1,328 @@
+/**
+ * Local Transaction Decoder
+ *
+ * RPC-only fallback for wallet_analyze_tx when Herd is disabled or does
+ * not cover the chain. Decodes calldata and receipt logs against a small
+ * set of known ABIs (ERC-20/721, WETH, Clara marketplace contracts) and
+ * derives the sender's balance changes from Transfer logs.
+ *
+ * Anything it cannot decode is reported by selector/topic rather than
+ * guessed at.
+ */
+
+import {
+  createPublicClient,
+  decodeEventLog,
+  decodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  http,
+  parseAbi,
+  type Abi,
+  type Hex,
+  type Log,
+} from 'viem';
+import {
+  CHAINS,
+  SUPPORTED_CHAINS,
+  getRpcUrl,
+  type SupportedChain,
+} from '../config/chains.js';
+import { TOKENS } from '../config/tokens.js';
+import {
+  BOUNTY_ABI,
+  BOUNTY_FACTORY_ABI,
+  CHALLENGE_ABI,
+  CHALLENGE_FACTORY_ABI,
+  IDENTITY_REGISTRY_ABI,
+  REPUTATION_REGISTRY_ABI,
+} from '../config/clara-contracts.js';
+import type {
+  BalanceChange,
+  DecodedCall,
+  DecodedEvent,
+  TransactionAnalysis,
+} from '../providers/types.js';
+import { sanitizeTokenSymbol } from '../utils/sanitize.js';
+
+// ============================================================================
+// Known ABIs
+// ============================================================================
+
+const ERC20_ABI = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+]);
+
+const ERC721_ABI = parseAbi([
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+]);
+
+const WETH_ABI = parseAbi([
+  'function deposit() payable',
+  'function withdraw(uint256 wad)',
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+]);
+
+/**
+ * Tried in order — ERC-20 before ERC-721 so 3-topic Transfers decode as tokens
+ */
+const KNOWN_ABIS: Array<{ label: string; abi: Abi }> = [
+  { label: 'ERC-20', abi: ERC20_ABI },
+  { label: 'ERC-721', abi: ERC721_ABI },
+  { label: 'WETH', abi: WETH_ABI },
+  { label: 'Clara BountyFactory', abi: BOUNTY_FACTORY_ABI },
+  { label: 'Clara Bounty', abi: BOUNTY_ABI },
+  { label: 'Clara ChallengeFactory', abi: CHALLENGE_FACTORY_ABI },
+  { label: 'Clara Challenge', abi: CHALLENGE_ABI },
+  { label: 'ERC-8004 IdentityRegistry', abi: IDENTITY_REGISTRY_ABI },
+  { label: 'ERC-8004 ReputationRegistry', abi: REPUTATION_REGISTRY_ABI },
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getClient(chain: SupportedChain) {
+  return createPublicClient({
+    chain: CHAINS[chain].chain,
+    transport: http(getRpcUrl(chain)),
+  });
+}
+
+/**
+ * Make decoded values JSON-safe (bigints → strings, recursively)
+ */
+function toPlain(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toPlain(v)]));
+  }
+  return value;
+}
+
+/**
+ * Name decoded positional args using the ABI item's input names
+ */
+function namedArgs(abi: Abi, name: string, args: readonly unknown[] | undefined): Record<string, unknown> {
+  const item = abi.find((i) => (i.type === 'function' || i.type === 'event') && i.name === name) as
+    { inputs: ReadonlyArray<{ name?: string }> } | undefined;
+  const result: Record<string, unknown> = {};
+  (args ?? []).forEach((arg, i) => {
+    result[item?.inputs[i]?.name || `arg${i}`] = toPlain(arg);
+  });
+  return result;
+}
+
+function knownToken(chain: SupportedChain, address: string) {
+  return Object.values(TOKENS[chain]).find((t) => t.address.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * Symbol and decimals for a token, from config or on-chain (best-effort)
+ */
+async function tokenInfo(chain: SupportedChain, address: Hex): Promise<{ symbol: string; decimals: number }> {
+  const known = knownToken(chain, address);
+  if (known) return known;
+  try {
+    const client = getClient(chain);
+    const [symbol, decimals] = await Promise.all([
+      client.readContract({ address, abi: erc20Abi, functionName: 'symbol' }),
+      client.readContract({ address, abi: erc20Abi, functionName: 'decimals' }),
+    ]);
+    return { symbol: sanitizeTokenSymbol(symbol), decimals };
+  } catch {
+    return { symbol: `${address.slice(0, 8)}…`, decimals: 18 };
+  }
+}
+
+function decodeCall(chain: SupportedChain, to: Hex | null, input: Hex, value: bigint): DecodedCall {
+  const contractAddress = to ?? '';
+
+  if (!to) {
+    return { functionName: 'deploy', signature: '0x00000000', contractAddress, args: {}, readable: 'Contract deployment' };
+  }
+  if (input === '0x') {
+    const amount = formatUnits(value, CHAINS[chain].nativeDecimals);
+    return {
+      functionName: 'transfer',
+      signature: '0x00000000',
+      contractAddress,
+      args: { value: value.toString() },
+      readable: `Send ${amount} ${CHAINS[chain].nativeSymbol} to ${to}`,
+    };
+  }
+
+  const token = knownToken(chain, to);
+  for (const { label, abi } of KNOWN_ABIS) {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi, data: input });
+      const named = namedArgs(abi, functionName, args as readonly unknown[] | undefined);
+      const contractName = token?.symbol ?? label;
+      const shown = Object.values(named).map((v) => (typeof v === 'object' ? JSON.stringify(v) : String(v)));
+      return {
+        functionName,
+        signature: input.slice(0, 10),
+        contractAddress,
+        contractName,
+        args: named,
+        readable: `${contractName}.${functionName}(${shown.map((s) => (s.length > 42 ? `${s.slice(0, 40)}…` : s)).join(', ')})`,
+      };
+    } catch {
+      // Not this ABI
+    }
+  }
+
+  return {
+    functionName: 'unknown',
+    signature: input.slice(0, 10),
+    contractAddress,
+    args: {},
+    readable: `Call ${input.slice(0, 10)} on ${to}`,
+  };
+}
+
+function decodeLog(chain: SupportedChain, log: Log): DecodedEvent {
+  const token = knownToken(chain, log.address);
+  for (const { label, abi } of KNOWN_ABIS) {
+    try {
+      const { eventName, args } = decodeEventLog({ abi, data: log.data, topics: log.topics, strict: true });
+      const values = Array.isArray(args) ? args : Object.values(args ?? {});
+      return {
+        eventName: eventName ?? 'unknown',
+        signature: log.topics[0] ?? '0x',
+        contractAddress: log.address,
+        contractName: token?.symbol ?? label,
+        args: eventName ? namedArgs(abi, eventName, values) : {},
+        logIndex: log.logIndex ?? 0,
+      };
+    } catch {
+      // Not this ABI
+    }
+  }
+  return {
+    eventName: 'unknown',
+    signature: log.topics[0] ?? '0x',
+    contractAddress: log.address,
+    args: {},
+    logIndex: log.logIndex ?? 0,
+  };
+}
+
+/**
+ * Net ERC-20 / WETH / native movements for `owner`
+ */
+async function balanceChangesFor(
+  chain: SupportedChain,
+  owner: Hex,
+  events: DecodedEvent[],
+  nativeDelta: bigint,
+): Promise<BalanceChange[]> {
+  const me = owner.toLowerCase();
+  const deltas = new Map<string, bigint>();
+  const add = (token: string, amount: bigint) => deltas.set(token, (deltas.get(token) ?? 0n) + amount);
+
+  for (const e of events) {
+    const token = e.contractAddress.toLowerCase();
+    if (e.eventName === 'Transfer' && 'value' in e.args) {
+      const amount = BigInt(e.args.value as string);
+      if (String(e.args.from).toLowerCase() === me) add(token, -amount);
+      if (String(e.args.to).toLowerCase() === me) add(token, amount);
+    } else if (e.eventName === 'Deposit' && String(e.args.dst).toLowerCase() === me) {
+      add(token, BigInt(e.args.wad as string));
+    } else if (e.eventName === 'Withdrawal' && String(e.args.src).toLowerCase() === me) {
+      add(token, -BigInt(e.args.wad as string));
+    }
+  }
+
+  const changes: BalanceChange[] = [];
+  if (nativeDelta !== 0n) {
+    changes.push({
+      address: owner,
+      token: { symbol: CHAINS[chain].nativeSymbol, decimals: CHAINS[chain].nativeDecimals },
+      change: formatUnits(nativeDelta, CHAINS[chain].nativeDecimals),
+    });
+  }
+
+  const tokens = [...deltas].filter(([, delta]) => delta !== 0n);
+  const infos = await Promise.all(tokens.map(([token]) => tokenInfo(chain, token as Hex)));
+  tokens.forEach(([token, delta], i) => {
+    changes.push({
+      address: owner,
+      token: { symbol: infos[i].symbol, address: token, decimals: infos[i].decimals },
+      change: formatUnits(delta, infos[i].decimals),
+    });
+  });
+  return changes;
+}
+
+function summarizeIntent(call: DecodedCall, changes: BalanceChange[], status: 'confirmed' | 'failed'): string {
+  if (status === 'failed') return `Reverted: ${call.readable}`;
+  const moved = changes
+    .filter((c) => c.token.address) // native delta includes gas; keep the summary to tokens
+    .map((c) => (c.change.startsWith('-') ? `sent ${c.change.slice(1)} ${c.token.symbol}` : `received ${c.change} ${c.token.symbol}`));
+  return moved.length > 0 ? `${call.readable} — ${moved.join(', ')}` : call.readable;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Find the chain a transaction was mined on (first match in SUPPORTED_CHAINS order)
+ */
+export async function findTransactionChain(hash: Hex): Promise<SupportedChain | null> {
+  const found = await Promise.all(
+    SUPPORTED_CHAINS.map(async (chain) => {
+      try {
+        await getClient(chain).getTransactionReceipt({ hash });
+        return chain;
+      } catch {
+        return null;
+      }
+    }),
+  );
+  return found.find((c): c is SupportedChain => c !== null) ?? null;
+}
+
+/**
+ * Decode a mined transaction using only RPC data and known ABIs
+ */
+export async function decodeTransactionLocally(hash: Hex, chain: SupportedChain): Promise<TransactionAnalysis> {
+  const client = getClient(chain);
+  const [tx, receipt] = await Promise.all([
+    client.getTransaction({ hash }),
+    client.getTransactionReceipt({ hash }),
+  ]);
+  const block = await client.getBlock({ blockNumber: receipt.blockNumber });
+
+  const status = receipt.status === 'success' ? 'confirmed' : 'failed';
+  const call = decodeCall(chain, tx.to, tx.input, tx.value);
+  const events = receipt.logs.map((log) => decodeLog(chain, log));
+
+  const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
+  const nativeDelta = -(status === 'confirmed' ? tx.value : 0n) - gasCost;
+  const balanceChanges = await balanceChangesFor(chain, tx.from, events, nativeDelta);
+
+  return {
+    hash,
+    chainId: CHAINS[chain].chainId,
+    chain,
+    blockNumber: Number(receipt.blockNumber),
+    timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+    status,
+    call,
+    balanceChanges,
+    events,
+    gasUsed: receipt.gasUsed.toString(),
+    intentSummary: summarizeIntent(call, balanceChanges, status),
+  };
+}
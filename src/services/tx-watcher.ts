@@ -0,0 +1,197 @@
+/**
+ * Transaction Watcher
+ *
+ * Background poller for tracked transactions, so sends return right away
+ * instead of blocking the tool call on a receipt. Each tick checks every
+ * pending record:
+ * - receipt found → confirmed or reverted; any other pending record at
+ *   the same nonce is marked replaced by it (speed-up / cancel)
+ * - no receipt, but the account's confirmed nonce has moved past it →
+ *   replaced by a transaction we didn't track
+ * - the receipt lookup failed → left pending for the next tick
+ *
+ * Listeners registered with onTxSettled() hear about every status change;
+ * the MCP server forwards them to the client as logging notifications.
+ */
+
+import { createPublicClient, http, TransactionReceiptNotFoundError, type Hex } from 'viem';
+import { CHAINS, getRpcUrl, type SupportedChain } from '../config/chains.js';
+import {
+  listTrackedTxs,
+  updateTrackedTxs,
+  type TrackedTransaction,
+} from '../storage/tracked-txs.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+type TxSettledListener = (tx: TrackedTransaction) => void;
+
+const listeners = new Set<TxSettledListener>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let pollInFlight: Promise<TrackedTransaction[]> | null = null;
+
+function getClient(chain: SupportedChain) {
+  return createPublicClient({
+    chain: CHAINS[chain].chain,
+    transport: http(getRpcUrl(chain)),
+  });
+}
+
+function sameNonce(a: TrackedTransaction, b: TrackedTransaction): boolean {
+  return a.id !== b.id && a.chainId === b.chainId && a.from === b.from && a.nonce === b.nonce;
+}
+
+// ============================================================================
+// Polling
+// ============================================================================
+
+async function checkChain(chain: SupportedChain, pending: TrackedTransaction[]) {
+  const client = getClient(chain);
+  const updates: Parameters<typeof updateTrackedTxs>[0] = [];
+  const settled = new Set<string>();
+
+  // Confirmed nonces before receipts: a transaction mined in between then
+  // shows up as a receipt below instead of looking replaced
+  const senders = [...new Set(pending.map((tx) => tx.from))];
+  const counts = await Promise.all(senders.map((from) => client
+    .getTransactionCount({ address: from as Hex, blockTag: 'latest' })
+    .catch(() => null)));
+  const confirmedNonces = new Map(senders.map((from, i) => [from, counts[i]]));
+
+  // null: not mined yet. undefined: the lookup failed, so nothing is known
+  // about this one until the next poll.
+  const receipts = await Promise.all(pending.map((tx) => client
+    .getTransactionReceipt({ hash: tx.txHash })
+    .catch((error) => (error instanceof TransactionReceiptNotFoundError ? null : undefined))));
+
+  pending.forEach((tx, i) => {
+    const receipt = receipts[i];
+    if (!receipt) return;
+    updates.push({
+      id: tx.id,
+      status: receipt.status === 'success' ? 'confirmed' : 'reverted',
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+    });
+    settled.add(tx.id);
+    for (const sibling of pending.filter((p) => sameNonce(p, tx))) {
+      updates.push({ id: sibling.id, status: 'replaced', replacedBy: tx.txHash });
+      settled.add(sibling.id);
+    }
+  });
+
+  // The nonce was used by something we didn't track
+  for (const [i, tx] of pending.entries()) {
+    if (settled.has(tx.id) || receipts[i] === undefined) continue;
+    const confirmed = confirmedNonces.get(tx.from);
+    if (confirmed !== null && confirmed !== undefined && confirmed > tx.nonce) {
+      updates.push({ id: tx.id, status: 'replaced' });
+    }
+  }
+
+  return updates;
+}
+
+async function runPoll(): Promise<TrackedTransaction[]> {
+  const pending = listTrackedTxs({ status: 'pending' });
+  if (pending.length === 0) return [];
+
+  const byChain = new Map<SupportedChain, TrackedTransaction[]>();
+  for (const tx of pending) {
+    byChain.set(tx.chain, [...(byChain.get(tx.chain) ?? []), tx]);
+  }
+
+  const updates = (await Promise.all([...byChain].map(async ([chain, txs]) => {
+    try {
+      return await checkChain(chain, txs);
+    } catch (error) {
+      console.error(`[watcher] Check failed on ${chain}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }))).flat();
+
+  const changed = updateTrackedTxs(updates);
+  for (const tx of changed) {
+    console.error(`[watcher] ${tx.id} ${tx.status}: ${tx.txHash}`);
+    for (const listener of listeners) {
+      try {
+        listener(tx);
+      } catch (error) {
+        console.error('[watcher] Listener failed:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+  return changed;
+}
+
+/**
+ * Check pending transactions now. Concurrent calls share one poll.
+ * Returns the records whose status changed.
+ */
+export function pollTrackedTxs(): Promise<TrackedTransaction[]> {
+  if (pollInFlight) return pollInFlight;
+
+  pollInFlight = runPoll().finally(() => {
+    pollInFlight = null;
+  });
+  return pollInFlight;
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+/**
+ * Be told when a tracked transaction confirms, reverts, or is replaced.
+ * Returns an unsubscribe function.
+ */
+export function onTxSettled(listener: TxSettledListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Start background polling. Safe to call more than once.
+ *
+ * The timer is unref'd so it never keeps the process alive on its own.
+ */
+export function startTxWatcher(intervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+  if (pollTimer) return;
+
+  const tick = () => {
+    pollTrackedTxs().catch((error) => {
+      console.error('[watcher] Poll failed:', error instanceof Error ? error.message : error);
+    });
+  };
+
+  tick();
+  pollTimer = setInterval(tick, intervalMs);
+  pollTimer.unref?.();
+}
+
+/**
+ * Stop background polling
+ */
+export function stopTxWatcher(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * One-line summary of a settled transaction (for notifications)
+ */
+export function formatTxSettled(tx: TrackedTransaction): string {
+  const what = tx.description ? `${tx.description} (${tx.id})` : tx.id;
+  switch (tx.status) {
+    case 'confirmed':
+      return `✅ ${what} confirmed on ${tx.chain} in block ${tx.blockNumber}`;
+    case 'reverted':
+      return `❌ ${what} reverted on ${tx.chain} in block ${tx.blockNumber}`;
+    case 'replaced':
+      return `🔁 ${what} was replaced on ${tx.chain}${tx.replacedBy ? ` by ${tx.replacedBy}` : ''}`;
+    default:
+      return `⏳ ${what} is pending on ${tx.chain}`;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Agent Identity Storage
+ *
+ * Remembers the ERC-8004 agent minted by work_register so the work tools
+ * can default to it (e.g. work_claim without an explicit agentId).
+ *
+ * Storage: ~/.clara/agent.json — keyed by wallet address, since a machine
+ * may switch wallets via `clara-mcp setup`.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+const CLARA_DIR = join(homedir(), '.clara');
+const AGENT_FILE = join(CLARA_DIR, 'agent.json');
+
+/**
+ * A registered agent identity
+ */
+export interface AgentRecord {
+  /** ERC-8004 token ID (decimal string) */
+  agentId: string;
+  /** Owning wallet address (lowercase) */
+  address: string;
+  name: string;
+  /** IdentityRegistry the agent was minted in */
+  registry: string;
+  chainId: number;
+  /** tokenURI stored on-chain (data: URI or pinned URI) */
+  registrationURI: string;
+  /** Linked claraid.eth label, if any */
+  ensName?: string;
+  txHash: string;
+  /** ISO timestamp */
+  registeredAt: string;
+}
+
+type AgentFile = Record<string, AgentRecord>;
+
+function loadAgentFile(): AgentFile {
+  if (!existsSync(AGENT_FILE)) return {};
+  try {
+    const parsed = JSON.parse(readFileSync(AGENT_FILE, 'utf-8'));
+    return parsed && typeof parsed === 'object' ? (parsed as AgentFile) : {};
+  } catch (error) {
+    console.error('[clara] Failed to read agent.json:', error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+/**
+ * Get the stored agent for a wallet, if any
+ */
+export function getAgentRecord(address: string): AgentRecord | null {
+  return loadAgentFile()[address.toLowerCase()] ?? null;
+}
+
+/**
+ * Store (or replace) the agent for a wallet
+ */
+export function saveAgentRecord(record: AgentRecord): void {
+  if (!existsSync(CLARA_DIR)) {
+    mkdirSync(CLARA_DIR, { recursive: true, mode: 0o700 });
+  }
+  const file = loadAgentFile();
+  file[record.address.toLowerCase()] = { ...record, address: record.address.toLowerCase() };
+  writeFileSync(AGENT_FILE, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
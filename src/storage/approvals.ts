@@ -0,0 +1,167 @@
+/**
+ * Spending Approvals
+ *
+ * Payments above the `requireApprovalAbove` spending limit wait for a
+ * human. Each request gets a one-time ID (`apr_` + 8 hex chars) and a
+ * record here; the human decides it through MCP elicitation or with
+ * `clara-mcp approve <id>`, and the tool that asked consumes it once:
+ *
+ *   pending ──▶ approved ──▶ used
+ *      │           │
+ *      └───────────┴──▶ denied | expired
+ *
+ * An approval covers one `subject` only (e.g. the prepared transaction ID
+ * or the exact send), so it can't be replayed for a different payment.
+ *
+ * Storage: ~/.clara/approvals/<id>.json (override with CLARA_APPROVALS_DIR),
+ * one file per request so the CLI and the server never rewrite each
+ * other's records. Decided records are kept as an audit trail.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { SupportedChain } from '../config/chains.js';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired' | 'used';
+
+/** How the human answered */
+export type ApprovalMethod = 'elicitation' | 'cli';
+
+/**
+ * A payment waiting for (or given) human approval
+ */
+export interface ApprovalRequest {
+  id: string;
+  /** What the approval covers; must match when it's used */
+  subject: string;
+  /** e.g. "Send 25 USDC on base" */
+  description: string;
+  amountUsd: string;
+  /** Amounts with no USD price, e.g. "5 FOO"; not counted in amountUsd */
+  unpriced?: string[];
+  recipient: string;
+  chain: SupportedChain;
+  status: ApprovalStatus;
+  /** ISO timestamps */
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  method?: ApprovalMethod;
+}
+
+/** Requests (and unused approvals) lapse after this long */
+const APPROVAL_TTL_MS = 15 * 60 * 1000;
+
+function getApprovalsDir(): string {
+  return process.env.CLARA_APPROVALS_DIR || join(homedir(), '.clara', 'approvals');
+}
+
+function recordPath(id: string): string {
+  return join(getApprovalsDir(), `${id}.json`);
+}
+
+/**
+ * Whether a string has the shape of an approval ID
+ */
+export function isApprovalId(id: string): boolean {
+  return /^apr_[0-9a-f]{8}$/.test(id);
+}
+
+function save(record: ApprovalRequest): void {
+  const dir = getApprovalsDir();
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const path = recordPath(record.id);
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(record, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+function read(id: string): ApprovalRequest | null {
+  // IDs come from tool input and the command line — keep them in the directory
+  if (!isApprovalId(id)) return null;
+
+  const path = recordPath(id);
+  if (!existsSync(path)) return null;
+  try {
+    const record = JSON.parse(readFileSync(path, 'utf-8')) as ApprovalRequest;
+    if ((record.status === 'pending' || record.status === 'approved') && Date.now() > Date.parse(record.expiresAt)) {
+      record.status = 'expired';
+      save(record);
+    }
+    return record;
+  } catch (error) {
+    console.error(`[approvals] Unreadable record ${id}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Open a pending approval request
+ */
+export function createApproval(
+  request: Pick<ApprovalRequest, 'subject' | 'description' | 'amountUsd' | 'unpriced' | 'recipient' | 'chain'>,
+): ApprovalRequest {
+  const now = Date.now();
+  const record: ApprovalRequest = {
+    ...request,
+    id: `apr_${randomBytes(4).toString('hex')}`,
+    status: 'pending',
+    requestedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + APPROVAL_TTL_MS).toISOString(),
+  };
+  save(record);
+  return record;
+}
+
+/**
+ * Look up a request (lapsed ones come back as expired)
+ */
+export function getApproval(id: string): ApprovalRequest | null {
+  return read(id);
+}
+
+/**
+ * Requests, newest first
+ */
+export function listApprovals(options: { status?: ApprovalStatus } = {}): ApprovalRequest[] {
+  const dir = getApprovalsDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => read(file.slice(0, -'.json'.length)))
+    .filter((r): r is ApprovalRequest => r !== null)
+    .filter((r) => !options.status || r.status === options.status)
+    .sort((a, b) => Date.parse(b.requestedAt) - Date.parse(a.requestedAt));
+}
+
+/**
+ * Record the human's answer to a pending request.
+ * Returns null if the request doesn't exist or is no longer pending.
+ */
+export function decideApproval(
+  id: string,
+  decision: 'approved' | 'denied',
+  method: ApprovalMethod,
+): ApprovalRequest | null {
+  const record = read(id);
+  if (!record || record.status !== 'pending') return null;
+  record.status = decision;
+  record.method = method;
+  record.decidedAt = new Date().toISOString();
+  save(record);
+  return record;
+}
+
+/**
+ * Use up an approval. Returns null unless it was approved and unused.
+ */
+export function consumeApproval(id: string): ApprovalRequest | null {
+  const record = read(id);
+  if (!record || record.status !== 'approved') return null;
+  record.status = 'used';
+  save(record);
+  return record;
+}
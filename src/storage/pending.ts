@@ -0,0 +1,156 @@
+/**
+ * Pending Transaction Registry
+ *
+ * Every transaction sent through signAndSendTransaction is recorded here
+ * under `{chainId}:{address}:{nonce}` until the chain's nonce moves past
+ * it. That is what wallet_pending needs to speed up or cancel a stuck
+ * transaction: the original fees (replacements must outbid them) and the
+ * call itself (a speed-up resends it unchanged).
+ *
+ * Sending again at a recorded nonce replaces the entry; the earlier hash
+ * is kept in `replaced`, since either one may end up mined.
+ *
+ * Storage: ~/.clara/pending.json, written under a file lock so two
+ * Clara processes sending from one wallet don't drop each other's entries.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { Hex } from 'viem';
+import { withFileLock } from '../utils/file-lock.js';
+
+/**
+ * A sent transaction whose nonce hasn't been confirmed yet.
+ * Amounts are decimal wei strings.
+ */
+export interface PendingTransaction {
+  chainId: number;
+  /** Sender, lowercase */
+  address: string;
+  nonce: number;
+  txHash: Hex;
+  to: Hex;
+  value: string;
+  data?: Hex;
+  gas?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  /** ISO timestamp of the latest send at this nonce */
+  submittedAt: string;
+  /** Earlier hashes at this nonce (speed-ups and cancels), oldest first */
+  replaced?: Hex[];
+}
+
+interface PendingFile {
+  transactions: Record<string, PendingTransaction>;
+}
+
+// Entries nobody cleared (e.g. a chain that's never queried again) are dropped after this
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+function getPendingFile(): string {
+  return process.env.CLARA_PENDING_FILE || join(homedir(), '.clara', 'pending.json');
+}
+
+/**
+ * Registry key for a nonce slot
+ */
+export function pendingKey(chainId: number, address: string, nonce: number): string {
+  return `${chainId}:${address.toLowerCase()}:${nonce}`;
+}
+
+function load(): PendingFile {
+  const file = getPendingFile();
+  if (!existsSync(file)) {
+    return { transactions: {} };
+  }
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8')) as PendingFile;
+    return { transactions: data.transactions || {} };
+  } catch (error) {
+    console.error('[pending] Failed to load pending transactions, starting empty:', error);
+    return { transactions: {} };
+  }
+}
+
+function save(data: PendingFile): void {
+  const file = getPendingFile();
+  mkdirSync(dirname(file), { recursive: true, mode: 0o700 });
+
+  const cutoff = Date.now() - MAX_AGE_MS;
+  for (const [key, tx] of Object.entries(data.transactions)) {
+    if (Date.parse(tx.submittedAt) < cutoff) {
+      delete data.transactions[key];
+    }
+  }
+
+  const tmp = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  renameSync(tmp, file);
+}
+
+/**
+ * Record a send. A send at an already-recorded nonce is a replacement.
+ */
+export function recordPendingTx(tx: Omit<PendingTransaction, 'submittedAt' | 'replaced'>): PendingTransaction {
+  return withFileLock(getPendingFile(), () => {
+    const data = load();
+    const key = pendingKey(tx.chainId, tx.address, tx.nonce);
+    const previous = data.transactions[key];
+
+    const entry: PendingTransaction = {
+      ...tx,
+      address: tx.address.toLowerCase(),
+      submittedAt: new Date().toISOString(),
+    };
+    if (previous && previous.txHash !== tx.txHash) {
+      entry.replaced = [...(previous.replaced ?? []), previous.txHash];
+    }
+
+    data.transactions[key] = entry;
+    save(data);
+    return entry;
+  });
+}
+
+/**
+ * Look up the transaction recorded at a nonce
+ */
+export function getPendingTx(chainId: number, address: string, nonce: number): PendingTransaction | null {
+  return load().transactions[pendingKey(chainId, address, nonce)] ?? null;
+}
+
+/**
+ * Recorded transactions for an address, by chain then nonce
+ */
+export function listPendingTxs(address: string, chainId?: number): PendingTransaction[] {
+  const owner = address.toLowerCase();
+  return Object.values(load().transactions)
+    .filter((tx) => tx.address === owner && (chainId === undefined || tx.chainId === chainId))
+    .sort((a, b) => a.chainId - b.chainId || a.nonce - b.nonce);
+}
+
+/**
+ * Drop entries below the chain's confirmed nonce (one of their hashes was
+ * mined). Returns the dropped entries.
+ */
+export function clearConfirmedTxs(chainId: number, address: string, confirmedNonce: number): PendingTransaction[] {
+  return withFileLock(getPendingFile(), () => {
+    const data = load();
+    const owner = address.toLowerCase();
+    const cleared: PendingTransaction[] = [];
+
+    for (const [key, tx] of Object.entries(data.transactions)) {
+      if (tx.chainId === chainId && tx.address === owner && tx.nonce < confirmedNonce) {
+        cleared.push(tx);
+        delete data.transactions[key];
+      }
+    }
+
+    if (cleared.length > 0) {
+      save(data);
+    }
+    return cleared;
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * Spending Policy Storage
+ *
+ * Declarative rules on top of the three global limits in spending.json,
+ * written by hand in ~/.clara/policy.json (override with CLARA_POLICY_FILE):
+ *
+ * {
+ *   "recipients": { "allow": ["brian.claraid.eth", "0x..."], "block": ["0x..."] },
+ *   "total":      { "perWeek": "50", "perMonth": "150" },
+ *   "tokens":     { "USDC": { "perDay": "25" }, "ETH": { "perTransaction": "5" } },
+ *   "chains":     { "ethereum": { "perDay": "5" } },
+ *   "tools":      { "wallet_send": { "perDay": "10" } },
+ *   "calls":      { "allow": [{ "functions": ["approve"], "spenders": ["0x2626..."] }] },
+ *   "hours":      { "from": "09:00", "to": "18:00", "days": ["mon", "tue", "wed", "thu", "fri"] }
+ * }
+ *
+ * Every section is optional; a missing file means no policy. Caps are USD
+ * strings like the limits in spending.json. The file is only read here —
+ * services/policy.ts evaluates it.
+ *
+ * Unlike spending.json, a policy that can't be read doesn't fall back to
+ * defaults: a silently dropped blocklist is worse than a blocked payment,
+ * so loadSpendingPolicy throws and every payment is refused until it's fixed.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { isSupportedChain, type SupportedChain } from '../config/chains.js';
+
+function getPolicyFile(): string {
+  return process.env.CLARA_POLICY_FILE || join(homedir(), '.clara', 'policy.json');
+}
+
+/**
+ * USD caps for one scope. Windows are rolling: 24 hours, 7 days, 30 days.
+ */
+export interface PolicyCaps {
+  perTransaction?: string;
+  perDay?: string;
+  perWeek?: string;
+  perMonth?: string;
+}
+
+const CAP_KEYS = ['perTransaction', 'perDay', 'perWeek', 'perMonth'] as const;
+
+/**
+ * Calls a rule allows in wallet_call / wallet_executePrepared
+ */
+export interface CallRule {
+  /** Contract address or name (default: any contract) */
+  contract?: string;
+  /** Function names ("approve"), signatures ("approve(address,uint256)"), or selectors ("0x095ea7b3") */
+  functions: string[];
+  /** For approve: the only spenders it may grant an allowance to */
+  spenders?: string[];
+}
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+/**
+ * When payments are allowed. `from` after `to` spans midnight.
+ */
+export interface TimeWindow {
+  /** "HH:MM", 24-hour */
+  from: string;
+  to: string;
+  /** Default: every day */
+  days?: Weekday[];
+  /** IANA time zone (default: the machine's) */
+  timezone?: string;
+}
+
+export interface SpendingPolicy {
+  /** Addresses or names (claraid.eth, ENS). With an allowlist, nothing else can be paid. */
+  recipients?: { allow?: string[]; block?: string[] };
+  /** Across everything, alongside maxPerDay in spending.json */
+  total?: PolicyCaps;
+  /** By token symbol ("USDC", "ETH") or address, across chains */
+  tokens?: Record<string, PolicyCaps>;
+  chains?: Partial<Record<SupportedChain, PolicyCaps>>;
+  /** By tool name ("wallet_send", "wallet_executePrepared", "work_post", ...) */
+  tools?: Record<string, PolicyCaps>;
+  /** With an allowlist, contract calls must match one of its rules */
+  calls?: { allow: CallRule[] };
+  hours?: TimeWindow;
+}
+
+// ─── Validation ──────────────────────────────────────────
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.trim() !== '');
+}
+
+function validateCaps(caps: unknown, path: string): string | null {
+  if (!caps || typeof caps !== 'object') return `${path} must be an object`;
+  for (const [key, value] of Object.entries(caps)) {
+    if (!(CAP_KEYS as readonly string[]).includes(key)) return `${path}.${key} isn't a cap (use ${CAP_KEYS.join(', ')})`;
+    if (typeof value !== 'string' || isNaN(parseFloat(value)) || parseFloat(value) < 0) {
+      return `${path}.${key} must be a USD amount string like "10.00"`;
+    }
+  }
+  return null;
+}
+
+function validateCapMap(map: unknown, path: string): string | null {
+  if (!map || typeof map !== 'object') return `${path} must be an object`;
+  for (const [key, caps] of Object.entries(map)) {
+    const error = validateCaps(caps, `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * First problem with a parsed policy file, or null if it's usable
+ */
+function validateSpendingPolicy(policy: unknown): string | null {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) return 'the file must hold a JSON object';
+  const p = policy as SpendingPolicy;
+
+  if (p.recipients !== undefined) {
+    for (const list of ['allow', 'block'] as const) {
+      if (p.recipients[list] !== undefined && !isStringArray(p.recipients[list])) {
+        return `recipients.${list} must be a list of addresses or names`;
+      }
+    }
+  }
+  if (p.total !== undefined) {
+    const error = validateCaps(p.total, 'total');
+    if (error) return error;
+  }
+  for (const section of ['tokens', 'chains', 'tools'] as const) {
+    if (p[section] === undefined) continue;
+    const error = validateCapMap(p[section], section);
+    if (error) return error;
+  }
+  const unknownChain = Object.keys(p.chains ?? {}).find((chain) => !isSupportedChain(chain));
+  if (unknownChain) return `chains.${unknownChain} isn't a supported chain`;
+
+  if (p.calls !== undefined) {
+    if (!Array.isArray(p.calls.allow)) return 'calls.allow must be a list of rules';
+    for (const [i, rule] of p.calls.allow.entries()) {
+      if (!isStringArray(rule?.functions)) return `calls.allow[${i}].functions must be a list of functions`;
+      if (rule.contract !== undefined && typeof rule.contract !== 'string') return `calls.allow[${i}].contract must be an address or name`;
+      if (rule.spenders !== undefined && !isStringArray(rule.spenders)) return `calls.allow[${i}].spenders must be a list of addresses or names`;
+    }
+  }
+
+  if (p.hours !== undefined) {
+    if (!TIME.test(p.hours.from ?? '') || !TIME.test(p.hours.to ?? '')) return 'hours.from and hours.to must be "HH:MM" (24-hour)';
+    if (p.hours.days !== undefined && !(Array.isArray(p.hours.days) && p.hours.days.every((d) => WEEKDAYS.includes(d)))) {
+      return `hours.days must list days as ${WEEKDAYS.join(', ')}`;
+    }
+    if (p.hours.timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: p.hours.timezone });
+      } catch {
+        return `hours.timezone "${p.hours.timezone}" isn't a known time zone`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the spending policy (null if there's no policy file)
+ *
+ * @throws Error if the file can't be read or isn't a valid policy
+ */
+export function loadSpendingPolicy(): SpendingPolicy | null {
+  const file = getPolicyFile();
+  if (!existsSync(file)) return null;
+
+  let policy: unknown;
+  try {
+    policy = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${file} isn't valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+  const problem = validateSpendingPolicy(policy);
+  if (problem) {
+    throw new Error(`${file}: ${problem}`);
+  }
+  return policy as SpendingPolicy;
+}
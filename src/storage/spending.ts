@@ -5,7 +5,7 @@
  * accidental large payments. This is crucial for AI agents
  * that can make payments without human approval.
  *
- * Storage: ~/.clara/spending.json
+ * Storage: ~/.clara/spending.json (also holds the per-chain gas policies)
  *
  * Design principles:
  * - Fail-safe: If storage is corrupted, use conservative defaults
@@ -15,10 +15,13 @@
 
 import { readFileSync, writeFileSync, mkdirSync, chmodSync, existsSync, statSync } from 'fs';
 import { homedir } from 'os';
-import { join } from 'path';
+import { dirname, join } from 'path';
+import type { SupportedChain } from '../config/chains.js';
+import type { ApprovalMethod } from './approvals.js';
 
-const CLARA_DIR = join(homedir(), '.clara');
-const SPENDING_FILE = join(CLARA_DIR, 'spending.json');
+function getSpendingFile(): string {
+  return process.env.CLARA_SPENDING_FILE || join(homedir(), '.clara', 'spending.json');
+}
 
 /**
  * Spending limit configuration
@@ -52,6 +55,59 @@ export interface SpendingRecord {
   txHash?: string;
   /** Payment ID from the x402 protocol */
   paymentId: string;
+  /** Who approved it, for payments above requireApprovalAbove */
+  approval?: SpendingApproval;
+  /** Tool that made the payment (for per-tool policy caps) */
+  tool?: string;
+  /** What was sent, by token (for per-token policy caps) */
+  tokens?: SpendingToken[];
+  /**
+   * Amounts sent without a USD price, e.g. "0.011 WETH". Not counted in
+   * amountUsd; a human approved them (see `approval`).
+   */
+  unpriced?: string[];
+}
+
+/**
+ * One token's share of a payment
+ */
+export interface SpendingToken {
+  /** Token address, or "native" */
+  token: string;
+  symbol: string;
+  amountUsd: string;
+}
+
+/**
+ * A human's approval of one payment (see storage/approvals.ts)
+ */
+export interface SpendingApproval {
+  /** Approval ID (apr_...) */
+  id: string;
+  method: ApprovalMethod;
+  /** ISO timestamp */
+  approvedAt: string;
+}
+
+/**
+ * How aggressively to price gas: slow saves money, fast lands sooner
+ */
+export type GasUrgency = 'slow' | 'normal' | 'fast';
+
+/**
+ * Per-chain gas policy. Amounts are decimal strings like the limits above.
+ */
+export interface GasPolicy {
+  /** Default urgency tier when a tool doesn't ask for one */
+  urgency: GasUrgency;
+  /** Ceiling on maxFeePerGas, in gwei */
+  maxFeeGwei?: string;
+  /** Ceiling on worst-case gas cost per transaction (gas limit × max fee), in native units */
+  maxGasNative?: string;
+  /** Same ceiling in USD */
+  maxGasUsd?: string;
+  /** Fixed native token price for maxGasUsd (default: the price oracle) */
+  nativePriceUsd?: string;
 }
 
 /**
@@ -60,14 +116,31 @@ export interface SpendingRecord {
 export interface SpendingConfig {
   limits: SpendingLimits;
   history: SpendingRecord[];
+  /** Overrides of DEFAULT_GAS_POLICIES, by chain */
+  gasPolicies?: Partial<Record<SupportedChain, Partial<GasPolicy>>>;
 }
 
+/**
+ * Days of history kept: covers the policy's 30-day caps and the longest
+ * wallet_spending export
+ */
+export const HISTORY_RETENTION_DAYS = 90;
+
 const DEFAULT_LIMITS: SpendingLimits = {
   maxPerTransaction: '1.00',
   maxPerDay: '10.00',
   requireApprovalAbove: '0.50',
 };
 
+// Caps sit well above normal conditions; they exist to stop spikes
+const DEFAULT_GAS_POLICIES: Record<SupportedChain, GasPolicy> = {
+  ethereum: { urgency: 'normal', maxFeeGwei: '100', maxGasNative: '0.05' },
+  base: { urgency: 'normal', maxFeeGwei: '10', maxGasNative: '0.005' },
+  arbitrum: { urgency: 'normal', maxFeeGwei: '10', maxGasNative: '0.005' },
+  optimism: { urgency: 'normal', maxFeeGwei: '10', maxGasNative: '0.005' },
+  polygon: { urgency: 'normal', maxFeeGwei: '1000', maxGasNative: '2' },
+};
+
 const DEFAULT_CONFIG: SpendingConfig = {
   limits: DEFAULT_LIMITS,
   history: [],
@@ -77,14 +150,15 @@ const DEFAULT_CONFIG: SpendingConfig = {
  * Ensure the Clara config directory exists
  */
 function ensureDir(): void {
-  if (!existsSync(CLARA_DIR)) {
-    mkdirSync(CLARA_DIR, { recursive: true, mode: 0o700 });
+  const claraDir = dirname(getSpendingFile());
+  if (!existsSync(claraDir)) {
+    mkdirSync(claraDir, { recursive: true, mode: 0o700 });
   } else {
     // Repair permissions on existing directories (may be world-readable from older versions)
-    const stats = statSync(CLARA_DIR);
+    const stats = statSync(claraDir);
     const currentMode = stats.mode & 0o777;
     if (currentMode !== 0o700) {
-      chmodSync(CLARA_DIR, 0o700);
+      chmodSync(claraDir, 0o700);
     }
   }
 }
@@ -96,20 +170,21 @@ function ensureDir(): void {
  */
 export function loadSpendingConfig(): SpendingConfig {
   ensureDir();
+  const spendingFile = getSpendingFile();
 
-  if (!existsSync(SPENDING_FILE)) {
+  if (!existsSync(spendingFile)) {
     return { ...DEFAULT_CONFIG, history: [] };
   }
 
   // Repair file permissions if too open (older versions wrote 0o644)
-  const fileStats = statSync(SPENDING_FILE);
+  const fileStats = statSync(spendingFile);
   const fileMode = fileStats.mode & 0o777;
   if (fileMode !== 0o600) {
-    chmodSync(SPENDING_FILE, 0o600);
+    chmodSync(spendingFile, 0o600);
   }
 
   try {
-    const data = readFileSync(SPENDING_FILE, 'utf-8');
+    const data = readFileSync(spendingFile, 'utf-8');
     const config = JSON.parse(data) as SpendingConfig;
 
     // Ensure all required fields exist (handles config migrations)
@@ -119,6 +194,7 @@ export function loadSpendingConfig(): SpendingConfig {
         ...config.limits,
       },
       history: config.history || [],
+      gasPolicies: config.gasPolicies,
     };
   } catch (error) {
     console.error('Failed to load spending config, using defaults:', error);
@@ -131,7 +207,7 @@ export function loadSpendingConfig(): SpendingConfig {
  */
 export function saveSpendingConfig(config: SpendingConfig): void {
   ensureDir();
-  writeFileSync(SPENDING_FILE, JSON.stringify(config, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  writeFileSync(getSpendingFile(), JSON.stringify(config, null, 2), { encoding: 'utf-8', mode: 0o600 });
 }
 
 /**
@@ -141,6 +217,37 @@ export function getSpendingLimits(): SpendingLimits {
   return loadSpendingConfig().limits;
 }
 
+export const LIMIT_KEYS = ['maxPerTransaction', 'maxPerDay', 'requireApprovalAbove'] as const;
+
+/**
+ * Parse a limit given as a USD amount ("5", "2.50", 5) into the stored
+ * "5.00" form. Null if it isn't a non-negative amount.
+ */
+export function normalizeLimitAmount(value: unknown): string | null {
+  const amount = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+  if (!Number.isFinite(amount) || amount < 0 || (typeof value === 'string' && value.trim() === '')) {
+    return null;
+  }
+  return amount.toFixed(2);
+}
+
+/**
+ * Which of the requested limits are higher than the current ones.
+ *
+ * A higher limit — the approval threshold included — lets more through
+ * without a human, so raising needs a confirmation from the CLI;
+ * lowering never does.
+ */
+export function raisedSpendingLimits(
+  changes: Partial<SpendingLimits>,
+  current: SpendingLimits = getSpendingLimits(),
+): (keyof SpendingLimits)[] {
+  return LIMIT_KEYS.filter((key) => {
+    const requested = changes[key];
+    return requested !== undefined && parseFloat(requested) > parseFloat(current[key]);
+  });
+}
+
 /**
  * Update spending limits
  */
@@ -154,6 +261,29 @@ export function setSpendingLimits(limits: Partial<SpendingLimits>): SpendingLimi
   return config.limits;
 }
 
+/**
+ * Gas policy for a chain: the defaults with any configured overrides
+ */
+export function getGasPolicy(chain: SupportedChain): GasPolicy {
+  return {
+    ...DEFAULT_GAS_POLICIES[chain],
+    ...loadSpendingConfig().gasPolicies?.[chain],
+  };
+}
+
+/**
+ * Update the gas policy for a chain
+ */
+export function setGasPolicy(chain: SupportedChain, policy: Partial<GasPolicy>): GasPolicy {
+  const config = loadSpendingConfig();
+  config.gasPolicies = {
+    ...config.gasPolicies,
+    [chain]: { ...config.gasPolicies?.[chain], ...policy },
+  };
+  saveSpendingConfig(config);
+  return getGasPolicy(chain);
+}
+
 /**
  * Record a spending event
  */
@@ -161,10 +291,10 @@ export function recordSpending(record: SpendingRecord): void {
   const config = loadSpendingConfig();
   config.history.push(record);
 
-  // Keep only last 1000 records to prevent unbounded growth
-  if (config.history.length > 1000) {
-    config.history = config.history.slice(-1000);
-  }
+  // Drop records older than the retention window (by age, not count, so
+  // a busy month can't push records out from under the 30-day caps)
+  const cutoff = Date.now() - HISTORY_RETENTION_DAYS * 86_400_000;
+  config.history = config.history.filter((r) => new Date(r.timestamp).getTime() >= cutoff);
 
   saveSpendingConfig(config);
 }
@@ -173,8 +303,9 @@ export function recordSpending(record: SpendingRecord): void {
  * Get spending history
  *
  * @param days - Number of days to look back (default: 7)
+ * @param recipient - Only payments to this address
  */
-export function getSpendingHistory(days: number = 7): SpendingRecord[] {
+export function getSpendingHistory(days: number = 7, recipient?: string): SpendingRecord[] {
   const config = loadSpendingConfig();
   const cutoff = new Date();
   cutoff.setDate(cutoff.getDate() - days);
@@ -182,6 +313,9 @@ export function getSpendingHistory(days: number = 7): SpendingRecord[] {
 
   return config.history.filter((record) => {
     const recordTime = new Date(record.timestamp).getTime();
+    if (recipient && record.recipient.toLowerCase() !== recipient.toLowerCase()) {
+      return false;
+    }
     return recordTime >= cutoffTime;
   });
 }
@@ -278,16 +412,19 @@ export function formatSpendingSummary(): string {
 
 /**
  * Format recent spending history for display
+ *
+ * @param recipient - Only payments to this address
  */
-export function formatSpendingHistory(days: number = 7): string {
-  const history = getSpendingHistory(days);
+export function formatSpendingHistory(days: number = 7, recipient?: string): string {
+  const history = getSpendingHistory(days, recipient);
+  const to = recipient ? ` to ${recipient}` : '';
 
   if (history.length === 0) {
-    return `No spending in the last ${days} days.`;
+    return `No spending${to} in the last ${days} days.`;
   }
 
   const lines = [
-    `📜 Spending History (last ${days} days)`,
+    `📜 Spending History${to} (last ${days} days)`,
     '─────────────────────────────────────',
   ];
 
@@ -308,9 +445,63 @@ export function formatSpendingHistory(days: number = 7): string {
     for (const record of records) {
       const time = record.timestamp.split('T')[1].split('.')[0];
       const desc = record.description || new URL(record.url).hostname;
-      lines.push(`  ${time}  $${record.amountUsd}  ${desc}`);
+      const approval = record.approval ? `  (approved ${record.approval.id} via ${record.approval.method})` : '';
+      const unpriced = record.unpriced?.length ? ` + ${record.unpriced.join(' + ')} (no USD price)` : '';
+      lines.push(`  ${time}  $${record.amountUsd}${unpriced}  ${desc}${approval}`);
     }
   }
 
   return lines.join('\n');
 }
+
+export type SpendingExportFormat = 'csv' | 'json';
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'amountUsd',
+  'recipient',
+  'description',
+  'chainId',
+  'txHash',
+  'tool',
+  'tokens',
+  'approvalId',
+  'approvalMethod',
+  'unpriced',
+] as const;
+
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  // Descriptions can come from bounty posters; keep spreadsheets from running them as formulas
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Spending records as CSV (one row per payment) or JSON (the stored records)
+ */
+export function formatSpendingExport(records: SpendingRecord[], format: SpendingExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(records, null, 2);
+  }
+
+  const rows = records.map((record) => {
+    const row: Record<(typeof CSV_COLUMNS)[number], string | number | undefined> = {
+      timestamp: record.timestamp,
+      amountUsd: record.amountUsd,
+      recipient: record.recipient,
+      description: record.description,
+      chainId: record.chainId,
+      txHash: record.txHash,
+      tool: record.tool,
+      tokens: record.tokens?.map((t) => `${t.symbol}:${t.amountUsd}`).join(' '),
+      approvalId: record.approval?.id,
+      approvalMethod: record.approval?.method,
+      unpriced: record.unpriced?.join(' '),
+    };
+    return CSV_COLUMNS.map((column) => csvField(row[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,167 @@
+/**
+ * Tracked Transactions
+ *
+ * Every send gets a tracking ID (`trk_` + the start of its hash) and a
+ * record here. The transaction watcher moves records from `pending` to
+ * `confirmed`, `reverted`, or `replaced` (another transaction took the
+ * nonce — a speed-up, a cancel, or a send from elsewhere), and
+ * wallet_tx_status reads them.
+ *
+ * Storage: ~/.clara/transactions.json, updated under a file lock since
+ * every Clara process sharing the wallet writes to it.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { Hex } from 'viem';
+import type { SupportedChain } from '../config/chains.js';
+import { withFileLock } from '../utils/file-lock.js';
+
+export type TrackedStatus = 'pending' | 'confirmed' | 'reverted' | 'replaced';
+
+/**
+ * A sent transaction and what became of it
+ */
+export interface TrackedTransaction {
+  id: string;
+  chain: SupportedChain;
+  chainId: number;
+  /** Sender, lowercase */
+  from: string;
+  nonce: number;
+  txHash: Hex;
+  /** What the transaction does, e.g. "Send 10 USDC" */
+  description?: string;
+  status: TrackedStatus;
+  /** ISO timestamps */
+  submittedAt: string;
+  updatedAt: string;
+  /** Set once mined (decimal strings) */
+  blockNumber?: string;
+  gasUsed?: string;
+  /** Hash of the transaction that took this nonce instead, when known */
+  replacedBy?: Hex;
+}
+
+interface TrackedFile {
+  transactions: Record<string, TrackedTransaction>;
+}
+
+// Settled records are kept this long, up to MAX_RECORDS
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 500;
+
+function getTrackedFile(): string {
+  return process.env.CLARA_TX_FILE || join(homedir(), '.clara', 'transactions.json');
+}
+
+/**
+ * Tracking ID for a transaction hash
+ */
+export function trackingIdFor(txHash: string): string {
+  return `trk_${txHash.slice(2, 14).toLowerCase()}`;
+}
+
+function load(): TrackedFile {
+  const file = getTrackedFile();
+  if (!existsSync(file)) {
+    return { transactions: {} };
+  }
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8')) as TrackedFile;
+    return { transactions: data.transactions || {} };
+  } catch (error) {
+    console.error('[tracked] Failed to load tracked transactions, starting empty:', error);
+    return { transactions: {} };
+  }
+}
+
+function save(data: TrackedFile): void {
+  const file = getTrackedFile();
+  mkdirSync(dirname(file), { recursive: true, mode: 0o700 });
+
+  // Prune settled records past retention, then the oldest beyond the cap
+  const cutoff = Date.now() - RETENTION_MS;
+  const settled = Object.values(data.transactions)
+    .filter((tx) => tx.status !== 'pending')
+    .sort((a, b) => Date.parse(b.submittedAt) - Date.parse(a.submittedAt));
+  settled.forEach((tx, i) => {
+    if (Date.parse(tx.submittedAt) < cutoff || i >= MAX_RECORDS) {
+      delete data.transactions[tx.id];
+    }
+  });
+
+  const tmp = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  renameSync(tmp, file);
+}
+
+/**
+ * Start tracking a just-sent transaction
+ */
+export function trackTransaction(
+  tx: Omit<TrackedTransaction, 'id' | 'status' | 'submittedAt' | 'updatedAt'>,
+): TrackedTransaction {
+  return withFileLock(getTrackedFile(), () => {
+    const data = load();
+    const now = new Date().toISOString();
+    const record: TrackedTransaction = {
+      ...tx,
+      id: trackingIdFor(tx.txHash),
+      from: tx.from.toLowerCase(),
+      status: 'pending',
+      submittedAt: now,
+      updatedAt: now,
+    };
+    data.transactions[record.id] = record;
+    save(data);
+    return record;
+  });
+}
+
+/**
+ * Look up by tracking ID or transaction hash
+ */
+export function getTrackedTx(idOrHash: string): TrackedTransaction | null {
+  const id = idOrHash.startsWith('trk_') ? idOrHash.toLowerCase() : trackingIdFor(idOrHash);
+  const tx = load().transactions[id];
+  // A hash prefix match isn't enough when looking up by hash
+  if (tx && !idOrHash.startsWith('trk_') && tx.txHash.toLowerCase() !== idOrHash.toLowerCase()) {
+    return null;
+  }
+  return tx ?? null;
+}
+
+/**
+ * Tracked transactions, newest first
+ */
+export function listTrackedTxs(options: { status?: TrackedStatus; limit?: number } = {}): TrackedTransaction[] {
+  const records = Object.values(load().transactions)
+    .filter((tx) => !options.status || tx.status === options.status)
+    .sort((a, b) => Date.parse(b.submittedAt) - Date.parse(a.submittedAt));
+  return options.limit ? records.slice(0, options.limit) : records;
+}
+
+/**
+ * Apply watcher results in one write
+ */
+export function updateTrackedTxs(
+  updates: Array<{ id: string } & Partial<Pick<TrackedTransaction, 'status' | 'blockNumber' | 'gasUsed' | 'replacedBy'>>>,
+): TrackedTransaction[] {
+  if (updates.length === 0) return [];
+
+  return withFileLock(getTrackedFile(), () => {
+    const data = load();
+    const now = new Date().toISOString();
+    const updated: TrackedTransaction[] = [];
+    for (const { id, ...patch } of updates) {
+      const existing = data.transactions[id];
+      if (!existing) continue;
+      data.transactions[id] = { ...existing, ...patch, updatedAt: now };
+      updated.push(data.transactions[id]);
+    }
+    save(data);
+    return updated;
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * wallet_analyze_tx - Explain a Transaction
+ *
+ * Uses the TxAnalysis provider (Herd) when it covers the chain, and
+ * falls back to the local RPC decoder (receipt logs + known ABIs)
+ * otherwise. The chain is auto-detected when omitted.
+ *
+ * Both sources pass through sanitizeTransactionAnalysis before rendering.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Hex } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import {
+  SUPPORTED_CHAINS,
+  getExplorerTxUrl,
+  isSupportedChain,
+  type SupportedChain,
+} from '../config/chains.js';
+import { getProviderRegistry, type TransactionAnalysis } from '../providers/index.js';
+import { decodeTransactionLocally, findTransactionChain } from '../services/tx-decoder.js';
+import {
+  sanitizeAddress,
+  sanitizeString,
+  sanitizeTokenSymbol,
+  sanitizeTransactionAnalysis,
+} from '../utils/sanitize.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const MAX_EVENTS = 20;
+
+/**
+ * Tool definition for wallet_analyze_tx
+ */
+export const analyzeTxToolDefinition: Tool = {
+  name: 'wallet_analyze_tx',
+  description: `Explain what a transaction did: the decoded call, token balance changes, and emitted events.
+
+**Example:**
+\`\`\`json
+{"hash": "0x...", "chain": "base"}
+\`\`\`
+
+Omit \`chain\` to search all supported chains. Uses Herd when enabled; otherwise decodes locally from the receipt using known ABIs (ERC-20/721, WETH, Clara contracts).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      hash: {
+        type: 'string',
+        description: 'Transaction hash (0x + 64 hex chars)',
+      },
+      chain: {
+        type: 'string',
+        enum: SUPPORTED_CHAINS,
+        description: 'Chain the transaction is on (auto-detected if omitted)',
+      },
+    },
+    required: ['hash'],
+  },
+};
+
+/**
+ * Render an analysis as markdown. Expects sanitized input.
+ */
+function formatAnalysis(analysis: TransactionAnalysis, source: string): string {
+  const lines = [
+    `## 🔍 Transaction on ${analysis.chain}`,
+    '',
+    `**Hash:** \`${analysis.hash}\``,
+    `**Status:** ${analysis.status === 'confirmed' ? '✅ Confirmed' : '❌ Failed'} in block ${analysis.blockNumber} (${analysis.timestamp})`,
+    `**Summary:** ${analysis.intentSummary}`,
+    '',
+    '### Call',
+    `\`${analysis.call.readable}\``,
+  ];
+  if (analysis.call.contractAddress) {
+    lines.push(`Contract: \`${sanitizeAddress(analysis.call.contractAddress)}\`${analysis.call.contractName ? ` (${analysis.call.contractName})` : ''}`);
+  }
+
+  if (analysis.internalCalls && analysis.internalCalls.length > 0) {
+    lines.push('');
+    lines.push(`### Internal Calls (${analysis.internalCalls.length})`);
+    for (const call of analysis.internalCalls) {
+      lines.push(`- \`${sanitizeString(call.readable, 120)}\``);
+    }
+  }
+
+  if (analysis.balanceChanges.length > 0) {
+    lines.push('');
+    lines.push('### Balance Changes');
+    for (const change of analysis.balanceChanges) {
+      const amount = sanitizeString(change.change, 40);
+      const usd = change.changeUsd ? ` ($${sanitizeString(change.changeUsd, 20)})` : '';
+      lines.push(`- \`${sanitizeAddress(change.address).slice(0, 10)}…\`: ${amount.startsWith('-') ? '' : '+'}${amount} ${sanitizeTokenSymbol(change.token.symbol)}${usd}`);
+    }
+  }
+
+  if (analysis.events.length > 0) {
+    lines.push('');
+    lines.push(`### Events (${analysis.events.length})`);
+    for (const event of analysis.events.slice(0, MAX_EVENTS)) {
+      const where = event.contractName || `${sanitizeAddress(event.contractAddress).slice(0, 10)}…`;
+      lines.push(`- **${event.eventName}** on ${where}`);
+    }
+    if (analysis.events.length > MAX_EVENTS) {
+      lines.push(`- _…and ${analysis.events.length - MAX_EVENTS} more_`);
+    }
+  }
+
+  lines.push('');
+  lines.push(`⛽ Gas used: ${sanitizeString(analysis.gasUsed, 30)}${analysis.gasCostUsd ? ` ($${sanitizeString(analysis.gasCostUsd, 20)})` : ''}`);
+  lines.push(`🔗 ${getExplorerTxUrl(analysis.chain, analysis.hash)}`);
+  lines.push(`_Source: ${source}_`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Handle wallet_analyze_tx requests
+ */
+export async function handleAnalyzeTxRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  const hash = typeof args.hash === 'string' ? args.hash.trim() : '';
+  if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid transaction hash: ${sanitizeString(hash, 80) || '(missing)'}`, 'Expected 0x followed by 64 hex characters.');
+  }
+
+  let chain: SupportedChain;
+  if (args.chain !== undefined) {
+    if (typeof args.chain !== 'string' || !isSupportedChain(args.chain)) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Unsupported chain: ${String(args.chain)}`, `Supported: ${SUPPORTED_CHAINS.join(', ')}`);
+    }
+    chain = args.chain;
+  } else {
+    const detected = await findTransactionChain(hash as Hex);
+    if (!detected) {
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        `Transaction ${hash} not found on any supported chain.`,
+        `Checked: ${SUPPORTED_CHAINS.join(', ')}. If it was just sent, wait for it to be mined.`,
+      );
+    }
+    chain = detected;
+  }
+
+  let analysis: TransactionAnalysis | null = null;
+  let source = 'local RPC decoder';
+
+  const registry = getProviderRegistry();
+  if (registry.hasCapability('TxAnalysis', chain)) {
+    const result = await registry.analyzeTransaction({ txHash: hash, chain });
+    if (result.success && result.data) {
+      analysis = result.data;
+      source = result.provider;
+    } else {
+      console.error(`[analyze_tx] ${result.provider} failed, decoding locally: ${result.error}`);
+    }
+  }
+
+  if (!analysis) {
+    try {
+      analysis = await decodeTransactionLocally(hash as Hex, chain);
+    } catch (error) {
+      throw new ClaraError(
+        ClaraErrorCode.PROVIDER_UNAVAILABLE,
+        `Could not load transaction on ${chain}: ${error instanceof Error ? error.message : String(error)}`,
+        args.chain ? 'Check the chain, or omit it to auto-detect.' : undefined,
+      );
+    }
+  }
+
+  const sanitized = sanitizeTransactionAnalysis(analysis as unknown as Record<string, unknown>) as unknown as TransactionAnalysis;
+
+  return { content: [{ type: 'text', text: formatAnalysis(sanitized, source) }] };
+}
@@ -0,0 +1,211 @@
+/**
+ * Shared helpers for wallet_call and wallet_multicall_read
+ *
+ * ABI function lookup (with overloads), AI-friendly argument coercion,
+ * calldata encoding, and bigint-safe JSON rendering of return values.
+ */
+
+import {
+  encodeFunctionData,
+  decodeFunctionResult,
+  getAddress,
+  type Hex,
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+} from 'viem';
+
+/**
+ * Parse function name to extract signature parts
+ */
+function parseFunctionName(name: string): { name: string; signature?: string } {
+  const match = name.match(/^(\w+)\((.*)\)$/);
+  if (match) {
+    return { name: match[1], signature: name };
+  }
+  return { name };
+}
+
+/**
+ * Find matching function(s) in ABI
+ */
+export function findFunctions(abi: Abi, funcName: string): AbiFunction[] {
+  const parsed = parseFunctionName(funcName);
+
+  return (abi as AbiFunction[]).filter((item) => {
+    if (item.type !== 'function') return false;
+    if (item.name !== parsed.name) return false;
+
+    // If full signature provided, match exactly
+    if (parsed.signature) {
+      const inputTypes = item.inputs.map((i) => i.type).join(',');
+      const itemSig = `${item.name}(${inputTypes})`;
+      return itemSig === parsed.signature;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Coerce argument to expected type
+ */
+function coerceArg(value: unknown, type: string): unknown {
+  // Arrays FIRST — must check before scalar types since
+  // "uint256[]".startsWith("uint") is true but it's an array type
+  if (type.endsWith('[]')) {
+    const baseType = type.slice(0, -2);
+    if (Array.isArray(value)) {
+      return value.map((v) => coerceArg(v, baseType));
+    }
+    throw new Error(`Expected array for ${type}`);
+  }
+
+  // Address coercion
+  if (type === 'address') {
+    if (typeof value === 'string' && value.startsWith('0x')) {
+      return getAddress(value); // Checksum
+    }
+    throw new Error(`Invalid address: ${value}`);
+  }
+
+  // Uint/int coercion
+  if (type.startsWith('uint') || type.startsWith('int')) {
+    if (typeof value === 'number') {
+      return BigInt(value);
+    }
+    if (typeof value === 'string') {
+      // Handle decimal strings
+      return BigInt(value);
+    }
+    if (typeof value === 'bigint') {
+      return value;
+    }
+    throw new Error(`Invalid number for ${type}: ${value}`);
+  }
+
+  // Bool coercion
+  if (type === 'bool') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    throw new Error(`Invalid bool: ${value}`);
+  }
+
+  // Bytes coercion
+  if (type.startsWith('bytes')) {
+    if (typeof value === 'string' && value.startsWith('0x')) {
+      return value as Hex;
+    }
+    throw new Error(`Invalid bytes: ${value}`);
+  }
+
+  // Default: return as-is
+  return value;
+}
+
+/**
+ * Try to encode calldata with a specific ABI function.
+ * On success, also returns the coerced args (for viem read helpers).
+ */
+export function tryEncode(
+  func: AbiFunction,
+  args: unknown[]
+): { success: true; data: Hex; args: unknown[] } | { success: false; error: string } {
+  try {
+    // Coerce args to expected types
+    const coercedArgs = func.inputs.map((input, i) => {
+      if (i >= args.length) {
+        throw new Error(`Missing argument: ${input.name || `arg${i}`}`);
+      }
+      return coerceArg(args[i], input.type);
+    });
+
+    const data = encodeFunctionData({
+      abi: [func] as Abi,
+      functionName: func.name,
+      args: coercedArgs,
+    });
+
+    return { success: true, data, args: coercedArgs };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Convert one decoded ABI value to JSON-safe form.
+ *
+ * bigints become decimal strings; tuples become objects keyed by component
+ * name when every component is named, arrays otherwise. viem returns named
+ * structs as objects and unnamed ones as arrays, so both are accepted.
+ */
+function toJsonValue(value: unknown, param: AbiParameter): unknown {
+  if (typeof value === 'bigint') return value.toString();
+
+  const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+  if (arrayMatch && Array.isArray(value)) {
+    const element = { ...param, type: arrayMatch[1] } as AbiParameter;
+    return value.map((v) => toJsonValue(v, element));
+  }
+
+  if (param.type === 'tuple' && 'components' in param) {
+    const components = param.components;
+    const values = Array.isArray(value)
+      ? value
+      : components.map((c, i) => (value as Record<string, unknown>)[c.name || String(i)]);
+    return formatOutputs(components, values);
+  }
+
+  return value;
+}
+
+/**
+ * Convert a list of decoded values to JSON using their ABI parameters
+ */
+function formatOutputs(params: readonly AbiParameter[], values: readonly unknown[]): unknown {
+  const converted = params.map((p, i) => toJsonValue(values[i], p));
+  if (params.length > 0 && params.every((p) => p.name)) {
+    return Object.fromEntries(params.map((p, i) => [p.name, converted[i]]));
+  }
+  return converted;
+}
+
+/**
+ * Convert a decoded function result (as returned by viem) to JSON.
+ *
+ * A single output is returned bare (`"1000"`, not `["1000"]`); multiple
+ * outputs become an object when all are named, an array otherwise.
+ */
+export function formatReturnValue(func: AbiFunction, decoded: unknown): unknown {
+  if (func.outputs.length === 1) {
+    return toJsonValue(decoded, func.outputs[0]);
+  }
+  return formatOutputs(func.outputs, decoded as readonly unknown[]);
+}
+
+/**
+ * Decode call return data with the function's outputs.
+ * Returns undefined when the data doesn't match the outputs.
+ */
+export function decodeReturnData(func: AbiFunction, data: Hex): unknown {
+  if (func.outputs.length === 0) return undefined;
+  try {
+    const decoded = decodeFunctionResult({ abi: [func] as Abi, functionName: func.name, data });
+    return formatReturnValue(func, decoded);
+  } catch (err) {
+    console.warn('[call] Could not decode return data:', err instanceof Error ? err.message : err);
+    return undefined;
+  }
+}
+
+/**
+ * Get function signature string
+ */
+export function getFunctionSignature(func: AbiFunction): string {
+  const inputTypes = func.inputs.map((i) => i.type).join(',');
+  return `${func.name}(${inputTypes})`;
+}
@@ -5,33 +5,51 @@
  * 1. wallet_call prepares and simulates → returns preparedTxId
  * 2. wallet_executePrepared executes → sends the exact same transaction
  *
+ * view/pure functions skip both phases: the call is made directly and the
+ * decoded return value is returned, with no prepared transaction.
+ *
  * Features:
  * - Function overload resolution (tries each candidate)
  * - AI-friendly type coercion (strings → addresses, numbers → bigint)
+ * - Return data decoded with the function's outputs (tuples, arrays, structs)
+ * - Bundles: ordered calls (approve + action) simulated in sequence under one ID
  * - Uses cached Herd ABI when available
+ * - Previews the spending limit check wallet_executePrepared will apply
  * - Returns structured errors for ambiguous/missing functions
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import {
-  encodeFunctionData,
   createPublicClient,
-  getAddress,
   http,
   type Hex,
   type Abi,
   type AbiFunction,
+  type PublicClient,
 } from 'viem';
 import { base, mainnet, arbitrum, optimism, polygon } from 'viem/chains';
 import { getProviderRegistry, isHerdEnabled } from '../providers/index.js';
 import type { ToolContext, ToolResult } from '../middleware.js';
 import { getRpcUrl, type SupportedChain, getChainId } from '../config/chains.js';
 import { resolveAddress, formatResolved } from '../services/resolve-address.js';
+import {
+  decodeReturnData,
+  findFunctions,
+  getFunctionSignature,
+  tryEncode,
+} from './call-helpers.js';
 import {
   storePreparedTx,
   formatPreparedTx,
-  type PreparedTransaction,
+  storePreparedBundle,
+  getPreparedBundle,
+  formatPreparedBundle,
+  type PreparedBundleStep,
 } from '../para/prepared-tx.js';
+import { simulateBundle } from '../services/bundle.js';
+import { simulateTransaction } from '../services/simulation.js';
+import { assessOutgoingValue, formatSpendingPreview, type OutgoingCall } from '../services/outgoing-value.js';
+import { evaluatePolicy, type PolicyCall } from '../services/policy.js';
 
 // Chain mapping for viem
 const CHAIN_MAP = {
@@ -42,6 +60,9 @@ const CHAIN_MAP = {
   polygon: polygon,
 } as const;
 
+/** Max calls in one bundle */
+const MAX_BUNDLE_CALLS = 5;
+
 const CHAIN_IDS: Record<SupportedChain, number> = {
   ethereum: 1,
   base: 8453,
@@ -58,12 +79,13 @@ export const callToolDefinition: Tool = {
   description: `Prepare and simulate a contract function call.
 
 Returns a **preparedTxId** that can be executed with wallet_executePrepared.
+Read-only (\`view\`/\`pure\`) functions are called directly and return the decoded value — no preparedTxId.
 
 **Features:**
 - Automatic ABI lookup from Herd
 - Function overload resolution
 - AI-friendly type coercion (strings to addresses, etc.)
-- Simulation before execution
+- Simulation before execution, with decoded return values
 
 **Examples:**
 \`\`\`json
@@ -76,6 +98,14 @@ Returns a **preparedTxId** that can be executed with wallet_executePrepared.
 - \`"claim"\` - Simple name (must be unambiguous)
 - \`"withdraw(uint256)"\` - Full signature (for overloaded functions)
 
+**Bundles:** pass \`calls\` (2-5 steps, same chain) instead of contract/function to prepare an ordered sequence such as approve + swap. Each step is simulated against the state left by the previous ones; the returned bundle ID (\`pbx_...\`) executes all steps in order with \`wallet_executePrepared\`, stopping at the first failure.
+\`\`\`json
+{"chain": "base", "calls": [
+  {"contract": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "function": "approve", "args": ["0xRouter", "10000000"]},
+  {"contract": "0xRouter", "function": "deposit", "args": ["10000000"]}
+]}
+\`\`\`
+
 After simulation succeeds, use \`wallet_executePrepared\` with the returned preparedTxId.`,
   inputSchema: {
     type: 'object',
@@ -106,151 +136,112 @@ After simulation succeeds, use \`wallet_executePrepared\` with the returned prep
         type: 'array',
         description: 'Optional ABI override. If not provided, fetched from Herd.',
       },
+      calls: {
+        type: 'array',
+        description: `Bundle: 2-${MAX_BUNDLE_CALLS} calls executed in order (replaces contract/function/args/value/abi)`,
+        items: {
+          type: 'object',
+          properties: {
+            contract: { type: 'string' },
+            function: { type: 'string' },
+            args: { type: 'array', items: {} },
+            value: { type: 'string' },
+            abi: { type: 'array' },
+          },
+          required: ['contract', 'function'],
+        },
+      },
     },
-    required: ['contract', 'function'],
   },
 };
 
 /**
- * Parse function name to extract signature parts
- */
-function parseFunctionName(name: string): { name: string; signature?: string } {
-  const match = name.match(/^(\w+)\((.*)\)$/);
-  if (match) {
-    return { name: match[1], signature: name };
-  }
-  return { name };
-}
-
-/**
- * Find matching function(s) in ABI
- */
-function findFunctions(abi: Abi, funcName: string): AbiFunction[] {
-  const parsed = parseFunctionName(funcName);
-
-  return (abi as AbiFunction[]).filter((item) => {
-    if (item.type !== 'function') return false;
-    if (item.name !== parsed.name) return false;
-
-    // If full signature provided, match exactly
-    if (parsed.signature) {
-      const inputTypes = item.inputs.map((i) => i.type).join(',');
-      const itemSig = `${item.name}(${inputTypes})`;
-      return itemSig === parsed.signature;
-    }
-
-    return true;
-  });
-}
-
-/**
- * Coerce argument to expected type
+ * Call a view/pure function and render the decoded result.
+ * No prepared transaction is stored — there is nothing to execute.
  */
-function coerceArg(value: unknown, type: string): unknown {
-  // Arrays FIRST — must check before scalar types since
-  // "uint256[]".startsWith("uint") is true but it's an array type
-  if (type.endsWith('[]')) {
-    const baseType = type.slice(0, -2);
-    if (Array.isArray(value)) {
-      return value.map((v) => coerceArg(v, baseType));
-    }
-    throw new Error(`Expected array for ${type}`);
-  }
-
-  // Address coercion
-  if (type === 'address') {
-    if (typeof value === 'string' && value.startsWith('0x')) {
-      return getAddress(value); // Checksum
-    }
-    throw new Error(`Invalid address: ${value}`);
-  }
-
-  // Uint/int coercion
-  if (type.startsWith('uint') || type.startsWith('int')) {
-    if (typeof value === 'number') {
-      return BigInt(value);
-    }
-    if (typeof value === 'string') {
-      // Handle decimal strings
-      return BigInt(value);
-    }
-    if (typeof value === 'bigint') {
-      return value;
-    }
-    throw new Error(`Invalid number for ${type}: ${value}`);
-  }
-
-  // Bool coercion
-  if (type === 'bool') {
-    if (typeof value === 'boolean') return value;
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-    throw new Error(`Invalid bool: ${value}`);
-  }
-
-  // Bytes coercion
-  if (type.startsWith('bytes')) {
-    if (typeof value === 'string' && value.startsWith('0x')) {
-      return value as Hex;
-    }
-    throw new Error(`Invalid bytes: ${value}`);
-  }
-
-  // Default: return as-is
-  return value;
-}
+async function handleReadOnlyCall(
+  publicClient: Pick<PublicClient, 'call'>,
+  ctx: ToolContext,
+  call: {
+    contract: Hex;
+    contractName?: string;
+    func: AbiFunction;
+    signature: string;
+    calldata: Hex;
+    chain: SupportedChain;
+  },
+): Promise<ToolResult> {
+  const target = call.contractName ? `${call.contractName} (\`${call.contract}\`)` : `\`${call.contract}\``;
 
-/**
- * Try to encode calldata with a specific ABI function
- */
-function tryEncode(
-  func: AbiFunction,
-  args: unknown[]
-): { success: true; data: Hex } | { success: false; error: string } {
+  let data: Hex | undefined;
   try {
-    // Coerce args to expected types
-    const coercedArgs = func.inputs.map((input, i) => {
-      if (i >= args.length) {
-        throw new Error(`Missing argument: ${input.name || `arg${i}`}`);
-      }
-      return coerceArg(args[i], input.type);
+    const result = await publicClient.call({
+      account: ctx.walletAddress,
+      to: call.contract,
+      data: call.calldata,
     });
-
-    const data = encodeFunctionData({
-      abi: [func] as Abi,
-      functionName: func.name,
-      args: coercedArgs,
-    });
-
-    return { success: true, data };
+    data = result.data;
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const revertMatch = message.match(/reverted with reason string '([^']+)'/);
     return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
+      content: [{
+        type: 'text',
+        text: `❌ **Call reverted:** \`${call.signature}\` on ${target}\n\n${revertMatch ? revertMatch[1] : message}`,
+      }],
+      isError: true,
     };
   }
+
+  const decoded = data ? decodeReturnData(call.func, data) : undefined;
+  const lines = [
+    `## 📖 Read: \`${call.signature}\``,
+    '',
+    `**Contract:** ${target}`,
+    `**Chain:** ${call.chain} (${CHAIN_IDS[call.chain]})`,
+    '',
+  ];
+
+  if (decoded !== undefined) {
+    lines.push('**Result:**');
+    lines.push('```json');
+    lines.push(JSON.stringify(decoded, null, 2));
+    lines.push('```');
+  } else if (call.func.outputs.length === 0) {
+    lines.push('_Function has no return value._');
+  } else {
+    lines.push(`**Raw Result:** \`${data ?? '0x'}\``);
+    lines.push('_Could not decode with the function outputs._');
+  }
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
 }
 
 /**
- * Get function signature string
+ * A call resolved to a single ABI function and encoded
  */
-function getFunctionSignature(func: AbiFunction): string {
-  const inputTypes = func.inputs.map((i) => i.type).join(',');
-  return `${func.name}(${inputTypes})`;
+interface ResolvedCall {
+  contract: Hex;
+  contractName?: string;
+  func: AbiFunction;
+  signature: string;
+  calldata: Hex;
+  funcArgs: unknown[];
+  value: bigint;
 }
 
 /**
- * Handle wallet_call requests
+ * Resolve the contract, ABI, and overload for one call, and encode it.
+ * Returns a user-facing error message when the call can't be built.
  */
-export async function handleCallRequest(
+async function resolveCall(
   args: Record<string, unknown>,
-  ctx: ToolContext,
-): Promise<ToolResult> {
+  chain: SupportedChain,
+): Promise<{ ok: true; call: ResolvedCall } | { ok: false; error: string }> {
   const contractInput = args.contract as string;
   const funcName = args.function as string;
   const funcArgs = (args.args as unknown[]) || [];
   const value = args.value ? BigInt(args.value as string) : 0n;
-  const chain = (args.chain as SupportedChain) || 'base';
   const abiOverride = args.abi as Abi | undefined;
 
   // Resolve contract: 0x address, Clara name, or ENS name
@@ -262,114 +253,222 @@ export async function handleCallRequest(
     resolvedDisplay = resolved.displayName;
   } catch (error) {
     return {
-      content: [{
-        type: 'text',
-        text: `❌ Cannot resolve contract "${contractInput}": ${error instanceof Error ? error.message : 'Unknown error'}`,
-      }],
-      isError: true,
+      ok: false,
+      error: `❌ Cannot resolve contract "${contractInput}": ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
   }
 
-  try {
-
-    // Get ABI (from override, or from Herd)
-    let abi: Abi;
-    let contractName: string | undefined = resolvedDisplay; // Show ENS name if resolved
-
-    if (abiOverride) {
-      abi = abiOverride;
-    } else {
-      // Fetch from Herd
-      const registry = getProviderRegistry();
-      const metadataResult = await registry.getContractMetadata({
-        address: contract,
-        chain,
-        detailLevel: 'full',
-        includeAbi: true,
-      });
+  // Get ABI (from override, or from Herd)
+  let abi: Abi;
+  let contractName: string | undefined = resolvedDisplay; // Show ENS name if resolved
+
+  if (abiOverride) {
+    abi = abiOverride;
+  } else {
+    // Fetch from Herd
+    const registry = getProviderRegistry();
+    const metadataResult = await registry.getContractMetadata({
+      address: contract,
+      chain,
+      detailLevel: 'full',
+      includeAbi: true,
+    });
 
-      if (!metadataResult.success || !metadataResult.data?.abi) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `❌ Could not fetch ABI for ${contract}. Contract may be unverified.\n\nYou can provide an ABI override using the \`abi\` parameter.`,
-            },
-          ],
-          isError: true,
-        };
-      }
-
-      abi = metadataResult.data.abi as Abi;
-      // Prefer Herd's contract name, but keep resolved ENS name as fallback
-      contractName = metadataResult.data.name || contractName;
+    if (!metadataResult.success || !metadataResult.data?.abi) {
+      return {
+        ok: false,
+        error: `❌ Could not fetch ABI for ${contract}. Contract may be unverified.\n\nYou can provide an ABI override using the \`abi\` parameter.`,
+      };
     }
 
-    // Find matching functions
-    const matchingFunctions = findFunctions(abi, funcName);
+    abi = metadataResult.data.abi as Abi;
+    // Prefer Herd's contract name, but keep resolved ENS name as fallback
+    contractName = metadataResult.data.name || contractName;
+  }
 
-    if (matchingFunctions.length === 0) {
-      // List available functions
-      const availableFunctions = (abi as AbiFunction[])
-        .filter((f) => f.type === 'function')
-        .map((f) => getFunctionSignature(f))
-        .slice(0, 20); // Limit to 20
+  // Find matching functions
+  const matchingFunctions = findFunctions(abi, funcName);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **No matching function:** \`${funcName}\`\n\n**Available functions:**\n${availableFunctions.map((f) => `- \`${f}\``).join('\n')}`,
-          },
-        ],
-        isError: true,
-      };
-    }
+  if (matchingFunctions.length === 0) {
+    // List available functions
+    const availableFunctions = (abi as AbiFunction[])
+      .filter((f) => f.type === 'function')
+      .map((f) => getFunctionSignature(f))
+      .slice(0, 20); // Limit to 20
+
+    return {
+      ok: false,
+      error: `❌ **No matching function:** \`${funcName}\`\n\n**Available functions:**\n${availableFunctions.map((f) => `- \`${f}\``).join('\n')}`,
+    };
+  }
+
+  // Try to encode with each matching function
+  const encodeResults = matchingFunctions.map((func) => ({
+    func,
+    signature: getFunctionSignature(func),
+    result: tryEncode(func, funcArgs),
+  }));
+
+  const successfulEncodes = encodeResults.filter((r) => r.result.success);
+
+  if (successfulEncodes.length === 0) {
+    // None worked - show errors
+    const errors = encodeResults
+      .map((r) => `- \`${r.signature}\`: ${(r.result as { error: string }).error}`)
+      .join('\n');
+
+    return {
+      ok: false,
+      error: `❌ **Could not encode function call**\n\nTried ${encodeResults.length} overload(s):\n${errors}\n\n**Your args:** ${JSON.stringify(funcArgs)}`,
+    };
+  }
+
+  if (successfulEncodes.length > 1) {
+    // Ambiguous - ask user to specify
+    const candidates = successfulEncodes.map((r) => `- \`${r.signature}\``).join('\n');
+
+    return {
+      ok: false,
+      error: `❌ **Ambiguous function call**\n\nMultiple overloads match your arguments:\n${candidates}\n\nPlease use the full signature, e.g.:\n\`"function": "${successfulEncodes[0].signature}"\``,
+    };
+  }
 
-    // Try to encode with each matching function
-    const encodeResults = matchingFunctions.map((func) => ({
-      func,
-      signature: getFunctionSignature(func),
-      result: tryEncode(func, funcArgs),
-    }));
+  // Single successful encode
+  const { func, signature, result } = successfulEncodes[0];
+  const calldata = (result as { success: true; data: Hex }).data;
 
-    const successfulEncodes = encodeResults.filter((r) => r.result.success);
+  return {
+    ok: true,
+    call: { contract: contract as Hex, contractName, func, signature, calldata, funcArgs, value },
+  };
+}
 
-    if (successfulEncodes.length === 0) {
-      // None worked - show errors
-      const errors = encodeResults
-        .map((r) => `- \`${r.signature}\`: ${(r.result as { error: string }).error}`)
-        .join('\n');
+/**
+ * Prepare and simulate an ordered bundle of calls (e.g. approve + swap).
+ * Every step is simulated against the state left by the previous ones.
+ */
+async function handleBundleRequest(
+  rawCalls: unknown[],
+  chain: SupportedChain,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  if (rawCalls.length < 2 || rawCalls.length > MAX_BUNDLE_CALLS) {
+    return {
+      content: [{ type: 'text', text: `❌ A bundle needs 2-${MAX_BUNDLE_CALLS} calls (got ${rawCalls.length}). For a single call, pass contract/function directly.` }],
+      isError: true,
+    };
+  }
 
+  const resolved: ResolvedCall[] = [];
+  for (const [i, raw] of rawCalls.entries()) {
+    const step = (raw ?? {}) as Record<string, unknown>;
+    if (typeof step.contract !== 'string' || typeof step.function !== 'string') {
       return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Could not encode function call**\n\nTried ${encodeResults.length} overload(s):\n${errors}\n\n**Your args:** ${JSON.stringify(funcArgs)}`,
-          },
-        ],
+        content: [{ type: 'text', text: `❌ Bundle step ${i + 1} needs a contract and a function.` }],
         isError: true,
       };
     }
+    const outcome = await resolveCall(step, chain);
+    if (!outcome.ok) {
+      return {
+        content: [{ type: 'text', text: `**Bundle step ${i + 1}:** ${outcome.error}` }],
+        isError: true,
+      };
+    }
+    resolved.push(outcome.call);
+  }
 
-    if (successfulEncodes.length > 1) {
-      // Ambiguous - ask user to specify
-      const candidates = successfulEncodes.map((r) => `- \`${r.signature}\``).join('\n');
+  const { simulations, error } = await simulateBundle(
+    chain,
+    ctx.walletAddress,
+    resolved.map((c) => ({ to: c.contract, data: c.calldata, value: c.value })),
+  );
 
+  const steps: PreparedBundleStep[] = resolved.map((c, i) => {
+    const simulation = simulations[i];
+    if (simulation.returnData) {
+      simulation.decodedReturn = decodeReturnData(c.func, simulation.returnData);
+    }
+    return {
+      to: c.contract,
+      data: c.calldata,
+      value: c.value,
+      chainId: CHAIN_IDS[chain],
+      chain,
+      contractName: c.contractName,
+      functionName: c.func.name,
+      functionSignature: c.signature,
+      args: c.funcArgs,
+      simulation,
+    };
+  });
+
+  const success = !error && simulations.every((simulation) => simulation.success);
+  const bundleId = storePreparedBundle({
+    chainId: CHAIN_IDS[chain],
+    chain,
+    steps,
+    success,
+    error,
+  });
+
+  const display = formatPreparedBundle(getPreparedBundle(bundleId)!);
+  const spending = success
+    ? await spendingSection(chain, ctx.walletAddress, steps)
+    : '';
+  const instructions = success
+    ? `\n\n💡 To execute all steps in order:\n\`wallet_executePrepared preparedTxId="${bundleId}"\``
+    : `\n\n⚠️ Bundle simulation failed. Fix the issue before executing.`;
+
+  return {
+    content: [{ type: 'text', text: display + spending + instructions }],
+    isError: !success,
+  };
+}
+
+/**
+ * Spending policy and limits apply at execution; preview them now
+ */
+async function spendingSection(
+  chain: SupportedChain,
+  holder: Hex,
+  calls: Array<OutgoingCall & PolicyCall>,
+): Promise<string> {
+  const value = await assessOutgoingValue(chain, holder, calls);
+  const verdict = await evaluatePolicy({
+    tool: 'wallet_executePrepared',
+    chain,
+    amounts: value.perCall.flat(),
+    recipients: [],
+    calls,
+  });
+  const preview = formatSpendingPreview(value, verdict);
+  return preview ? `\n\n${preview}` : '';
+}
+
+/**
+ * Handle wallet_call requests
+ */
+export async function handleCallRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const chain = (args.chain as SupportedChain) || 'base';
+
+  try {
+    if (Array.isArray(args.calls)) {
+      return await handleBundleRequest(args.calls, chain, ctx);
+    }
+
+    const outcome = await resolveCall(args, chain);
+    if (!outcome.ok) {
       return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Ambiguous function call**\n\nMultiple overloads match your arguments:\n${candidates}\n\nPlease use the full signature, e.g.:\n\`"function": "${successfulEncodes[0].signature}"\``,
-          },
-        ],
+        content: [{ type: 'text', text: outcome.error }],
         isError: true,
       };
     }
 
-    // Single successful encode
-    const { func, signature, result } = successfulEncodes[0];
-    const calldata = (result as { success: true; data: Hex }).data;
+    const { contract, contractName, func, signature, calldata, funcArgs, value } = outcome.call;
 
     // Create public client for simulation
     const viemChain = CHAIN_MAP[chain];
@@ -378,56 +477,27 @@ export async function handleCallRequest(
       transport: http(getRpcUrl(chain)),
     });
 
-    // Simulate the transaction
-    let simulation: PreparedTransaction['simulation'];
-
-    try {
-      const gasEstimate = await publicClient.estimateGas({
-        account: ctx.walletAddress,
-        to: contract as Hex,
-        data: calldata,
-        value,
+    // Read-only functions: call and return the value, nothing to execute
+    if ((func.stateMutability === 'view' || func.stateMutability === 'pure') && value === 0n) {
+      return await handleReadOnlyCall(publicClient, ctx, {
+        contract: contract as Hex,
+        contractName,
+        func,
+        signature,
+        calldata,
+        chain,
       });
+    }
 
-      simulation = {
-        success: true,
-        gasEstimate,
-        gasEstimateFormatted: gasEstimate.toLocaleString(),
-      };
-
-      // Try to get return value via call
-      try {
-        const callResult = await publicClient.call({
-          account: ctx.walletAddress,
-          to: contract as Hex,
-          data: calldata,
-          value,
-        });
-
-        if (callResult.data) {
-          simulation.returnData = callResult.data;
-          // TODO: Decode return data using func.outputs
-        }
-      } catch (err) {
-        // Call simulation failed but gas estimate succeeded — tx might still work
-        console.warn('[call] Simulation failed (may still succeed on-chain):', err instanceof Error ? err.message : err);
-      }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-
-      // Parse revert reason
-      let reason = message;
-      const revertMatch = message.match(/reverted with reason string '([^']+)'/);
-      if (revertMatch) {
-        reason = revertMatch[1];
-      }
-
-      simulation = {
-        success: false,
-        gasEstimate: 0n,
-        gasEstimateFormatted: '0',
-        error: reason,
-      };
+    // Simulate the transaction: Tenderly (full balance changes) when configured,
+    // otherwise estimateGas + call
+    const simulation = await simulateTransaction(chain, ctx.walletAddress, {
+      to: contract as Hex,
+      data: calldata,
+      value,
+    });
+    if (simulation.returnData) {
+      simulation.decodedReturn = decodeReturnData(func, simulation.returnData);
     }
 
     // Store prepared transaction
@@ -449,13 +519,17 @@ export async function handleCallRequest(
     const preparedTx = getPreparedTx(preparedTxId)!;
     const display = formatPreparedTx(preparedTx);
 
+    const spending = simulation.success
+      ? await spendingSection(chain, ctx.walletAddress, [preparedTx])
+      : '';
+
     // Add execution instructions
     const instructions = simulation.success
       ? `\n\n💡 To execute this transaction:\n\`wallet_executePrepared preparedTxId="${preparedTxId}"\``
       : `\n\n⚠️ Simulation failed. Fix the issue before executing.`;
 
     return {
-      content: [{ type: 'text', text: display + instructions }],
+      content: [{ type: 'text', text: display + spending + instructions }],
       isError: !simulation.success,
     };
   } catch (error) {
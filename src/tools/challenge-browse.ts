@@ -0,0 +1,113 @@
+/**
+ * challenge_browse - Browse Challenges
+ *
+ * Served from the embedded event indexer — no RPC calls. Defaults to
+ * challenges still accepting submissions.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Hex } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { CHALLENGE_STATUSES, type ChallengeStatus } from '../config/clara-contracts.js';
+import { getIndexStatus, queryChallenges } from '../indexer/index.js';
+import { sanitizeDescription, sanitizeString } from '../utils/sanitize.js';
+import { decodeTaskURI, formatTokenAmount } from './work-helpers.js';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Tool definition for challenge_browse
+ */
+export const challengeBrowseToolDefinition: Tool = {
+  name: 'challenge_browse',
+  description: `Browse competitive challenges. Defaults to challenges still accepting submissions.
+
+**Example:**
+\`\`\`json
+{"skill": "solidity", "limit": 10}
+\`\`\`
+
+Use \`status\` to see challenges in other phases (e.g., "scoring" or "finalized").`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      skill: {
+        type: 'string',
+        description: 'Filter by skill tag',
+      },
+      status: {
+        type: 'string',
+        enum: [...CHALLENGE_STATUSES],
+        default: 'open',
+        description: 'Challenge phase (default: open)',
+      },
+      limit: {
+        type: 'number',
+        default: DEFAULT_LIMIT,
+        description: `Max results (default: ${DEFAULT_LIMIT})`,
+      },
+    },
+  },
+};
+
+/**
+ * Handle challenge_browse requests
+ */
+export async function handleChallengeBrowseRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  const skill = typeof args.skill === 'string' ? args.skill.trim().toLowerCase() : undefined;
+  const status: ChallengeStatus = CHALLENGE_STATUSES.includes(args.status as ChallengeStatus)
+    ? (args.status as ChallengeStatus)
+    : 'open';
+  const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : DEFAULT_LIMIT;
+
+  const indexStatus = getIndexStatus();
+  if (indexStatus.cursorBlock === null) {
+    return {
+      content: [{
+        type: 'text',
+        text: `⏳ The challenge indexer is still backfilling${indexStatus.lastError ? ` (last error: ${indexStatus.lastError})` : ''}.\n\nTry again in a minute.`,
+      }],
+    };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const matches = queryChallenges({ status, skill })
+    // advanceToScoring() emits nothing, so "open" past the deadline is really closed
+    .filter((c) => status !== 'open' || c.deadline > now)
+    .slice(0, limit);
+
+  if (matches.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `No ${status} challenges found${skill ? ` for skill "${skill}"` : ''}.\n\n💡 Create one with \`challenge_create\`.`,
+      }],
+    };
+  }
+
+  const title = status.charAt(0).toUpperCase() + status.slice(1);
+  const lines = [`## ${title} Challenges (${matches.length})`, ''];
+  for (const challenge of matches) {
+    const token = challenge.token as Hex;
+    const submissions = Object.keys(challenge.submissions).length;
+    // Challenge text is attacker-controlled on-chain data
+    const summary = sanitizeDescription(decodeTaskURI(challenge.challengeURI).task);
+    lines.push(`### ${formatTokenAmount(BigInt(challenge.prizePool), token)} — ${summary}`);
+    lines.push(`- **Challenge:** \`${challenge.address}\``);
+    if (challenge.skillTags.length > 0) lines.push(`- **Skills:** ${challenge.skillTags.map((s) => sanitizeString(s, 30)).join(', ')}`);
+    lines.push(`- **Submissions:** ${submissions}`);
+    if (status === 'open') {
+      const daysLeft = Math.max(0, Math.ceil((challenge.deadline - now) / 86_400));
+      lines.push(`- **Closes in:** ${daysLeft} day${daysLeft === 1 ? '' : 's'}`);
+    } else {
+      lines.push(`- **Scoring deadline:** ${new Date(challenge.scoringDeadline * 1000).toISOString()}`);
+    }
+    lines.push('');
+  }
+  if (status === 'open') lines.push('💡 Enter with `challenge_submit`.');
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
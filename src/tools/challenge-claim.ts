@@ -0,0 +1,201 @@
+/**
+ * challenge_claim - Collect a Prize or Expiry Refund
+ *
+ * Handles both payout paths, running the permissionless transition first
+ * when nobody has yet:
+ * - Scores posted → finalize() once the delay has elapsed → claimPrize()
+ * - No scores by scoringDeadline → expire() → claimExpiredRefund()
+ *   (every submitter gets an equal share of prizePool + posterBond)
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Hex } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { CHALLENGE_ABI, CHALLENGE_LIMITS } from '../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { formatSentTx, formatTokenAmount, formatTxLink, getWorkClient, sendAndConfirmContractWrite, sendContractWrite } from './work-helpers.js';
+import {
+  parseChallengeAddress,
+  requireChallenge,
+  requireChallengeStatus,
+  type ChallengeState,
+} from './challenge-helpers.js';
+
+/**
+ * Tool definition for challenge_claim
+ */
+export const challengeClaimToolDefinition: Tool = {
+  name: 'challenge_claim',
+  description: `Claim your prize from a scored challenge, or your refund share if the poster never posted scores.
+
+**Example:**
+\`\`\`json
+{"challenge": "0x..."}
+\`\`\`
+
+Finalizes or expires the challenge first when that is still pending (prizes unlock ${CHALLENGE_LIMITS.finalizationDelay / 3600} hours after scores are posted).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      challenge: {
+        type: 'string',
+        description: 'Challenge contract address',
+      },
+    },
+    required: ['challenge'],
+  },
+};
+
+/**
+ * Find the caller's rank and prize among posted winners
+ */
+async function findWinner(
+  challenge: ChallengeState,
+  wallet: string,
+): Promise<{ rank: number; prizeAmount: bigint } | null> {
+  const client = getWorkClient();
+  const count = await client.readContract({
+    address: challenge.address,
+    abi: CHALLENGE_ABI,
+    functionName: 'getWinnerCount',
+  });
+  const winners = await Promise.all(
+    Array.from({ length: Number(count) }, (_, i) => client.readContract({
+      address: challenge.address,
+      abi: CHALLENGE_ABI,
+      functionName: 'getWinner',
+      args: [BigInt(i)],
+    })),
+  );
+  const index = winners.findIndex((w) => w.account.toLowerCase() === wallet.toLowerCase());
+  return index === -1 ? null : { rank: index + 1, prizeAmount: winners[index].prizeAmount };
+}
+
+/**
+ * Handle challenge_claim requests
+ */
+export async function handleChallengeClaimRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const challengeAddress = parseChallengeAddress(args.challenge);
+  const challenge = await requireChallenge(challengeAddress);
+  const client = getWorkClient();
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  const alreadyClaimed = await client.readContract({
+    address: challengeAddress,
+    abi: CHALLENGE_ABI,
+    functionName: 'hasClaimed',
+    args: [ctx.walletAddress as Hex],
+  });
+  if (alreadyClaimed) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'You have already claimed from this challenge.');
+  }
+
+  const lines: string[] = [];
+  let status = challenge.status;
+
+  // ─── Pending Transitions ─────────────────────────────────────────
+
+  if (status === 'scoring') {
+    if (challenge.scorePostedAt !== 0n) {
+      const unlockAt = challenge.scorePostedAt + BigInt(CHALLENGE_LIMITS.finalizationDelay);
+      if (now < unlockAt) {
+        throw new ClaraError(
+          ClaraErrorCode.INVALID_INPUT,
+          'Prizes are not claimable yet.',
+          `Scores were posted recently; the challenge can be finalized after ${new Date(Number(unlockAt) * 1000).toISOString()}.`,
+        );
+      }
+    } else if (now <= challenge.scoringDeadline) {
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        'Scores have not been posted yet.',
+        `If none are posted by ${new Date(Number(challenge.scoringDeadline) * 1000).toISOString()}, submitters can claim refunds.`,
+      );
+    }
+
+    const finalizing = challenge.scorePostedAt !== 0n;
+    const transition = await sendAndConfirmContractWrite(ctx, {
+      to: challengeAddress,
+      abi: CHALLENGE_ABI,
+      functionName: finalizing ? 'finalize' : 'expire',
+      label: finalizing ? 'finalize' : 'expire',
+      hint: 'Check the challenge status.',
+    });
+    lines.push(`**${finalizing ? 'Finalize' : 'Expire'}:** ${formatTxLink(transition.txHash, transition.explorerUrl)}`);
+    status = finalizing ? 'finalized' : 'expired';
+  }
+
+  // ─── Claim ───────────────────────────────────────────────────────
+
+  if (status === 'finalized') {
+    const winner = await findWinner(challenge, ctx.walletAddress);
+    if (!winner) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'You are not among the winners of this challenge.');
+    }
+
+    const claimed = await sendContractWrite(ctx, {
+      to: challengeAddress,
+      abi: CHALLENGE_ABI,
+      functionName: 'claimPrize',
+      label: 'claimPrize',
+      hint: 'Check that you are a winner and have not already claimed.',
+    });
+    lines.push(...formatSentTx(claimed));
+
+    return {
+      content: [{
+        type: 'text',
+        text: [
+          `🏆 Prize claim sent — rank #${winner.rank}!`,
+          '',
+          `**Challenge:** \`${challengeAddress}\``,
+          `**Prize:** ${formatTokenAmount(winner.prizeAmount, challenge.token)}`,
+          '',
+          ...lines,
+        ].join('\n'),
+      }],
+    };
+  }
+
+  requireChallengeStatus({ ...challenge, status }, ['finalized', 'expired'], 'claim');
+
+  const submission = await client.readContract({
+    address: challengeAddress,
+    abi: CHALLENGE_ABI,
+    functionName: 'getSubmission',
+    args: [ctx.walletAddress as Hex],
+  });
+  if (submission.version === 0n) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Only submitters can claim an expiry refund.');
+  }
+
+  const refunded = await sendContractWrite(ctx, {
+    to: challengeAddress,
+    abi: CHALLENGE_ABI,
+    functionName: 'claimExpiredRefund',
+    label: 'claimExpiredRefund',
+    hint: 'Check that you submitted and have not already claimed.',
+  });
+  lines.push(...formatSentTx(refunded));
+
+  const share = challenge.submissionCount > 0n
+    ? (challenge.prizePool + challenge.posterBond) / challenge.submissionCount
+    : 0n;
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        '📤 Expiry refund claim sent.',
+        '',
+        `**Challenge:** \`${challengeAddress}\``,
+        `**Refund:** ${formatTokenAmount(share, challenge.token)} (equal share of prize pool + poster bond)`,
+        '',
+        ...lines,
+      ].join('\n'),
+    }],
+  };
+}
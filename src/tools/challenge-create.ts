@@ -0,0 +1,316 @@
+/**
+ * challenge_create - Open a Competitive Challenge with a Prize Pool
+ *
+ * Flow:
+ * 1. Validate CreateParams client-side (payout split, winners, deadlines)
+ * 2. Read the factory's posterBondRate and compute the poster bond
+ * 3. Approve the factory for prizePool + bond (skipped if allowance suffices)
+ * 4. ChallengeFactory.createChallenge → clone holds the escrow
+ * 5. Parse ChallengeCreated for the new challenge address
+ *
+ * The middleware checks the deposit against the spending policy and
+ * limits (challengeCreateSpendingExtractor) before the handler runs.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { isAddress, parseEventLogs, parseUnits, zeroAddress, zeroHash, type Hex } from 'viem';
+import type { SpendingExtractor, ToolContext, ToolResult } from '../middleware.js';
+import { resolveToken } from '../config/tokens.js';
+import {
+  CHALLENGE_FACTORY_ABI,
+  CHALLENGE_LIMITS,
+  CLARA_CHAIN,
+  calculateBond,
+  getClaraContracts,
+} from '../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import {
+  ensureAllowance,
+  escrowSpendingIntent,
+  formatTokenAmount,
+  formatTxLink,
+  getWorkClient,
+  sendAndConfirmContractWrite,
+} from './work-helpers.js';
+import {
+  computePrizeAmounts,
+  defaultPayoutBps,
+  encodeChallengeURI,
+  validateCreateParams,
+} from './challenge-helpers.js';
+
+const DEFAULT_DEADLINE_DAYS = 7;
+const DEFAULT_SCORING_DAYS = 3;
+const MAX_DEADLINE_DAYS = 365;
+
+/**
+ * Tool definition for challenge_create
+ */
+export const challengeCreateToolDefinition: Tool = {
+  name: 'challenge_create',
+  description: `Create a competitive challenge with a prize pool on Base. Agents submit solutions until the deadline; the poster (or an evaluator) ranks the winners, who split the pool.
+
+**Example:**
+\`\`\`json
+{"task": "Fastest Solidity sort for 1k uint256s", "prizePool": "300", "winners": 3, "payoutBps": [5000, 3000, 2000], "deadline": 7, "scoringWindow": 3}
+\`\`\`
+
+**Escrow:** You deposit \`prizePool\` plus a poster bond (the factory's \`posterBondRate\`, default 5%). The bond is returned on finalize or cancel, and paid out to submitters if you never post scores.
+
+**Payouts:** \`payoutBps\` gives each rank's share in basis points and must sum to 10000. Defaults to an equal split.
+
+⚠️ This tool locks real funds.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      task: {
+        type: 'string',
+        description: 'Challenge description and judging criteria',
+      },
+      prizePool: {
+        type: 'string',
+        description: 'Prize pool in human units (e.g., "300" for 300 USDC)',
+      },
+      token: {
+        type: 'string',
+        default: 'USDC',
+        description: 'Token symbol or address (default: USDC)',
+      },
+      winners: {
+        type: 'number',
+        default: 1,
+        description: `Number of winning ranks (1-${CHALLENGE_LIMITS.maxWinners}, default: 1)`,
+      },
+      payoutBps: {
+        type: 'array',
+        items: { type: 'number' },
+        description: 'Basis-point share per rank, 1st place first (must sum to 10000)',
+      },
+      deadline: {
+        type: 'number',
+        default: DEFAULT_DEADLINE_DAYS,
+        description: `Days until submissions close (default: ${DEFAULT_DEADLINE_DAYS})`,
+      },
+      scoringWindow: {
+        type: 'number',
+        default: DEFAULT_SCORING_DAYS,
+        description: `Days after the deadline to post scores (default: ${DEFAULT_SCORING_DAYS})`,
+      },
+      evaluator: {
+        type: 'string',
+        description: 'Address allowed to post scores besides you (optional)',
+      },
+      maxParticipants: {
+        type: 'number',
+        description: 'Cap on distinct submitters (default: unlimited)',
+      },
+      skills: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Skill tags for filtering (e.g., ["solidity", "gas-optimization"])',
+      },
+      approvalId: {
+        type: 'string',
+        description: 'Approval ID from an earlier call that needed human approval (apr_...)',
+      },
+    },
+    required: ['task', 'prizePool'],
+  },
+};
+
+function parseDays(value: unknown, fallback: number, field: string): number {
+  const days = value === undefined ? fallback : Number(value);
+  if (!Number.isFinite(days) || days <= 0 || days > MAX_DEADLINE_DAYS) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid ${field}: ${String(value)}`,
+      `${field} is in days, between 1 and ${MAX_DEADLINE_DAYS}.`,
+    );
+  }
+  return days;
+}
+
+/**
+ * A validated challenge_create call and its escrow math
+ */
+async function planChallenge(args: Record<string, unknown>) {
+  const task = typeof args.task === 'string' ? args.task.trim() : '';
+  const prizePool = args.prizePool as string | undefined;
+  const tokenInput = (args.token as string | undefined) || 'USDC';
+  const winnerCount = args.winners === undefined ? 1 : Number(args.winners);
+  const skills = Array.isArray(args.skills)
+    ? (args.skills as unknown[]).filter((s): s is string => typeof s === 'string' && s.trim() !== '').map((s) => s.trim().toLowerCase())
+    : [];
+  const maxParticipants = args.maxParticipants === undefined ? 0 : Number(args.maxParticipants);
+  const evaluator = args.evaluator as string | undefined;
+
+  if (!task) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Missing challenge description.');
+  }
+  if (!prizePool || isNaN(parseFloat(prizePool)) || parseFloat(prizePool) <= 0) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Invalid prizePool. Must be a positive number.');
+  }
+  if (evaluator !== undefined && !isAddress(evaluator)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid evaluator address: ${evaluator}`);
+  }
+  if (!Number.isInteger(maxParticipants) || maxParticipants < 0) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid maxParticipants: ${String(args.maxParticipants)}`);
+  }
+
+  const deadlineDays = parseDays(args.deadline, DEFAULT_DEADLINE_DAYS, 'deadline');
+  const scoringDays = parseDays(args.scoringWindow, DEFAULT_SCORING_DAYS, 'scoringWindow');
+
+  const token = resolveToken(tokenInput, CLARA_CHAIN);
+  if (!token) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Unknown token: ${tokenInput}`,
+      'Supported: USDC, USDT, DAI, WETH (or provide contract address)',
+    );
+  }
+
+  const payoutBps = Array.isArray(args.payoutBps)
+    ? (args.payoutBps as unknown[]).map(Number)
+    : Number.isInteger(winnerCount) && winnerCount >= 1 && winnerCount <= CHALLENGE_LIMITS.maxWinners
+      ? defaultPayoutBps(winnerCount)
+      : [];
+
+  const now = Math.floor(Date.now() / 1000);
+  const deadline = BigInt(Math.floor(now + deadlineDays * 86_400));
+  const scoringDeadline = deadline + BigInt(Math.floor(scoringDays * 86_400));
+  const prizePoolRaw = parseUnits(prizePool, token.decimals);
+
+  validateCreateParams({
+    prizePool: prizePoolRaw,
+    winnerCount,
+    payoutBps,
+    deadline,
+    scoringDeadline,
+    now: BigInt(now),
+  });
+
+  const factory = getClaraContracts().challenge.factory;
+
+  // ─── Escrow Math ─────────────────────────────────────────────────
+
+  const posterBondRate = await getWorkClient().readContract({
+    address: factory,
+    abi: CHALLENGE_FACTORY_ABI,
+    functionName: 'posterBondRate',
+  });
+  const posterBond = calculateBond(prizePoolRaw, posterBondRate);
+
+  return {
+    task,
+    skills,
+    token,
+    evaluator,
+    winnerCount,
+    payoutBps,
+    maxParticipants,
+    deadline,
+    scoringDeadline,
+    prizePoolRaw,
+    factory,
+    posterBondRate,
+    posterBond,
+    totalDeposit: prizePoolRaw + posterBond,
+  };
+}
+
+/**
+ * The challenge deposit (prize pool + poster bond), for spending limits
+ */
+export const challengeCreateSpendingExtractor: SpendingExtractor = async (args, ctx) => {
+  const { task, token, factory, totalDeposit } = await planChallenge(args);
+  return escrowSpendingIntent(ctx, {
+    tool: 'challenge_create',
+    subject: `challenge_create:${token.address}:${totalDeposit}:${task}`,
+    description: `Challenge escrow ${formatTokenAmount(totalDeposit, token.address)}`,
+    recipient: factory,
+    token: token.address,
+    amount: totalDeposit,
+  });
+};
+
+/**
+ * Handle challenge_create requests
+ */
+export async function handleChallengeCreateRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const {
+    task,
+    skills,
+    token,
+    evaluator,
+    winnerCount,
+    payoutBps,
+    maxParticipants,
+    deadline,
+    scoringDeadline,
+    prizePoolRaw,
+    factory,
+    posterBondRate,
+    posterBond,
+    totalDeposit,
+  } = await planChallenge(args);
+
+  // ─── Approve + Create ────────────────────────────────────────────
+
+  const approval = await ensureAllowance(ctx, token.address, factory, totalDeposit);
+
+  const created = await sendAndConfirmContractWrite(ctx, {
+    to: factory,
+    abi: CHALLENGE_FACTORY_ABI,
+    functionName: 'createChallenge',
+    args: [{
+      token: token.address,
+      evaluator: (evaluator as Hex | undefined) ?? zeroAddress,
+      prizePool: prizePoolRaw,
+      deadline,
+      scoringDeadline,
+      challengeURI: encodeChallengeURI({ task, skills }),
+      evalConfigHash: zeroHash,
+      privateSetHash: zeroHash,
+      winnerCount,
+      payoutBps,
+      maxParticipants: BigInt(maxParticipants),
+      skillTags: skills,
+    }],
+    label: 'createChallenge',
+    hint: 'Check the challenge parameters and your token balance.',
+  }, (sent) => ctx.reportSent?.(sent.txHash));
+
+  const [event] = parseEventLogs({
+    abi: CHALLENGE_FACTORY_ABI,
+    eventName: 'ChallengeCreated',
+    logs: created.receipt.logs,
+  });
+  const challengeAddress = event?.args.challengeAddress as Hex | undefined;
+
+  // The new challenge holds the prize pool; only the receipt names it
+  ctx.reportSent?.(created.txHash, challengeAddress);
+
+  const prizes = computePrizeAmounts(prizePoolRaw, payoutBps);
+  const lines = [
+    '✅ Challenge created!',
+    '',
+    `**Challenge:** ${challengeAddress ? `\`${challengeAddress}\`` : '(address not found in receipt)'}`,
+    `**Prize pool:** ${formatTokenAmount(prizePoolRaw, token.address)}`,
+    `**Poster bond:** ${formatTokenAmount(posterBond, token.address)} (${Number(posterBondRate) / 100}%)`,
+    `**Payouts:** ${prizes.map((p, i) => `#${i + 1} ${formatTokenAmount(p, token.address)}`).join(', ')}`,
+    `**Submissions close:** ${new Date(Number(deadline) * 1000).toISOString()}`,
+    `**Scoring deadline:** ${new Date(Number(scoringDeadline) * 1000).toISOString()}`,
+  ];
+  if (evaluator) lines.push(`**Evaluator:** \`${evaluator}\``);
+  if (skills.length > 0) lines.push(`**Skills:** ${skills.join(', ')}`);
+  lines.push('');
+  if (approval) lines.push(`**Approval:** ${formatTxLink(approval.txHash, approval.explorerUrl)}`);
+  lines.push(`**Transaction:** ${formatTxLink(created.txHash, created.explorerUrl)}`);
+  lines.push('');
+  lines.push(`💡 After the deadline, rank winners with \`challenge_score\`. With fewer than ${CHALLENGE_LIMITS.minSubmissions} submissions the challenge cancels and refunds you instead.`);
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
@@ -0,0 +1,244 @@
+/**
+ * Shared helpers for the challenge_* tools
+ *
+ * Challenges reuse the work_* transaction pipeline (same chain, same
+ * escrow-approval flow); this module adds the Challenge-specific reads
+ * and the client-side mirror of ChallengeFactory's CreateParams checks,
+ * so bad parameters fail before any approval is sent.
+ */
+
+import { isAddress, keccak256, type ContractFunctionName, type Hex } from 'viem';
+import {
+  CHALLENGE_ABI,
+  CHALLENGE_LIMITS,
+  CLARA_CHAIN,
+  challengeStatusName,
+  type ChallengeStatus,
+} from '../config/clara-contracts.js';
+import { requireContract } from '../gas-preflight.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { getWorkClient } from './work-helpers.js';
+
+const BPS_DENOMINATOR = 10_000n;
+
+// ─── Input Parsing ───────────────────────────────────────────────────
+
+/**
+ * Validate a challenge address argument
+ */
+export function parseChallengeAddress(input: unknown): Hex {
+  if (typeof input !== 'string' || !isAddress(input)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid challenge address: ${String(input ?? '(missing)')}`,
+      'Pass the challenge contract address (0x...). Use `challenge_browse` to find open challenges.',
+    );
+  }
+  return input as Hex;
+}
+
+// ─── Challenge URIs ──────────────────────────────────────────────────
+
+/**
+ * Encode a challenge brief as a data: URI. Uses the same shape as bounty
+ * task URIs, so decodeTaskURI reads it back.
+ */
+export function encodeChallengeURI(descriptor: { task: string; skills: string[] }): string {
+  const json = JSON.stringify({ type: 'clara-challenge', ...descriptor });
+  return `data:application/json;base64,${Buffer.from(json, 'utf-8').toString('base64')}`;
+}
+
+/**
+ * keccak256 of the solution content, as stored in Submission.solutionHash
+ */
+export function hashSolution(content: Uint8Array): Hex {
+  return keccak256(content);
+}
+
+// ─── Payouts ─────────────────────────────────────────────────────────
+
+/**
+ * Equal split across `winnerCount` ranks, rounding remainder to 1st place
+ */
+export function defaultPayoutBps(winnerCount: number): number[] {
+  const share = Math.floor(10_000 / winnerCount);
+  const bps = Array.from({ length: winnerCount }, () => share);
+  bps[0] += 10_000 - share * winnerCount;
+  return bps;
+}
+
+/**
+ * Prize per rank, matching Challenge.postScores: every rank gets
+ * prizePool × bps / 10000 and the last rank absorbs the rounding dust.
+ */
+export function computePrizeAmounts(prizePool: bigint, payoutBps: readonly number[]): bigint[] {
+  const amounts = payoutBps.map((bps) => (prizePool * BigInt(bps)) / BPS_DENOMINATOR);
+  if (amounts.length > 0) {
+    const others = amounts.slice(0, -1).reduce((sum, a) => sum + a, 0n);
+    amounts[amounts.length - 1] = prizePool - others;
+  }
+  return amounts;
+}
+
+export interface CreateParamsInput {
+  prizePool: bigint;
+  winnerCount: number;
+  payoutBps: number[];
+  /** Unix seconds */
+  deadline: bigint;
+  /** Unix seconds */
+  scoringDeadline: bigint;
+  /** Unix seconds (defaults to now) */
+  now?: bigint;
+}
+
+/**
+ * Client-side mirror of ChallengeFactory.createChallenge validation
+ *
+ * @throws ClaraError(INVALID_INPUT) describing the first violated rule
+ */
+export function validateCreateParams(p: CreateParamsInput): void {
+  const now = p.now ?? BigInt(Math.floor(Date.now() / 1000));
+
+  if (p.prizePool <= 0n) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Prize pool must be greater than zero.');
+  }
+  if (!Number.isInteger(p.winnerCount) || p.winnerCount < 1 || p.winnerCount > CHALLENGE_LIMITS.maxWinners) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid winner count: ${p.winnerCount}`,
+      `Between 1 and ${CHALLENGE_LIMITS.maxWinners} winners.`,
+    );
+  }
+  if (p.payoutBps.length !== p.winnerCount) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `payoutBps has ${p.payoutBps.length} entries but winnerCount is ${p.winnerCount}.`,
+      'Give one basis-point share per winning rank.',
+    );
+  }
+  if (p.payoutBps.some((bps) => !Number.isInteger(bps) || bps < 0 || bps > 10_000)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid payoutBps: [${p.payoutBps.join(', ')}]`,
+      'Each share is an integer number of basis points (0-10000).',
+    );
+  }
+  const total = p.payoutBps.reduce((sum, bps) => sum + bps, 0);
+  if (total !== 10_000) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `payoutBps must sum to 10000 (got ${total}).`,
+      'e.g. `[5000, 3000, 2000]` for a 50/30/20 split.',
+    );
+  }
+  if (p.deadline <= now) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Submission deadline must be in the future.');
+  }
+  if (p.scoringDeadline <= p.deadline) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      'Scoring deadline must be after the submission deadline.',
+    );
+  }
+}
+
+// ─── Challenge State ─────────────────────────────────────────────────
+
+export interface ChallengeState {
+  address: Hex;
+  poster: Hex;
+  evaluator: Hex;
+  token: Hex;
+  prizePool: bigint;
+  posterBond: bigint;
+  deadline: bigint;
+  scoringDeadline: bigint;
+  challengeURI: string;
+  winnerCount: number;
+  payoutBps: number[];
+  status: ChallengeStatus;
+  submissionCount: bigint;
+  scorePostedAt: bigint;
+}
+
+/**
+ * Read the fields of a Challenge clone that the challenge tools need
+ */
+export async function readChallengeState(address: Hex): Promise<ChallengeState> {
+  const client = getWorkClient();
+  const read = <T>(functionName: ContractFunctionName<typeof CHALLENGE_ABI, 'view'>) =>
+    client.readContract({ address, abi: CHALLENGE_ABI, functionName }) as Promise<T>;
+
+  const [
+    poster, evaluator, token, prizePool, posterBond, deadline, scoringDeadline,
+    challengeURI, winnerCount, payoutBps, status, submissionCount, scorePostedAt,
+  ] = await Promise.all([
+    read<Hex>('poster'),
+    read<Hex>('evaluator'),
+    read<Hex>('token'),
+    read<bigint>('prizePool'),
+    read<bigint>('posterBond'),
+    read<bigint>('deadline'),
+    read<bigint>('scoringDeadline'),
+    read<string>('challengeURI'),
+    read<number>('winnerCount'),
+    read<readonly number[]>('getPayoutBps'),
+    read<number>('status'),
+    read<bigint>('submissionCount'),
+    read<bigint>('scorePostedAt'),
+  ]);
+
+  return {
+    address,
+    poster,
+    evaluator,
+    token,
+    prizePool,
+    posterBond,
+    deadline,
+    scoringDeadline,
+    challengeURI,
+    winnerCount: Number(winnerCount),
+    payoutBps: payoutBps.map(Number),
+    status: challengeStatusName(Number(status)),
+    submissionCount,
+    scorePostedAt,
+  };
+}
+
+/**
+ * Require a deployed Challenge clone and return its state
+ */
+export async function requireChallenge(address: Hex): Promise<ChallengeState> {
+  await requireContract(CLARA_CHAIN, address, 'challenge');
+  return readChallengeState(address);
+}
+
+/**
+ * Require the challenge to be in one of the given states
+ */
+export function requireChallengeStatus(
+  challenge: ChallengeState,
+  allowed: ChallengeStatus[],
+  action: string,
+): void {
+  if (!allowed.includes(challenge.status)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Cannot ${action}: challenge is ${challenge.status}.`,
+      `This action requires status ${allowed.join(' or ')}.`,
+      { challenge: challenge.address, status: challenge.status },
+    );
+  }
+}
+
+/**
+ * Whether the wallet may post scores (the poster always can; a configured
+ * evaluator can too)
+ */
+export function isEvaluator(challenge: ChallengeState, wallet: string): boolean {
+  const w = wallet.toLowerCase();
+  return challenge.poster.toLowerCase() === w
+    || (BigInt(challenge.evaluator) !== 0n && challenge.evaluator.toLowerCase() === w);
+}
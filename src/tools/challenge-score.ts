@@ -0,0 +1,231 @@
+/**
+ * challenge_score - Post Challenge Winners (poster / evaluator only)
+ *
+ * Flow:
+ * 1. If submissions just closed, advanceToScoring() first (permissionless;
+ *    auto-cancels and refunds the poster below MIN_SUBMISSIONS)
+ * 2. Look up each winner's submission for their agentId
+ * 3. Compute prize amounts from payoutBps exactly as postScores checks them
+ * 4. postScores() — finalize becomes available after the 12h delay
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { isAddress, type Hex } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { CHALLENGE_ABI, CHALLENGE_LIMITS } from '../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { formatSentTx, formatTokenAmount, formatTxLink, getWorkClient, sendAndConfirmContractWrite, sendContractWrite } from './work-helpers.js';
+import {
+  computePrizeAmounts,
+  isEvaluator,
+  parseChallengeAddress,
+  readChallengeState,
+  requireChallenge,
+  requireChallengeStatus,
+} from './challenge-helpers.js';
+
+/**
+ * Tool definition for challenge_score
+ */
+export const challengeScoreToolDefinition: Tool = {
+  name: 'challenge_score',
+  description: `Post the winners of a challenge, best first. Only the poster or the challenge's evaluator can score.
+
+**Example:**
+\`\`\`json
+{"challenge": "0x...", "winners": [{"address": "0xaaa...", "score": 98}, {"address": "0xbbb...", "score": 91}]}
+\`\`\`
+
+Winners can also be plain addresses. You must rank exactly as many winners as the challenge pays out; prize amounts are computed from its payout split.
+
+If the submission deadline has passed, this first moves the challenge into scoring. Winners can claim with \`challenge_claim\` ${CHALLENGE_LIMITS.finalizationDelay / 3600} hours after scores are posted.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      challenge: {
+        type: 'string',
+        description: 'Challenge contract address',
+      },
+      winners: {
+        type: 'array',
+        items: {
+          oneOf: [
+            { type: 'string' },
+            {
+              type: 'object',
+              properties: {
+                address: { type: 'string' },
+                score: { type: 'number' },
+              },
+              required: ['address'],
+            },
+          ],
+        },
+        description: 'Winning submitters in rank order (address, or {address, score})',
+      },
+    },
+    required: ['challenge', 'winners'],
+  },
+};
+
+interface RankedWinner {
+  address: Hex;
+  score: bigint;
+}
+
+function parseWinners(input: unknown): RankedWinner[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Missing winners.', 'Pass winner addresses in rank order.');
+  }
+
+  const winners = input.map((entry, i) => {
+    const address = typeof entry === 'string' ? entry : (entry as { address?: unknown })?.address;
+    const score = typeof entry === 'object' && entry !== null ? (entry as { score?: unknown }).score : undefined;
+    if (typeof address !== 'string' || !isAddress(address)) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid winner address at rank ${i + 1}: ${String(address)}`);
+    }
+    if (score !== undefined && (!Number.isInteger(Number(score)) || Number(score) < 0)) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid score at rank ${i + 1}: ${String(score)}`);
+    }
+    // Without explicit scores, rank order becomes a descending score
+    return { address: address as Hex, score: BigInt(score === undefined ? input.length - i : Number(score)) };
+  });
+
+  const seen = new Set<string>();
+  for (const w of winners) {
+    const key = w.address.toLowerCase();
+    if (seen.has(key)) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Duplicate winner: ${w.address}`);
+    }
+    seen.add(key);
+  }
+  return winners;
+}
+
+/**
+ * Handle challenge_score requests
+ */
+export async function handleChallengeScoreRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const challengeAddress = parseChallengeAddress(args.challenge);
+  const winners = parseWinners(args.winners);
+
+  let challenge = await requireChallenge(challengeAddress);
+
+  if (!isEvaluator(challenge, ctx.walletAddress)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Only the poster or the evaluator can score this challenge.');
+  }
+  if (winners.length !== challenge.winnerCount) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `This challenge pays ${challenge.winnerCount} winner${challenge.winnerCount === 1 ? '' : 's'}, but ${winners.length} were given.`,
+    );
+  }
+
+  const lines: string[] = [];
+
+  // ─── Open → Scoring ──────────────────────────────────────────────
+
+  if (challenge.status === 'open') {
+    if (challenge.deadline >= BigInt(Math.floor(Date.now() / 1000))) {
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        'Cannot score yet: submissions are still open.',
+        `Submissions close at ${new Date(Number(challenge.deadline) * 1000).toISOString()}.`,
+      );
+    }
+
+    const advanced = await sendAndConfirmContractWrite(ctx, {
+      to: challengeAddress,
+      abi: CHALLENGE_ABI,
+      functionName: 'advanceToScoring',
+      label: 'advanceToScoring',
+      hint: 'Check the challenge status.',
+    });
+    lines.push(`**Advance to scoring:** ${formatTxLink(advanced.txHash, advanced.explorerUrl)}`);
+
+    challenge = await readChallengeState(challengeAddress);
+    if (challenge.status === 'cancelled') {
+      return {
+        content: [{
+          type: 'text',
+          text: [
+            `ℹ️ Challenge cancelled: fewer than ${CHALLENGE_LIMITS.minSubmissions} submissions.`,
+            '',
+            `**Refunded:** ${formatTokenAmount(challenge.prizePool + challenge.posterBond, challenge.token)} to the poster`,
+            '',
+            ...lines,
+          ].join('\n'),
+        }],
+      };
+    }
+  }
+
+  requireChallengeStatus(challenge, ['scoring'], 'post scores');
+  if (challenge.scorePostedAt !== 0n) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Scores have already been posted for this challenge.');
+  }
+
+  // ─── Build Winners ───────────────────────────────────────────────
+
+  const client = getWorkClient();
+  const submissions = await Promise.all(
+    winners.map((w) => client.readContract({
+      address: challengeAddress,
+      abi: CHALLENGE_ABI,
+      functionName: 'getSubmission',
+      args: [w.address],
+    })),
+  );
+
+  const notSubmitted = winners.filter((_, i) => submissions[i].version === 0n);
+  if (notSubmitted.length > 0) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Not a submitter: ${notSubmitted.map((w) => w.address).join(', ')}`,
+      'Winners must have submitted to this challenge.',
+    );
+  }
+
+  const prizes = computePrizeAmounts(challenge.prizePool, challenge.payoutBps);
+  const onchainWinners = winners.map((w, i) => ({
+    account: w.address,
+    agentId: submissions[i].agentId,
+    score: w.score,
+    prizeAmount: prizes[i],
+  }));
+
+  const posted = await sendContractWrite(ctx, {
+    to: challengeAddress,
+    abi: CHALLENGE_ABI,
+    functionName: 'postScores',
+    args: [onchainWinners],
+    label: 'postScores',
+    hint: 'Check that you are the poster or evaluator and scores have not been posted.',
+  });
+  lines.push(...formatSentTx(posted));
+
+  const finalizeAt = new Date(Date.now() + CHALLENGE_LIMITS.finalizationDelay * 1000).toISOString();
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        '📤 Scores sent!',
+        '',
+        `**Challenge:** \`${challengeAddress}\``,
+        '',
+        '| Rank | Winner | Agent | Score | Prize |',
+        '|------|--------|-------|-------|-------|',
+        ...onchainWinners.map((w, i) =>
+          `| ${i + 1} | \`${w.account}\` | #${w.agentId} | ${w.score} | ${formatTokenAmount(w.prizeAmount, challenge.token)} |`),
+        '',
+        ...lines,
+        '',
+        `💡 Winners can claim with \`challenge_claim\` after ${finalizeAt}.`,
+      ].join('\n'),
+    }],
+  };
+}
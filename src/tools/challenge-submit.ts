@@ -0,0 +1,181 @@
+/**
+ * challenge_submit - Enter a Solution into a Challenge
+ *
+ * The solution itself stays off-chain: the contract records a pointer
+ * (solutionURI) and keccak256 of the content (solutionHash), which the
+ * evaluator checks when scoring. Small solutions can be inlined as a
+ * data: URI. Resubmitting replaces the previous entry (1h cooldown).
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { readFileSync, statSync } from 'fs';
+import { resolve } from 'path';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { CHALLENGE_ABI, CHALLENGE_LIMITS } from '../config/clara-contracts.js';
+import { getAgentRecord } from '../storage/agent.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { formatSentTx, sendContractWrite } from './work-helpers.js';
+import {
+  hashSolution,
+  parseChallengeAddress,
+  requireChallenge,
+  requireChallengeStatus,
+} from './challenge-helpers.js';
+
+/** Largest solution inlined as a data: URI when no solutionURI is given */
+const MAX_INLINE_BYTES = 8 * 1024;
+
+/** Refuse to hash anything larger than this */
+const MAX_SOLUTION_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Tool definition for challenge_submit
+ */
+export const challengeSubmitToolDefinition: Tool = {
+  name: 'challenge_submit',
+  description: `Submit a solution to an open challenge. Hashes the solution locally and records the hash on-chain with a pointer to the solution.
+
+**Example:**
+\`\`\`json
+{"challenge": "0x...", "file": "./solution.sol", "solutionURI": "https://github.com/user/repo/blob/main/solution.sol"}
+\`\`\`
+
+Pass either \`file\` (a local path) or \`solution\` (inline text). Without \`solutionURI\`, solutions up to ${MAX_INLINE_BYTES / 1024} KB are stored inline as a data: URI.
+
+Resubmitting replaces your previous entry (at most once per hour).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      challenge: {
+        type: 'string',
+        description: 'Challenge contract address',
+      },
+      file: {
+        type: 'string',
+        description: 'Path to the local solution file',
+      },
+      solution: {
+        type: 'string',
+        description: 'Inline solution text (alternative to file)',
+      },
+      solutionURI: {
+        type: 'string',
+        description: 'Where the solution is published (http(s)://, ipfs://, or data:)',
+      },
+      agentId: {
+        type: 'number',
+        description: 'Your ERC-8004 agent ID (default: the agent from work_register)',
+      },
+    },
+    required: ['challenge'],
+  },
+};
+
+/**
+ * Load the solution bytes from `file` or `solution`
+ */
+function loadSolution(args: Record<string, unknown>): { content: Uint8Array; source: string } {
+  if (typeof args.file === 'string' && args.file.trim()) {
+    const path = resolve(args.file.trim());
+    let size: number;
+    try {
+      size = statSync(path).size;
+    } catch {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Solution file not found: ${path}`);
+    }
+    if (size > MAX_SOLUTION_BYTES) {
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        `Solution file is too large (${(size / 1024 / 1024).toFixed(1)} MB).`,
+        'Publish an archive and hash that instead.',
+      );
+    }
+    return { content: readFileSync(path), source: path };
+  }
+  if (typeof args.solution === 'string' && args.solution !== '') {
+    return { content: Buffer.from(args.solution, 'utf-8'), source: 'inline' };
+  }
+  throw new ClaraError(
+    ClaraErrorCode.INVALID_INPUT,
+    'Missing solution.',
+    'Pass `file` (a local path) or `solution` (inline text).',
+  );
+}
+
+/**
+ * Handle challenge_submit requests
+ */
+export async function handleChallengeSubmitRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const challengeAddress = parseChallengeAddress(args.challenge);
+  const agentId = args.agentId ?? getAgentRecord(ctx.walletAddress)?.agentId;
+
+  if (agentId === undefined || !Number.isInteger(Number(agentId)) || Number(agentId) <= 0) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      'A valid agentId is required to enter challenges.',
+      'Register with `work_register` first, or pass your ERC-8004 agent ID (e.g., `"agentId": 42`).',
+    );
+  }
+
+  const { content, source } = loadSolution(args);
+  const solutionHash = hashSolution(content);
+
+  let solutionURI = typeof args.solutionURI === 'string' ? args.solutionURI.trim() : '';
+  if (solutionURI) {
+    if (!/^(https?:\/\/|data:|ipfs:\/\/)/i.test(solutionURI)) {
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        'Invalid solutionURI.',
+        'Use an http(s) URL, ipfs:// URI, or data: URI.',
+      );
+    }
+  } else if (content.length <= MAX_INLINE_BYTES) {
+    solutionURI = `data:text/plain;base64,${Buffer.from(content).toString('base64')}`;
+  } else {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Solution is ${(content.length / 1024).toFixed(1)} KB — too large to store inline.`,
+      'Publish it (GitHub, IPFS, etc.) and pass `solutionURI`. The hash is still computed from your local copy.',
+    );
+  }
+
+  const challenge = await requireChallenge(challengeAddress);
+  requireChallengeStatus(challenge, ['open'], 'submit');
+
+  if (challenge.deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      'Cannot submit: the submission deadline has passed.',
+    );
+  }
+
+  const result = await sendContractWrite(ctx, {
+    to: challengeAddress,
+    abi: CHALLENGE_ABI,
+    functionName: 'submit',
+    args: [BigInt(Number(agentId)), solutionURI, solutionHash],
+    label: 'submit',
+    hint: `Check that the challenge is open, you own agent #${agentId}, and it has been ${CHALLENGE_LIMITS.submissionCooldown / 3600}h since your last submission.`,
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        '📤 Solution sent!',
+        '',
+        `**Challenge:** \`${challengeAddress}\``,
+        `**Agent ID:** ${agentId}`,
+        `**Solution:** ${source === 'inline' ? 'inline text' : `\`${source}\``} (${content.length} bytes)`,
+        `**Solution hash:** \`${solutionHash}\``,
+        `**URI:** ${solutionURI.length > 100 ? `${solutionURI.slice(0, 97)}...` : solutionURI}`,
+        `**Submissions close:** ${new Date(Number(challenge.deadline) * 1000).toISOString()}`,
+        '',
+        ...formatSentTx(result),
+      ].join('\n'),
+    }],
+  };
+}
@@ -8,12 +8,15 @@
  * Returns both human-readable display and structured data for programmatic use.
  */
 
-import { createPublicClient, formatUnits, http, type Hex } from 'viem';
+import { formatUnits, type Hex } from 'viem';
 import { getWalletStatus } from '../para/client.js';
 import type { ToolContext, ToolResult } from '../middleware.js';
 import { formatSpendingSummary, getSpendingHistory } from '../storage/spending.js';
-import { CHAINS, getRpcUrl, type SupportedChain } from '../config/chains.js';
+import { CHAINS, type SupportedChain } from '../config/chains.js';
 import { getProviderRegistry } from '../providers/index.js';
+import { multicallRead, nativeBalanceRead } from '../services/multicall.js';
+import { findKeeperActions, prepareKeeperActions, type PreparedKeeperAction } from '../services/keeper.js';
+import { formatKeeperAction } from './work-keeper.js';
 
 /**
  * Known token addresses by chain (same as balance.ts)
@@ -77,6 +80,7 @@ Shows:
 - Multi-chain balances (ETH + stablecoins across all supported chains)
 - Total portfolio value estimate (for stablecoins)
 - Recent spending activity
+- Bounty/challenge lifecycle calls that are due (prepared, ready to execute)
 - Suggested actions
 
 **Example:**
@@ -173,7 +177,8 @@ async function fetchChainBalances(
 }
 
 /**
- * Legacy RPC-based balance fetching (fallback when Herd unavailable)
+ * Legacy RPC-based balance fetching (fallback when Herd unavailable).
+ * Native + token balances come back from a single Multicall3 request.
  */
 async function fetchChainBalancesLegacy(
   chain: SupportedChain,
@@ -181,39 +186,34 @@ async function fetchChainBalancesLegacy(
   includeZero: boolean
 ): Promise<ChainBalance | null> {
   const chainConfig = CHAINS[chain];
-  const tokens = TOKENS[chain] || {};
+  const tokens = Object.entries(TOKENS[chain] || {});
 
   try {
-    const client = createPublicClient({
-      chain: chainConfig.chain,
-      transport: http(getRpcUrl(chain)),
-    });
+    const [nativeResult, ...balanceResults] = await multicallRead(chain, [
+      nativeBalanceRead(address),
+      ...tokens.map(([, token]) => ({
+        address: token.address,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [address],
+      })),
+    ]);
 
-    // Fetch native balance
-    const nativeBalance = await client.getBalance({ address });
+    if (!nativeResult.success) {
+      throw new Error(nativeResult.error);
+    }
+    const nativeBalance = nativeResult.result as bigint;
     const nativeFormatted = formatUnits(nativeBalance, chainConfig.nativeDecimals);
 
-    // Fetch token balances in parallel
-    const tokenResults = await Promise.allSettled(
-      Object.entries(tokens).map(async ([symbol, token]) => {
-        const balance = await client.readContract({
-          address: token.address,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: [address],
-        });
-        return { symbol, balance, decimals: token.decimals };
-      })
-    );
-
-    // Process token results
+    // Process token results (a reverting token is skipped, not fatal)
     const tokenBalances: ChainBalance['tokens'] = [];
     let totalUsd = 0;
 
-    for (const result of tokenResults) {
-      if (result.status === 'fulfilled') {
-        const { symbol, balance, decimals } = result.value;
-        const formatted = formatUnits(balance, decimals);
+    for (const [i, [symbol, token]] of tokens.entries()) {
+      const read = balanceResults[i];
+      if (read.success) {
+        const balance = read.result as bigint;
+        const formatted = formatUnits(balance, token.decimals);
         const balanceNum = parseFloat(formatted);
 
         if (balanceNum > 0.0001 || includeZero) {
@@ -257,6 +257,20 @@ async function fetchChainBalancesLegacy(
   }
 }
 
+/**
+ * Prepared keeper actions for the wallet's bounties and challenges.
+ * Index-only (no factory scan) to keep the dashboard fast; never throws.
+ */
+async function fetchKeeperActions(address: Hex): Promise<PreparedKeeperAction[]> {
+  try {
+    return await prepareKeeperActions(address, await findKeeperActions(address, { allowScan: false }));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(`[dashboard] Skipping keeper actions: ${msg}`);
+    return [];
+  }
+}
+
 /**
  * Handle wallet_dashboard requests
  */
@@ -269,9 +283,10 @@ export async function handleDashboardRequest(
   try {
     const address = ctx.walletAddress;
 
-    // Fetch wallet status and balances in parallel
-    const [status, ...chainBalances] = await Promise.all([
+    // Fetch wallet status, keeper actions, and balances in parallel
+    const [status, keeperActions, ...chainBalances] = await Promise.all([
       getWalletStatus(),
+      fetchKeeperActions(address),
       ...DASHBOARD_CHAINS.map((chain) => fetchChainBalances(chain, address, includeZero)),
     ]);
 
@@ -353,6 +368,17 @@ export async function handleDashboardRequest(
       lines.push('');
     }
 
+    // Due lifecycle calls (expired bounties, unfinalized challenges, ...)
+    if (keeperActions.length > 0) {
+      lines.push('## ⏰ Pending Actions');
+      for (const item of keeperActions) {
+        lines.push(formatKeeperAction(item));
+      }
+      lines.push('');
+      lines.push('Run them all with `work_keeper` `{"execute": true}`.');
+      lines.push('');
+    }
+
     // Suggested actions
     lines.push('## 💡 Actions');
     lines.push('- `wallet_send` - Send tokens');
@@ -379,6 +405,13 @@ export async function handleDashboardRequest(
         })),
       },
       recentPayments: recentSpending.length,
+      pendingActions: keeperActions.map(({ action, prepared }) => ({
+        kind: action.kind,
+        address: action.address,
+        functionName: action.functionName,
+        preparedTxId: prepared.id,
+        simulationSuccess: prepared.simulation.success,
+      })),
     };
 
     // Include structured data as JSON block at the end
@@ -8,16 +8,44 @@
  * Benefits:
  * - Exact same calldata is executed as was simulated
  * - No re-encoding between phases (prevents "model drift")
+ * - Re-simulated against the current block right before signing; a changed
+ *   outcome or balance changes refuse execution unless forced
  * - Transaction expires after 5 minutes for safety
+ * - Each ID is claimed before signing, so it is sent at most once
+ *
+ * Bundle IDs (pbx_...) execute every step in order via executeBundle.
+ *
+ * Spending policy and limits are enforced by the middleware through
+ * executePreparedSpendingExtractor, which re-simulates and prices what the
+ * call sends now; the handler compares that same fresh simulation.
+ * Above the approval threshold the preparation moves to `approved` once a
+ * human says yes.
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { Hex } from 'viem';
 import { signAndSendTransaction, type TransactionParams } from '../para/transactions.js';
-import type { ToolContext, ToolResult } from '../middleware.js';
-import { getPreparedTx, deletePreparedTx, formatPreparedTx } from '../para/prepared-tx.js';
+import type { SpendingExtractor, ToolContext, ToolResult } from '../middleware.js';
+import {
+  claimPrepared,
+  getPreparedTx,
+  formatPreparedTx,
+  getPreparedBundle,
+  formatPreparedBundle,
+  isBundleId,
+  loadPrepared,
+  markPreparedExecuted,
+  releasePrepared,
+  transitionPrepared,
+  verifyPreparedContent,
+} from '../para/prepared-tx.js';
+import { executeBundle, simulateBundle } from '../services/bundle.js';
+import { formatAppliedGas, GAS_URGENCIES } from '../para/gas-policy.js';
+import type { GasUrgency, SpendingApproval } from '../storage/spending.js';
+import { compareSimulations, simulateTransaction, type Simulation } from '../services/simulation.js';
 import { type SupportedChain } from '../config/chains.js';
 import { requireGas } from '../gas-preflight.js';
+import { assessOutgoingValue, perCallUsd } from '../services/outgoing-value.js';
 
 // Explorer URLs by chain
 const EXPLORERS: Record<SupportedChain, string> = {
@@ -49,6 +77,9 @@ export const executePreparedToolDefinition: Tool = {
 - Executes the EXACT same calldata that was simulated
 - Prepared transactions expire after 5 minutes
 - Only simulated-successful transactions can be executed (use \`force: true\` to override)
+- Re-simulated right before signing; refuses if the outcome or balance changes moved since preparation (\`force: true\` overrides)
+- Bundle IDs (\`pbx_...\`) run every step in order and stop at the first failure
+- Above the approval threshold a human has to approve; if the client can't ask them, this returns an approval ID to retry with as \`approvalId\`
 
 **Note:** If the prepared transaction has expired, run \`wallet_call\` again to get a fresh one.`,
   inputSchema: {
@@ -56,17 +87,263 @@ export const executePreparedToolDefinition: Tool = {
     properties: {
       preparedTxId: {
         type: 'string',
-        description: 'The prepared transaction ID from wallet_call',
+        description: 'The prepared transaction or bundle ID from wallet_call',
       },
       force: {
         type: 'boolean',
-        description: 'Force execution even if simulation failed (dangerous!)',
+        description: 'Force execution even if simulation failed or changed since preparation (dangerous!)',
+      },
+      urgency: {
+        type: 'string',
+        enum: GAS_URGENCIES,
+        description: 'Gas pricing: slow (cheaper), normal, or fast. Default: the chain\'s gas policy.',
+      },
+      approvalId: {
+        type: 'string',
+        description: 'Approval ID from an earlier call that needed human approval (apr_...)',
       },
     },
     required: ['preparedTxId'],
   },
 };
 
+/**
+ * Explain why an ID can't be executed: unknown, expired, or already finished
+ */
+function unavailable(id: string, kind: 'transaction' | 'bundle'): ToolResult {
+  const record = loadPrepared(id);
+  const retry = kind === 'bundle'
+    ? 'Run `wallet_call` with `calls` again to prepare a fresh bundle.'
+    : 'Run `wallet_call` again to prepare a fresh transaction.';
+
+  let text: string;
+  if (record && record.state !== 'expired') {
+    const hashes = record.txHashes?.length ? ` (${record.txHashes.map((h) => `\`${h}\``).join(', ')})` : '';
+    text = `❌ **Prepared ${kind} already ${record.state}:** \`${id}\`${hashes}\n\nEach preparation can only be used once. ${retry}`;
+  } else {
+    text = `❌ **Prepared ${kind} not found or expired:** \`${id}\`\n\nPrepared ${kind}s expire after 5 minutes (\`wallet_prepared\` can extend pending ones).\n\n${retry}`;
+  }
+  return { content: [{ type: 'text', text }], isError: true };
+}
+
+/**
+ * The stored calls no longer hash to the ID they were issued under
+ */
+function integrityFailure(id: string): ToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: `❌ **Integrity check failed:** \`${id}\`\n\nThe stored calldata doesn't match the content hash in its ID, so it isn't what was simulated. Run \`wallet_call\` again.`,
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * The fresh simulation no longer matches the one that was reviewed
+ */
+function simulationChanged(id: string, changes: string[]): ToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        `⚠️ **Simulation changed since preparation:** \`${id}\``,
+        '',
+        'Re-simulated against the current block before signing (prepared → now):',
+        ...changes.map((change) => `- ${change}`),
+        '',
+        'Nothing was sent. Run `wallet_call` again to review the new outcome, or use `force: true` to send anyway (dangerous!).',
+      ].join('\n'),
+    }],
+    isError: true,
+  };
+}
+
+const STEP_ICONS = { confirmed: '✅', pending: '⏳', reverted: '❌', failed: '❌', skipped: '⏭️' } as const;
+
+type BundleResimulation = Awaited<ReturnType<typeof simulateBundle>>;
+
+/**
+ * Fresh simulations the spending extractor priced, by prepared ID. The
+ * handler takes them so it compares the outcome that was priced.
+ */
+const freshTxSimulations = new Map<string, Simulation>();
+const freshBundleSimulations = new Map<string, BundleResimulation>();
+
+function takeFresh<T>(cache: Map<string, T>, id: string): T | undefined {
+  const fresh = cache.get(id);
+  cache.delete(id);
+  return fresh;
+}
+
+/**
+ * Simulation to price a call from: the fresh one, unless only the stored
+ * one has balance changes (which the handler refuses without force)
+ */
+function pricingSimulation(stored: Simulation, fresh: Simulation): Simulation {
+  return fresh.balanceChanges || !stored.balanceChanges ? fresh : stored;
+}
+
+/**
+ * Execute a prepared bundle, step by step
+ */
+async function handleExecuteBundle(
+  bundleId: string,
+  force: boolean,
+  urgency: GasUrgency | undefined,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const bundle = getPreparedBundle(bundleId);
+  if (!bundle) {
+    return unavailable(bundleId, 'bundle');
+  }
+
+  if (!bundle.success && !force) {
+    return {
+      content: [{
+        type: 'text',
+        text: `${formatPreparedBundle(bundle)}\n\n❌ **Cannot execute:** Bundle simulation failed.\n\nTo force execution anyway, use \`force: true\` (dangerous!)`,
+      }],
+      isError: true,
+    };
+  }
+
+  if (!verifyPreparedContent(bundle)) {
+    return integrityFailure(bundleId);
+  }
+
+  // Re-simulate the whole sequence against the current block
+  const fresh = takeFresh(freshBundleSimulations, bundleId)
+    ?? await simulateBundle(bundle.chain, ctx.walletAddress, bundle.steps);
+  const changes = fresh.error
+    ? (bundle.success ? [`Re-simulation unavailable: ${fresh.error}`] : [])
+    : bundle.steps.flatMap((step, i) => compareSimulations(step.simulation, fresh.simulations[i])
+      .map((change) => `Step ${i + 1} \`${step.functionSignature}\` — ${change}`));
+  if (changes.length > 0 && !force) {
+    return simulationChanged(bundleId, changes);
+  }
+
+  // Claim the ID before signing, so a concurrent or retried call can't send it too
+  if (!claimPrepared(bundleId)) {
+    return unavailable(bundleId, 'bundle');
+  }
+
+  console.error(`[clara] Executing prepared bundle ${bundleId}: ${bundle.steps.length} steps on ${bundle.chain}`);
+
+  // Size gas from the fresh estimates where they succeeded
+  let executions: Awaited<ReturnType<typeof executeBundle>>;
+  try {
+    executions = await executeBundle(ctx, fresh.error ? bundle : {
+      ...bundle,
+      steps: bundle.steps.map((step, i) => (fresh.simulations[i].success ? { ...step, simulation: fresh.simulations[i] } : step)),
+    }, urgency);
+  } catch (error) {
+    // Refused before the first step (gas, nonces): nothing was sent
+    releasePrepared(bundleId, `not sent: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+  const confirmed = executions.filter((e) => e.status === 'confirmed').length;
+  const allConfirmed = confirmed === executions.length;
+
+  // One-time use, even if a step failed part-way (earlier steps are on-chain)
+  const txHashes = executions.flatMap((e) => (e.txHash ? [e.txHash] : []));
+  markPreparedExecuted(
+    bundleId,
+    txHashes,
+    allConfirmed ? undefined : `stopped after ${confirmed} of ${executions.length} steps`,
+  );
+
+  const lines: string[] = [
+    allConfirmed ? '✅ **Bundle Executed!**' : `⚠️ **Bundle stopped after ${confirmed} of ${executions.length} steps**`,
+    '',
+    `**Chain:** ${bundle.chain}`,
+    ...(executions[0]?.gas ? [`**Gas:** ${formatAppliedGas(executions[0].gas)}`] : []),
+    '',
+  ];
+  for (const e of executions) {
+    const link = e.explorerUrl ? ` — [tx](${e.explorerUrl})` : '';
+    const error = e.error ? `: ${e.error}` : '';
+    lines.push(`${e.step}. ${STEP_ICONS[e.status]} \`${e.functionName}\` ${e.status}${error}${link}`);
+  }
+
+  if (force && !bundle.success) {
+    lines.push('', `⚠️ **Note:** This bundle was force-executed despite simulation failure.`);
+  } else if (changes.length > 0) {
+    lines.push('', `⚠️ **Note:** This bundle was force-executed although its simulation changed since preparation.`);
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: !allConfirmed,
+  };
+}
+
+/**
+ * What a prepared transaction or bundle will send, priced from its
+ * calldata and a fresh simulation, so balance changes that grew since
+ * preparation count even under `force`. Unknown or finished IDs are left
+ * to the handler.
+ */
+export const executePreparedSpendingExtractor: SpendingExtractor = async (args, ctx) => {
+  const id = args.preparedTxId;
+  if (typeof id !== 'string') return null;
+
+  // Settled from the hashes markPreparedExecuted stored
+  const sentHashes = () => loadPrepared(id)?.txHashes ?? [];
+  const onApproved = (approval: SpendingApproval) => {
+    transitionPrepared(id, 'approved', { note: `approved by human (${approval.id}, ${approval.method})` });
+  };
+
+  if (isBundleId(id)) {
+    const bundle = getPreparedBundle(id);
+    if (!bundle) return null;
+    const fresh = await simulateBundle(bundle.chain, ctx.walletAddress, bundle.steps);
+    freshBundleSimulations.set(id, fresh);
+    const value = await assessOutgoingValue(bundle.chain, ctx.walletAddress, fresh.error
+      ? bundle.steps
+      : bundle.steps.map((step, i) => ({ ...step, simulation: pricingSimulation(step.simulation, fresh.simulations[i]) })));
+    return {
+      tool: 'wallet_executePrepared',
+      subject: id,
+      chain: bundle.chain,
+      value,
+      recipient: bundle.steps[0].to,
+      calls: bundle.steps,
+      description: `Bundle ${id} on ${bundle.chain}`,
+      settle: () => {
+        // Steps are sent in order; every broadcast one counts, even if a later one failed
+        const txHashes = sentHashes();
+        if (txHashes.length === 0) return null;
+        const usd = perCallUsd(value).slice(0, txHashes.length).reduce((sum, v) => sum + v, 0);
+        return { usd, txHash: txHashes[0], amounts: value.perCall.slice(0, txHashes.length).flat() };
+      },
+      onApproved,
+    };
+  }
+
+  const preparedTx = getPreparedTx(id);
+  if (!preparedTx) return null;
+  const fresh = await simulateTransaction(preparedTx.chain, ctx.walletAddress, preparedTx);
+  freshTxSimulations.set(id, fresh);
+  const value = await assessOutgoingValue(preparedTx.chain, ctx.walletAddress, [
+    { ...preparedTx, simulation: pricingSimulation(preparedTx.simulation, fresh) },
+  ]);
+  return {
+    tool: 'wallet_executePrepared',
+    subject: id,
+    chain: preparedTx.chain,
+    value,
+    recipient: preparedTx.to,
+    calls: [preparedTx],
+    description: `${preparedTx.functionSignature} on ${preparedTx.chain}`,
+    settle: () => {
+      const [txHash] = sentHashes();
+      return txHash ? { usd: value.usd, txHash } : null;
+    },
+    onApproved,
+  };
+};
+
 /**
  * Handle wallet_executePrepared requests
  */
@@ -76,6 +353,7 @@ export async function handleExecutePreparedRequest(
 ): Promise<ToolResult> {
   const preparedTxId = args.preparedTxId as string;
   const force = (args.force as boolean) || false;
+  const urgency = args.urgency as GasUrgency | undefined;
 
   try {
     // Validate input
@@ -86,21 +364,24 @@ export async function handleExecutePreparedRequest(
       };
     }
 
+    if (urgency !== undefined && !GAS_URGENCIES.includes(urgency)) {
+      return {
+        content: [{ type: 'text', text: `❌ Invalid urgency: ${String(urgency).slice(0, 20)}. Use slow, normal, or fast.` }],
+        isError: true,
+      };
+    }
+
+    if (isBundleId(preparedTxId)) {
+      return await handleExecuteBundle(preparedTxId, force, urgency, ctx);
+    }
+
     const session = ctx.session;
 
     // Get prepared transaction
     const preparedTx = getPreparedTx(preparedTxId);
 
     if (!preparedTx) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ **Prepared transaction not found or expired:** \`${preparedTxId}\`\n\nPrepared transactions expire after 5 minutes.\n\nRun \`wallet_call\` again to prepare a fresh transaction.`,
-          },
-        ],
-        isError: true,
-      };
+      return unavailable(preparedTxId, 'transaction');
     }
 
     // Check simulation status
@@ -117,11 +398,24 @@ export async function handleExecutePreparedRequest(
       };
     }
 
+    if (!verifyPreparedContent(preparedTx)) {
+      return integrityFailure(preparedTxId);
+    }
+
+    // Re-simulate against the current block: the stored result can be minutes old
+    const fresh = takeFresh(freshTxSimulations, preparedTxId)
+      ?? await simulateTransaction(preparedTx.chain, ctx.walletAddress, preparedTx);
+    const changes = compareSimulations(preparedTx.simulation, fresh);
+    if (changes.length > 0 && !force) {
+      return simulationChanged(preparedTxId, changes);
+    }
+    const gasEstimate = fresh.success ? fresh.gasEstimate : preparedTx.simulation.gasEstimate;
+
     // Gas pre-flight check
     await requireGas(preparedTx.chain, ctx.walletAddress, {
       txValue: preparedTx.value,
-      gasLimit: preparedTx.simulation.gasEstimate
-        ? (preparedTx.simulation.gasEstimate * 150n) / 100n  // Match the 50% buffer below
+      gasLimit: gasEstimate
+        ? (gasEstimate * 150n) / 100n  // Match the 50% buffer below
         : 200_000n,
     });
 
@@ -131,10 +425,12 @@ export async function handleExecutePreparedRequest(
       data: preparedTx.data,
       value: preparedTx.value,
       chainId: preparedTx.chainId,
-      // Use simulated gas estimate with 50% buffer (complex contract calls need headroom)
-      gas: preparedTx.simulation.gasEstimate
-        ? (preparedTx.simulation.gasEstimate * 150n) / 100n
+      // Use the fresh gas estimate with 50% buffer (complex contract calls need headroom)
+      gas: gasEstimate
+        ? (gasEstimate * 150n) / 100n
         : undefined,
+      description: `${preparedTx.functionSignature} on ${preparedTx.chain}`,
+      urgency,
     };
 
     // Execute the transaction
@@ -142,10 +438,22 @@ export async function handleExecutePreparedRequest(
       `[clara] Executing prepared tx ${preparedTxId}: ${preparedTx.functionSignature} on ${preparedTx.chain}`
     );
 
-    const result = await signAndSendTransaction(session.walletId!, txParams);
+    // Claim the ID before signing, so a concurrent or retried call can't send it too
+    if (!claimPrepared(preparedTxId)) {
+      return unavailable(preparedTxId, 'transaction');
+    }
+
+    let result: Awaited<ReturnType<typeof signAndSendTransaction>>;
+    try {
+      result = await signAndSendTransaction(session.walletId!, txParams);
+    } catch (error) {
+      // Nothing was broadcast, so the preparation can be retried
+      releasePrepared(preparedTxId, `not sent: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
 
-    // Delete the prepared transaction (one-time use)
-    deletePreparedTx(preparedTxId);
+    // Record the execution (one-time use; the record stays for the audit trail)
+    markPreparedExecuted(preparedTxId, [result.txHash]);
 
     // Build success message
     const explorerUrl = `${EXPLORERS[preparedTx.chain]}${result.txHash}`;
@@ -167,6 +475,14 @@ export async function handleExecutePreparedRequest(
       `🔗 [View on Explorer](${explorerUrl})`
     );
 
+    if (result.gas) {
+      lines.push(`**Gas:** ${formatAppliedGas(result.gas)}`);
+    }
+
+    if (result.trackingId) {
+      lines.push('', `**Tracking ID:** \`${result.trackingId}\` — check confirmation with \`wallet_tx_status\``);
+    }
+
     if (preparedTx.value > 0n) {
       const ethValue = Number(preparedTx.value) / 1e18;
       lines.push('', `**Value sent:** ${ethValue.toFixed(6)} ETH`);
@@ -174,6 +490,8 @@ export async function handleExecutePreparedRequest(
 
     if (force && !preparedTx.simulation.success) {
       lines.push('', `⚠️ **Note:** This transaction was force-executed despite simulation failure.`);
+    } else if (changes.length > 0) {
+      lines.push('', `⚠️ **Note:** This transaction was force-executed although its simulation changed since preparation.`);
     }
 
     return {
@@ -0,0 +1,258 @@
+/**
+ * wallet_history - Transaction History
+ *
+ * Thin tool over ProviderRegistry.listHistory (Zerion today; Herd
+ * registers but cannot list by account). Type and direction filters are
+ * applied client-side to each page, so a filtered page can hold fewer
+ * than `limit` entries — follow `nextCursor` for more.
+ *
+ * Provider data is untrusted: every string goes through sanitizeString
+ * before it reaches the markdown or the JSON block.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { SUPPORTED_CHAINS, isSupportedChain, type SupportedChain } from '../config/chains.js';
+import { getProviderRegistry } from '../providers/index.js';
+import type { TransactionSummary, TransactionType, TransferInfo } from '../providers/types.js';
+import { sanitizeString } from '../utils/sanitize.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+const TRANSACTION_TYPES: TransactionType[] = [
+  'send', 'receive', 'swap', 'approve', 'mint', 'burn', 'deposit',
+  'withdraw', 'stake', 'unstake', 'claim', 'bridge', 'deploy', 'unknown',
+];
+
+const DIRECTIONS = ['in', 'out', 'self'] as const;
+type Direction = (typeof DIRECTIONS)[number];
+
+/**
+ * Tool definition for wallet_history
+ */
+export const historyToolDefinition: Tool = {
+  name: 'wallet_history',
+  description: `List your recent transactions.
+
+**Examples:**
+\`\`\`json
+{"chain": "base", "limit": 10}
+{"chain": "all", "type": ["swap", "bridge"]}
+{"chain": "base", "direction": "in", "cursor": "..."}
+\`\`\`
+
+\`type\` matches the transaction classification; \`direction\` matches any transfer in that direction. Use \`nextCursor\` from the result to page further (single chain only).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      chain: {
+        type: 'string',
+        enum: [...SUPPORTED_CHAINS, 'all'],
+        default: 'base',
+        description: 'Chain to list, or "all" (default: base)',
+      },
+      limit: {
+        type: 'number',
+        default: DEFAULT_LIMIT,
+        description: `Max transactions per page, 1-${MAX_LIMIT} (default: ${DEFAULT_LIMIT})`,
+      },
+      cursor: {
+        type: 'string',
+        description: 'nextCursor from a previous page',
+      },
+      type: {
+        type: 'array',
+        items: { type: 'string', enum: TRANSACTION_TYPES },
+        description: 'Only include these transaction types',
+      },
+      direction: {
+        type: 'string',
+        enum: [...DIRECTIONS],
+        description: 'Only include transactions with a transfer in this direction',
+      },
+    },
+  },
+};
+
+/**
+ * Sanitized, JSON-safe view of a transaction
+ */
+interface HistoryEntry {
+  hash: string;
+  chain: string;
+  timestamp: string;
+  status: string;
+  type: string;
+  summary: string;
+  transfers: Array<{
+    direction: string;
+    symbol: string;
+    amount: string;
+    valueUsd?: string;
+    from: string;
+    to: string;
+  }>;
+  gasCost?: string;
+  gasCostUsd?: string;
+  explorerUrl: string;
+}
+
+function sanitizeTransfer(t: TransferInfo): HistoryEntry['transfers'][number] {
+  return {
+    direction: sanitizeString(t.direction, 10),
+    symbol: sanitizeString(t.token.symbol, 20),
+    amount: sanitizeString(t.amount, 40),
+    ...(t.valueUsd ? { valueUsd: sanitizeString(t.valueUsd, 20) } : {}),
+    from: sanitizeString(t.from, 42),
+    to: sanitizeString(t.to, 42),
+  };
+}
+
+function sanitizeTransaction(tx: TransactionSummary): HistoryEntry {
+  return {
+    hash: sanitizeString(tx.hash, 66),
+    chain: sanitizeString(tx.chain, 20),
+    timestamp: sanitizeString(tx.timestamp, 40),
+    status: sanitizeString(tx.status, 20),
+    type: sanitizeString(tx.type, 20),
+    summary: sanitizeString(tx.summary, 120),
+    transfers: tx.transfers.map(sanitizeTransfer),
+    ...(tx.gasCost ? { gasCost: sanitizeString(tx.gasCost, 40) } : {}),
+    ...(tx.gasCostUsd ? { gasCostUsd: sanitizeString(tx.gasCostUsd, 20) } : {}),
+    explorerUrl: sanitizeString(tx.explorerUrl, 200),
+  };
+}
+
+/**
+ * Render transfers as "-10 USDC, +0.004 WETH"
+ */
+function formatTransfers(entry: HistoryEntry): string {
+  if (entry.transfers.length === 0) return '—';
+  return entry.transfers
+    .map((t) => `${t.direction === 'in' ? '+' : t.direction === 'out' ? '-' : ''}${t.amount} ${t.symbol}`)
+    .join(', ');
+}
+
+/**
+ * Handle wallet_history requests
+ */
+export async function handleHistoryRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const chain = (args.chain as string) || 'base';
+  if (chain !== 'all' && !isSupportedChain(chain)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Unsupported chain: ${chain}`,
+      `Supported: ${SUPPORTED_CHAINS.join(', ')}, all`,
+    );
+  }
+
+  const limit = typeof args.limit === 'number'
+    ? Math.min(Math.max(Math.floor(args.limit), 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  const cursor = typeof args.cursor === 'string' && args.cursor ? args.cursor : undefined;
+  if (cursor && chain === 'all') {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      'Cursor pagination is not available for chain "all".',
+      'Pick a single chain to page through its history.',
+    );
+  }
+
+  const rawTypes = args.type === undefined ? [] : Array.isArray(args.type) ? args.type : [args.type];
+  const badType = rawTypes.find((t) => !TRANSACTION_TYPES.includes(t as TransactionType));
+  if (badType !== undefined) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Unknown transaction type: ${String(badType)}`,
+      `Valid types: ${TRANSACTION_TYPES.join(', ')}`,
+    );
+  }
+  const types = new Set(rawTypes as TransactionType[]);
+
+  const direction = args.direction as Direction | undefined;
+  if (direction !== undefined && !DIRECTIONS.includes(direction)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid direction: ${String(direction)}`,
+      `Use one of: ${DIRECTIONS.join(', ')}`,
+    );
+  }
+
+  const result = await getProviderRegistry().listHistory({
+    address: ctx.walletAddress,
+    chain: chain as SupportedChain | 'all',
+    limit,
+    cursor,
+  });
+
+  if (!result.success || !result.data) {
+    throw new ClaraError(
+      ClaraErrorCode.PROVIDER_UNAVAILABLE,
+      `Transaction history unavailable: ${result.error || 'unknown error'}`,
+      'Set ZERION_API_KEY to enable wallet_history.',
+    );
+  }
+
+  const fetched = result.data.transactions.length;
+  const entries = result.data.transactions
+    .filter((tx) => types.size === 0 || types.has(tx.type))
+    .filter((tx) => !direction || tx.transfers.some((t) => t.direction === direction))
+    .map(sanitizeTransaction);
+  const nextCursor = result.data.nextCursor ? sanitizeString(result.data.nextCursor, 200) : undefined;
+
+  const filters = [
+    types.size > 0 ? `type: ${[...types].join(', ')}` : '',
+    direction ? `direction: ${direction}` : '',
+  ].filter(Boolean);
+
+  const lines = [
+    `## 📜 Transaction History (${chain})`,
+    '',
+    `**Address:** \`${ctx.walletAddress}\``,
+  ];
+  if (filters.length > 0) {
+    lines.push(`**Filters:** ${filters.join('; ')} (${entries.length} of ${fetched} on this page)`);
+  }
+  lines.push('');
+
+  if (entries.length === 0) {
+    lines.push('_No matching transactions_');
+  } else {
+    lines.push('| Date | Chain | Type | Summary | Transfers | Status |');
+    lines.push('|------|-------|------|---------|-----------|--------|');
+    for (const entry of entries) {
+      const date = entry.timestamp.slice(0, 16).replace('T', ' ');
+      const summary = entry.explorerUrl ? `[${entry.summary || entry.hash.slice(0, 10)}](${entry.explorerUrl})` : entry.summary;
+      const status = entry.status === 'confirmed' ? '✅' : entry.status === 'failed' ? '❌' : '⏳';
+      lines.push(`| ${date} | ${entry.chain} | ${entry.type} | ${summary} | ${formatTransfers(entry)} | ${status} |`);
+    }
+  }
+
+  if (nextCursor) {
+    lines.push('');
+    lines.push(`💡 More history: \`{"chain": "${chain}", "cursor": "${nextCursor}"}\``);
+  }
+
+  const structuredData = {
+    address: ctx.walletAddress,
+    chain,
+    provider: result.provider,
+    transactions: entries,
+    hasMore: result.data.hasMore,
+    ...(nextCursor ? { nextCursor } : {}),
+  };
+
+  lines.push('');
+  lines.push('---');
+  lines.push('```json');
+  lines.push(JSON.stringify(structuredData, null, 2));
+  lines.push('```');
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
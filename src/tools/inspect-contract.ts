@@ -0,0 +1,291 @@
+/**
+ * wallet_inspect_contract - Contract Intelligence and Risk
+ *
+ * Surfaces what wallet_send / wallet_call already compute internally:
+ * the cached ContractMetadataSummary, proxy and upgrade history, top
+ * holders, functions (filtered by mutability), and the full risk signal
+ * list.
+ *
+ * The full metadata (ABI included) can be 200KB+, so the default view is
+ * compact and carries a `ref`; pass it back to fetch the full object
+ * from the metadata cache without another provider call.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { CHAINS, isSupportedChain, type SupportedChain } from '../config/chains.js';
+import {
+  cacheMetadata,
+  getCachedMetadataByRef,
+  getCachedSummary,
+  getProviderRegistry,
+  type ContractMetadata,
+  type ContractMetadataSummary,
+  type FunctionInfo,
+  type RiskAssessment,
+} from '../providers/index.js';
+import { assessMetadataRisk } from '../services/risk.js';
+import { resolveAddress, formatResolved } from '../services/resolve-address.js';
+import { sanitizeContractName, sanitizeString } from '../utils/sanitize.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const MUTABILITIES = ['view', 'pure', 'nonpayable', 'payable'] as const;
+type Mutability = (typeof MUTABILITIES)[number];
+
+/** Default: state-changing functions only */
+const DEFAULT_MUTABILITY: Mutability[] = ['nonpayable', 'payable'];
+const DEFAULT_FUNCTION_LIMIT = 25;
+const MAX_HOLDERS = 10;
+
+/**
+ * Tool definition for wallet_inspect_contract
+ */
+export const inspectContractToolDefinition: Tool = {
+  name: 'wallet_inspect_contract',
+  description: `Inspect a contract before interacting with it: summary, proxy/implementation, upgrade history, top holders, functions, and risk signals.
+
+**Examples:**
+\`\`\`json
+{"address": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "chain": "base"}
+{"address": "0x...", "mutability": ["view"]}
+{"ref": "a1b2c3d4e5f6"}
+\`\`\`
+
+The result includes a \`ref\`. Pass it back (alone) to get the full cached metadata as JSON — add \`includeAbi: true\` for the raw ABI.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      address: {
+        type: 'string',
+        description: 'Contract address, Clara name, or ENS name',
+      },
+      chain: {
+        type: 'string',
+        enum: ['base', 'ethereum'],
+        default: 'base',
+        description: 'Chain (default: base)',
+      },
+      mutability: {
+        type: 'array',
+        items: { type: 'string', enum: [...MUTABILITIES] },
+        description: 'Function mutabilities to list (default: nonpayable, payable)',
+      },
+      limit: {
+        type: 'number',
+        default: DEFAULT_FUNCTION_LIMIT,
+        description: `Max functions to list (default: ${DEFAULT_FUNCTION_LIMIT})`,
+      },
+      ref: {
+        type: 'string',
+        description: 'Reference from a previous inspection — returns the full cached metadata',
+      },
+      includeAbi: {
+        type: 'boolean',
+        default: false,
+        description: 'With ref: include the raw ABI (can be very large)',
+      },
+    },
+  },
+};
+
+// ─── Formatting ──────────────────────────────────────────────────────
+
+function formatFunction(fn: FunctionInfo): string {
+  const outputs = fn.outputs.length > 0 ? ` → (${fn.outputs.map((o) => o.type).join(', ')})` : '';
+  const summary = fn.summary ? ` — ${sanitizeString(fn.summary, 100)}` : '';
+  return `- \`${sanitizeString(fn.fullSignature, 120)}\`${outputs} _${fn.stateMutability}_${summary}`;
+}
+
+function formatRisk(risk: RiskAssessment): string[] {
+  const icon = { low: '✅', medium: '⚠️', high: '⚠️', critical: '🚫' }[risk.overallRisk];
+  const lines = [`**Overall:** ${icon} ${risk.overallRisk} — recommendation: ${risk.recommendation}`];
+  if (risk.signals.length === 0) {
+    lines.push('- No risk signals detected');
+  }
+  for (const signal of risk.signals) {
+    const severity = signal.severity === 'block' ? '🚫' : signal.severity === 'warn' ? '⚠️' : 'ℹ️';
+    const evidence = signal.evidence ? ` (${sanitizeString(signal.evidence, 120)})` : '';
+    lines.push(`- ${severity} **${signal.type}**: ${sanitizeString(signal.message, 150)}${evidence}`);
+  }
+  return lines;
+}
+
+function formatInspection(
+  metadata: ContractMetadata,
+  summary: ContractMetadataSummary,
+  risk: RiskAssessment,
+  mutability: Mutability[],
+  limit: number,
+  label: string,
+): string {
+  const lines = [
+    `## 🔎 ${summary.name} on ${summary.chain}`,
+    '',
+    `**Address:** ${label}`,
+    `**Verified:** ${summary.verified ? '✅ Yes' : '❌ No'}`,
+  ];
+  if (summary.standards.length > 0) lines.push(`**Standards:** ${summary.standards.join(', ')}`);
+  if (metadata.summary) lines.push(`**Summary:** ${sanitizeString(metadata.summary, 300)}`);
+  if (metadata.deployment?.timestamp) lines.push(`**Deployed:** ${sanitizeString(metadata.deployment.timestamp, 40)} (block ${metadata.deployment.blockNumber})`);
+  lines.push(`**Interface:** ${summary.functionCount} functions, ${summary.eventCount} events${summary.topFunctions.length > 0 ? ` — key: ${summary.topFunctions.join(', ')}` : ''}`);
+
+  if (metadata.token) {
+    const t = metadata.token;
+    const price = t.priceUsd ? `, $${sanitizeString(t.priceUsd, 20)}` : '';
+    const cap = t.marketCapUsd ? `, market cap $${sanitizeString(t.marketCapUsd, 24)}` : '';
+    lines.push(`**Token:** ${sanitizeContractName(t.name)} (${sanitizeContractName(t.symbol)}) ${t.type}${t.decimals !== undefined ? `, ${t.decimals} decimals` : ''}${price}${cap}`);
+  }
+
+  // Proxy / upgrades
+  lines.push('');
+  lines.push('### Proxy');
+  if (metadata.proxy?.isProxy) {
+    lines.push(`Upgradeable${metadata.proxy.proxyType ? ` (${metadata.proxy.proxyType})` : ''} — implementation \`${metadata.proxy.implementationAddress ?? 'unknown'}\``);
+    if (metadata.proxy.adminAddress) lines.push(`Admin: \`${metadata.proxy.adminAddress}\``);
+  } else {
+    lines.push('Not a proxy');
+  }
+  if (metadata.upgrades && metadata.upgrades.length > 0) {
+    lines.push('');
+    lines.push(`### Upgrade History (${metadata.upgrades.length})`);
+    for (const upgrade of metadata.upgrades) {
+      const added = upgrade.addedFunctions?.length ? ` — added ${upgrade.addedFunctions.slice(0, 5).join(', ')}${upgrade.addedFunctions.length > 5 ? '…' : ''}` : '';
+      lines.push(`- v${upgrade.version}: \`${upgrade.implementationAddress}\` at block ${upgrade.blockNumber}${added}`);
+    }
+  }
+
+  // Holders
+  const holders = metadata.token?.topHolders ?? [];
+  if (holders.length > 0) {
+    lines.push('');
+    lines.push('### Top Holders');
+    lines.push('| Holder | Share | Label |');
+    lines.push('|--------|-------|-------|');
+    for (const holder of holders.slice(0, MAX_HOLDERS)) {
+      const name = sanitizeString(holder.entityLabel || holder.name || holder.coingeckoLabel || holder.type, 40);
+      lines.push(`| \`${holder.address.slice(0, 10)}…\` | ${holder.sharePercentage.toFixed(2)}% | ${name} |`);
+    }
+  }
+
+  // Functions
+  const functions = metadata.functions.filter((f) => mutability.includes(f.stateMutability));
+  lines.push('');
+  lines.push(`### Functions: ${mutability.join(', ')} (${Math.min(limit, functions.length)} of ${functions.length})`);
+  if (functions.length === 0) {
+    lines.push('_None_');
+  }
+  for (const fn of functions.slice(0, limit)) {
+    lines.push(formatFunction(fn));
+  }
+
+  // Risk
+  lines.push('');
+  lines.push('### Risk');
+  lines.push(...formatRisk(risk));
+
+  lines.push('');
+  lines.push(`💡 Full metadata: \`wallet_inspect_contract\` \`{"ref": "${summary.ref}"}\``);
+
+  return lines.join('\n');
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────
+
+/**
+ * Return the full cached metadata for a ref
+ */
+function handleRefLookup(ref: string, includeAbi: boolean): ToolResult {
+  const cached = getCachedMetadataByRef(ref);
+  if (!cached) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `No cached metadata for ref "${sanitizeString(ref, 40)}".`,
+      'Refs expire with the 24h metadata cache. Inspect the contract again by address.',
+    );
+  }
+
+  const data = includeAbi ? cached.data : { ...cached.data, abi: undefined };
+  const lines = [
+    `## 🔎 ${cached.summary.name} — full metadata`,
+    '',
+    `**Address:** \`${cached.summary.address}\` on ${cached.summary.chain} (cached ${cached.summary.cachedAt})`,
+    '',
+    '```json',
+    JSON.stringify(data, null, 2),
+    '```',
+  ];
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
+
+/**
+ * Handle wallet_inspect_contract requests
+ */
+export async function handleInspectContractRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  if (typeof args.ref === 'string' && args.ref.trim()) {
+    return handleRefLookup(args.ref.trim(), args.includeAbi === true);
+  }
+
+  const input = typeof args.address === 'string' ? args.address.trim() : '';
+  if (!input) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Missing address.', 'Provide a contract address, name, or a ref from a previous inspection.');
+  }
+
+  const chain = (args.chain as string) || 'base';
+  if (!isSupportedChain(chain)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Unsupported chain: ${chain}`);
+  }
+
+  const mutability = Array.isArray(args.mutability) && args.mutability.length > 0
+    ? (args.mutability as string[])
+    : DEFAULT_MUTABILITY;
+  const badMutability = mutability.find((m) => !MUTABILITIES.includes(m as Mutability));
+  if (badMutability) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid mutability: ${badMutability}`, `Use any of: ${MUTABILITIES.join(', ')}`);
+  }
+
+  const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : DEFAULT_FUNCTION_LIMIT;
+
+  const registry = getProviderRegistry();
+  if (!registry.hasCapability('ContractMetadata', chain as SupportedChain)) {
+    throw new ClaraError(
+      ClaraErrorCode.PROVIDER_UNAVAILABLE,
+      `Contract inspection is not available for ${chain}.`,
+      'Set HERD_ENABLED=true (supports ethereum and base).',
+    );
+  }
+
+  let resolved;
+  try {
+    resolved = await resolveAddress(input);
+  } catch (error) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, error instanceof Error ? error.message : String(error));
+  }
+
+  const result = await registry.getContractMetadata({ address: resolved.address, chain: chain as SupportedChain, detailLevel: 'full' });
+  if (!result.success || !result.data) {
+    throw new ClaraError(
+      ClaraErrorCode.PROVIDER_UNAVAILABLE,
+      `Could not fetch metadata for ${resolved.address}: ${result.error || 'unknown error'}`,
+    );
+  }
+
+  const metadata = result.data;
+  const chainId = CHAINS[chain as SupportedChain].chainId;
+  const implementation = metadata.proxy?.implementationAddress;
+  const summary = getCachedSummary(chainId, resolved.address, 'latest', implementation)
+    ?? cacheMetadata(chainId, resolved.address, metadata, 'latest', implementation);
+
+  const text = formatInspection(
+    metadata,
+    summary,
+    assessMetadataRisk(metadata),
+    mutability as Mutability[],
+    limit,
+    formatResolved(resolved),
+  );
+
+  return { content: [{ type: 'text', text }] };
+}
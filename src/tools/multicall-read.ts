@@ -0,0 +1,265 @@
+/**
+ * wallet_multicall_read - Batched Contract Reads
+ *
+ * Runs N `{contract, function, args}` reads through Multicall3 in a
+ * single eth_call and returns the decoded results. Each read resolves
+ * its own ABI (override or Herd) and overload, exactly like wallet_call;
+ * a read that can't be encoded or reverts is reported on its own without
+ * failing the batch.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Abi, AbiFunction, Hex } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { SUPPORTED_CHAINS, isSupportedChain, type SupportedChain } from '../config/chains.js';
+import { getProviderRegistry } from '../providers/index.js';
+import { resolveAddress } from '../services/resolve-address.js';
+import { multicallRead, type MulticallRead } from '../services/multicall.js';
+import { findFunctions, formatReturnValue, getFunctionSignature, tryEncode } from './call-helpers.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const MAX_READS = 50;
+
+/**
+ * Tool definition for wallet_multicall_read
+ */
+export const multicallReadToolDefinition: Tool = {
+  name: 'wallet_multicall_read',
+  description: `Read many contract view functions in one round trip (Multicall3).
+
+**Example:**
+\`\`\`json
+{"chain": "base", "reads": [
+  {"contract": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "function": "balanceOf", "args": ["0x..."]},
+  {"contract": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "function": "totalSupply"}
+]}
+\`\`\`
+
+Each read takes the same \`contract\` / \`function\` / \`args\` / \`abi\` inputs as wallet_call. Results are decoded with the function outputs; a failing read doesn't fail the others. Max ${MAX_READS} reads.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      chain: {
+        type: 'string',
+        enum: SUPPORTED_CHAINS,
+        default: 'base',
+        description: 'Chain to read on (default: base)',
+      },
+      reads: {
+        type: 'array',
+        description: `Reads to batch (max ${MAX_READS})`,
+        items: {
+          type: 'object',
+          properties: {
+            contract: {
+              type: 'string',
+              description: 'Contract address, Clara name, or ENS name',
+            },
+            function: {
+              type: 'string',
+              description: 'Function name ("balanceOf") or full signature ("balanceOf(address)")',
+            },
+            args: {
+              type: 'array',
+              items: {},
+              description: 'Function arguments in order',
+            },
+            abi: {
+              type: 'array',
+              description: 'Optional ABI override. If not provided, fetched from Herd.',
+            },
+          },
+          required: ['contract', 'function'],
+        },
+      },
+    },
+    required: ['reads'],
+  },
+};
+
+interface ReadInput {
+  contract: string;
+  function: string;
+  args: unknown[];
+  abi?: Abi;
+}
+
+/**
+ * A read ready for the batch, or the reason it couldn't be prepared
+ */
+type PreparedRead =
+  | { ok: true; input: ReadInput; address: Hex; func: AbiFunction; signature: string; args: unknown[] }
+  | { ok: false; input: ReadInput; address?: Hex; error: string };
+
+interface ReadOutcome {
+  contract: string;
+  function: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// ─── Input Parsing ───────────────────────────────────────────────────
+
+function parseReads(raw: unknown): ReadInput[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Missing reads.', 'Pass `reads`: an array of {contract, function, args}.');
+  }
+  if (raw.length > MAX_READS) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Too many reads: ${raw.length} (max ${MAX_READS}).`, 'Split the batch into several calls.');
+  }
+
+  return raw.map((item, i) => {
+    const read = item as Record<string, unknown> | null;
+    if (!read || typeof read.contract !== 'string' || typeof read.function !== 'string') {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Read #${i + 1} needs a contract and a function.`);
+    }
+    if (read.args !== undefined && !Array.isArray(read.args)) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Read #${i + 1}: args must be an array.`);
+    }
+    return {
+      contract: read.contract,
+      function: read.function,
+      args: (read.args as unknown[]) ?? [],
+      abi: Array.isArray(read.abi) ? (read.abi as Abi) : undefined,
+    };
+  });
+}
+
+// ─── Read Preparation ────────────────────────────────────────────────
+
+/**
+ * Resolve contract, ABI, and overload for each read.
+ * Addresses and Herd ABIs are looked up once per distinct contract.
+ */
+async function prepareReads(reads: ReadInput[], chain: SupportedChain): Promise<PreparedRead[]> {
+  const addresses = new Map<string, Promise<Hex>>();
+  const abis = new Map<string, Promise<Abi | null>>();
+
+  const resolve = (input: string) => {
+    if (!addresses.has(input)) {
+      addresses.set(input, resolveAddress(input).then((r) => r.address as Hex));
+    }
+    return addresses.get(input)!;
+  };
+
+  const fetchAbi = (address: Hex) => {
+    const key = address.toLowerCase();
+    if (!abis.has(key)) {
+      abis.set(key, getProviderRegistry()
+        .getContractMetadata({ address, chain, detailLevel: 'full', includeAbi: true })
+        .then((r) => (r.success && r.data?.abi ? (r.data.abi as Abi) : null))
+        .catch(() => null));
+    }
+    return abis.get(key)!;
+  };
+
+  return Promise.all(reads.map(async (input): Promise<PreparedRead> => {
+    let address: Hex;
+    try {
+      address = await resolve(input.contract);
+    } catch (error) {
+      return { ok: false, input, error: `Cannot resolve contract: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const abi = input.abi ?? await fetchAbi(address);
+    if (!abi) {
+      return { ok: false, input, address, error: 'Could not fetch ABI (contract may be unverified). Pass `abi` for this read.' };
+    }
+
+    const candidates = findFunctions(abi, input.function)
+      .map((func) => ({ func, encoded: tryEncode(func, input.args) }))
+      .filter((c) => c.encoded.success);
+    if (candidates.length === 0) {
+      return { ok: false, input, address, error: `No function \`${input.function}\` accepts these args` };
+    }
+    if (candidates.length > 1) {
+      const signatures = candidates.map((c) => getFunctionSignature(c.func)).join(', ');
+      return { ok: false, input, address, error: `Ambiguous overload — use a full signature: ${signatures}` };
+    }
+
+    const { func, encoded } = candidates[0];
+    const coerced = (encoded as { success: true; args: unknown[] }).args;
+    return { ok: true, input, address, func, signature: getFunctionSignature(func), args: coerced };
+  }));
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────
+
+function formatOutcomes(chain: SupportedChain, outcomes: ReadOutcome[], batched: number): string {
+  const succeeded = outcomes.filter((o) => o.success).length;
+  const lines = [
+    `## 📚 Multicall Read on ${chain}`,
+    '',
+    `**Reads:** ${succeeded}/${outcomes.length} succeeded${batched > 0 ? ' (1 RPC request)' : ''}`,
+    '',
+  ];
+
+  outcomes.forEach((o, i) => {
+    const target = `\`${o.contract.slice(0, 10)}…\`.\`${o.function}\``;
+    lines.push(o.success
+      ? `${i + 1}. ✅ ${target} → ${JSON.stringify(o.result)}`
+      : `${i + 1}. ❌ ${target}: ${o.error}`);
+  });
+
+  lines.push('');
+  lines.push('---');
+  lines.push('```json');
+  lines.push(JSON.stringify({ chain, results: outcomes }, null, 2));
+  lines.push('```');
+
+  return lines.join('\n');
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────
+
+/**
+ * Handle wallet_multicall_read requests
+ */
+export async function handleMulticallReadRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  const chain = (args.chain as string) || 'base';
+  if (!isSupportedChain(chain)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Unsupported chain: ${chain}`, `Supported: ${SUPPORTED_CHAINS.join(', ')}`);
+  }
+
+  const reads = parseReads(args.reads);
+  const prepared = await prepareReads(reads, chain);
+
+  const batch = prepared.filter((p): p is Extract<PreparedRead, { ok: true }> => p.ok);
+  const calls: MulticallRead[] = batch.map((p) => ({
+    address: p.address,
+    abi: [p.func] as Abi,
+    functionName: p.func.name,
+    args: p.args,
+  }));
+
+  let results;
+  try {
+    results = await multicallRead(chain, calls);
+  } catch (error) {
+    throw new ClaraError(
+      ClaraErrorCode.PROVIDER_UNAVAILABLE,
+      `Multicall on ${chain} failed: ${error instanceof Error ? error.message : String(error)}`,
+      'The RPC may be rate-limited. Retry shortly.',
+    );
+  }
+
+  const outcomes: ReadOutcome[] = prepared.map((p) => {
+    const contract = p.address ?? p.input.contract;
+    if (!p.ok) {
+      return { contract, function: p.input.function, success: false, error: p.error };
+    }
+    const result = results[batch.indexOf(p)];
+    return result.success
+      ? { contract, function: p.signature, success: true, result: formatReturnValue(p.func, result.result) }
+      : { contract, function: p.signature, success: false, error: result.error };
+  });
+
+  return {
+    content: [{ type: 'text', text: formatOutcomes(chain, outcomes, calls.length) }],
+    isError: outcomes.every((o) => !o.success),
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * wallet_pending - Stuck Transaction Manager
+ *
+ * Lists transactions whose nonce hasn't confirmed yet and replaces them:
+ * - speed_up: resend the same call at the same nonce with higher fees
+ * - cancel: send 0 ETH to yourself at the same nonce, so whichever of
+ *   the two gets mined, the original call doesn't run
+ *
+ * EIP-1559 replacement rule: nodes only accept a replacement that raises
+ * BOTH maxFeePerGas and maxPriorityFeePerGas by at least 10% over the
+ * pending transaction, so both are bumped by at least that much (or up
+ * to the current network estimate, whichever is higher).
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createPublicClient, formatGwei, http, type Hex, type PublicClient } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import {
+  CHAINS,
+  SUPPORTED_CHAINS,
+  getChainId,
+  getExplorerTxUrl,
+  getRpcUrl,
+  isSupportedChain,
+  type SupportedChain,
+} from '../config/chains.js';
+import { clearConfirmedTxs, listPendingTxs, type PendingTransaction } from '../storage/pending.js';
+import { signAndSendTransaction } from '../para/transactions.js';
+import { estimateGas } from '../para/gas.js';
+import { requireGas } from '../gas-preflight.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const ACTIONS = ['list', 'speed_up', 'cancel'] as const;
+type Action = (typeof ACTIONS)[number];
+
+/** Nodes reject replacements that don't raise both fees by this much */
+const MIN_BUMP_PERCENT = 10;
+const DEFAULT_BUMP_PERCENT = 20;
+const MAX_BUMP_PERCENT = 500;
+
+/** Pending longer than this is flagged as stuck */
+const STUCK_AFTER_MS = 2 * 60 * 1000;
+
+const CANCEL_GAS = 21_000n;
+
+/**
+ * Tool definition for wallet_pending
+ */
+export const pendingToolDefinition: Tool = {
+  name: 'wallet_pending',
+  description: `List pending transactions, speed one up, or cancel it.
+
+**Examples:**
+\`\`\`json
+{"action": "list"}
+{"action": "speed_up", "chain": "base", "nonce": 42}
+{"action": "cancel", "chain": "base", "nonce": 42}
+\`\`\`
+
+- \`speed_up\` resends the same call at the same nonce with higher fees (default +${DEFAULT_BUMP_PERCENT}%, min +${MIN_BUMP_PERCENT}%)
+- \`cancel\` replaces it with a 0 ETH send to yourself at the same nonce
+- Without \`nonce\`, acts on the oldest pending transaction on that chain (the one blocking the rest)`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: [...ACTIONS],
+        default: 'list',
+        description: 'What to do (default: list)',
+      },
+      chain: {
+        type: 'string',
+        enum: SUPPORTED_CHAINS,
+        description: 'Chain (list: all chains by default; speed_up/cancel: default base)',
+      },
+      nonce: {
+        type: 'number',
+        description: 'speed_up/cancel: nonce of the pending transaction (default: oldest pending)',
+      },
+      bumpPercent: {
+        type: 'number',
+        default: DEFAULT_BUMP_PERCENT,
+        description: `speed_up/cancel: fee increase over the pending transaction, in % (min ${MIN_BUMP_PERCENT})`,
+      },
+    },
+  },
+};
+
+function getClient(chain: SupportedChain) {
+  return createPublicClient({
+    chain: CHAINS[chain].chain,
+    transport: http(getRpcUrl(chain)),
+  });
+}
+
+function chainName(chainId: number): SupportedChain | undefined {
+  return SUPPORTED_CHAINS.find((chain) => getChainId(chain) === chainId);
+}
+
+/**
+ * Drop confirmed entries for a chain and return what's still pending
+ */
+async function refreshChain(chain: SupportedChain, address: Hex): Promise<PendingTransaction[]> {
+  const chainId = getChainId(chain);
+  if (listPendingTxs(address, chainId).length === 0) return [];
+
+  const confirmed = await getClient(chain).getTransactionCount({ address, blockTag: 'latest' });
+  clearConfirmedTxs(chainId, address, confirmed);
+  return listPendingTxs(address, chainId);
+}
+
+// ─── Fees ────────────────────────────────────────────────────────────
+
+function bump(fee: bigint, percent: number): bigint {
+  return (fee * BigInt(100 + percent)) / 100n;
+}
+
+/**
+ * Replacement fees: at least `percent` over the pending transaction,
+ * raised to the current network estimate if that's higher
+ */
+async function replacementFees(chain: SupportedChain, tx: PendingTransaction, percent: number) {
+  const network = await estimateGas(getClient(chain) as PublicClient);
+  const oldMax = BigInt(tx.maxFeePerGas ?? '0');
+  const oldPriority = BigInt(tx.maxPriorityFeePerGas ?? '0');
+
+  const maxPriorityFeePerGas = [bump(oldPriority, percent), network.maxPriorityFeePerGas]
+    .reduce((a, b) => (a > b ? a : b));
+  let maxFeePerGas = [bump(oldMax, percent), network.maxFeePerGas]
+    .reduce((a, b) => (a > b ? a : b));
+  if (maxFeePerGas < maxPriorityFeePerGas) {
+    maxFeePerGas = maxPriorityFeePerGas;
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────
+
+function age(tx: PendingTransaction): string {
+  const ms = Date.now() - Date.parse(tx.submittedAt);
+  const minutes = Math.floor(ms / 60_000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m ${Math.floor((ms % 60_000) / 1000)}s`;
+}
+
+function isCancel(tx: PendingTransaction): boolean {
+  return tx.to.toLowerCase() === tx.address && tx.value === '0' && (!tx.data || tx.data === '0x');
+}
+
+function formatList(pending: PendingTransaction[]): string {
+  const lines = ['## ⏳ Pending Transactions', ''];
+  if (pending.length === 0) {
+    lines.push('_None — every sent transaction has confirmed._');
+    return lines.join('\n');
+  }
+
+  lines.push('| Chain | Nonce | To | Max Fee | Age | Tx |');
+  lines.push('|-------|-------|----|---------|-----|----|');
+  for (const tx of pending) {
+    const stuck = Date.now() - Date.parse(tx.submittedAt) > STUCK_AFTER_MS ? ' ⚠️ stuck' : '';
+    const to = isCancel(tx) ? 'self (cancel)' : `\`${tx.to.slice(0, 10)}…\``;
+    const fee = tx.maxFeePerGas ? `${formatGwei(BigInt(tx.maxFeePerGas))} gwei` : '?';
+    const replaced = tx.replaced?.length ? ` (replaced ${tx.replaced.length}×)` : '';
+    lines.push(`| ${chainName(tx.chainId) ?? tx.chainId} | ${tx.nonce} | ${to} | ${fee} | ${age(tx)}${stuck} | \`${tx.txHash.slice(0, 12)}…\`${replaced} |`);
+  }
+  lines.push('');
+  lines.push('💡 `wallet_pending` `{"action": "speed_up", "chain": "...", "nonce": N}` or `"action": "cancel"`');
+  lines.push('');
+  lines.push('---');
+  lines.push('```json');
+  lines.push(JSON.stringify(pending.map((tx) => ({
+    chain: chainName(tx.chainId) ?? tx.chainId,
+    nonce: tx.nonce,
+    txHash: tx.txHash,
+    to: tx.to,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    submittedAt: tx.submittedAt,
+    replaced: tx.replaced,
+  })), null, 2));
+  lines.push('```');
+  return lines.join('\n');
+}
+
+// ─── Handlers ────────────────────────────────────────────────────────
+
+async function handleList(chain: SupportedChain | undefined, address: Hex): Promise<ToolResult> {
+  const chains = chain ? [chain] : SUPPORTED_CHAINS;
+  const pending: PendingTransaction[] = [];
+  for (const c of chains) {
+    try {
+      pending.push(...await refreshChain(c, address));
+    } catch (error) {
+      // Keep the unrefreshed entries rather than hiding them
+      console.error(`[pending] Nonce check failed on ${c}:`, error instanceof Error ? error.message : error);
+      pending.push(...listPendingTxs(address, getChainId(c)));
+    }
+  }
+  return { content: [{ type: 'text', text: formatList(pending) }] };
+}
+
+async function handleReplace(
+  action: Exclude<Action, 'list'>,
+  chain: SupportedChain,
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const percent = typeof args.bumpPercent === 'number' ? args.bumpPercent : DEFAULT_BUMP_PERCENT;
+  if (!(percent >= MIN_BUMP_PERCENT && percent <= MAX_BUMP_PERCENT)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `bumpPercent must be between ${MIN_BUMP_PERCENT} and ${MAX_BUMP_PERCENT}.`,
+      `Nodes reject replacements that raise fees by less than ${MIN_BUMP_PERCENT}%.`,
+    );
+  }
+
+  const pending = await refreshChain(chain, ctx.walletAddress);
+  const tx = typeof args.nonce === 'number'
+    ? pending.find((p) => p.nonce === args.nonce)
+    : pending[0];
+  if (!tx) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      typeof args.nonce === 'number'
+        ? `No pending transaction at nonce ${args.nonce} on ${chain}.`
+        : `No pending transactions on ${chain}.`,
+      'It may already be confirmed. Use {"action": "list"} to see what is pending.',
+    );
+  }
+
+  const fees = await replacementFees(chain, tx, percent);
+  const replacement = action === 'speed_up'
+    ? { to: tx.to, value: BigInt(tx.value), data: tx.data, gas: tx.gas ? BigInt(tx.gas) : undefined }
+    : { to: ctx.walletAddress, value: 0n, data: undefined, gas: CANCEL_GAS };
+
+  await requireGas(chain, ctx.walletAddress, {
+    txValue: replacement.value,
+    gasLimit: replacement.gas ?? 200_000n,
+  });
+
+  console.error(`[pending] ${action} nonce ${tx.nonce} on ${chain} (replacing ${tx.txHash})`);
+  const { txHash, trackingId } = await signAndSendTransaction(ctx.session.walletId!, {
+    ...replacement,
+    chainId: tx.chainId,
+    nonce: tx.nonce,
+    ...fees,
+    description: `${action === 'speed_up' ? 'Speed-up' : 'Cancellation'} of nonce ${tx.nonce} on ${chain}`,
+  });
+
+  const oldFee = tx.maxFeePerGas ? `${formatGwei(BigInt(tx.maxFeePerGas))} → ` : '';
+  const oldTip = tx.maxPriorityFeePerGas ? `${formatGwei(BigInt(tx.maxPriorityFeePerGas))} → ` : '';
+  const lines = [
+    action === 'speed_up'
+      ? `⚡ **Sped up nonce ${tx.nonce} on ${chain}**`
+      : `🛑 **Cancellation sent for nonce ${tx.nonce} on ${chain}**`,
+    '',
+    `**Replacement:** \`${txHash}\``,
+    `🔗 [View on Explorer](${getExplorerTxUrl(chain, txHash)})`,
+    `**Replaced:** \`${tx.txHash}\``,
+    ...(trackingId ? [`**Tracking ID:** \`${trackingId}\``] : []),
+    `**Max Fee:** ${oldFee}${formatGwei(fees.maxFeePerGas)} gwei`,
+    `**Priority Fee:** ${oldTip}${formatGwei(fees.maxPriorityFeePerGas)} gwei`,
+    '',
+    action === 'speed_up'
+      ? 'Only one of the two can be mined; the replacement should land first.'
+      : 'If the original is mined first, the cancellation is dropped and the original call stands.',
+  ];
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
+
+/**
+ * Handle wallet_pending requests
+ */
+export async function handlePendingRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const action = ((args.action as string) || 'list') as Action;
+  if (!ACTIONS.includes(action)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid action: ${String(args.action).slice(0, 20)}`, `Use one of: ${ACTIONS.join(', ')}`);
+  }
+
+  const chain = args.chain as string | undefined;
+  if (chain !== undefined && !isSupportedChain(chain)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Unsupported chain: ${chain}`, `Supported: ${SUPPORTED_CHAINS.join(', ')}`);
+  }
+
+  if (action === 'list') {
+    return handleList(chain, ctx.walletAddress);
+  }
+  return handleReplace(action, chain ?? 'base', args, ctx);
+}
@@ -0,0 +1,219 @@
+/**
+ * wallet_prepared - Manage Prepared Transactions
+ *
+ * Lists, inspects, rejects, and extends the preparations stored by
+ * wallet_call (and the work_* / keeper flows) in ~/.clara/prepared/.
+ * Finished records (executed, expired, rejected) stay listed for a week
+ * as an audit trail of what was prepared versus what was sent.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import {
+  extendPrepared,
+  formatPreparedBundle,
+  formatPreparedTx,
+  isBundleId,
+  listPrepared,
+  loadPrepared,
+  transitionPrepared,
+  verifyPreparedContent,
+  type PreparedBundle,
+  type PreparedRecord,
+  type PreparedState,
+  type PreparedTransaction,
+} from '../para/prepared-tx.js';
+import { getExplorerTxUrl } from '../config/chains.js';
+import { sanitizeString } from '../utils/sanitize.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const ACTIONS = ['list', 'inspect', 'reject', 'extend'] as const;
+type Action = (typeof ACTIONS)[number];
+
+const STATES: PreparedState[] = ['pending', 'approved', 'executing', 'executed', 'expired', 'rejected'];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const DEFAULT_EXTEND_MINUTES = 5;
+const MAX_EXTEND_MINUTES = 30;
+
+const STATE_ICONS: Record<PreparedState, string> = {
+  pending: '⏳',
+  approved: '👍',
+  executing: '📤',
+  executed: '✅',
+  expired: '⌛',
+  rejected: '🚫',
+};
+
+/**
+ * Tool definition for wallet_prepared
+ */
+export const preparedToolDefinition: Tool = {
+  name: 'wallet_prepared',
+  description: `List, inspect, reject, or extend prepared transactions and bundles.
+
+**Examples:**
+\`\`\`json
+{"action": "list"}
+{"action": "list", "state": "pending"}
+{"action": "inspect", "id": "ptx_..."}
+{"action": "reject", "id": "ptx_...", "reason": "wrong amount"}
+{"action": "extend", "id": "pbx_...", "minutes": 10}
+\`\`\`
+
+States: pending → approved → executing → executed, or expired / rejected. Finished records are kept for 7 days. \`inspect\` re-checks the content hash bound into the ID.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: [...ACTIONS],
+        default: 'list',
+        description: 'What to do (default: list)',
+      },
+      id: {
+        type: 'string',
+        description: 'Prepared transaction (ptx_...) or bundle (pbx_...) ID — required for inspect/reject/extend',
+      },
+      state: {
+        type: 'string',
+        enum: STATES,
+        description: 'list: only show this state',
+      },
+      limit: {
+        type: 'number',
+        default: DEFAULT_LIMIT,
+        description: `list: max records (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`,
+      },
+      minutes: {
+        type: 'number',
+        default: DEFAULT_EXTEND_MINUTES,
+        description: `extend: new expiry, in minutes from now (max: ${MAX_EXTEND_MINUTES})`,
+      },
+      reason: {
+        type: 'string',
+        description: 'reject: why (kept in the audit trail)',
+      },
+    },
+  },
+};
+
+// ─── Formatting ──────────────────────────────────────────────────────
+
+function describeCall(record: PreparedRecord): string {
+  if ('steps' in record) {
+    return `bundle: ${record.steps.map((s) => s.functionName).join(' → ')}`;
+  }
+  const target = record.contractName ? sanitizeString(record.contractName, 30) : `${record.to.slice(0, 10)}…`;
+  return `${target}.${record.functionName}`;
+}
+
+function formatList(records: PreparedRecord[], filter?: PreparedState): string {
+  const lines = [`## 📋 Prepared Transactions${filter ? ` (${filter})` : ''}`, ''];
+  if (records.length === 0) {
+    lines.push('_None_');
+    return lines.join('\n');
+  }
+
+  lines.push('| ID | State | Call | Chain | Created |');
+  lines.push('|----|-------|------|-------|---------|');
+  for (const r of records) {
+    lines.push(`| \`${r.id}\` | ${STATE_ICONS[r.state]} ${r.state} | ${describeCall(r)} | ${r.chain} | ${new Date(r.createdAt).toISOString()} |`);
+  }
+  lines.push('');
+  lines.push('💡 `wallet_prepared` `{"action": "inspect", "id": "..."}` for details');
+  return lines.join('\n');
+}
+
+function formatAudit(record: PreparedRecord): string[] {
+  const lines = [
+    '### Audit',
+    `**State:** ${STATE_ICONS[record.state]} ${record.state}`,
+    `**Content Hash:** \`${record.contentHash}\` ${verifyPreparedContent(record) ? '✅ matches ID' : '❌ does not match ID'}`,
+  ];
+  if (record.txHashes?.length) {
+    lines.push('**Sent:**');
+    for (const hash of record.txHashes) {
+      lines.push(`- \`${hash}\` — ${getExplorerTxUrl(record.chain, hash)}`);
+    }
+  }
+  lines.push('**History:**');
+  for (const change of record.history) {
+    lines.push(`- ${change.at} — ${change.state}${change.note ? `: ${sanitizeString(change.note, 200)}` : ''}`);
+  }
+  return lines;
+}
+
+function formatRecord(record: PreparedRecord): string {
+  const display = isBundleId(record.id)
+    ? formatPreparedBundle(record as PreparedBundle)
+    : formatPreparedTx(record as PreparedTransaction);
+  return [display, '', ...formatAudit(record)].join('\n');
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────
+
+function requireId(args: Record<string, unknown>, action: Action): string {
+  const id = typeof args.id === 'string' ? args.id.trim() : '';
+  if (!id) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Missing id for ${action}.`, 'Use {"action": "list"} to find IDs.');
+  }
+  return id;
+}
+
+/**
+ * Handle wallet_prepared requests
+ */
+export async function handlePreparedRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  const action = ((args.action as string) || 'list') as Action;
+  if (!ACTIONS.includes(action)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid action: ${sanitizeString(String(args.action), 20)}`, `Use one of: ${ACTIONS.join(', ')}`);
+  }
+
+  if (action === 'list') {
+    const state = args.state as PreparedState | undefined;
+    if (state !== undefined && !STATES.includes(state)) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid state: ${sanitizeString(String(state), 20)}`, `Use one of: ${STATES.join(', ')}`);
+    }
+    const limit = typeof args.limit === 'number' && args.limit > 0
+      ? Math.min(Math.floor(args.limit), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+    const records = listPrepared({ states: state ? [state] : undefined, limit });
+    return { content: [{ type: 'text', text: formatList(records, state) }] };
+  }
+
+  const id = requireId(args, action);
+
+  if (action === 'inspect') {
+    const record = loadPrepared(id);
+    if (!record) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Prepared transaction not found: ${sanitizeString(id, 60)}`, 'Finished records are pruned after 7 days.');
+    }
+    return { content: [{ type: 'text', text: formatRecord(record) }] };
+  }
+
+  if (action === 'reject') {
+    const reason = typeof args.reason === 'string' ? sanitizeString(args.reason, 200) : undefined;
+    const record = transitionPrepared(id, 'rejected', { note: reason });
+    return {
+      content: [{ type: 'text', text: `🚫 Rejected \`${record.id}\` (${describeCall(record)})${reason ? ` — ${reason}` : ''}. It can no longer be executed.` }],
+    };
+  }
+
+  // extend
+  const minutes = typeof args.minutes === 'number' ? args.minutes : DEFAULT_EXTEND_MINUTES;
+  if (!(minutes > 0 && minutes <= MAX_EXTEND_MINUTES)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `minutes must be between 1 and ${MAX_EXTEND_MINUTES}.`);
+  }
+  const record = extendPrepared(id, minutes * 60_000);
+  return {
+    content: [{
+      type: 'text',
+      text: `⏱️ Extended \`${record.id}\` to ${new Date(record.expiresAt).toISOString()}.\n\n⚠️ The simulation is from ${new Date(record.createdAt).toISOString()} — chain state may have moved. Re-run \`wallet_call\` if in doubt.`,
+    }],
+  };
+}
@@ -24,9 +24,14 @@ import {
 import { resolveToken } from '../config/tokens.js';
 import { assessContractRisk, formatRiskAssessment, quickSafeCheck } from '../services/risk.js';
 import { resolveAddress, formatResolved } from '../services/resolve-address.js';
-import { checkSpendingLimits, recordSpending } from '../storage/spending.js';
+import { checkSpendingLimits, recordSpending, type SpendingApproval } from '../storage/spending.js';
+import { requireApproval } from '../services/approval.js';
 import { requireGas } from '../gas-preflight.js';
-import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { priceAmount, type PricedAmount } from '../services/pricing.js';
+import { requireWithinPolicy, spendingTokens } from '../services/policy.js';
+import { formatAppliedGas, GAS_URGENCIES, type AppliedGas } from '../para/gas-policy.js';
+import type { GasUrgency } from '../storage/spending.js';
+import { ClaraError, ClaraErrorCode, formatClaraError } from '../errors.js';
 
 /**
  * Tool definition for wallet_send
@@ -43,6 +48,8 @@ export const sendToolDefinition = {
 
 Supported tokens: USDC, USDT, DAI, WETH (or provide contract address).
 
+Sends above the approval threshold wait for a human to approve. If the client can't ask them, this returns an approval ID: retry with the same arguments plus \`approvalId\`.
+
 ⚠️ This tool sends real money. Double-check the recipient address.`,
   inputSchema: {
     type: 'object' as const,
@@ -70,6 +77,15 @@ Supported tokens: USDC, USDT, DAI, WETH (or provide contract address).
         default: false,
         description: 'Override risk assessment warnings and send anyway. Use with caution.',
       },
+      urgency: {
+        type: 'string',
+        enum: GAS_URGENCIES,
+        description: 'Gas pricing: slow (cheaper), normal, or fast. Default: the chain\'s gas policy.',
+      },
+      approvalId: {
+        type: 'string',
+        description: 'Approval ID from an earlier call that needed human approval (apr_...)',
+      },
     },
     required: ['to', 'amount'],
   },
@@ -122,6 +138,7 @@ export async function handleSendRequest(
   const chainName = (args.chain as string) || 'base';
   const tokenInput = args.token as string | undefined;
   const forceUnsafe = args.forceUnsafe as boolean | undefined;
+  const urgency = args.urgency as GasUrgency | undefined;
 
   // Resolve recipient: 0x address, Clara name, or ENS name
   let to: string;
@@ -147,6 +164,13 @@ export async function handleSendRequest(
     };
   }
 
+  if (urgency !== undefined && !GAS_URGENCIES.includes(urgency)) {
+    return {
+      content: [{ type: 'text', text: `❌ Invalid urgency: ${String(urgency).slice(0, 20)}. Use slow, normal, or fast.` }],
+      isError: true,
+    };
+  }
+
   if (!isSupportedChain(chainName)) {
     return {
       content: [{
@@ -210,30 +234,84 @@ export async function handleSendRequest(
     }
 
     // -------------------------------------------------------------------------
-    // Spending Limit Check
+    // Spending Policy and Limit Check
     // -------------------------------------------------------------------------
-    // Estimate USD value: stablecoins (USDC/USDT/DAI) ≈ 1:1 USD.
-    // For native tokens (ETH, MATIC) we skip the check since gas limits
-    // handle those, and we don't have a price oracle here.
-    const STABLECOINS = ['USDC', 'USDT', 'DAI'];
-    const tokenSymbolUpper = tokenInput?.toUpperCase();
+    // Price the amount in USD (stablecoins at $1, anything else via the
+    // price oracle). Unknown tokens are rejected further down; tokens
+    // without a price need a human's approval, since no limit covers them.
+    const pricedToken = tokenInput ? resolveToken(tokenInput, chainName) : null;
+    const sendDescription = `Send ${amount} ${pricedToken?.symbol ?? chainConfig.nativeSymbol} on ${chainName}`;
+    let priced: PricedAmount | null = null;
     let estimatedUsd: number | null = null;
+    let priceWarning: string | undefined;
+    let approval: SpendingApproval | undefined;
+
+    if (!tokenInput || pricedToken) {
+      priced = await priceAmount(
+        chainName,
+        pricedToken ? pricedToken.address : 'native',
+        parseUnits(amount, pricedToken ? pricedToken.decimals : 18),
+        fromAddress,
+      );
+      estimatedUsd = priced.usd;
+      if (priced.price?.stale) {
+        priceWarning = `⚠️ USD value is from a price up to 10 minutes old (${priced.price.source}).`;
+      }
 
-    if (tokenSymbolUpper && STABLECOINS.includes(tokenSymbolUpper)) {
-      estimatedUsd = parseFloat(amount);
+      try {
+        await requireWithinPolicy({
+          tool: 'wallet_send',
+          chain: chainName,
+          amounts: [priced],
+          recipients: [to],
+        }, sendDescription);
+      } catch (error) {
+        if (error instanceof ClaraError) return formatClaraError(error);
+        throw error;
+      }
     }
 
-    if (estimatedUsd !== null && estimatedUsd > 0) {
+    const approvalSubject = `send:${chainName}:${pricedToken?.address ?? 'native'}:${amount}:${to.toLowerCase()}`;
+    if (priced && priced.usd === null) {
+      try {
+        approval = await requireApproval({
+          subject: approvalSubject,
+          description: sendDescription,
+          amountUsd: 0,
+          unpriced: [`${amount} ${priced.symbol}`],
+          recipient: to,
+          chain: chainName,
+        }, args.approvalId);
+      } catch (error) {
+        if (error instanceof ClaraError) return formatClaraError(error);
+        throw error;
+      }
+    } else if (estimatedUsd !== null && estimatedUsd > 0) {
       const spendCheck = checkSpendingLimits(estimatedUsd.toFixed(2));
       if (!spendCheck.allowed) {
         return {
           content: [{
             type: 'text',
-            text: `🛑 **Send blocked by spending limits**\n\n${spendCheck.reason}\n\nEdit ~/.clara/spending.json to adjust your limits.`,
+            text: `🛑 **Send blocked by spending limits**\n\n${spendCheck.reason}\n\nOnly the human can raise spending limits.`,
           }],
           isError: true,
         };
       }
+
+      if (spendCheck.requiresApproval) {
+        try {
+          approval = await requireApproval({
+            subject: approvalSubject,
+            description: sendDescription,
+            amountUsd: estimatedUsd,
+            recipient: to,
+            chain: chainName,
+          }, args.approvalId);
+        } catch (error) {
+          if (error instanceof ClaraError) return formatClaraError(error);
+          throw error;
+        }
+      }
     }
 
     // -------------------------------------------------------------------------
@@ -250,6 +328,8 @@ export async function handleSendRequest(
     }
 
     let txHash: Hex;
+    let trackingId: string | undefined;
+    let gas: AppliedGas | undefined;
     let symbol: string;
     let sentAmount: string;
 
@@ -305,9 +385,13 @@ export async function handleSendRequest(
         value: 0n,
         data,
         chainId: chainConfig.chainId,
+        description: `Send ${sentAmount} ${symbol} on ${chainName}`,
+        urgency,
       });
 
       txHash = result.txHash;
+      trackingId = result.trackingId;
+      gas = result.gas;
     } else {
       // Native token transfer
       symbol = chainConfig.nativeSymbol;
@@ -339,52 +423,35 @@ export async function handleSendRequest(
         to: to as Hex,
         value: amountWei,
         chainId: chainConfig.chainId,
+        description: `Send ${sentAmount} ${symbol} on ${chainName}`,
+        urgency,
       });
 
       txHash = result.txHash;
+      trackingId = result.trackingId;
+      gas = result.gas;
     }
 
-    // Wait for transaction confirmation and verify success
-    console.error(`[clara] Waiting for send confirmation: ${txHash}`);
-    const publicClient = createPublicClient({
-      chain: chainConfig.chain,
-      transport: http(getRpcUrl(chainName)),
-    });
-
-    let receipt;
-    try {
-      receipt = await publicClient.waitForTransactionReceipt({
-        hash: txHash,
-        timeout: 120_000, // 2 minutes
-      });
-    } catch (waitError) {
-      // Timeout or other error waiting for receipt
-      throw new Error(
-        `Transaction submitted but confirmation timed out. ` +
-        `Check status: ${getExplorerTxUrl(chainName, txHash)}`
-      );
-    }
-
-    if (receipt.status !== 'success') {
-      throw new Error(
-        `Transaction failed on-chain. ` +
-        `Check details: ${getExplorerTxUrl(chainName, txHash)}`
-      );
-    }
+    // Confirmation is tracked in the background (wallet_tx_status)
+    console.error(`[clara] Send submitted: ${txHash}`);
 
-    console.error(`[clara] Send confirmed: ${txHash}`);
-
-    // Record spending for limit tracking (stablecoins only)
-    if (estimatedUsd !== null && estimatedUsd > 0) {
+    // Record spending for limit tracking. Counted at submission so
+    // back-to-back sends can't slip past the limit. An approved send with
+    // no price is recorded at $0, so the audit trail still shows it.
+    if ((estimatedUsd !== null && estimatedUsd > 0) || approval) {
       recordSpending({
         timestamp: new Date().toISOString(),
-        amountUsd: estimatedUsd.toFixed(2),
+        amountUsd: (estimatedUsd ?? 0).toFixed(2),
         recipient: to,
         description: `Send ${sentAmount} ${symbol} on ${chainName}`,
         url: '',
         chainId: chainConfig.chainId,
         txHash,
         paymentId: `send-${txHash.slice(0, 10)}`,
+        approval,
+        tool: 'wallet_send',
+        tokens: spendingTokens(priced ? [priced] : []),
+        ...(estimatedUsd === null ? { unpriced: [`${sentAmount} ${symbol}`] } : {}),
       });
     }
 
@@ -392,16 +459,27 @@ export async function handleSendRequest(
     const explorerUrl = getExplorerTxUrl(chainName, txHash);
 
     const lines = [
-      `✅ Transaction confirmed!`,
+      `📤 Transaction submitted!`,
       '',
-      `**Amount:** ${sentAmount} ${symbol}`,
+      `**Amount:** ${sentAmount} ${symbol}${estimatedUsd !== null ? ` (~$${estimatedUsd.toFixed(2)})` : ''}`,
       `**To:** ${resolvedDisplay ? `${resolvedDisplay} (\`${to}\`)` : `\`${to}\``}`,
       `**Chain:** ${chainName}`,
       `**From:** \`${fromAddress}\``,
+      ...(gas ? [`**Gas:** ${formatAppliedGas(gas)}`] : []),
       '',
       `**Transaction:** [${txHash.slice(0, 10)}...${txHash.slice(-8)}](${explorerUrl})`,
     ];
 
+    if (trackingId) {
+      lines.push(`**Tracking ID:** \`${trackingId}\``);
+      lines.push('');
+      lines.push(`Confirmation is tracked in the background. Check with \`wallet_tx_status\` (id: "${trackingId}").`);
+    }
+
+    if (priceWarning) {
+      lines.push('', priceWarning);
+    }
+
     // Add risk warnings if any (transaction was still sent, but user should be aware)
     if (riskWarnings.length > 0) {
       lines.push('');
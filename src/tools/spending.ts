@@ -0,0 +1,217 @@
+/**
+ * wallet_spending - Spending History and Limits
+ *
+ * Shows what the agent has spent against the limits in
+ * ~/.clara/spending.json, filters and exports the history, and lowers
+ * limits. Raising a limit loosens what can go out without a human, so
+ * the tool refuses; only the human can raise one, at an interactive
+ * terminal (`clara-mcp limits set`). The output never spells out that
+ * command, so there's nothing for the agent to hand over to run.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import {
+  formatSpendingExport,
+  formatSpendingHistory,
+  formatSpendingSummary,
+  getSpendingHistory,
+  getSpendingLimits,
+  HISTORY_RETENTION_DAYS,
+  LIMIT_KEYS,
+  normalizeLimitAmount,
+  raisedSpendingLimits,
+  setSpendingLimits,
+  type SpendingExportFormat,
+  type SpendingLimits,
+} from '../storage/spending.js';
+import { resolveAddress } from '../services/resolve-address.js';
+import { sanitizeString } from '../utils/sanitize.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const ACTIONS = ['summary', 'history', 'export', 'limits'] as const;
+type Action = (typeof ACTIONS)[number];
+
+const FORMATS: SpendingExportFormat[] = ['csv', 'json'];
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = HISTORY_RETENTION_DAYS;
+
+/**
+ * Tool definition for wallet_spending
+ */
+export const spendingToolDefinition: Tool = {
+  name: 'wallet_spending',
+  description: `Show spending against your limits, browse or export the spending history, and lower limits.
+
+**Examples:**
+\`\`\`json
+{"action": "summary"}
+{"action": "history", "days": 30}
+{"action": "history", "recipient": "brian.claraid.eth"}
+{"action": "export", "format": "csv", "days": 90}
+{"action": "limits", "maxPerDay": "5.00"}
+\`\`\`
+
+Limits can only be lowered here. Only the human can raise them.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: [...ACTIONS],
+        default: 'summary',
+        description: 'What to do (default: summary)',
+      },
+      days: {
+        type: 'number',
+        default: DEFAULT_DAYS,
+        description: `history/export: days to look back (default: ${DEFAULT_DAYS}, max: ${MAX_DAYS})`,
+      },
+      recipient: {
+        type: 'string',
+        description: 'history/export: only payments to this address or name',
+      },
+      format: {
+        type: 'string',
+        enum: FORMATS,
+        default: 'csv',
+        description: 'export: csv or json (default: csv)',
+      },
+      maxPerTransaction: {
+        type: 'string',
+        description: 'limits: new max USD per transaction (lower only)',
+      },
+      maxPerDay: {
+        type: 'string',
+        description: 'limits: new max USD per rolling 24 hours (lower only)',
+      },
+      requireApprovalAbove: {
+        type: 'string',
+        description: 'limits: new approval threshold in USD (lower only)',
+      },
+    },
+  },
+};
+
+// ─── Filters ─────────────────────────────────────────────────────────
+
+function parseDays(value: unknown): number {
+  if (value === undefined) return DEFAULT_DAYS;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid days: ${sanitizeString(String(value), 20)}`, `Use a number from 1 to ${MAX_DAYS}.`);
+  }
+  return Math.min(Math.floor(value), MAX_DAYS);
+}
+
+/**
+ * Recipient filter as an address (names are resolved)
+ */
+async function parseRecipient(value: unknown): Promise<string | undefined> {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'recipient must be an address or name.');
+  }
+  try {
+    return (await resolveAddress(value)).address;
+  } catch (error) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Could not resolve recipient ${sanitizeString(value, 60)}: ${error instanceof Error ? error.message : error}`,
+      'Use a 0x address or a registered name.',
+    );
+  }
+}
+
+// ─── Limits ──────────────────────────────────────────────────────────
+
+/**
+ * Requested limit changes, validated and in stored form
+ */
+function parseLimitChanges(args: Record<string, unknown>): Partial<SpendingLimits> {
+  const changes: Partial<SpendingLimits> = {};
+  for (const key of LIMIT_KEYS) {
+    if (args[key] === undefined) continue;
+    const amount = normalizeLimitAmount(args[key]);
+    if (amount === null) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid ${key}: ${sanitizeString(String(args[key]), 20)}`, 'Use a USD amount like "5.00".');
+    }
+    changes[key] = amount;
+  }
+  return changes;
+}
+
+function updateLimits(args: Record<string, unknown>): string {
+  const changes = parseLimitChanges(args);
+  const current = getSpendingLimits();
+  if (Object.keys(changes).length === 0) {
+    return [formatSpendingSummary(), '', `💡 Pass ${LIMIT_KEYS.map((k) => `\`${k}\``).join(', ')} to lower a limit.`].join('\n');
+  }
+
+  const raised = raisedSpendingLimits(changes, current);
+  const lowered = LIMIT_KEYS.filter((key) => changes[key] !== undefined && !raised.includes(key));
+
+  if (lowered.length === 0) {
+    throw new ClaraError(
+      ClaraErrorCode.APPROVAL_REQUIRED,
+      `Raising ${raised.map((key) => `${key} ($${current[key]} → $${changes[key]})`).join(', ')} needs the human's confirmation.`,
+      'Only the human can raise a limit. Tell them which one you need raised and why.',
+    );
+  }
+
+  setSpendingLimits(Object.fromEntries(lowered.map((key) => [key, changes[key]])));
+  const lines = ['## ✅ Limits Updated', ''];
+  for (const key of lowered) {
+    lines.push(`- **${key}:** $${current[key]} → $${changes[key]}`);
+  }
+  if (raised.length > 0) {
+    lines.push('');
+    lines.push(`⏸️ Not changed: raising ${raised.join(', ')} is up to the human.`);
+  }
+  lines.push('', formatSpendingSummary());
+  return lines.join('\n');
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────
+
+/**
+ * Handle wallet_spending requests
+ */
+export async function handleSpendingRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  const action = ((args.action as string) || 'summary') as Action;
+  if (!ACTIONS.includes(action)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid action: ${sanitizeString(String(args.action), 20)}`, `Use one of: ${ACTIONS.join(', ')}`);
+  }
+
+  if (action === 'summary') {
+    return { content: [{ type: 'text', text: formatSpendingSummary() }] };
+  }
+
+  if (action === 'limits') {
+    return { content: [{ type: 'text', text: updateLimits(args) }] };
+  }
+
+  const days = parseDays(args.days);
+  const recipient = await parseRecipient(args.recipient);
+
+  if (action === 'history') {
+    return { content: [{ type: 'text', text: formatSpendingHistory(days, recipient) }] };
+  }
+
+  const format = ((args.format as string) || 'csv') as SpendingExportFormat;
+  if (!FORMATS.includes(format)) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid format: ${sanitizeString(String(args.format), 20)}`, `Use one of: ${FORMATS.join(', ')}`);
+  }
+  const records = getSpendingHistory(days, recipient);
+  const text = [
+    `## 📤 Spending Export (${records.length} payment${records.length === 1 ? '' : 's'}, last ${days} days${recipient ? `, to ${recipient}` : ''})`,
+    '',
+    '```' + format,
+    formatSpendingExport(records, format),
+    '```',
+  ].join('\n');
+  return { content: [{ type: 'text', text }] };
+}
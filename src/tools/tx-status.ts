@@ -0,0 +1,183 @@
+/**
+ * wallet_tx_status - Sent Transaction Status
+ *
+ * Sends return as soon as the transaction is broadcast, with a tracking
+ * ID. The transaction watcher polls for receipts in the background; this
+ * tool checks once more on demand and reports what it found: pending,
+ * confirmed, reverted, or replaced (another transaction took the nonce).
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { getExplorerTxUrl } from '../config/chains.js';
+import {
+  getTrackedTx,
+  listTrackedTxs,
+  type TrackedStatus,
+  type TrackedTransaction,
+} from '../storage/tracked-txs.js';
+import { pollTrackedTxs } from '../services/tx-watcher.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+const STATUS_ICONS: Record<TrackedStatus, string> = {
+  pending: '⏳',
+  confirmed: '✅',
+  reverted: '❌',
+  replaced: '🔁',
+};
+
+/**
+ * Tool definition for wallet_tx_status
+ */
+export const txStatusToolDefinition: Tool = {
+  name: 'wallet_tx_status',
+  description: `Check whether sent transactions have confirmed.
+
+Sends return right after broadcast with a tracking ID (\`trk_...\`); confirmation is tracked in the background.
+
+**Examples:**
+\`\`\`json
+{"id": "trk_3f2a9c01b7de"}
+{"id": "0x3f2a9c01b7de..."}
+{}
+\`\`\`
+
+Without \`id\`, lists your most recent transactions. Statuses: pending, confirmed, reverted, replaced (sped up, cancelled, or the nonce was used by another send).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Tracking ID (trk_...) or transaction hash',
+      },
+      limit: {
+        type: 'number',
+        default: DEFAULT_LIMIT,
+        description: `How many recent transactions to list when no id is given (max ${MAX_LIMIT})`,
+      },
+    },
+  },
+};
+
+// ─── Formatting ──────────────────────────────────────────────────────
+
+function statusLine(tx: TrackedTransaction): string {
+  switch (tx.status) {
+    case 'confirmed':
+      return `${STATUS_ICONS.confirmed} Confirmed in block ${tx.blockNumber}`;
+    case 'reverted':
+      return `${STATUS_ICONS.reverted} Reverted in block ${tx.blockNumber}`;
+    case 'replaced':
+      return `${STATUS_ICONS.replaced} Replaced${tx.replacedBy ? ` by \`${tx.replacedBy}\`` : ' by another transaction at the same nonce'}`;
+    default:
+      return `${STATUS_ICONS.pending} Pending`;
+  }
+}
+
+function toJson(tx: TrackedTransaction) {
+  return {
+    id: tx.id,
+    status: tx.status,
+    chain: tx.chain,
+    nonce: tx.nonce,
+    txHash: tx.txHash,
+    description: tx.description,
+    blockNumber: tx.blockNumber,
+    gasUsed: tx.gasUsed,
+    replacedBy: tx.replacedBy,
+    submittedAt: tx.submittedAt,
+    updatedAt: tx.updatedAt,
+  };
+}
+
+function formatOne(tx: TrackedTransaction): string {
+  const lines = [
+    `## ${STATUS_ICONS[tx.status]} ${tx.description ?? 'Transaction'}`,
+    '',
+    `**Status:** ${statusLine(tx)}`,
+    `**Tracking ID:** \`${tx.id}\``,
+    `**Chain:** ${tx.chain}`,
+    `**Nonce:** ${tx.nonce}`,
+    `**Transaction:** \`${tx.txHash}\``,
+    `🔗 [View on Explorer](${getExplorerTxUrl(tx.chain, tx.txHash)})`,
+    `**Submitted:** ${tx.submittedAt}`,
+  ];
+
+  if (tx.gasUsed) {
+    lines.push(`**Gas Used:** ${tx.gasUsed}`);
+  }
+  if (tx.status === 'pending') {
+    lines.push('', '💡 Still waiting for a receipt. If it stays pending, `wallet_pending` can speed it up or cancel it.');
+  }
+  if (tx.status === 'reverted') {
+    lines.push('', '💡 Use `wallet_analyze_tx` on the hash to see why it reverted.');
+  }
+
+  lines.push('', '---', '```json', JSON.stringify(toJson(tx), null, 2), '```');
+  return lines.join('\n');
+}
+
+function formatList(txs: TrackedTransaction[]): string {
+  const lines = ['## 📬 Recent Transactions', ''];
+  if (txs.length === 0) {
+    lines.push('_No tracked transactions yet._');
+    return lines.join('\n');
+  }
+
+  lines.push('| Status | ID | Chain | Nonce | Description | Submitted |');
+  lines.push('|--------|----|-------|-------|-------------|-----------|');
+  for (const tx of txs) {
+    lines.push(`| ${STATUS_ICONS[tx.status]} ${tx.status} | \`${tx.id}\` | ${tx.chain} | ${tx.nonce} | ${tx.description ?? '—'} | ${tx.submittedAt} |`);
+  }
+  lines.push('', '---', '```json', JSON.stringify(txs.map(toJson), null, 2), '```');
+  return lines.join('\n');
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────
+
+/**
+ * Handle wallet_tx_status requests
+ */
+export async function handleTxStatusRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  // Don't wait for the next background tick
+  try {
+    await pollTrackedTxs();
+  } catch (error) {
+    console.error('[tx-status] Poll failed:', error instanceof Error ? error.message : error);
+  }
+
+  const id = typeof args.id === 'string' ? args.id.trim() : '';
+  if (id) {
+    if (!/^(trk_[0-9a-fA-F]{12}|0x[0-9a-fA-F]{64})$/.test(id)) {
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        `Invalid id: ${id.slice(0, 20)}`,
+        'Pass a tracking ID (trk_ + 12 hex chars) or a full 0x transaction hash.',
+      );
+    }
+    const tx = getTrackedTx(id);
+    if (!tx || tx.from !== ctx.walletAddress.toLowerCase()) {
+      throw new ClaraError(
+        ClaraErrorCode.INVALID_INPUT,
+        `No tracked transaction: ${id}`,
+        'Only transactions sent from this wallet in the last 7 days are tracked. Use wallet_analyze_tx for any other hash.',
+      );
+    }
+    return { content: [{ type: 'text', text: formatOne(tx) }] };
+  }
+
+  const limit = Math.min(
+    typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : DEFAULT_LIMIT,
+    MAX_LIMIT,
+  );
+  const mine = listTrackedTxs()
+    .filter((tx) => tx.from === ctx.walletAddress.toLowerCase())
+    .slice(0, limit);
+  return { content: [{ type: 'text', text: formatList(mine) }] };
+}
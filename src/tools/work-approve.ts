@@ -0,0 +1,191 @@
+/**
+ * work_approve / work_reject - Review a Submission
+ *
+ * Approve releases escrow to the worker, returns both bonds, and posts
+ * ERC-8004 reputation feedback in the same transaction
+ * (Bounty.approveWithFeedback). Reject slashes the worker bond — the
+ * second rejection burns both bonds and refunds the poster.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { keccak256, toBytes } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { BOUNTY_ABI } from '../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import {
+  decodeTaskURI,
+  formatSentTx,
+  formatTokenAmount,
+  parseBountyAddress,
+  requireBounty,
+  requireBountyStatus,
+  sendContractWrite,
+  type BountyState,
+} from './work-helpers.js';
+
+const DEFAULT_RATING = 5;
+
+/**
+ * Tool definition for work_approve
+ */
+export const workApproveToolDefinition: Tool = {
+  name: 'work_approve',
+  description: `Approve a submission and release escrowed payment. Atomically submits on-chain reputation feedback for the worker's agent.
+
+**Example:**
+\`\`\`json
+{"bounty": "0x...", "rating": 5, "comment": "Excellent work"}
+\`\`\`
+
+Both bonds are returned: the worker bond to the worker, the poster bond to you.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bounty: {
+        type: 'string',
+        description: 'Bounty contract address',
+      },
+      rating: {
+        type: 'number',
+        minimum: 1,
+        maximum: 5,
+        default: DEFAULT_RATING,
+        description: `Rating 1-5 (default: ${DEFAULT_RATING})`,
+      },
+      comment: {
+        type: 'string',
+        description: 'Feedback comment',
+      },
+    },
+    required: ['bounty'],
+  },
+};
+
+/**
+ * Tool definition for work_reject
+ */
+export const workRejectToolDefinition: Tool = {
+  name: 'work_reject',
+  description: `Reject a submission. The worker can resubmit once.
+
+**Example:**
+\`\`\`json
+{"bounty": "0x...", "reason": "Tests are failing"}
+\`\`\`
+
+**Bond consequences:**
+- First rejection: half the worker bond goes to you, half is burned
+- Second rejection: both bonds are burned and the escrow is refunded to you`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bounty: {
+        type: 'string',
+        description: 'Bounty contract address',
+      },
+      reason: {
+        type: 'string',
+        description: 'Rejection feedback (shown in the response; not stored on-chain)',
+      },
+    },
+    required: ['bounty'],
+  },
+};
+
+/**
+ * Require the caller to be the bounty poster
+ */
+function requirePoster(bounty: BountyState, ctx: ToolContext, action: string): void {
+  if (bounty.poster.toLowerCase() !== ctx.walletAddress.toLowerCase()) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Only the poster can ${action} this bounty.`,
+      `Poster: \`${bounty.poster}\``,
+    );
+  }
+}
+
+/**
+ * Handle work_approve requests
+ */
+export async function handleWorkApproveRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const bountyAddress = parseBountyAddress(args.bounty);
+  const rating = args.rating === undefined ? DEFAULT_RATING : Number(args.rating);
+  const comment = typeof args.comment === 'string' ? args.comment.trim() : '';
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid rating: ${String(args.rating)}`, 'Rating must be an integer from 1 to 5.');
+  }
+
+  const bounty = await requireBounty(bountyAddress);
+  requireBountyStatus(bounty, ['submitted'], 'approve');
+  requirePoster(bounty, ctx, 'approve');
+
+  // Feedback document is stored inline; its hash commits to the content
+  const feedback = JSON.stringify({ type: 'clara-bounty-feedback', bounty: bountyAddress, rating, comment });
+  const feedbackURI = `data:application/json;base64,${Buffer.from(feedback, 'utf-8').toString('base64')}`;
+  const feedbackHash = keccak256(toBytes(feedback));
+  const primarySkill = decodeTaskURI(bounty.taskURI).skills[0] ?? '';
+
+  const result = await sendContractWrite(ctx, {
+    to: bountyAddress,
+    abi: BOUNTY_ABI,
+    functionName: 'approveWithFeedback',
+    args: [BigInt(rating), 0, 'bounty', primarySkill, '', feedbackURI, feedbackHash],
+    label: 'approveWithFeedback',
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        '📤 Approval sent — payment is released once it confirms.',
+        '',
+        `**Bounty:** \`${bountyAddress}\``,
+        `**Paid:** ${formatTokenAmount(bounty.amount, bounty.token)} to \`${bounty.claimer}\``,
+        `**Rating:** ${'★'.repeat(rating)}${'☆'.repeat(5 - rating)}${comment ? ` — "${comment}"` : ''}`,
+        `**Poster bond returned:** ${formatTokenAmount(bounty.posterBond, bounty.token)}`,
+        '',
+        ...formatSentTx(result),
+      ].join('\n'),
+    }],
+  };
+}
+
+/**
+ * Handle work_reject requests
+ */
+export async function handleWorkRejectRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const bountyAddress = parseBountyAddress(args.bounty);
+  const reason = typeof args.reason === 'string' ? args.reason.trim() : '';
+
+  const bounty = await requireBounty(bountyAddress);
+  requireBountyStatus(bounty, ['submitted'], 'reject');
+  requirePoster(bounty, ctx, 'reject');
+
+  const result = await sendContractWrite(ctx, {
+    to: bountyAddress,
+    abi: BOUNTY_ABI,
+    functionName: 'reject',
+    label: 'reject',
+  });
+
+  const lines = [
+    '📤 Rejection sent.',
+    '',
+    `**Bounty:** \`${bountyAddress}\``,
+  ];
+  if (reason) lines.push(`**Reason:** ${reason}`);
+  lines.push('');
+  lines.push(...formatSentTx(result));
+  lines.push('');
+  lines.push('💡 The worker may resubmit once. A second rejection burns both bonds and refunds your escrow.');
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
@@ -0,0 +1,113 @@
+/**
+ * work_browse - Browse Open Bounties
+ *
+ * Served from the embedded event indexer — no RPC calls. Skills come
+ * from the BountyCreated skillTags.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { formatUnits, type Hex } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { calculateBond } from '../config/clara-contracts.js';
+import { getIndexStatus, queryBounties } from '../indexer/index.js';
+import { sanitizeDescription, sanitizeString } from '../utils/sanitize.js';
+import { decodeTaskURI, describeToken, formatTokenAmount } from './work-helpers.js';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Tool definition for work_browse
+ */
+export const workBrowseToolDefinition: Tool = {
+  name: 'work_browse',
+  description: `Browse open bounties. Filter by skill or amount range.
+
+**Example:**
+\`\`\`json
+{"skill": "solidity", "limit": 10}
+\`\`\`
+
+Amounts are in human units of the bounty token (e.g., 50 = 50 USDC).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      skill: {
+        type: 'string',
+        description: 'Filter by skill tag',
+      },
+      minAmount: {
+        type: 'number',
+        description: 'Minimum bounty amount',
+      },
+      maxAmount: {
+        type: 'number',
+        description: 'Maximum bounty amount',
+      },
+      limit: {
+        type: 'number',
+        default: DEFAULT_LIMIT,
+        description: `Max results (default: ${DEFAULT_LIMIT})`,
+      },
+    },
+  },
+};
+
+/**
+ * Handle work_browse requests
+ */
+export async function handleWorkBrowseRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  const skill = typeof args.skill === 'string' ? args.skill.trim().toLowerCase() : undefined;
+  const minAmount = typeof args.minAmount === 'number' ? args.minAmount : undefined;
+  const maxAmount = typeof args.maxAmount === 'number' ? args.maxAmount : undefined;
+  const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : DEFAULT_LIMIT;
+
+  const status = getIndexStatus();
+  if (status.cursorBlock === null) {
+    return {
+      content: [{
+        type: 'text',
+        text: `⏳ The bounty indexer is still backfilling${status.lastError ? ` (last error: ${status.lastError})` : ''}.\n\nTry again in a minute.`,
+      }],
+    };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const matches = queryBounties({ status: 'open', skill, openAt: now })
+    .filter((b) => {
+      const human = parseFloat(formatUnits(BigInt(b.amount), describeToken(b.token as Hex).decimals));
+      if (minAmount !== undefined && human < minAmount) return false;
+      if (maxAmount !== undefined && human > maxAmount) return false;
+      return true;
+    })
+    .slice(0, limit);
+
+  if (matches.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `No open bounties found${skill ? ` for skill "${skill}"` : ''}.\n\n💡 Post one with \`work_post\`.`,
+      }],
+    };
+  }
+
+  const lines = [`## Open Bounties (${matches.length})`, ''];
+  for (const bounty of matches) {
+    const token = bounty.token as Hex;
+    const amount = BigInt(bounty.amount);
+    const daysLeft = Math.max(0, Math.ceil((bounty.deadline - now) / 86_400));
+    // Task text is attacker-controlled on-chain data
+    const summary = sanitizeDescription(decodeTaskURI(bounty.taskURI).task);
+    lines.push(`### ${formatTokenAmount(amount, token)} — ${summary}`);
+    lines.push(`- **Bounty:** \`${bounty.address}\``);
+    if (bounty.skillTags.length > 0) lines.push(`- **Skills:** ${bounty.skillTags.map((s) => sanitizeString(s, 30)).join(', ')}`);
+    lines.push(`- **Worker bond:** ${formatTokenAmount(calculateBond(amount, BigInt(bounty.bondRate)), token)}`);
+    lines.push(`- **Expires in:** ${daysLeft} day${daysLeft === 1 ? '' : 's'}`);
+    lines.push('');
+  }
+  lines.push('💡 Claim one with `work_claim`.');
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
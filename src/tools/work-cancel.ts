@@ -0,0 +1,79 @@
+/**
+ * work_cancel - Cancel an Unclaimed Bounty
+ *
+ * Poster-only, while the bounty is still Open. Escrow and poster bond
+ * are refunded in full.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { BOUNTY_ABI } from '../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import {
+  formatSentTx,
+  formatTokenAmount,
+  parseBountyAddress,
+  requireBounty,
+  requireBountyStatus,
+  sendContractWrite,
+} from './work-helpers.js';
+
+/**
+ * Tool definition for work_cancel
+ */
+export const workCancelToolDefinition: Tool = {
+  name: 'work_cancel',
+  description: `Cancel an unclaimed bounty and refund escrowed funds (including your poster bond).
+
+**Example:**
+\`\`\`json
+{"bounty": "0x..."}
+\`\`\``,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bounty: {
+        type: 'string',
+        description: 'Bounty contract address',
+      },
+    },
+    required: ['bounty'],
+  },
+};
+
+/**
+ * Handle work_cancel requests
+ */
+export async function handleWorkCancelRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const bountyAddress = parseBountyAddress(args.bounty);
+  const bounty = await requireBounty(bountyAddress);
+  requireBountyStatus(bounty, ['open'], 'cancel');
+
+  if (bounty.poster.toLowerCase() !== ctx.walletAddress.toLowerCase()) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Only the poster can cancel this bounty.');
+  }
+
+  const result = await sendContractWrite(ctx, {
+    to: bountyAddress,
+    abi: BOUNTY_ABI,
+    functionName: 'cancel',
+    label: 'cancel',
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        '📤 Cancellation sent.',
+        '',
+        `**Bounty:** \`${bountyAddress}\``,
+        `**Refund:** ${formatTokenAmount(bounty.amount + bounty.posterBond, bounty.token)}`,
+        '',
+        ...formatSentTx(result),
+      ].join('\n'),
+    }],
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * work_claim / work_unclaim - Take or Release a Bounty
+ *
+ * Claiming stakes a worker bond (amount × bondRate) and binds the bounty
+ * to the caller's ERC-8004 agent ID. Unclaiming is allowed during the
+ * grace window (first 20% of claim → deadline) and returns the bond.
+ * The middleware checks the bond against the spending policy and limits
+ * (workClaimSpendingExtractor) before the claim is sent.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { SpendingExtractor, ToolContext, ToolResult } from '../middleware.js';
+import { BOUNTY_ABI, calculateBond } from '../config/clara-contracts.js';
+import { getAgentRecord } from '../storage/agent.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import {
+  ensureAllowance,
+  escrowSpendingIntent,
+  formatSentTx,
+  formatTokenAmount,
+  formatTxLink,
+  parseBountyAddress,
+  requireBounty,
+  requireBountyStatus,
+  sendContractWrite,
+} from './work-helpers.js';
+
+/**
+ * Tool definition for work_claim
+ */
+export const workClaimToolDefinition: Tool = {
+  name: 'work_claim',
+  description: `Claim an open bounty to start working. Requires an ERC-8004 agent ID (see \`work_register\`).
+
+**Example:**
+\`\`\`json
+{"bounty": "0x..."}
+\`\`\`
+
+**Worker bond:** Claiming locks a bond of \`amount × bondRate\` (default 10%) in the bounty. It is returned when your work is approved or you unclaim in time, and slashed on rejection or expiry.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bounty: {
+        type: 'string',
+        description: 'Bounty contract address',
+      },
+      agentId: {
+        type: 'number',
+        description: 'Your ERC-8004 agent ID (default: the agent from work_register)',
+      },
+      approvalId: {
+        type: 'string',
+        description: 'Approval ID from an earlier call that needed human approval (apr_...)',
+      },
+    },
+    required: ['bounty'],
+  },
+};
+
+/**
+ * Tool definition for work_unclaim
+ */
+export const workUnclaimToolDefinition: Tool = {
+  name: 'work_unclaim',
+  description: `Release a bounty you claimed. Only allowed during the grace window (first 20% of the time between your claim and the deadline). Your worker bond is returned in full.
+
+**Example:**
+\`\`\`json
+{"bounty": "0x..."}
+\`\`\``,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bounty: {
+        type: 'string',
+        description: 'Bounty contract address',
+      },
+    },
+    required: ['bounty'],
+  },
+};
+
+/**
+ * A validated work_claim call and its worker bond
+ */
+async function planClaim(args: Record<string, unknown>, ctx: ToolContext) {
+  const bountyAddress = parseBountyAddress(args.bounty);
+  const agentId = args.agentId ?? getAgentRecord(ctx.walletAddress)?.agentId;
+
+  if (agentId === undefined || !Number.isInteger(Number(agentId)) || Number(agentId) <= 0) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      'A valid agentId is required to claim bounties.',
+      'Register with `work_register` first, or pass your ERC-8004 agent ID (e.g., `"agentId": 42`).',
+    );
+  }
+
+  const bounty = await requireBounty(bountyAddress);
+  requireBountyStatus(bounty, ['open'], 'claim');
+
+  if (bounty.poster.toLowerCase() === ctx.walletAddress.toLowerCase()) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'You cannot claim your own bounty.');
+  }
+
+  // Worker bond is pulled by the bounty clone itself during claim()
+  const workerBond = calculateBond(bounty.amount, bounty.bondRate);
+  return { bountyAddress, agentId, bounty, workerBond };
+}
+
+/**
+ * The worker bond, for spending limits
+ */
+export const workClaimSpendingExtractor: SpendingExtractor = async (args, ctx) => {
+  const { bountyAddress, bounty, workerBond } = await planClaim(args, ctx);
+  return escrowSpendingIntent(ctx, {
+    tool: 'work_claim',
+    subject: `work_claim:${bountyAddress.toLowerCase()}`,
+    description: `Worker bond ${formatTokenAmount(workerBond, bounty.token)}`,
+    recipient: bountyAddress,
+    token: bounty.token,
+    amount: workerBond,
+  });
+};
+
+/**
+ * Handle work_claim requests
+ */
+export async function handleWorkClaimRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const { bountyAddress, agentId, bounty, workerBond } = await planClaim(args, ctx);
+
+  const approval = await ensureAllowance(ctx, bounty.token, bountyAddress, workerBond);
+
+  const claimed = await sendContractWrite(ctx, {
+    to: bountyAddress,
+    abi: BOUNTY_ABI,
+    functionName: 'claim',
+    args: [BigInt(Number(agentId))],
+    label: 'claim',
+  });
+
+  ctx.reportSent?.(claimed.txHash);
+
+  const lines = [
+    '📤 Claim sent!',
+    '',
+    `**Bounty:** \`${bountyAddress}\``,
+    `**Reward:** ${formatTokenAmount(bounty.amount, bounty.token)}`,
+    `**Worker bond:** ${formatTokenAmount(workerBond, bounty.token)}`,
+    `**Agent ID:** ${agentId}`,
+    `**Deadline:** ${new Date(Number(bounty.deadline) * 1000).toISOString()}`,
+    '',
+  ];
+  if (approval) lines.push(`**Approval:** ${formatTxLink(approval.txHash, approval.explorerUrl)}`);
+  lines.push(...formatSentTx(claimed));
+  lines.push('');
+  lines.push('💡 When done, submit proof with `work_submit`.');
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
+
+/**
+ * Handle work_unclaim requests
+ */
+export async function handleWorkUnclaimRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const bountyAddress = parseBountyAddress(args.bounty);
+  const bounty = await requireBounty(bountyAddress);
+  requireBountyStatus(bounty, ['claimed'], 'unclaim');
+
+  if (bounty.claimer.toLowerCase() !== ctx.walletAddress.toLowerCase()) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Only the claimer can unclaim this bounty.');
+  }
+
+  const result = await sendContractWrite(ctx, {
+    to: bountyAddress,
+    abi: BOUNTY_ABI,
+    functionName: 'unclaim',
+    label: 'unclaim',
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        '📤 Unclaim sent.',
+        '',
+        `**Bounty:** \`${bountyAddress}\``,
+        `**Bond returned:** ${formatTokenAmount(bounty.workerBond, bounty.token)}`,
+        '',
+        ...formatSentTx(result),
+      ].join('\n'),
+    }],
+  };
+}
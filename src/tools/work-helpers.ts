@@ -0,0 +1,492 @@
+/**
+ * Shared helpers for the work_* bounty tools
+ *
+ * Every bounty action follows the same shape: encode a call against
+ * BountyFactory or a Bounty clone, simulate it, sign via Para, and wait
+ * for the receipt. These helpers keep that pipeline (and the escrow
+ * allowance dance) in one place so each tool stays focused on its inputs.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  encodeFunctionData,
+  formatUnits,
+  http,
+  isAddress,
+  type Abi,
+  type ContractFunctionName,
+  type Hex,
+  type TransactionReceipt,
+} from 'viem';
+import { signAndSendTransaction } from '../para/transactions.js';
+import type { SpendingIntent, ToolContext } from '../middleware.js';
+import { CHAINS, getExplorerTxUrl, getRpcUrl } from '../config/chains.js';
+import { TOKENS } from '../config/tokens.js';
+import {
+  BOUNTY_ABI,
+  CLARA_CHAIN,
+  ERC20_APPROVE_ABI,
+  IDENTITY_REGISTRY_ABI,
+  bountyStatusName,
+  getClaraContracts,
+  type BountyStatus,
+} from '../config/clara-contracts.js';
+import { priceAmount } from '../services/pricing.js';
+import { getAgentsByOwner, getIndexedAgent } from '../indexer/index.js';
+import { resolveAddress } from '../services/resolve-address.js';
+import { requireContract } from '../gas-preflight.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+
+// ─── Client ──────────────────────────────────────────────────────────
+
+/**
+ * Public client for the chain the marketplace contracts live on
+ */
+export function getWorkClient() {
+  return createPublicClient({
+    chain: CHAINS[CLARA_CHAIN].chain,
+    transport: http(getRpcUrl(CLARA_CHAIN)),
+  });
+}
+
+// ─── Input Parsing ───────────────────────────────────────────────────
+
+/**
+ * Validate a bounty address argument
+ */
+export function parseBountyAddress(input: unknown): Hex {
+  if (typeof input !== 'string' || !isAddress(input)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid bounty address: ${String(input ?? '(missing)')}`,
+      'Pass the bounty contract address (0x...). Use `work_browse` to find open bounties.',
+    );
+  }
+  return input as Hex;
+}
+
+// ─── Agents ──────────────────────────────────────────────────────────
+
+export interface AgentRef {
+  agentId: string;
+  owner: Hex;
+  /** How the caller referred to the agent (name, address, or #id) */
+  label: string;
+}
+
+/**
+ * Resolve an agent from `agentId`, `address`, or `name` args.
+ * Names and addresses go through resolveAddress, then the indexer maps
+ * the owner to its first registered agent. IDs not yet indexed fall back
+ * to IdentityRegistry.ownerOf.
+ */
+export async function resolveAgent(args: Record<string, unknown>): Promise<AgentRef> {
+  if (args.agentId !== undefined) {
+    const id = Number(args.agentId);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid agentId: ${String(args.agentId)}`);
+    }
+    const indexed = getIndexedAgent(id);
+    if (indexed) return { agentId: indexed.agentId, owner: indexed.owner as Hex, label: `#${id}` };
+
+    try {
+      const owner = await getWorkClient().readContract({
+        address: getClaraContracts().identityRegistry,
+        abi: IDENTITY_REGISTRY_ABI,
+        functionName: 'ownerOf',
+        args: [BigInt(id)],
+      });
+      return { agentId: String(id), owner, label: `#${id}` };
+    } catch {
+      throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Agent #${id} does not exist.`);
+    }
+  }
+
+  const input = typeof args.address === 'string' && args.address.trim()
+    ? args.address
+    : typeof args.name === 'string' && args.name.trim() ? args.name : undefined;
+  if (!input) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      'Missing agent.',
+      'Pass `agentId`, `address`, or `name` (e.g., "brian" for brian.claraid.eth).',
+    );
+  }
+
+  let resolved;
+  try {
+    resolved = await resolveAddress(input);
+  } catch (error) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Cannot resolve "${input}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const [agent] = getAgentsByOwner(resolved.address);
+  if (!agent) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `No ERC-8004 agent found for ${resolved.displayName ?? resolved.address}.`,
+      'If it registered recently, the indexer may not have caught up yet — try `agentId` instead.',
+    );
+  }
+  return {
+    agentId: agent.agentId,
+    owner: agent.owner as Hex,
+    label: resolved.displayName ?? resolved.address,
+  };
+}
+
+// ─── Task URIs ───────────────────────────────────────────────────────
+
+export interface TaskDescriptor {
+  task: string;
+  skills: string[];
+}
+
+const JSON_DATA_URI_PREFIX = 'data:application/json;base64,';
+
+/**
+ * Encode a task as a data: URI so it lives entirely on-chain
+ */
+export function encodeTaskURI(descriptor: TaskDescriptor): string {
+  const json = JSON.stringify({ type: 'clara-bounty-task', ...descriptor });
+  return JSON_DATA_URI_PREFIX + Buffer.from(json, 'utf-8').toString('base64');
+}
+
+/**
+ * Decode a task URI written by encodeTaskURI.
+ * Other URIs (IPFS, HTTP) are returned as the task text with no skills.
+ */
+export function decodeTaskURI(uri: string): TaskDescriptor {
+  if (uri.startsWith(JSON_DATA_URI_PREFIX)) {
+    try {
+      const json = Buffer.from(uri.slice(JSON_DATA_URI_PREFIX.length), 'base64').toString('utf-8');
+      const parsed = JSON.parse(json) as Partial<TaskDescriptor>;
+      return {
+        task: typeof parsed.task === 'string' ? parsed.task : '',
+        skills: Array.isArray(parsed.skills) ? parsed.skills.filter((s): s is string => typeof s === 'string') : [],
+      };
+    } catch {
+      // Malformed payload — fall through to raw URI
+    }
+  }
+  return { task: uri, skills: [] };
+}
+
+// ─── Bounty State ────────────────────────────────────────────────────
+
+export interface BountyState {
+  address: Hex;
+  poster: Hex;
+  claimer: Hex;
+  token: Hex;
+  amount: bigint;
+  deadline: bigint;
+  taskURI: string;
+  status: BountyStatus;
+  bondRate: bigint;
+  posterBond: bigint;
+  workerBond: bigint;
+}
+
+/**
+ * Read the fields of a Bounty clone that the work tools need
+ */
+export async function readBountyState(address: Hex): Promise<BountyState> {
+  const client = getWorkClient();
+  const read = <T>(functionName: ContractFunctionName<typeof BOUNTY_ABI, 'view'>) =>
+    client.readContract({ address, abi: BOUNTY_ABI, functionName }) as Promise<T>;
+
+  const [poster, claimer, token, amount, deadline, taskURI, status, bondRate, posterBond, workerBond] =
+    await Promise.all([
+      read<Hex>('poster'),
+      read<Hex>('claimer'),
+      read<Hex>('token'),
+      read<bigint>('amount'),
+      read<bigint>('deadline'),
+      read<string>('taskURI'),
+      read<number>('status'),
+      read<bigint>('bondRate'),
+      read<bigint>('posterBond'),
+      read<bigint>('workerBond'),
+    ]);
+
+  return {
+    address,
+    poster,
+    claimer,
+    token,
+    amount,
+    deadline,
+    taskURI,
+    status: bountyStatusName(Number(status)),
+    bondRate,
+    posterBond,
+    workerBond,
+  };
+}
+
+/**
+ * Require a deployed Bounty clone and return its state
+ */
+export async function requireBounty(address: Hex): Promise<BountyState> {
+  await requireContract(CLARA_CHAIN, address, 'bounty');
+  return readBountyState(address);
+}
+
+/**
+ * Require the bounty to be in one of the given states
+ */
+export function requireBountyStatus(bounty: BountyState, allowed: BountyStatus[], action: string): void {
+  if (!allowed.includes(bounty.status)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Cannot ${action}: bounty is ${bounty.status}.`,
+      `This action requires status ${allowed.join(' or ')}.`,
+      { bounty: bounty.address, status: bounty.status },
+    );
+  }
+}
+
+// ─── Token Formatting ────────────────────────────────────────────────
+
+/**
+ * Look up symbol + decimals for a token on the marketplace chain
+ */
+export function describeToken(address: Hex): { symbol: string; decimals: number } {
+  const known = Object.values(TOKENS[CLARA_CHAIN]).find(
+    (t) => t.address.toLowerCase() === address.toLowerCase(),
+  );
+  return known
+    ? { symbol: known.symbol, decimals: known.decimals }
+    : { symbol: `${address.slice(0, 6)}…${address.slice(-4)}`, decimals: 18 };
+}
+
+/**
+ * Format a raw token amount with its symbol (e.g. "50 USDC")
+ */
+export function formatTokenAmount(amount: bigint, token: Hex): string {
+  const { symbol, decimals } = describeToken(token);
+  return `${formatUnits(amount, decimals)} ${symbol}`;
+}
+
+// ─── Spending Limits ─────────────────────────────────────────────────
+
+/**
+ * Funds a work_* or challenge_* tool moves into escrow
+ */
+export interface EscrowPayment {
+  tool: string;
+  /** What a human approval covers */
+  subject: string;
+  /** e.g. "Bounty escrow 11 USDC" */
+  description: string;
+  recipient: Hex;
+  token: Hex;
+  amount: bigint;
+}
+
+/**
+ * Spending intent for an escrow deposit, priced like any other payment.
+ * The handler reports the transaction through `ctx.reportSent`.
+ */
+export async function escrowSpendingIntent(ctx: ToolContext, payment: EscrowPayment): Promise<SpendingIntent> {
+  const priced = await priceAmount(CLARA_CHAIN, payment.token, payment.amount, ctx.walletAddress);
+  return {
+    tool: payment.tool,
+    subject: payment.subject,
+    chain: CLARA_CHAIN,
+    value: { perCall: [[priced]], usd: priced.usd ?? 0, unpriced: priced.usd === null ? [priced] : [] },
+    recipient: payment.recipient,
+    description: payment.description,
+  };
+}
+
+// ─── Transaction Pipeline ────────────────────────────────────────────
+
+/**
+ * The contract's custom error for a revert, or viem's message for anything else
+ */
+function describeRevert(error: unknown): string {
+  if (!(error instanceof BaseError)) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError && revert.data) {
+    const { errorName, args } = revert.data;
+    return `${errorName}${args?.length ? `(${args.map(String).join(', ')})` : ''}`;
+  }
+  return error.shortMessage;
+}
+
+export interface ContractWrite {
+  to: Hex;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  /** Human label for errors and logs (e.g. "createBounty") */
+  label: string;
+  /** Suggestion shown when simulation fails (defaults to a bounty hint) */
+  hint?: string;
+}
+
+export interface ContractWriteResult {
+  txHash: Hex;
+  explorerUrl: string;
+  /** wallet_tx_status ID; confirmation is tracked in the background */
+  trackingId?: string;
+}
+
+export interface ConfirmedContractWrite extends ContractWriteResult {
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Simulate, sign, and send a contract call on the marketplace chain.
+ * Returns as soon as it's broadcast; the transaction watcher follows it
+ * from there.
+ *
+ * @throws ClaraError(SIMULATION_FAILED) if the call would revert
+ */
+export async function sendContractWrite(
+  ctx: ToolContext,
+  write: ContractWrite,
+): Promise<ContractWriteResult> {
+  const client = getWorkClient();
+  const call = { abi: write.abi, functionName: write.functionName, args: write.args ?? [] };
+  const data = encodeFunctionData(call);
+
+  try {
+    await client.simulateContract({ ...call, account: ctx.walletAddress, address: write.to });
+  } catch (simError) {
+    throw new ClaraError(
+      ClaraErrorCode.SIMULATION_FAILED,
+      `${write.label} would fail: ${describeRevert(simError)}`,
+      write.hint ?? 'Check the bounty status and your token balance.',
+    );
+  }
+
+  const { txHash, trackingId } = await signAndSendTransaction(ctx.session.walletId!, {
+    to: write.to,
+    value: 0n,
+    data,
+    chainId: CHAINS[CLARA_CHAIN].chainId,
+    description: write.label,
+  });
+
+  console.error(`[clara] ${write.label} sent: ${txHash}`);
+  return { txHash, trackingId, explorerUrl: getExplorerTxUrl(CLARA_CHAIN, txHash) };
+}
+
+/**
+ * sendContractWrite, then wait for the receipt. Only for calls whose logs
+ * the tool reads, or that a following call in the same tool depends on.
+ * `onSent` runs as soon as the call is broadcast, before the wait, so a
+ * deposit is reported even if its confirmation times out.
+ *
+ * @throws ClaraError(SIMULATION_FAILED) if the call would revert
+ * @throws ClaraError(TX_REVERTED) if the mined transaction failed
+ */
+export async function sendAndConfirmContractWrite(
+  ctx: ToolContext,
+  write: ContractWrite,
+  onSent?: (sent: ContractWriteResult) => void,
+): Promise<ConfirmedContractWrite> {
+  const sent = await sendContractWrite(ctx, write);
+  onSent?.(sent);
+
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await getWorkClient().waitForTransactionReceipt({ hash: sent.txHash, timeout: 120_000 });
+  } catch {
+    throw new ClaraError(
+      ClaraErrorCode.UNKNOWN,
+      `${write.label} submitted but confirmation timed out.`,
+      sent.trackingId ? `Check status with wallet_tx_status (id: "${sent.trackingId}").` : `Check status: ${sent.explorerUrl}`,
+      { txHash: sent.txHash },
+    );
+  }
+
+  if (receipt.status !== 'success') {
+    throw new ClaraError(
+      ClaraErrorCode.TX_REVERTED,
+      `${write.label} reverted on-chain.`,
+      `Check details: ${sent.explorerUrl}`,
+      { txHash: sent.txHash },
+    );
+  }
+
+  return { ...sent, receipt };
+}
+
+/**
+ * Make sure `spender` may pull `amount` of `token` from the wallet.
+ * Sends an exact-amount approve only when the current allowance is short.
+ *
+ * @returns The approve result, or null if no approval was needed
+ */
+export async function ensureAllowance(
+  ctx: ToolContext,
+  token: Hex,
+  spender: Hex,
+  amount: bigint,
+): Promise<ContractWriteResult | null> {
+  if (amount === 0n) return null;
+  const client = getWorkClient();
+
+  const [allowance, balance] = await Promise.all([
+    client.readContract({
+      address: token,
+      abi: ERC20_APPROVE_ABI,
+      functionName: 'allowance',
+      args: [ctx.walletAddress, spender],
+    }),
+    client.readContract({
+      address: token,
+      abi: ERC20_APPROVE_ABI,
+      functionName: 'balanceOf',
+      args: [ctx.walletAddress],
+    }),
+  ]);
+
+  if (balance < amount) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Insufficient token balance: need ${formatTokenAmount(amount, token)}, have ${formatTokenAmount(balance, token)}.`,
+      'Fund your wallet (see `wallet_dashboard`) and try again.',
+    );
+  }
+
+  if (allowance >= amount) return null;
+
+  // The call that spends the allowance is simulated next, so wait for it
+  return sendAndConfirmContractWrite(ctx, {
+    to: token,
+    abi: ERC20_APPROVE_ABI,
+    functionName: 'approve',
+    args: [spender, amount],
+    label: 'Token approval',
+  });
+}
+
+/**
+ * Markdown link to a transaction on the explorer
+ */
+export function formatTxLink(txHash: Hex, explorerUrl: string): string {
+  return `[${txHash.slice(0, 10)}...${txHash.slice(-8)}](${explorerUrl})`;
+}
+
+/**
+ * Result lines for a write that was sent but not waited for
+ */
+export function formatSentTx(result: ContractWriteResult): string[] {
+  const lines = [`**Transaction:** ${formatTxLink(result.txHash, result.explorerUrl)}`];
+  if (result.trackingId) {
+    lines.push(`**Tracking ID:** \`${result.trackingId}\` — check confirmation with \`wallet_tx_status\``);
+  }
+  return lines;
+}
@@ -0,0 +1,153 @@
+/**
+ * work_keeper - Release Funds Stuck Behind Expired Deadlines
+ *
+ * Finds the wallet's bounties and challenges whose lifecycle call is due
+ * (autoApprove, expire, advanceToScoring, finalize, claimExpiredRefund)
+ * and prepares each as a simulated transaction.
+ *
+ * Without `execute`, actions are listed with their preparedTxIds so they
+ * can be run one at a time via wallet_executePrepared. With `execute`,
+ * they are sent in bulk within the transaction and gas caps.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import {
+  executeKeeperActions,
+  findKeeperActions,
+  prepareKeeperActions,
+  type KeeperExecution,
+  type PreparedKeeperAction,
+} from '../services/keeper.js';
+
+const DEFAULT_MAX_TRANSACTIONS = 10;
+const DEFAULT_MAX_GAS = 3_000_000;
+
+/** expire → claimExpiredRefund needs a second pass once the first lands */
+const MAX_PASSES = 2;
+
+/**
+ * Tool definition for work_keeper
+ */
+export const workKeeperToolDefinition: Tool = {
+  name: 'work_keeper',
+  description: `Find bounties and challenges you're part of whose deadlines have passed, and prepare the calls that release the locked funds.
+
+**Examples:**
+\`\`\`json
+{}
+{"execute": true, "maxTransactions": 5}
+\`\`\`
+
+Covers autoApprove (review period over), expire (deadline passed on your bounty), and challenge advanceToScoring / finalize / expire / claimExpiredRefund.
+
+Without \`execute\`, each action is returned as a preparedTxId for \`wallet_executePrepared\`.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      execute: {
+        type: 'boolean',
+        default: false,
+        description: 'Send all due actions now (default: false — list only)',
+      },
+      maxTransactions: {
+        type: 'number',
+        default: DEFAULT_MAX_TRANSACTIONS,
+        description: `Max transactions to send (default: ${DEFAULT_MAX_TRANSACTIONS})`,
+      },
+      maxGas: {
+        type: 'number',
+        default: DEFAULT_MAX_GAS,
+        description: `Max total gas across all transactions (default: ${DEFAULT_MAX_GAS.toLocaleString()})`,
+      },
+    },
+  },
+};
+
+/**
+ * One-line summary of a prepared keeper action
+ */
+export function formatKeeperAction({ action, prepared }: PreparedKeeperAction): string {
+  const simulation = prepared.simulation.success
+    ? `\`${prepared.id}\``
+    : `⚠️ simulation failed: ${prepared.simulation.error}`;
+  return `- **${action.functionName}** on ${action.kind} \`${action.address}\` — ${action.reason} (${simulation})`;
+}
+
+function formatExecution(result: KeeperExecution): string {
+  const link = result.explorerUrl ? ` — [View](${result.explorerUrl})` : '';
+  return result.error
+    ? `- ❌ **${result.action.functionName}** \`${result.action.address}\`: ${result.error}${link}`
+    : `- ✅ **${result.action.functionName}** \`${result.action.address}\`${link}`;
+}
+
+/**
+ * Handle work_keeper requests
+ */
+export async function handleWorkKeeperRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const execute = args.execute === true;
+  const maxTransactions = typeof args.maxTransactions === 'number' && args.maxTransactions > 0
+    ? Math.floor(args.maxTransactions)
+    : DEFAULT_MAX_TRANSACTIONS;
+  const maxGas = typeof args.maxGas === 'number' && args.maxGas > 0
+    ? BigInt(Math.floor(args.maxGas))
+    : BigInt(DEFAULT_MAX_GAS);
+
+  const prepared = await prepareKeeperActions(ctx.walletAddress, await findKeeperActions(ctx.walletAddress));
+
+  if (prepared.length === 0) {
+    return {
+      content: [{ type: 'text', text: 'ℹ️ No lifecycle actions are due for your bounties or challenges.' }],
+    };
+  }
+
+  if (!execute) {
+    const lines = [
+      `## ⏰ ${prepared.length} Pending Action${prepared.length === 1 ? '' : 's'}`,
+      '',
+      ...prepared.map(formatKeeperAction),
+      '',
+      '💡 Run them all with `work_keeper` `{"execute": true}`, or one at a time with `wallet_executePrepared preparedTxId="..."`.',
+    ];
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
+  }
+
+  const executed: KeeperExecution[] = [];
+  const skipped: KeeperExecution[] = [];
+  let pending = prepared;
+  let gasSpent = 0n;
+
+  for (let pass = 1; pass <= MAX_PASSES && pending.length > 0; pass++) {
+    const result = await executeKeeperActions(ctx, pending, {
+      maxTransactions: maxTransactions - executed.length,
+      maxGas: maxGas - gasSpent,
+    });
+    for (const item of result.executed) {
+      gasSpent += pending.find((p) => p.action === item.action)!.prepared.simulation.gasEstimate;
+    }
+    executed.push(...result.executed);
+
+    if (pass === MAX_PASSES || result.executed.length === 0 || executed.length >= maxTransactions) {
+      skipped.push(...result.skipped);
+      break;
+    }
+
+    // Re-scan: picks up follow-ups this pass unlocked (e.g. a refund after expire)
+    // and re-offers anything skipped that is still due
+    const done = new Set(executed.map((e) => `${e.action.address}:${e.action.functionName}`));
+    pending = (await prepareKeeperActions(ctx.walletAddress, await findKeeperActions(ctx.walletAddress)))
+      .filter((p) => !done.has(`${p.action.address}:${p.action.functionName}`));
+  }
+
+  const lines = [`## ⏰ Keeper: ${executed.length} sent, ${skipped.length} skipped`, ''];
+  lines.push(...executed.map(formatExecution));
+  lines.push(...skipped.map(formatExecution));
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: executed.length === 0,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * work_post - Create a Bounty with ERC-20 Escrow
+ *
+ * Flow:
+ * 1. Read the factory's bondRate and compute the poster bond
+ * 2. Approve the factory for amount + bond (skipped if allowance suffices)
+ * 3. BountyFactory.createBounty → clone holds the escrow
+ * 4. Parse BountyCreated for the new bounty address
+ *
+ * The middleware checks the deposit against the spending policy and
+ * limits (workPostSpendingExtractor) before the handler runs.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { parseEventLogs, parseUnits, type Hex } from 'viem';
+import type { SpendingExtractor, ToolContext, ToolResult } from '../middleware.js';
+import { resolveToken } from '../config/tokens.js';
+import {
+  BOUNTY_FACTORY_ABI,
+  CLARA_CHAIN,
+  calculateBond,
+  getClaraContracts,
+} from '../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import {
+  encodeTaskURI,
+  ensureAllowance,
+  escrowSpendingIntent,
+  formatTokenAmount,
+  formatTxLink,
+  getWorkClient,
+  sendAndConfirmContractWrite,
+} from './work-helpers.js';
+
+const DEFAULT_DEADLINE_DAYS = 7;
+const MAX_DEADLINE_DAYS = 365;
+
+/**
+ * Tool definition for work_post
+ */
+export const workPostToolDefinition: Tool = {
+  name: 'work_post',
+  description: `Create a bounty with ERC-20 escrow on Base. Funds are locked until work is approved or the bounty is cancelled/expired.
+
+**Example:**
+\`\`\`json
+{"task": "Audit the staking contract", "amount": "50", "token": "USDC", "skills": ["solidity"], "deadline": 7}
+\`\`\`
+
+**Escrow:** You deposit \`amount\` plus a poster bond (the factory's \`bondRate\`, default 10%). The bond is returned on approve, cancel, or expiry.
+
+Two transactions are sent when needed: a token approval, then \`createBounty\`.
+
+⚠️ This tool locks real funds.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      task: {
+        type: 'string',
+        description: 'Task description',
+      },
+      amount: {
+        type: 'string',
+        description: 'Bounty amount in human units (e.g., "50" for 50 USDC)',
+      },
+      token: {
+        type: 'string',
+        default: 'USDC',
+        description: 'Token symbol or address (default: USDC)',
+      },
+      skills: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Required skill tags for filtering (e.g., ["solidity", "auditing"])',
+      },
+      deadline: {
+        type: 'number',
+        default: DEFAULT_DEADLINE_DAYS,
+        description: `Days until the bounty expires (default: ${DEFAULT_DEADLINE_DAYS})`,
+      },
+      approvalId: {
+        type: 'string',
+        description: 'Approval ID from an earlier call that needed human approval (apr_...)',
+      },
+    },
+    required: ['task', 'amount'],
+  },
+};
+
+/**
+ * A validated work_post call and its escrow math
+ */
+async function planBounty(args: Record<string, unknown>) {
+  const task = typeof args.task === 'string' ? args.task.trim() : '';
+  const amount = args.amount as string | undefined;
+  const tokenInput = (args.token as string | undefined) || 'USDC';
+  const skills = Array.isArray(args.skills)
+    ? (args.skills as unknown[]).filter((s): s is string => typeof s === 'string' && s.trim() !== '').map((s) => s.trim().toLowerCase())
+    : [];
+  const deadlineDays = args.deadline === undefined ? DEFAULT_DEADLINE_DAYS : Number(args.deadline);
+
+  if (!task) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Missing task description.');
+  }
+  if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Invalid amount. Must be a positive number.');
+  }
+  if (!Number.isFinite(deadlineDays) || deadlineDays <= 0 || deadlineDays > MAX_DEADLINE_DAYS) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid deadline: ${String(args.deadline)}`,
+      `Deadline is in days, between 1 and ${MAX_DEADLINE_DAYS}.`,
+    );
+  }
+
+  const token = resolveToken(tokenInput, CLARA_CHAIN);
+  if (!token) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Unknown token: ${tokenInput}`,
+      'Supported: USDC, USDT, DAI, WETH (or provide contract address)',
+    );
+  }
+
+  const factory = getClaraContracts().bounty.factory;
+
+  // ─── Escrow Math ─────────────────────────────────────────────────
+
+  const amountRaw = parseUnits(amount, token.decimals);
+  const bondRate = await getWorkClient().readContract({
+    address: factory,
+    abi: BOUNTY_FACTORY_ABI,
+    functionName: 'bondRate',
+  });
+  const posterBond = calculateBond(amountRaw, bondRate);
+
+  return {
+    task,
+    skills,
+    token,
+    factory,
+    amountRaw,
+    bondRate,
+    posterBond,
+    totalDeposit: amountRaw + posterBond,
+    deadlineDays,
+  };
+}
+
+/**
+ * The bounty deposit (amount + poster bond), for spending limits
+ */
+export const workPostSpendingExtractor: SpendingExtractor = async (args, ctx) => {
+  const { task, token, factory, totalDeposit } = await planBounty(args);
+  return escrowSpendingIntent(ctx, {
+    tool: 'work_post',
+    subject: `work_post:${token.address}:${totalDeposit}:${task}`,
+    description: `Bounty escrow ${formatTokenAmount(totalDeposit, token.address)}`,
+    recipient: factory,
+    token: token.address,
+    amount: totalDeposit,
+  });
+};
+
+/**
+ * Handle work_post requests
+ */
+export async function handleWorkPostRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const { task, skills, token, factory, amountRaw, bondRate, posterBond, totalDeposit, deadlineDays } = await planBounty(args);
+  const deadline = BigInt(Math.floor(Date.now() / 1000 + deadlineDays * 86_400));
+
+  // ─── Approve + Create ────────────────────────────────────────────
+
+  const approval = await ensureAllowance(ctx, token.address, factory, totalDeposit);
+
+  const created = await sendAndConfirmContractWrite(ctx, {
+    to: factory,
+    abi: BOUNTY_FACTORY_ABI,
+    functionName: 'createBounty',
+    args: [token.address, amountRaw, deadline, encodeTaskURI({ task, skills }), skills],
+    label: 'createBounty',
+  }, (sent) => ctx.reportSent?.(sent.txHash));
+
+  const [event] = parseEventLogs({
+    abi: BOUNTY_FACTORY_ABI,
+    eventName: 'BountyCreated',
+    logs: created.receipt.logs,
+  });
+  const bountyAddress = event?.args.bountyAddress as Hex | undefined;
+
+  // The clone holds the deposit; its address is only known from the receipt
+  ctx.reportSent?.(created.txHash, bountyAddress);
+
+  const lines = [
+    '✅ Bounty posted!',
+    '',
+    `**Bounty:** ${bountyAddress ? `\`${bountyAddress}\`` : '(address not found in receipt)'}`,
+    `**Reward:** ${formatTokenAmount(amountRaw, token.address)}`,
+    `**Poster bond:** ${formatTokenAmount(posterBond, token.address)} (${Number(bondRate) / 100}%)`,
+    `**Deadline:** ${new Date(Number(deadline) * 1000).toISOString()}`,
+  ];
+  if (skills.length > 0) lines.push(`**Skills:** ${skills.join(', ')}`);
+  lines.push('');
+  if (approval) lines.push(`**Approval:** ${formatTxLink(approval.txHash, approval.explorerUrl)}`);
+  lines.push(`**Transaction:** ${formatTxLink(created.txHash, created.explorerUrl)}`);
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
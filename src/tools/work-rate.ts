@@ -0,0 +1,164 @@
+/**
+ * work_rate - Submit Standalone ERC-8004 Feedback
+ *
+ * Same two-phase pattern as wallet_call:
+ * 1. work_rate encodes ReputationRegistry.giveFeedback and simulates it
+ *    → returns a preparedTxId
+ * 2. wallet_executePrepared sends the exact simulated calldata
+ *
+ * Bounty posters don't need this — work_approve posts feedback
+ * atomically. This is for rating agents outside an approval (e.g. a
+ * worker rating a poster, or feedback after a challenge).
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { BaseError, encodeFunctionData, keccak256, toBytes } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { CHAINS } from '../config/chains.js';
+import {
+  CLARA_CHAIN,
+  REPUTATION_REGISTRY_ABI,
+  getClaraContracts,
+} from '../config/clara-contracts.js';
+import { storePreparedTx, getPreparedTx, formatPreparedTx, type PreparedTransaction } from '../para/prepared-tx.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { getWorkClient, resolveAgent } from './work-helpers.js';
+
+const DEFAULT_TAG = 'peer';
+
+/**
+ * Tool definition for work_rate
+ */
+export const workRateToolDefinition: Tool = {
+  name: 'work_rate',
+  description: `Rate another agent with on-chain ERC-8004 feedback. Prepares and simulates the transaction; execute it with \`wallet_executePrepared\`.
+
+**Example:**
+\`\`\`json
+{"name": "brian", "rating": 5, "comment": "Great collaborator", "skill": "solidity"}
+\`\`\`
+
+Identify the agent by \`agentId\`, \`address\`, or \`name\`. You cannot rate an agent you own.
+
+Feedback from a bounty approval is posted automatically by \`work_approve\` — use this for everything else.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      agentId: {
+        type: 'number',
+        description: 'ERC-8004 agent ID to rate',
+      },
+      address: {
+        type: 'string',
+        description: 'Agent owner address',
+      },
+      name: {
+        type: 'string',
+        description: 'Clara name (e.g., "brian" for brian.claraid.eth) or ENS name',
+      },
+      rating: {
+        type: 'number',
+        minimum: 1,
+        maximum: 5,
+        description: 'Rating 1-5',
+      },
+      comment: {
+        type: 'string',
+        description: 'Feedback comment',
+      },
+      tag: {
+        type: 'string',
+        default: DEFAULT_TAG,
+        description: `Feedback category (default: "${DEFAULT_TAG}")`,
+      },
+      skill: {
+        type: 'string',
+        description: 'Skill the feedback is about (stored as the secondary tag)',
+      },
+    },
+    required: ['rating'],
+  },
+};
+
+/**
+ * Handle work_rate requests
+ */
+export async function handleWorkRateRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const rating = Number(args.rating);
+  const comment = typeof args.comment === 'string' ? args.comment.trim() : '';
+  const tag = typeof args.tag === 'string' && args.tag.trim() ? args.tag.trim().toLowerCase() : DEFAULT_TAG;
+  const skill = typeof args.skill === 'string' ? args.skill.trim().toLowerCase() : '';
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `Invalid rating: ${String(args.rating)}`, 'Rating must be an integer from 1 to 5.');
+  }
+
+  const agent = await resolveAgent(args);
+  if (agent.owner.toLowerCase() === ctx.walletAddress.toLowerCase()) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, `You own agent #${agent.agentId} and cannot rate it.`);
+  }
+
+  // Feedback document is stored inline; its hash commits to the content
+  const feedback = JSON.stringify({ type: 'clara-feedback', agentId: agent.agentId, rating, comment, tag, skill });
+  const feedbackURI = `data:application/json;base64,${Buffer.from(feedback, 'utf-8').toString('base64')}`;
+  const feedbackHash = keccak256(toBytes(feedback));
+
+  const registry = getClaraContracts().reputationRegistry;
+  const data = encodeFunctionData({
+    abi: REPUTATION_REGISTRY_ABI,
+    functionName: 'giveFeedback',
+    args: [BigInt(agent.agentId), BigInt(rating), 0, tag, skill, '', feedbackURI, feedbackHash],
+  });
+
+  // ─── Simulate ────────────────────────────────────────────────────
+
+  let simulation: PreparedTransaction['simulation'];
+  try {
+    const gasEstimate = await getWorkClient().estimateGas({
+      account: ctx.walletAddress,
+      to: registry,
+      data,
+      value: 0n,
+    });
+    simulation = { success: true, gasEstimate, gasEstimateFormatted: gasEstimate.toLocaleString() };
+  } catch (error) {
+    simulation = {
+      success: false,
+      gasEstimate: 0n,
+      gasEstimateFormatted: '0',
+      error: error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const preparedTxId = storePreparedTx({
+    to: registry,
+    data,
+    value: 0n,
+    chainId: CHAINS[CLARA_CHAIN].chainId,
+    chain: CLARA_CHAIN,
+    contractName: 'ERC-8004 ReputationRegistry',
+    functionName: 'giveFeedback',
+    functionSignature: 'giveFeedback(uint256,int128,uint8,string,string,string,string,bytes32)',
+    args: [agent.agentId, String(rating), '0', tag, skill, '', '(feedback data URI)', feedbackHash],
+    simulation,
+  });
+
+  const lines = [
+    `**Rating:** ${'⭐'.repeat(rating)} (${rating}/5) for agent #${agent.agentId}${agent.label.startsWith('#') ? '' : ` (${agent.label})`}`,
+  ];
+  if (comment) lines.push(`**Comment:** ${comment}`);
+  lines.push('');
+  lines.push(formatPreparedTx(getPreparedTx(preparedTxId)!));
+  lines.push('');
+  lines.push(simulation.success
+    ? `💡 To submit this feedback:\n\`wallet_executePrepared preparedTxId="${preparedTxId}"\``
+    : '⚠️ Simulation failed. Fix the issue before executing.');
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: !simulation.success,
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * work_register - Mint an ERC-8004 Agent Identity
+ *
+ * Flow:
+ * 1. Build the AgentRegistration file (services, skills, agentWallet, x402Support)
+ * 2. Simulate IdentityRegistry.register to learn the agentId it will mint,
+ *    so the file can include its own `registrations` entry
+ * 3. Register with the file as a data: URI (or a caller-pinned URI)
+ * 4. Read the minted agentId from the Registered event
+ * 5. Optionally link the claraid.eth name via the gateway's /ens/register
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { BaseError, parseEventLogs } from 'viem';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { CLARA_CHAIN, IDENTITY_REGISTRY_ABI, getClaraContracts } from '../config/clara-contracts.js';
+import { getChainId } from '../config/chains.js';
+import { proxyFetch } from '../auth/proxy-fetch.js';
+import { getAgentRecord, saveAgentRecord } from '../storage/agent.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import { formatTxLink, getWorkClient, sendAndConfirmContractWrite } from './work-helpers.js';
+
+const GATEWAY_BASE =
+  process.env.CLARA_PROXY_URL || 'https://clara-proxy.bflynn4141.workers.dev';
+
+const PARENT_DOMAIN = 'claraid.eth';
+
+/**
+ * Tool definition for work_register
+ */
+export const workRegisterToolDefinition: Tool = {
+  name: 'work_register',
+  description: `Register as an ERC-8004 agent. Creates your on-chain identity so you can post and claim bounties.
+
+**Example:**
+\`\`\`json
+{"name": "CodeBot", "skills": ["solidity", "typescript"], "description": "Smart contract auditor", "ensName": "codebot"}
+\`\`\`
+
+Builds an \`AgentRegistration\` file (services, skills, \`agentWallet\` as \`eip155:8453:<address>\`) and stores it on-chain as a data URI. Pass \`registrationURI\` to register a file you pinned yourself instead.
+
+Returns the minted \`agentId\`, which \`work_claim\` uses automatically afterwards.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Agent display name',
+      },
+      skills: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Skill tags (e.g., ["solidity", "auditing"])',
+      },
+      description: {
+        type: 'string',
+        description: 'Short agent description',
+      },
+      services: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Service endpoints (URLs)',
+      },
+      ensName: {
+        type: 'string',
+        description: `Clara name to link (e.g., "brian" for brian.${PARENT_DOMAIN})`,
+      },
+      x402Support: {
+        type: 'boolean',
+        default: true,
+        description: 'Whether the agent accepts x402 payments (default: true)',
+      },
+      registrationURI: {
+        type: 'string',
+        description: 'Pinned URI (ipfs:// or https://) to register instead of an inline data URI',
+      },
+    },
+    required: ['name', 'skills'],
+  },
+};
+
+// ─── Registration File ──────────────────────────────────
+
+export interface AgentRegistration {
+  type: 'AgentRegistration';
+  name: string;
+  description: string;
+  services: Array<{ type: string; endpoint: string }>;
+  skills: string[];
+  x402Support: boolean;
+  active: boolean;
+  registrations: Array<{ agentRegistry: string; agentId: string }>;
+}
+
+/**
+ * Build the AgentRegistration file described in the README
+ */
+export function buildAgentRegistration(params: {
+  name: string;
+  description?: string;
+  skills: string[];
+  services?: string[];
+  ensName?: string;
+  walletAddress: string;
+  x402Support?: boolean;
+  agentId?: string;
+}): AgentRegistration {
+  const { identityRegistry } = getClaraContracts();
+  const services: AgentRegistration['services'] = [];
+
+  if (params.ensName) {
+    services.push({ type: 'ENS', endpoint: `${params.ensName}.${PARENT_DOMAIN}` });
+  }
+  services.push({
+    type: 'agentWallet',
+    endpoint: `eip155:${getChainId(CLARA_CHAIN)}:${params.walletAddress}`,
+  });
+  for (const endpoint of params.services ?? []) {
+    services.push({ type: 'web', endpoint });
+  }
+
+  return {
+    type: 'AgentRegistration',
+    name: params.name,
+    description: params.description ?? '',
+    services,
+    skills: params.skills,
+    x402Support: params.x402Support ?? true,
+    active: true,
+    registrations: params.agentId
+      ? [{ agentRegistry: identityRegistry, agentId: params.agentId }]
+      : [],
+  };
+}
+
+/**
+ * Encode a registration file as a base64 JSON data URI
+ */
+export function encodeRegistrationURI(registration: AgentRegistration): string {
+  const json = JSON.stringify(registration);
+  return `data:application/json;base64,${Buffer.from(json, 'utf-8').toString('base64')}`;
+}
+
+// ─── ENS Link ───────────────────────────────────────────
+
+/**
+ * Link (or claim) a claraid.eth name with the agentId via the gateway.
+ * Returns an error string instead of throwing — the mint already succeeded.
+ */
+async function linkClaraName(
+  ctx: ToolContext,
+  ensName: string,
+  agentId: string,
+): Promise<string | null> {
+  try {
+    const response = await proxyFetch(
+      `${GATEWAY_BASE}/ens/register`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: ensName,
+          address: ctx.walletAddress,
+          agentId: Number(agentId),
+        }),
+      },
+      { walletAddress: ctx.walletAddress, sessionKey: ctx.sessionKey },
+    );
+
+    if (response.ok) return null;
+
+    const result = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    if (result.error === 'name_taken') return `${ensName}.${PARENT_DOMAIN} is owned by \`${result.owner}\``;
+    if (result.error === 'address_has_name') return `your wallet already has ${result.existingName}.${PARENT_DOMAIN}`;
+    return String(result.error || result.message || response.statusText);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Network error';
+  }
+}
+
+// ─── Handler ────────────────────────────────────────────
+
+/**
+ * Handle work_register requests
+ */
+export async function handleWorkRegisterRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const name = typeof args.name === 'string' ? args.name.trim() : '';
+  const skills = Array.isArray(args.skills)
+    ? (args.skills as unknown[]).filter((s): s is string => typeof s === 'string' && s.trim() !== '').map((s) => s.trim().toLowerCase())
+    : [];
+  const description = typeof args.description === 'string' ? args.description.trim() : undefined;
+  const services = Array.isArray(args.services)
+    ? (args.services as unknown[]).filter((s): s is string => typeof s === 'string' && s.trim() !== '')
+    : [];
+  const ensName = typeof args.ensName === 'string' && args.ensName.trim()
+    ? args.ensName.trim().toLowerCase().replace(/\.claraid\.eth$/, '')
+    : undefined;
+  const x402Support = args.x402Support === undefined ? true : Boolean(args.x402Support);
+  const pinnedURI = typeof args.registrationURI === 'string' ? args.registrationURI.trim() : undefined;
+
+  if (!name) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Missing agent name.');
+  }
+  if (skills.length === 0) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'At least one skill is required.', 'e.g. `"skills": ["solidity"]`');
+  }
+  if (pinnedURI && !/^(ipfs|ar|https):\/\//i.test(pinnedURI)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      `Invalid registrationURI: ${pinnedURI}`,
+      'Use an ipfs://, ar://, or https:// URI.',
+    );
+  }
+
+  const existing = getAgentRecord(ctx.walletAddress);
+  if (existing) {
+    return {
+      content: [{
+        type: 'text',
+        text: [
+          `ℹ️ This wallet is already registered as agent **#${existing.agentId}** (${existing.name}).`,
+          '',
+          `**Registered:** ${existing.registeredAt}`,
+        ].join('\n'),
+      }],
+    };
+  }
+
+  const { identityRegistry } = getClaraContracts();
+  const client = getWorkClient();
+
+  // Predict the agentId so the file can reference its own registration
+  const draft = buildAgentRegistration({ name, description, skills, services, ensName, walletAddress: ctx.walletAddress, x402Support });
+  let predictedId: string | undefined;
+  try {
+    const { result } = await client.simulateContract({
+      account: ctx.walletAddress,
+      address: identityRegistry,
+      abi: IDENTITY_REGISTRY_ABI,
+      functionName: 'register',
+      args: [pinnedURI ?? encodeRegistrationURI(draft)],
+    });
+    predictedId = result.toString();
+  } catch (error) {
+    throw new ClaraError(
+      ClaraErrorCode.SIMULATION_FAILED,
+      `Registration would fail: ${error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const registration = buildAgentRegistration({
+    name, description, skills, services, ensName, walletAddress: ctx.walletAddress, x402Support, agentId: predictedId,
+  });
+  const registrationURI = pinnedURI ?? encodeRegistrationURI(registration);
+
+  const minted = await sendAndConfirmContractWrite(ctx, {
+    to: identityRegistry,
+    abi: IDENTITY_REGISTRY_ABI,
+    functionName: 'register',
+    args: [registrationURI],
+    label: 'register',
+  });
+
+  const [event] = parseEventLogs({
+    abi: IDENTITY_REGISTRY_ABI,
+    eventName: 'Registered',
+    logs: minted.receipt.logs,
+  });
+  const agentId = event?.args.agentId?.toString() ?? predictedId;
+
+  saveAgentRecord({
+    agentId,
+    address: ctx.walletAddress,
+    name,
+    registry: identityRegistry,
+    chainId: getChainId(CLARA_CHAIN),
+    registrationURI,
+    ensName,
+    txHash: minted.txHash,
+    registeredAt: new Date().toISOString(),
+  });
+
+  const lines = [
+    `✅ Registered as agent **#${agentId}**!`,
+    '',
+    `**Name:** ${name}`,
+    `**Skills:** ${skills.join(', ')}`,
+    `**Wallet:** \`${ctx.walletAddress}\``,
+    `**Registry:** \`${identityRegistry}\``,
+    `**Registration file:** ${pinnedURI ?? 'inline data URI'}`,
+    '',
+    `**Transaction:** ${formatTxLink(minted.txHash, minted.explorerUrl)}`,
+  ];
+
+  if (agentId !== predictedId && !pinnedURI) {
+    lines.push('');
+    lines.push(`⚠️ Another registration landed first — the file lists agentId ${predictedId}, but you were minted #${agentId}.`);
+  }
+
+  if (ensName) {
+    const linkError = await linkClaraName(ctx, ensName, agentId);
+    lines.push('');
+    lines.push(linkError
+      ? `⚠️ Could not link ${ensName}.${PARENT_DOMAIN}: ${linkError}`
+      : `🔗 Linked **${ensName}.${PARENT_DOMAIN}** to agent #${agentId}`);
+  }
+
+  lines.push('');
+  lines.push('💡 Browse bounties with `work_browse` and claim one with `work_claim`.');
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
@@ -0,0 +1,127 @@
+/**
+ * work_reputation - Agent Reputation and Feedback History
+ *
+ * Served from the embedded event indexer (ERC-8004 ReputationRegistry
+ * NewFeedback / FeedbackRevoked). Revoked feedback is excluded from both
+ * the score and the history.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { getAgentProfile, getIndexStatus, getReputation, type IndexedFeedback } from '../indexer/index.js';
+import { sanitizeString } from '../utils/sanitize.js';
+import { resolveAgent } from './work-helpers.js';
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Tool definition for work_reputation
+ */
+export const workReputationToolDefinition: Tool = {
+  name: 'work_reputation',
+  description: `View an agent's reputation: aggregated score, bounty track record, and feedback history.
+
+**Examples:**
+\`\`\`json
+{"agentId": 42}
+{"address": "0x..."}
+{"name": "brian"}
+\`\`\`
+
+Names resolve through claraid.eth (or any .eth name). Scores are the mean of all non-revoked ERC-8004 feedback.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      agentId: {
+        type: 'number',
+        description: 'ERC-8004 agent ID',
+      },
+      address: {
+        type: 'string',
+        description: 'Agent owner address',
+      },
+      name: {
+        type: 'string',
+        description: 'Clara name (e.g., "brian" for brian.claraid.eth) or ENS name',
+      },
+      limit: {
+        type: 'number',
+        default: DEFAULT_LIMIT,
+        description: `Max feedback entries to list (default: ${DEFAULT_LIMIT})`,
+      },
+    },
+  },
+};
+
+/**
+ * Render a feedback value with its decimals applied
+ */
+function formatFeedbackValue(fb: IndexedFeedback): string {
+  const value = Number(fb.value) / 10 ** fb.valueDecimals;
+  return Number.isInteger(value) ? String(value) : value.toFixed(Math.min(fb.valueDecimals, 2));
+}
+
+/**
+ * Handle work_reputation requests
+ */
+export async function handleWorkReputationRequest(
+  args: Record<string, unknown>,
+  _ctx: ToolContext,
+): Promise<ToolResult> {
+  const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : DEFAULT_LIMIT;
+
+  const status = getIndexStatus();
+  if (status.cursorBlock === null) {
+    return {
+      content: [{
+        type: 'text',
+        text: `⏳ The reputation indexer is still backfilling${status.lastError ? ` (last error: ${status.lastError})` : ''}.\n\nTry again in a minute.`,
+      }],
+    };
+  }
+
+  const agent = await resolveAgent(args);
+  const profile = getAgentProfile({ agentId: agent.agentId });
+  const reputation = profile?.reputation ?? getReputation(agent.agentId);
+
+  const lines = [
+    `## Agent #${agent.agentId}${agent.label.startsWith('#') ? '' : ` (${agent.label})`}`,
+    '',
+    `**Owner:** \`${agent.owner}\``,
+    `**Score:** ${reputation.average === null ? 'no feedback yet' : `${reputation.average.toFixed(2)} from ${reputation.count} review${reputation.count === 1 ? '' : 's'}`}`,
+  ];
+  if (profile) {
+    lines.push(`**Bounties:** ${profile.bountiesCompleted} completed, ${profile.bountiesInProgress} in progress, ${profile.bountiesPosted} posted`);
+  }
+
+  // Per-tag breakdown (tag1 is "bounty" for feedback posted via work_approve)
+  const byTag = new Map<string, { total: number; count: number }>();
+  for (const fb of reputation.feedback) {
+    const tag = fb.tag1 || 'untagged';
+    const entry = byTag.get(tag) ?? { total: 0, count: 0 };
+    entry.total += Number(fb.value) / 10 ** fb.valueDecimals;
+    entry.count++;
+    byTag.set(tag, entry);
+  }
+  if (byTag.size > 1) {
+    lines.push(`**By tag:** ${[...byTag].map(([tag, { total, count }]) => `${sanitizeString(tag, 30)} ${(total / count).toFixed(2)} (${count})`).join(', ')}`);
+  }
+
+  if (reputation.feedback.length > 0) {
+    lines.push('');
+    lines.push(`### Recent Feedback (${Math.min(limit, reputation.feedback.length)} of ${reputation.count})`);
+    lines.push('');
+    lines.push('| Date | From | Value | Tags |');
+    lines.push('|------|------|-------|------|');
+    for (const fb of reputation.feedback.slice(0, limit)) {
+      // Tags are attacker-controlled on-chain strings
+      const tags = [fb.tag1, fb.tag2].filter(Boolean).map((t) => sanitizeString(t, 30).replace(/\|/g, '/')).join(', ');
+      lines.push(`| ${new Date(fb.timestamp * 1000).toISOString().slice(0, 10)} | \`${fb.client.slice(0, 10)}…\` | ${formatFeedbackValue(fb)} | ${tags || '—'} |`);
+    }
+  }
+
+  lines.push('');
+  lines.push('💡 Leave feedback with `work_rate`.');
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
@@ -0,0 +1,97 @@
+/**
+ * work_submit - Submit Proof of Work
+ *
+ * Records a proof URI on the bounty. Allowed from Claimed (first
+ * submission) or Rejected (resubmission, max two rejections).
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext, ToolResult } from '../middleware.js';
+import { BOUNTY_ABI } from '../config/clara-contracts.js';
+import { ClaraError, ClaraErrorCode } from '../errors.js';
+import {
+  formatSentTx,
+  parseBountyAddress,
+  requireBounty,
+  requireBountyStatus,
+  sendContractWrite,
+} from './work-helpers.js';
+
+/**
+ * Tool definition for work_submit
+ */
+export const workSubmitToolDefinition: Tool = {
+  name: 'work_submit',
+  description: `Submit proof of completed work. Proof can be an HTTP URL or data: URI.
+
+**Example:**
+\`\`\`json
+{"bounty": "0x...", "proof": "https://github.com/user/repo/pull/42"}
+\`\`\`
+
+The poster then has 72 hours to approve or reject; after that anyone can trigger auto-approval.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bounty: {
+        type: 'string',
+        description: 'Bounty contract address',
+      },
+      proof: {
+        type: 'string',
+        description: 'Proof URI (HTTP URL or data: URI)',
+      },
+    },
+    required: ['bounty', 'proof'],
+  },
+};
+
+/**
+ * Handle work_submit requests
+ */
+export async function handleWorkSubmitRequest(
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const bountyAddress = parseBountyAddress(args.bounty);
+  const proof = typeof args.proof === 'string' ? args.proof.trim() : '';
+
+  if (!/^(https?:\/\/|data:|ipfs:\/\/)/i.test(proof)) {
+    throw new ClaraError(
+      ClaraErrorCode.INVALID_INPUT,
+      'Invalid proof URI.',
+      'Proof must be an http(s) URL, ipfs:// URI, or data: URI.',
+    );
+  }
+
+  const bounty = await requireBounty(bountyAddress);
+  requireBountyStatus(bounty, ['claimed', 'rejected'], 'submit work');
+
+  if (bounty.claimer.toLowerCase() !== ctx.walletAddress.toLowerCase()) {
+    throw new ClaraError(ClaraErrorCode.INVALID_INPUT, 'Only the claimer can submit work for this bounty.');
+  }
+
+  const result = await sendContractWrite(ctx, {
+    to: bountyAddress,
+    abi: BOUNTY_ABI,
+    functionName: 'submitWork',
+    args: [proof],
+    label: 'submitWork',
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        `📤 Work ${bounty.status === 'rejected' ? 'resubmission' : 'submission'} sent!`,
+        '',
+        `**Bounty:** \`${bountyAddress}\``,
+        `**Proof:** ${proof.length > 100 ? `${proof.slice(0, 97)}...` : proof}`,
+        '',
+        ...formatSentTx(result),
+        '',
+        '💡 The poster has 72 hours to review before auto-approval becomes available.',
+      ].join('\n'),
+    }],
+  };
+}
@@ -87,7 +87,7 @@ export function decodeContractError(error: unknown): DecodedContractError {
     return {
       signature: signature || '0x????????',
       message: 'Transaction underpriced (gas too low)',
-      suggestion: 'Increase gas price or wait for the pending transaction to confirm.',
+      suggestion: 'Use wallet_pending to speed up or cancel the pending transaction, or wait for it to confirm.',
     };
   }
   
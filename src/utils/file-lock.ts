@@ -0,0 +1,73 @@
+/**
+ * Cross-Process File Lock
+ *
+ * Clara keeps its state in small JSON files under ~/.clara, and two Clara
+ * processes can share a wallet (e.g. two MCP clients). Every
+ * read-modify-write of a shared file runs under `<file>.lock`, created
+ * with O_EXCL and holding the owner's PID, so one process's update can't
+ * overwrite another's.
+ */
+
+import { closeSync, mkdirSync, openSync, readFileSync, statSync, unlinkSync, writeSync } from 'fs';
+import { dirname } from 'path';
+
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 20;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * A lock is stale when its owner is gone or it outlived any critical section
+ */
+function isStaleLock(lockPath: string): boolean {
+  try {
+    if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) return true;
+    const pid = Number(readFileSync(lockPath, 'utf-8'));
+    if (!pid) return false;
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    // EPERM: owner is alive (another user). ESRCH: owner exited without
+    // cleaning up. ENOENT: released meanwhile — retry right away.
+    return (error as NodeJS.ErrnoException).code !== 'EPERM';
+  }
+}
+
+/**
+ * Run a short synchronous critical section under a file's lock.
+ * Hold it only for file I/O; RPC calls belong outside.
+ */
+export function withFileLock<T>(file: string, fn: () => T): T {
+  const lockPath = `${file}.lock`;
+  mkdirSync(dirname(file), { recursive: true, mode: 0o700 });
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, 'wx', 0o600);
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      if (isStaleLock(lockPath)) {
+        console.error(`[lock] Removing stale lock ${lockPath}`);
+        try { unlinkSync(lockPath); } catch { /* another process got there first */ }
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the lock ${lockPath}. Another Clara process may be stuck; delete the file if not.`);
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    try { unlinkSync(lockPath); } catch { /* best-effort */ }
+  }
+}
@@ -1,3 +1,5 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
@@ -8,5 +10,15 @@ export default defineConfig({
       'dist/**',
       'contracts/**',  // Exclude Solidity/Foundry tests
     ],
+    env: {
+      // Keep prepared/pending/tracked transactions, nonce state, spending, approvals, and policy out of the real ~/.clara
+      CLARA_PREPARED_DIR: join(tmpdir(), `clara-test-prepared-${process.pid}`),
+      CLARA_PENDING_FILE: join(tmpdir(), `clara-test-pending-${process.pid}.json`),
+      CLARA_NONCE_FILE: join(tmpdir(), `clara-test-nonces-${process.pid}.json`),
+      CLARA_TX_FILE: join(tmpdir(), `clara-test-transactions-${process.pid}.json`),
+      CLARA_SPENDING_FILE: join(tmpdir(), `clara-test-spending-${process.pid}.json`),
+      CLARA_APPROVALS_DIR: join(tmpdir(), `clara-test-approvals-${process.pid}`),
+      CLARA_POLICY_FILE: join(tmpdir(), `clara-test-policy-${process.pid}.json`),
+    },
   },
 });